@@ -0,0 +1,142 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import React from 'react'
+import { act, render, screen } from '@testing-library/react'
+import { Pin, usePinProgress } from '@/components/scroll/Pin'
+import { LenisContext, LenisContextValue } from '@/providers/LenisProvider'
+
+const createScroller = (overrides: Partial<LenisContextValue> = {}) => {
+  const listeners = new Set<() => void>()
+  const lenis = {
+    scroll: 0,
+    on: jest.fn((_event: string, callback: () => void) => listeners.add(callback)),
+    off: jest.fn((_event: string, callback: () => void) => listeners.delete(callback)),
+  }
+
+  const value: LenisContextValue = {
+    lenis: lenis as any,
+    scrollState: { progress: 0, velocity: 0, direction: 'down', activeSection: '', isScrolling: false },
+    isReady: true,
+    scrollTo: jest.fn(),
+    updateScrollState: jest.fn(),
+    registerSnapPoint: jest.fn(() => () => {}),
+    paginate: jest.fn(() => false),
+    orientation: 'vertical',
+    element: null,
+    parent: null,
+    recorder: null,
+    ...overrides,
+  }
+
+  const scrollTo = (scroll: number) => act(() => {
+    lenis.scroll = scroll
+    listeners.forEach(callback => callback())
+  })
+
+  return { value, lenis, scrollTo }
+}
+
+const ProgressProbe = () => {
+  const progress = usePinProgress()
+  const [latest, setLatest] = React.useState(progress.get())
+  React.useEffect(() => progress.on('change', setLatest), [progress])
+  return <span data-testid="progress">{latest}</span>
+}
+
+describe('Pin', () => {
+  beforeEach(() => {
+    jest.spyOn(HTMLElement.prototype, 'offsetHeight', 'get').mockReturnValue(400)
+    jest.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockReturnValue(300)
+    Object.defineProperty(window, 'innerHeight', { value: 800, configurable: true })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('reserves the pinned distance after the element', () => {
+    const { value } = createScroller()
+    const { container } = render(
+      <LenisContext.Provider value={value}>
+        <Pin distance="150vh">content</Pin>
+      </LenisContext.Provider>
+    )
+
+    expect(container.querySelector('[data-pin-spacer]')).toHaveStyle({ height: '1600px' })
+  })
+
+  it('holds the element for its distance and reports progress', () => {
+    const { value, scrollTo } = createScroller()
+    render(
+      <LenisContext.Provider value={value}>
+        <Pin distance={500}>
+          <ProgressProbe />
+        </Pin>
+      </LenisContext.Provider>
+    )
+    const target = screen.getByTestId('progress').parentElement!
+
+    scrollTo(250)
+    expect(target).toHaveAttribute('data-pin-phase', 'pinned')
+    expect(target.style.transform).toBe('translate3d(0, 250px, 0)')
+    expect(screen.getByTestId('progress')).toHaveTextContent('0.5')
+
+    scrollTo(900)
+    expect(target).toHaveAttribute('data-pin-phase', 'after')
+    expect(target.style.transform).toBe('translate3d(0, 500px, 0)')
+    expect(screen.getByTestId('progress')).toHaveTextContent('1')
+  })
+
+  it('pins along a horizontal scroller', () => {
+    const element = document.createElement('div')
+    Object.defineProperty(element, 'clientWidth', { value: 1000 })
+    const { value, scrollTo } = createScroller({ orientation: 'horizontal', element })
+
+    const { container } = render(
+      <LenisContext.Provider value={value}>
+        <Pin distance="50%">slide</Pin>
+      </LenisContext.Provider>
+    )
+    scrollTo(100)
+
+    expect(container.querySelector('[data-pin-spacer]')).toHaveStyle({ width: '450px' })
+    expect(screen.getByText('slide').style.transform).toBe('translate3d(100px, 0, 0)')
+  })
+
+  it('re-measures when the viewport resizes', () => {
+    const { value } = createScroller()
+    const { container } = render(
+      <LenisContext.Provider value={value}>
+        <Pin distance="100vh">content</Pin>
+      </LenisContext.Provider>
+    )
+
+    Object.defineProperty(window, 'innerHeight', { value: 600, configurable: true })
+    act(() => {
+      window.dispatchEvent(new Event('resize'))
+    })
+
+    expect(container.querySelector('[data-pin-spacer]')).toHaveStyle({ height: '1000px' })
+  })
+
+  it('stops listening and releases the element when disabled', () => {
+    const { value, lenis } = createScroller()
+    const { container, rerender } = render(
+      <LenisContext.Provider value={value}>
+        <Pin distance={500}>content</Pin>
+      </LenisContext.Provider>
+    )
+
+    rerender(
+      <LenisContext.Provider value={value}>
+        <Pin distance={500} disabled>content</Pin>
+      </LenisContext.Provider>
+    )
+
+    expect(lenis.off).toHaveBeenCalled()
+    expect((container.querySelector('[data-pin-spacer]') as HTMLElement).style.height).toBe('')
+    expect(screen.getByText('content')).not.toHaveAttribute('data-pin-phase')
+  })
+})
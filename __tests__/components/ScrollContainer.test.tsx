@@ -0,0 +1,176 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import React from 'react'
+import { act, render, screen } from '@testing-library/react'
+import { ScrollContainer } from '@/components/scroll/ScrollContainer'
+import { SnapPoint } from '@/components/scroll/SnapPoint'
+import { LenisContext, LenisContextValue, useLenis, useRootLenis } from '@/providers/LenisProvider'
+
+const instances: any[] = []
+
+jest.mock('lenis', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation((options: any) => {
+    const listeners = new Set<() => void>()
+    const instance = {
+      options,
+      scroll: 0,
+      targetScroll: 0,
+      limit: 800,
+      velocity: 0,
+      isScrolling: false,
+      scrollTo: jest.fn(),
+      destroy: jest.fn(),
+      on: jest.fn((_event: string, callback: () => void) => {
+        listeners.add(callback)
+        return () => listeners.delete(callback)
+      }),
+      emit: () => listeners.forEach(callback => callback()),
+    }
+    instances.push(instance)
+    return instance
+  }),
+}))
+
+jest.mock('@/hooks/use-reduced-motion', () => ({
+  useReducedMotion: () => false,
+}))
+
+const pageScroller: LenisContextValue = {
+  lenis: null,
+  scrollState: { progress: 0.4, velocity: 0, direction: 'down', activeSection: 'gallery', isScrolling: false },
+  isReady: true,
+  scrollTo: jest.fn(),
+  updateScrollState: jest.fn(),
+  registerSnapPoint: jest.fn(() => () => {}),
+  paginate: jest.fn(() => true),
+  orientation: 'vertical',
+  element: null,
+  parent: null,
+  recorder: null,
+}
+
+const Probe = () => {
+  const nearest = useLenis()
+  const root = useRootLenis()
+
+  return (
+    <div
+      data-testid="probe"
+      data-orientation={nearest.orientation}
+      data-progress={nearest.scrollState.progress}
+      data-section={nearest.scrollState.activeSection}
+      data-root-progress={root.scrollState.progress}
+      data-element={nearest.element?.getAttribute('data-scroll-orientation') ?? 'none'}
+    />
+  )
+}
+
+const renderNested = (props: Partial<React.ComponentProps<typeof ScrollContainer>> = {}) =>
+  render(
+    <LenisContext.Provider value={pageScroller}>
+      <ScrollContainer {...props}>
+        <Probe />
+      </ScrollContainer>
+    </LenisContext.Provider>
+  )
+
+describe('ScrollContainer', () => {
+  beforeEach(() => {
+    instances.length = 0
+  })
+
+  it('gives its children their own scroll state along its axis', () => {
+    renderNested()
+    const [lenis] = instances
+
+    expect(lenis.options.orientation).toBe('horizontal')
+    expect(lenis.options.wrapper).toHaveAttribute('data-scroll-orientation', 'horizontal')
+
+    act(() => {
+      lenis.scroll = 200
+      lenis.velocity = 3
+      lenis.emit()
+    })
+
+    const probe = screen.getByTestId('probe')
+    expect(probe).toHaveAttribute('data-orientation', 'horizontal')
+    expect(probe).toHaveAttribute('data-progress', '0.25')
+    expect(probe).toHaveAttribute('data-root-progress', '0.4')
+    expect(probe).toHaveAttribute('data-section', 'gallery')
+  })
+
+  it('exposes its scroller element once mounted', () => {
+    renderNested({ orientation: 'vertical' })
+
+    expect(screen.getByTestId('probe')).toHaveAttribute('data-element', 'vertical')
+  })
+
+  it('hands wheel deltas to the parent at either end', () => {
+    renderNested()
+    const [lenis] = instances
+    const wheel = (deltaX: number, deltaY: number) => lenis.options.virtualScroll({ deltaX, deltaY, event: new WheelEvent('wheel') })
+
+    expect(wheel(0, 40)).toBe(true)
+    expect(wheel(0, -40)).toBe(false)
+
+    lenis.targetScroll = 800
+    expect(wheel(0, 40)).toBe(false)
+    expect(wheel(-30, 0)).toBe(true)
+  })
+
+  it('keeps every gesture when hand-off is off', () => {
+    renderNested({ handOff: false })
+
+    expect(instances[0].options.virtualScroll({ deltaX: 0, deltaY: -40, event: new WheelEvent('wheel') })).toBe(true)
+  })
+
+  it('leaves snapping and paging to the page scroller', () => {
+    const Pager = () => {
+      const { paginate } = useLenis()
+      return <button onClick={() => paginate('next')}>next</button>
+    }
+
+    render(
+      <LenisContext.Provider value={pageScroller}>
+        <ScrollContainer>
+          <Pager />
+        </ScrollContainer>
+      </LenisContext.Provider>
+    )
+    act(() => screen.getByText('next').click())
+
+    expect(pageScroller.paginate).toHaveBeenCalledWith('next')
+  })
+
+  it('snaps the page onto the container for snap points inside it', () => {
+    const registerSnapPoint = jest.fn((_point: any) => () => {})
+
+    render(
+      <LenisContext.Provider value={{ ...pageScroller, registerSnapPoint }}>
+        <ScrollContainer>
+          <SnapPoint id="slide-3" />
+        </ScrollContainer>
+      </LenisContext.Provider>
+    )
+
+    const [point] = registerSnapPoint.mock.calls[0]
+    const wrapper = instances[0].options.wrapper as HTMLElement
+    const slide = document.querySelector('[data-snap-point="slide-3"]') as HTMLElement
+    wrapper.getBoundingClientRect = () => ({ top: 300 }) as DOMRect
+    slide.getBoundingClientRect = () => ({ top: 900 }) as DOMRect
+
+    expect(point.id).toBe('slide-3')
+    // Measured against the page scroll at the container's top edge, not the slide's
+    expect(point.getOffset(1000)).toBe(1300)
+  })
+
+  it('destroys its Lenis instance on unmount', () => {
+    const { unmount } = renderNested()
+    unmount()
+
+    expect(instances[0].destroy).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,75 @@
+import { test, expect, Page } from '@playwright/test'
+import type { ScrollRecorderControls, ScrollRecording } from '@/types/scroll.types'
+
+/**
+ * Scroll Recording Replay
+ * Records a scroll session, replays it on a fresh page and checks the
+ * page goes through the same positions and sections
+ */
+
+type RecorderWindow = Window & { __immersiveScrollRecorder?: ScrollRecorderControls }
+
+async function waitForRecorder(page: Page) {
+  await page.waitForFunction(() => !!(window as RecorderWindow).__immersiveScrollRecorder, { timeout: 10000 })
+}
+
+async function getActiveSection(page: Page): Promise<string | null> {
+  return page.evaluate(() => document.querySelector('[data-section-active="true"]')?.getAttribute('data-section-id') ?? null)
+}
+
+test.describe('Scroll recording replay', () => {
+  test('replays a recorded session to the same positions', async ({ page }) => {
+    await page.goto('/')
+    await waitForRecorder(page)
+
+    await page.evaluate(() => (window as RecorderWindow).__immersiveScrollRecorder!.start())
+    for (let step = 0; step < 6; step++) {
+      await page.mouse.wheel(0, 400)
+      await page.waitForTimeout(150)
+    }
+    await page.waitForTimeout(1500)
+    const recording = await page.evaluate(() => (window as RecorderWindow).__immersiveScrollRecorder!.stop()) as ScrollRecording
+
+    expect(recording.samples.length).toBeGreaterThan(10)
+    expect(recording.events.some(event => event.type === 'wheel')).toBe(true)
+
+    const recorded = recording.samples[recording.samples.length - 1]
+
+    await page.reload()
+    await waitForRecorder(page)
+    await page.evaluate(input => (window as RecorderWindow).__immersiveScrollRecorder!.replay(input), recording)
+
+    const scroll = await page.evaluate(() => window.scrollY)
+    expect(Math.abs(scroll - recorded.scroll)).toBeLessThan(2)
+    if (recorded.activeSection) {
+      expect(await getActiveSection(page)).toBe(recorded.activeSection)
+    }
+  })
+
+  test('replays an exported recording at double speed', async ({ page }) => {
+    await page.goto('/')
+    await waitForRecorder(page)
+
+    const recording: ScrollRecording = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      viewport: page.viewportSize() ?? { width: 1280, height: 720 },
+      limit: 0,
+      duration: 1000,
+      samples: [
+        { t: 0, scroll: 0, progress: 0, velocity: 0, direction: 'down', activeSection: '' },
+        { t: 1000, scroll: 800, progress: 0, velocity: 0, direction: 'down', activeSection: '' },
+      ],
+      events: [],
+    }
+
+    const started = Date.now()
+    await page.evaluate(
+      input => (window as RecorderWindow).__immersiveScrollRecorder!.replay(JSON.stringify(input), { speed: 2 }),
+      recording
+    )
+
+    expect(Date.now() - started).toBeLessThan(1000)
+    expect(await page.evaluate(() => window.scrollY)).toBeCloseTo(800, -1)
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import { AnimationClockProvider, useAnimationClock, useClockTime } from '@/providers/AnimationClockProvider'
+import { useMotionValueEvent } from 'framer-motion'
+
+const TestComponent = () => {
+  const { clock, deterministic, setClock } = useAnimationClock()
+  const time = useClockTime()
+  const [latest, setLatest] = React.useState(time.get())
+  useMotionValueEvent(time, 'change', setLatest)
+
+  return (
+    <div>
+      <div data-testid="mode">{clock.mode}</div>
+      <div data-testid="deterministic">{deterministic.toString()}</div>
+      <div data-testid="time">{latest}</div>
+      <button data-testid="pause-btn" onClick={() => setClock({ mode: 'paused', time: 2 })}>Pause</button>
+    </div>
+  )
+}
+
+describe('AnimationClockProvider', () => {
+  afterEach(() => {
+    delete window.__ETHEREAL_CLOCK__
+    window.history.replaceState(null, '', '/')
+  })
+
+  it('uses the wall clock outside a provider', () => {
+    render(<TestComponent />)
+
+    expect(screen.getByTestId('mode')).toHaveTextContent('real')
+    expect(screen.getByTestId('deterministic')).toHaveTextContent('false')
+  })
+
+  it('starts a paused clock from the options', () => {
+    render(
+      <AnimationClockProvider options={{ mode: 'paused', time: 1.5 }}>
+        <TestComponent />
+      </AnimationClockProvider>
+    )
+
+    expect(screen.getByTestId('mode')).toHaveTextContent('paused')
+    expect(screen.getByTestId('time')).toHaveTextContent('1.5')
+  })
+
+  it('reads the clock from the query string', () => {
+    window.history.replaceState(null, '', '/?ethereal-clock=seeded&ethereal-seed=42')
+
+    render(
+      <AnimationClockProvider>
+        <TestComponent />
+      </AnimationClockProvider>
+    )
+
+    expect(screen.getByTestId('mode')).toHaveTextContent('seeded')
+    expect(window.etherealClock?.mode).toBe('seeded')
+  })
+
+  it('renders the same seeded time however many frames have run', () => {
+    const renderAfterFrames = (frames: number) => {
+      const callbacks: FrameRequestCallback[] = []
+      const raf = jest.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => {
+        callbacks.push(callback)
+        return callbacks.length
+      })
+
+      const { unmount } = render(
+        <AnimationClockProvider options={{ mode: 'seeded', seed: 42, time: 2 }}>
+          <TestComponent />
+        </AnimationClockProvider>
+      )
+      act(() => {
+        for (let frame = 0; frame < frames; frame++) {
+          callbacks.splice(0).forEach(callback => callback(frame * 16))
+        }
+      })
+
+      const time = screen.getByTestId('time').textContent
+      unmount()
+      raf.mockRestore()
+      return time
+    }
+
+    expect(renderAfterFrames(1)).toBe(renderAfterFrames(30))
+  })
+
+  it('reads the clock from the init hook unless overrides are off', () => {
+    window.__ETHEREAL_CLOCK__ = { mode: 'fixed-step' }
+
+    const { unmount } = render(
+      <AnimationClockProvider allowOverrides={false}>
+        <TestComponent />
+      </AnimationClockProvider>
+    )
+    expect(screen.getByTestId('mode')).toHaveTextContent('real')
+    unmount()
+
+    render(
+      <AnimationClockProvider>
+        <TestComponent />
+      </AnimationClockProvider>
+    )
+    expect(screen.getByTestId('mode')).toHaveTextContent('fixed-step')
+  })
+
+  it('is driven through the window test hook', () => {
+    render(
+      <AnimationClockProvider>
+        <TestComponent />
+      </AnimationClockProvider>
+    )
+
+    act(() => {
+      window.etherealClock!.set({ mode: 'paused', time: 3 })
+    })
+    expect(screen.getByTestId('mode')).toHaveTextContent('paused')
+
+    act(() => {
+      window.etherealClock!.advance(0.5)
+    })
+    expect(window.etherealClock!.time).toBe(3.5)
+    expect(screen.getByTestId('time')).toHaveTextContent('3.5')
+
+    act(() => {
+      window.etherealClock!.setTime(1)
+    })
+    expect(screen.getByTestId('time')).toHaveTextContent('1')
+  })
+
+  it('swaps clocks from context', () => {
+    render(
+      <AnimationClockProvider>
+        <TestComponent />
+      </AnimationClockProvider>
+    )
+
+    act(() => {
+      screen.getByTestId('pause-btn').click()
+    })
+    expect(screen.getByTestId('deterministic')).toHaveTextContent('true')
+    expect(screen.getByTestId('time')).toHaveTextContent('2')
+  })
+})
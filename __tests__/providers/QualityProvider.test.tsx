@@ -0,0 +1,142 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import { QualityProvider, useQuality } from '@/providers/QualityProvider'
+import { QUALITY_CONFIG } from '@/config/ethereal.config'
+import type { QualityConfig } from '@/types/ethereal.types'
+
+const config: QualityConfig = {
+  ...QUALITY_CONFIG,
+  downgradeAfter: 2,
+  upgradeAfter: 2,
+  cooldown: 0,
+}
+
+const TestComponent = () => {
+  const { tier, tierIndex, locked, lockTier } = useQuality()
+
+  return (
+    <div>
+      <div data-testid="tier">{tier.name}</div>
+      <div data-testid="tier-index">{tierIndex}</div>
+      <div data-testid="locked">{locked.toString()}</div>
+      <button data-testid="lock-btn" onClick={() => lockTier('minimal')}>Lock</button>
+      <button data-testid="unlock-btn" onClick={() => lockTier(null)}>Unlock</button>
+    </div>
+  )
+}
+
+describe('QualityProvider', () => {
+  let fps = 60
+  const sampleFps = () => fps
+
+  const tick = (seconds: number) => {
+    act(() => {
+      jest.advanceTimersByTime(seconds * 1000)
+    })
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    fps = 60
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('provides the best tier outside a provider', () => {
+    render(<TestComponent />)
+
+    expect(screen.getByTestId('tier')).toHaveTextContent('high')
+    expect(screen.getByTestId('locked')).toHaveTextContent('false')
+  })
+
+  it('steps down while frames drop and back up when they recover', () => {
+    render(
+      <QualityProvider config={config} sampleFps={sampleFps}>
+        <TestComponent />
+      </QualityProvider>
+    )
+
+    fps = 30
+    tick(2)
+    expect(screen.getByTestId('tier')).toHaveTextContent('balanced')
+    expect(document.documentElement).toHaveAttribute('data-quality', 'balanced')
+
+    tick(2)
+    expect(screen.getByTestId('tier')).toHaveTextContent('reduced')
+
+    fps = 60
+    tick(2)
+    expect(screen.getByTestId('tier')).toHaveTextContent('balanced')
+  })
+
+  it('keeps the governed tier when the configuration changes', () => {
+    const { rerender } = render(
+      <QualityProvider config={config} sampleFps={sampleFps}>
+        <TestComponent />
+      </QualityProvider>
+    )
+
+    fps = 30
+    tick(2)
+    expect(screen.getByTestId('tier')).toHaveTextContent('balanced')
+
+    fps = 60
+    rerender(
+      <QualityProvider config={{ ...config, upgradeAfter: 10 }} sampleFps={sampleFps}>
+        <TestComponent />
+      </QualityProvider>
+    )
+    expect(screen.getByTestId('tier')).toHaveTextContent('balanced')
+  })
+
+  it('starts from the initial tier', () => {
+    render(
+      <QualityProvider config={config} sampleFps={sampleFps} initialTier="low">
+        <TestComponent />
+      </QualityProvider>
+    )
+
+    expect(screen.getByTestId('tier-index')).toHaveTextContent('3')
+  })
+
+  it('holds a locked tier until unlocked', () => {
+    render(
+      <QualityProvider config={config} sampleFps={sampleFps}>
+        <TestComponent />
+      </QualityProvider>
+    )
+
+    act(() => {
+      screen.getByTestId('lock-btn').click()
+    })
+    expect(screen.getByTestId('tier')).toHaveTextContent('minimal')
+    expect(screen.getByTestId('locked')).toHaveTextContent('true')
+
+    tick(10)
+    expect(screen.getByTestId('tier')).toHaveTextContent('minimal')
+
+    act(() => {
+      screen.getByTestId('unlock-btn').click()
+    })
+    tick(2)
+    expect(screen.getByTestId('tier')).toHaveTextContent('low')
+  })
+
+  it('does not sample while disabled', () => {
+    render(
+      <QualityProvider config={config} sampleFps={sampleFps} enabled={false}>
+        <TestComponent />
+      </QualityProvider>
+    )
+
+    fps = 10
+    tick(10)
+    expect(screen.getByTestId('tier')).toHaveTextContent('high')
+  })
+})
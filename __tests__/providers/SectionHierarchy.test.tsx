@@ -0,0 +1,107 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import React, { useEffect } from 'react'
+import { render, act } from '@testing-library/react'
+import { SectionProvider, useSection } from '@/providers/SectionProvider'
+import { LenisContext, LenisContextValue } from '@/providers/LenisProvider'
+import { formatSectionPath } from '@/lib/scroll/hierarchy'
+import { ContrastMode, Section, SectionEvent } from '@/types/scroll.types'
+
+describe('SectionProvider hierarchy', () => {
+  const createSection = (id: string, triggerStart: number, triggerEnd: number, parentId?: string): Section =>
+    ({ id, zIndex: 100, triggerStart, triggerEnd, animations: [], contrast: 'auto' as ContrastMode, isActive: false, parentId })
+
+  const createScroller = (progress: number): LenisContextValue => ({
+    lenis: { scroll: 0, on: jest.fn(), off: jest.fn() } as any,
+    scrollState: { progress, velocity: 0, direction: 'down', activeSection: '', isScrolling: false },
+    isReady: true,
+    scrollTo: jest.fn(),
+    updateScrollState: jest.fn(),
+    registerSnapPoint: jest.fn(() => () => {}),
+    paginate: jest.fn(() => false),
+    orientation: 'vertical',
+    element: null,
+    parent: null,
+    recorder: null,
+  })
+
+  const sections = [
+    createSection('chapter-1', 0, 0.5),
+    createSection('step-1', 0, 0.25, 'chapter-1'),
+    createSection('step-2', 0.25, 0.5, 'chapter-1'),
+    createSection('chapter-2', 0.5, 1),
+    createSection('step-3', 0.5, 1, 'chapter-2'),
+  ]
+
+  let context: ReturnType<typeof useSection>
+  const events: string[] = []
+
+  const Sections: React.FC = () => {
+    context = useSection()
+    const { registerSection, addSectionListener } = context
+
+    useEffect(() => {
+      sections.forEach(section => registerSection({ ...section }))
+      const record = (event: SectionEvent) => events.push(`${event.currentTarget}:${event.type}:${event.target}`)
+      const unsubscribe = sections.map(({ id }) => addSectionListener(id, { onEnter: record, onLeave: record }))
+      return () => unsubscribe.forEach(fn => fn())
+    }, [registerSection, addSectionListener])
+
+    return null
+  }
+
+  const renderAt = (progress: number) => render(
+    <LenisContext.Provider value={createScroller(progress)}>
+      <SectionProvider history={false}>
+        <Sections />
+      </SectionProvider>
+    </LenisContext.Provider>
+  )
+
+  beforeEach(() => {
+    events.length = 0
+  })
+
+  it('reports the deepest section as active, with its path and per-level progress', () => {
+    renderAt(0.375)
+
+    expect(context.activeSection).toBe('step-2')
+    expect(formatSectionPath(context.activePath)).toBe('chapter-1 > step-2')
+    expect(context.activePath.map(level => [level.depth, level.progress])).toEqual([[0, 0.75], [1, 0.5]])
+    expect(context.sections.get('chapter-1')?.isActive).toBe(true)
+    expect(context.sections.get('step-1')?.isActive).toBe(false)
+    expect(context.getChildSections('chapter-1').map(section => section.id)).toEqual(['step-1', 'step-2'])
+  })
+
+  it('fires enter and leave across levels in order, bubbling to ancestors', () => {
+    const { rerender } = renderAt(0.375)
+    expect(events).toEqual([
+      'chapter-1:enter:chapter-1',
+      'step-2:enter:step-2',
+      'chapter-1:enter:step-2',
+    ])
+
+    events.length = 0
+    act(() => {
+      rerender(
+        <LenisContext.Provider value={createScroller(0.75)}>
+          <SectionProvider history={false}>
+            <Sections />
+          </SectionProvider>
+        </LenisContext.Provider>
+      )
+    })
+
+    expect(events).toEqual([
+      'step-2:leave:step-2',
+      'chapter-1:leave:step-2',
+      'chapter-1:leave:chapter-1',
+      'chapter-2:enter:chapter-2',
+      'step-3:enter:step-3',
+      'chapter-2:enter:step-3',
+    ])
+    expect(formatSectionPath(context.activePath)).toBe('chapter-2 > step-3')
+  })
+})
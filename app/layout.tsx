@@ -3,8 +3,12 @@ import './globals.css'
 import 'lenis/dist/lenis.css'
 import { LenisProvider } from '@/providers/LenisProvider'
 import { SectionProvider } from '@/providers/SectionProvider'
+import { AutoplayProvider } from '@/providers/AutoplayProvider'
 import { AnimationProvider } from '@/providers/AnimationProvider'
 import { ContrastProvider } from '@/providers/ContrastProvider'
+import { EtherealProvider } from '@/providers/EtherealProvider'
+import { QualityProvider } from '@/providers/QualityProvider'
+import { AnimationClockProvider } from '@/providers/AnimationClockProvider'
 import { SystemInitializer } from '@/components/system-initializer'
 
 export const metadata: Metadata = {
@@ -46,14 +50,23 @@ export default function RootLayout({
             smoothTouch: false,
             touchMultiplier: 2,
           }}
+          recorder={process.env.NODE_ENV !== 'production'}
         >
-          <SectionProvider>
-            <AnimationProvider>
-              <ContrastProvider>
-                {children}
-              </ContrastProvider>
-            </AnimationProvider>
-          </SectionProvider>
+          <AnimationClockProvider>
+            <QualityProvider>
+              <SectionProvider>
+                <AutoplayProvider options={{ autoStart: process.env.NEXT_PUBLIC_KIOSK_MODE === 'true' }}>
+                  <AnimationProvider>
+                    <ContrastProvider>
+                      <EtherealProvider preset="cosmic-blue">
+                        {children}
+                      </EtherealProvider>
+                    </ContrastProvider>
+                  </AnimationProvider>
+                </AutoplayProvider>
+              </SectionProvider>
+            </QualityProvider>
+          </AnimationClockProvider>
         </LenisProvider>
       </body>
     </html>
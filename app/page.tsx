@@ -6,6 +6,7 @@ import { ScrollTrigger } from "@/components/scroll/ScrollTrigger"
 import { ParallaxLayer } from "@/components/scroll/ParallaxLayer"
 import { PerformanceMonitor } from "@/components/debug/PerformanceMonitor"
 import { AnimationDebugger } from "@/components/debug/AnimationDebugger"
+import { EtherealTuner } from "@/components/debug/EtherealTuner"
 import { ZLayers } from "@/types/scroll.types"
 
 export default function Home() {
@@ -19,8 +20,6 @@ export default function Home() {
       {/* Hero Section - Elevated layer */}
       <ScrollSection
         id="hero"
-        triggerStart={0}
-        triggerEnd={0.3}
         layer={ZLayers.CONTENT_ELEVATED}
         contrast="dark"
         fadeEffect={true}
@@ -36,8 +35,6 @@ export default function Home() {
       {/* Scroll to explore - with parallax */}
       <ScrollSection
         id="scroll-prompt"
-        triggerStart={0.2}
-        triggerEnd={0.5}
         layer={ZLayers.CONTENT_BASE}
         contrast="dark"
         fadeEffect={true}
@@ -47,8 +44,8 @@ export default function Home() {
       >
         <div className="h-screen flex items-center justify-center pointer-events-none">
           <ScrollTrigger
-            start={0.25}
-            end={0.45}
+            start="top bottom"
+            end="bottom top"
             fade={true}
             scale={{ from: 0.8, to: 1.2 }}
             rotate={{ from: -5, to: 5 }}
@@ -63,8 +60,6 @@ export default function Home() {
       {/* Demo content sections */}
       <ScrollSection
         id="section-1"
-        triggerStart={0.4}
-        triggerEnd={0.7}
         layer={ZLayers.CONTENT_ELEVATED}
         contrast="light"
         fadeEffect={true}
@@ -93,8 +88,6 @@ export default function Home() {
 
       <ScrollSection
         id="section-2"
-        triggerStart={0.6}
-        triggerEnd={0.9}
         layer={ZLayers.CONTENT_BASE}
         contrast="dark"
         fadeEffect={true}
@@ -104,8 +97,8 @@ export default function Home() {
       >
         <div className="min-h-screen flex items-center justify-center bg-gradient-to-tr from-emerald-900/20 to-cyan-900/20">
           <ScrollTrigger
-            start={0.65}
-            end={0.85}
+            start="top 80%"
+            end="center center"
             animation={{
               from: { opacity: 0, scale: 0.5, rotateY: -90 },
               to: { opacity: 1, scale: 1, rotateY: 0 }
@@ -127,8 +120,6 @@ export default function Home() {
 
       <ScrollSection
         id="section-3"
-        triggerStart={0.8}
-        triggerEnd={1.0}
         layer={ZLayers.CONTENT_ELEVATED}
         contrast="light"
         fadeEffect={true}
@@ -147,8 +138,8 @@ export default function Home() {
                 with changing contrast and immersive depth.
               </p>
               <ScrollTrigger
-                start={0.85}
-                end={0.95}
+                start="top bottom"
+                end="+=300px"
                 scale={{ from: 0.8, to: 1.1 }}
                 fade={true}
               >
@@ -174,6 +165,7 @@ export default function Home() {
             showInactive={true}
             maxItems={15}
           />
+          <EtherealTuner position="bottom-right" />
         </>
       )}
     </main>
@@ -1,11 +1,15 @@
 "use client"
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useAnimationCoordinator } from '@/hooks/use-animation-coordinator'
 import { useSection } from '@/providers/SectionProvider'
 import { useLenisScroll } from '@/hooks/use-lenis-scroll'
+import { useRootLenis } from '@/providers/LenisProvider'
 import { cn } from '@/lib/utils'
+import { getRegisteredTimelines, subscribeToTimelines, type ScrollTimeline } from '@/lib/scroll/timeline'
+import { serializeScrollRecording } from '@/lib/scroll/recording'
+import type { ScrollRecorderControls, ScrollRecording } from '@/types/scroll.types'
 
 interface AnimationDebuggerProps {
   className?: string;
@@ -23,6 +27,144 @@ interface AnimationInfo {
   properties: Record<string, any>;
 }
 
+// One timeline: a bar per tween, label ticks and the playhead
+const TimelineInspector: React.FC<{ timeline: ScrollTimeline }> = ({ timeline }) => {
+  const { id, duration, progress, reversed, labels, tweens } = timeline.inspect()
+  const toPercent = (time: number) => `${duration > 0 ? (time / duration) * 100 : 0}%`
+  const playhead = reversed ? 1 - progress : progress
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between">
+        <span className="font-semibold text-purple-300 truncate">{id}</span>
+        <span className="text-gray-400">
+          {(progress * 100).toFixed(0)}%{reversed && ' ⟲'} · {duration.toFixed(2)}
+        </span>
+      </div>
+      <div className="relative space-y-px">
+        {tweens.map((tween, index) => (
+          <div key={index} className="relative h-2 bg-white/5 rounded-sm" title={`${tween.target}: ${tween.properties.join(', ')}`}>
+            <div
+              className="absolute inset-y-0 bg-blue-400/60 rounded-sm"
+              style={{ left: toPercent(tween.start), width: toPercent(tween.end - tween.start) }}
+            />
+          </div>
+        ))}
+        {labels.map(label => (
+          <div
+            key={label.name}
+            className="absolute inset-y-0 w-px bg-yellow-400/70"
+            style={{ left: toPercent(label.time) }}
+            title={label.name}
+          />
+        ))}
+        <div className="absolute inset-y-0 w-px bg-green-400" style={{ left: `${playhead * 100}%` }} />
+      </div>
+    </div>
+  )
+}
+
+const recorderButton = 'px-2 py-1 rounded text-xs transition-colors disabled:opacity-40'
+
+// Record the scroll, export it as JSON, or replay a recording (e.g. one attached to a bug report)
+const RecorderControls: React.FC<{ recorder: ScrollRecorderControls }> = ({ recorder }) => {
+  const [recording, setRecording] = useState<ScrollRecording | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+  const { status } = recorder
+
+  const replay = (input: ScrollRecording | string) => {
+    setError(null)
+    recorder.replay(input).catch(() => {})
+  }
+
+  const exportRecording = () => {
+    if (!recording) return
+    const url = URL.createObjectURL(new Blob([serializeScrollRecording(recording)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `scroll-recording-${recording.createdAt.replace(/[:.]/g, '-')}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const loadRecording = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      replay(await file.text())
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError))
+    }
+  }
+
+  return (
+    <div className="border-t border-white/10 pt-2 space-y-1">
+      <div className="flex justify-between text-xs font-semibold text-gray-400">
+        <span>Scroll Recorder</span>
+        <span className={status === 'idle' ? 'text-gray-500' : 'text-red-400'}>{status}</span>
+      </div>
+      <div className="flex gap-1">
+        {status === 'recording' ? (
+          <button onClick={() => setRecording(recorder.stop())} className={cn(recorderButton, 'bg-red-500/30 text-red-300')}>
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={recorder.start}
+            disabled={status === 'replaying'}
+            className={cn(recorderButton, 'bg-red-500/20 text-red-400 hover:bg-red-500/30')}
+          >
+            Record
+          </button>
+        )}
+        {status === 'replaying' ? (
+          <button onClick={recorder.stopReplay} className={cn(recorderButton, 'bg-green-500/30 text-green-300')}>
+            Stop Replay
+          </button>
+        ) : (
+          <button
+            onClick={() => recording && replay(recording)}
+            disabled={!recording || status !== 'idle'}
+            className={cn(recorderButton, 'bg-green-500/20 text-green-400 hover:bg-green-500/30')}
+          >
+            Replay
+          </button>
+        )}
+        <button
+          onClick={exportRecording}
+          disabled={!recording}
+          className={cn(recorderButton, 'bg-blue-500/20 text-blue-400 hover:bg-blue-500/30')}
+        >
+          Export
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={status !== 'idle'}
+          className={cn(recorderButton, 'bg-gray-500/20 text-gray-400 hover:bg-gray-500/30')}
+        >
+          Load
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={event => {
+            loadRecording(event.target.files?.[0])
+            event.target.value = ''
+          }}
+        />
+      </div>
+      {recording && (
+        <div className="text-gray-500">
+          {(recording.duration / 1000).toFixed(1)}s · {recording.samples.length} samples · {recording.events.length} inputs
+        </div>
+      )}
+      {error && <div className="text-red-400 break-words">{error}</div>}
+    </div>
+  )
+}
+
 export const AnimationDebugger: React.FC<AnimationDebuggerProps> = ({
   className,
   position = 'bottom-left',
@@ -36,6 +178,8 @@ export const AnimationDebugger: React.FC<AnimationDebuggerProps> = ({
   const { animations, activeAnimations, removeAnimation } = useAnimationCoordinator()
   const { sections, activeSection } = useSection()
   const { progress, velocity } = useLenisScroll()
+  const { recorder } = useRootLenis()
+  const timelines = useSyncExternalStore(subscribeToTimelines, getRegisteredTimelines, getRegisteredTimelines)
   
   // Don't render in production unless explicitly enabled
   if (process.env.NODE_ENV === 'production' && !process.env.NEXT_PUBLIC_ENABLE_ANIMATION_DEBUGGER) {
@@ -156,6 +300,12 @@ export const AnimationDebugger: React.FC<AnimationDebuggerProps> = ({
               <span>Memory:</span>
               <span>{totalMemoryEstimate.toFixed(1)}KB</span>
             </div>
+            {timelines.length > 0 && (
+              <div className="flex justify-between">
+                <span>Timelines:</span>
+                <span className="text-purple-400">{timelines.length}</span>
+              </div>
+            )}
           </div>
         )}
 
@@ -291,6 +441,23 @@ export const AnimationDebugger: React.FC<AnimationDebuggerProps> = ({
                   </div>
                 </div>
 
+                {/* Scroll Timelines */}
+                {timelines.length > 0 && (
+                  <div className="border-t border-white/10 pt-2">
+                    <div className="text-xs font-semibold text-gray-400 mb-2">
+                      Timelines ({timelines.length})
+                    </div>
+                    <div className="space-y-2 max-h-40 overflow-y-auto">
+                      {timelines.map(timeline => (
+                        <TimelineInspector key={timeline.id} timeline={timeline} />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Scroll Recorder */}
+                {recorder && <RecorderControls recorder={recorder} />}
+
                 {/* Quick Actions */}
                 <div className="border-t border-white/10 pt-2">
                   <div className="text-xs font-semibold text-gray-400 mb-1">Quick Actions</div>
@@ -0,0 +1,477 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useEthereal } from '@/providers/EtherealProvider'
+import { validateEtherealConfig } from '@/lib/ethereal/config-validator'
+import { validateGradientLayer } from '@/lib/ethereal/gradient-compiler'
+import {
+  exportConfigAsJson,
+  exportConfigAsTypeScript,
+  fromColorInput,
+  parseConfigJson,
+  setConfigValue,
+  toColorInput,
+  toConfigName,
+  TUNING_RANGES,
+  type ConfigPath,
+  type TuningRange,
+} from '@/lib/ethereal/tuning'
+import { cn } from '@/lib/utils'
+import type { GradientLayer } from '@/types/ethereal.types'
+
+interface EtherealTunerProps {
+  className?: string;
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+}
+
+type TunerTab = 'arcs' | 'springs' | 'colors' | 'timing' | 'layers' | 'export'
+
+const TABS: TunerTab[] = ['arcs', 'springs', 'colors', 'timing', 'layers', 'export']
+
+const SliderField: React.FC<{
+  label: string;
+  value: number;
+  range: TuningRange;
+  onChange: (value: number) => void;
+}> = ({ label, value, range, onChange }) => (
+  <label className="grid grid-cols-[6rem_1fr_3rem] items-center gap-2">
+    <span className="text-gray-400 truncate">{label}</span>
+    <input
+      type="range"
+      min={range.min}
+      max={range.max}
+      step={range.step}
+      value={value}
+      onChange={(event) => onChange(Number(event.target.value))}
+      className="accent-blue-400"
+      aria-label={label}
+    />
+    <span className="text-right tabular-nums">{value}</span>
+  </label>
+)
+
+// Returns a problem with the value, or null when it can be applied
+type FieldValidator = (value: string) => string | null
+
+const TextField: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  validate?: FieldValidator;
+}> = ({ label, value, onChange, validate }) => {
+  // Text that doesn't validate stays here instead of reaching the config
+  const [draft, setDraft] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // The config changed underneath (preset switch, import) - show it again
+  useEffect(() => {
+    setDraft(null)
+    setError(null)
+  }, [value])
+
+  const handleChange = (next: string) => {
+    const problem = validate?.(next) ?? null
+    setError(problem)
+    if (problem) {
+      setDraft(next)
+    } else {
+      setDraft(null)
+      onChange(next)
+    }
+  }
+
+  return (
+    <label className="grid grid-cols-[6rem_1fr] items-center gap-2">
+      <span className="text-gray-400 truncate">{label}</span>
+      <input
+        type="text"
+        value={draft ?? value}
+        onChange={(event) => handleChange(event.target.value)}
+        className={cn(
+          'bg-white/5 border rounded px-1 py-0.5',
+          error ? 'border-red-500/60' : 'border-white/10'
+        )}
+        aria-label={label}
+        aria-invalid={error !== null}
+      />
+      {error && <span className="col-start-2 text-red-400 break-words">{error}</span>}
+    </label>
+  )
+}
+
+const ColorField: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  validate?: FieldValidator;
+}> = ({ label, value, onChange, validate }) => {
+  const picker = toColorInput(value)
+
+  // Gradients can't go through a color picker - edit them as text
+  if (!picker) {
+    return <TextField label={label} value={value} onChange={onChange} validate={validate} />
+  }
+
+  return (
+    <label className="grid grid-cols-[6rem_2rem_1fr_3rem] items-center gap-2">
+      <span className="text-gray-400 truncate">{label}</span>
+      <input
+        type="color"
+        value={picker.hex}
+        onChange={(event) => onChange(fromColorInput(event.target.value, picker.alpha))}
+        className="w-8 h-5 bg-transparent"
+        aria-label={label}
+      />
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.01}
+        value={picker.alpha}
+        onChange={(event) => onChange(fromColorInput(picker.hex, Number(event.target.value)))}
+        className="accent-blue-400"
+        aria-label={`${label} alpha`}
+      />
+      <span className="text-right tabular-nums">{picker.alpha}</span>
+    </label>
+  )
+}
+
+const Group: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="space-y-1 border-t border-white/10 pt-2 first:border-t-0 first:pt-0">
+    <div className="text-xs font-semibold text-blue-400">{title}</div>
+    {children}
+  </div>
+)
+
+export const EtherealTuner: React.FC<EtherealTunerProps> = ({
+  className,
+  position = 'bottom-right',
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [tab, setTab] = useState<TunerTab>('arcs')
+  const [exportFormat, setExportFormat] = useState<'ts' | 'json'>('ts')
+  const [importText, setImportText] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+
+  const { config, preset, setConfig, setPreset, presets } = useEthereal()
+  const [basePreset] = useState(preset)
+
+  const diagnostics = useMemo(() => validateEtherealConfig(config), [config])
+
+  const exported = useMemo(() => (
+    exportFormat === 'ts'
+      ? exportConfigAsTypeScript(config, toConfigName(basePreset ? `${basePreset}-tuned` : 'custom'))
+      : exportConfigAsJson(config)
+  ), [config, exportFormat, basePreset])
+
+  // Don't render in production unless explicitly enabled
+  if (process.env.NODE_ENV === 'production' && !process.env.NEXT_PUBLIC_ENABLE_ETHEREAL_TUNER) {
+    return null
+  }
+
+  const positionClasses = {
+    'top-left': 'top-4 left-4',
+    'top-right': 'top-4 right-4',
+    'bottom-left': 'bottom-4 left-4',
+    'bottom-right': 'bottom-4 right-4',
+  }
+
+  // Live edits restyle the scene in place instead of cross-fading
+  const update = (path: ConfigPath, value: unknown) => {
+    setConfig(setConfigValue(config, path, value), { crossfade: false })
+  }
+
+  // A layer that doesn't compile would take the background down - check edits first
+  const validateLayer = (index: number, path: ConfigPath, value: unknown): string | null => {
+    const layer = setConfigValue<GradientLayer>(config.gradientLayers[index], path, value)
+    return validateGradientLayer(layer)[0] ?? null
+  }
+
+  const splitPair = (text: string): [string, string] => {
+    const [x = '', y = ''] = text.trim().split(/\s+/)
+    return [x, y]
+  }
+
+  const copyExport = () => {
+    void navigator.clipboard?.writeText(exported)
+  }
+
+  const downloadExport = () => {
+    const blob = new Blob([exported], { type: exportFormat === 'ts' ? 'text/typescript' : 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = exportFormat === 'ts' ? 'ethereal.tuned.ts' : 'ethereal.tuned.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const applyImport = () => {
+    try {
+      setConfig(parseConfigJson(importText, config))
+      setImportError(null)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length
+
+  return (
+    <motion.div
+      className={cn(
+        'fixed z-[9999] select-none',
+        positionClasses[position],
+        className
+      )}
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.3 }}
+      data-ethereal-tuner
+    >
+      <motion.div
+        className="bg-black/90 backdrop-blur-sm text-white rounded-lg border border-white/10 font-mono text-xs overflow-hidden w-80"
+        layout
+      >
+        {/* Header */}
+        <div
+          className="flex items-center justify-between p-2 cursor-pointer hover:bg-white/5 transition-colors"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          <div className="flex items-center gap-2">
+            <div className={cn('w-2 h-2 rounded-full', errorCount > 0 ? 'bg-red-400' : diagnostics.length > 0 ? 'bg-yellow-400' : 'bg-green-400')} />
+            <span className="font-semibold">Ethereal Tuner</span>
+            <span className="text-gray-400">{preset ?? 'custom'}</span>
+          </div>
+          <motion.div
+            animate={{ rotate: isExpanded ? 180 : 0 }}
+            transition={{ duration: 0.2 }}
+          >
+            ↓
+          </motion.div>
+        </div>
+
+        <AnimatePresence>
+          {isExpanded && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration: 0.3 }}
+              className="overflow-hidden"
+            >
+              <div className="p-3 space-y-3 border-t border-white/10">
+                {/* Tabs and reset */}
+                <div className="flex flex-wrap gap-1">
+                  {TABS.map(name => (
+                    <button
+                      key={name}
+                      onClick={() => setTab(name)}
+                      className={cn(
+                        'px-2 py-1 rounded text-xs transition-colors capitalize',
+                        tab === name ? 'bg-blue-500/30 text-blue-300' : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                      )}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                  {basePreset && presets[basePreset] && (
+                    <button
+                      onClick={() => setPreset(basePreset)}
+                      className="px-2 py-1 rounded text-xs bg-gray-500/20 text-gray-400 hover:bg-gray-500/30 transition-colors"
+                    >
+                      Reset
+                    </button>
+                  )}
+                </div>
+
+                <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+                  {tab === 'arcs' && config.arcConfigurations.map((arc, index) => (
+                    <Group key={index} title={`Arc ${index + 1}`}>
+                      {(['delay', 'scale', 'opacity', 'zIndex', 'parallaxStrength'] as const).map(field => (
+                        <SliderField
+                          key={field}
+                          label={field}
+                          value={arc[field]}
+                          range={TUNING_RANGES[field]}
+                          onChange={(value) => update(['arcConfigurations', index, field], value)}
+                        />
+                      ))}
+                    </Group>
+                  ))}
+
+                  {tab === 'springs' && (['main', 'celestial'] as const).map(name => (
+                    <Group key={name} title={`${name} spring`}>
+                      {(['stiffness', 'damping', 'mass'] as const).map(field => (
+                        <SliderField
+                          key={field}
+                          label={field}
+                          value={config.springConfigs[name][field] ?? 0}
+                          range={TUNING_RANGES[field]}
+                          onChange={(value) => update(['springConfigs', name, field], value)}
+                        />
+                      ))}
+                    </Group>
+                  ))}
+
+                  {tab === 'colors' && (
+                    <Group title="Colors">
+                      {Object.entries(config.colors).map(([name, value]) => (
+                        <ColorField
+                          key={name}
+                          label={name}
+                          value={value}
+                          onChange={(next) => update(['colors', name], next)}
+                        />
+                      ))}
+                    </Group>
+                  )}
+
+                  {tab === 'timing' && (
+                    <>
+                      <Group title="Durations">
+                        {(['loadDuration', 'arcDuration', 'spotlightDuration', 'crossfadeDuration'] as const).map(field => (
+                          <SliderField
+                            key={field}
+                            label={field}
+                            value={config.timing[field]}
+                            range={TUNING_RANGES.timing}
+                            onChange={(value) => update(['timing', field], value)}
+                          />
+                        ))}
+                      </Group>
+                      <Group title="Morphing durations">
+                        {(['outer', 'middle', 'inner'] as const).map(field => (
+                          <SliderField
+                            key={field}
+                            label={field}
+                            value={config.timing.morphingDurations[field]}
+                            range={TUNING_RANGES.morphDuration}
+                            onChange={(value) => update(['timing', 'morphingDurations', field], value)}
+                          />
+                        ))}
+                      </Group>
+                    </>
+                  )}
+
+                  {tab === 'layers' && config.gradientLayers.map((layer, index) => (
+                    <Group key={index} title={`Layer ${index + 1}`}>
+                      <SliderField
+                        label="duration"
+                        value={layer.duration}
+                        range={TUNING_RANGES.morphDuration}
+                        onChange={(value) => update(['gradientLayers', index, 'duration'], value)}
+                      />
+                      <SliderField
+                        label="extent"
+                        value={layer.extent ?? 200}
+                        range={TUNING_RANGES.extent}
+                        onChange={(value) => update(['gradientLayers', index, 'extent'], value)}
+                      />
+                      <SliderField
+                        label="morphOpacity"
+                        value={layer.morphOpacity ?? 0.05}
+                        range={TUNING_RANGES.morphOpacity}
+                        onChange={(value) => update(['gradientLayers', index, 'morphOpacity'], value)}
+                      />
+                      {(['inner', 'middle', 'outer'] as const).map(name => (
+                        <ColorField
+                          key={name}
+                          label={name}
+                          value={layer.colors[name]}
+                          onChange={(next) => update(['gradientLayers', index, 'colors', name], next)}
+                          validate={(next) => validateLayer(index, ['colors', name], next)}
+                        />
+                      ))}
+                      {(['size', 'position'] as const).flatMap(property => (['base', 'morph'] as const).map(state => (
+                        <TextField
+                          key={`${property}-${state}`}
+                          label={`${property}.${state}`}
+                          value={layer[property][state].join(' ')}
+                          onChange={(next) => update(['gradientLayers', index, property, state], splitPair(next))}
+                          validate={(next) => validateLayer(index, [property, state], splitPair(next))}
+                        />
+                      )))}
+                    </Group>
+                  ))}
+
+                  {tab === 'export' && (
+                    <>
+                      <Group title="Export">
+                        <div className="flex gap-2">
+                          {(['ts', 'json'] as const).map(format => (
+                            <button
+                              key={format}
+                              onClick={() => setExportFormat(format)}
+                              className={cn(
+                                'px-2 py-1 rounded text-xs transition-colors uppercase',
+                                exportFormat === format ? 'bg-blue-500/30 text-blue-300' : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                              )}
+                            >
+                              {format}
+                            </button>
+                          ))}
+                          <button
+                            onClick={copyExport}
+                            className="px-2 py-1 rounded text-xs bg-green-500/20 text-green-400 hover:bg-green-500/30 transition-colors"
+                          >
+                            Copy
+                          </button>
+                          <button
+                            onClick={downloadExport}
+                            className="px-2 py-1 rounded text-xs bg-green-500/20 text-green-400 hover:bg-green-500/30 transition-colors"
+                          >
+                            Download
+                          </button>
+                        </div>
+                        <textarea
+                          readOnly
+                          value={exported}
+                          className="w-full h-40 bg-white/5 border border-white/10 rounded p-1 select-text"
+                          aria-label="Exported configuration"
+                        />
+                      </Group>
+                      <Group title="Import JSON preset">
+                        <textarea
+                          value={importText}
+                          onChange={(event) => setImportText(event.target.value)}
+                          className="w-full h-24 bg-white/5 border border-white/10 rounded p-1 select-text"
+                          aria-label="JSON preset"
+                        />
+                        {importError && <div className="text-red-400">{importError}</div>}
+                        <button
+                          onClick={applyImport}
+                          className="px-2 py-1 rounded text-xs bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 transition-colors"
+                        >
+                          Apply
+                        </button>
+                      </Group>
+                    </>
+                  )}
+                </div>
+
+                {/* Validation */}
+                {diagnostics.length > 0 && (
+                  <div className="space-y-1 border-t border-white/10 pt-2 max-h-24 overflow-y-auto">
+                    {diagnostics.map((diagnostic, index) => (
+                      <div key={index} className="text-xs">
+                        <span className={cn('font-semibold', diagnostic.severity === 'error' ? 'text-red-400' : 'text-yellow-400')}>
+                          [{diagnostic.code}]
+                        </span>
+                        <span className="ml-1 text-gray-300">{diagnostic.path}: {diagnostic.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </motion.div>
+    </motion.div>
+  )
+}
+
+export default EtherealTuner
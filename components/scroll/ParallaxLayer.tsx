@@ -4,12 +4,13 @@ import React, { useEffect, useRef, useCallback } from 'react'
 import { motion, useMotionValue, useSpring, useTransform } from 'framer-motion'
 import { useLenisScroll } from '@/hooks/use-lenis-scroll'
 import { useAnimationCoordinator } from '@/hooks/use-animation-coordinator'
+import { useQuality } from '@/providers/QualityProvider'
 import { cn } from '@/lib/utils'
 
 interface ParallaxLayerProps {
   children: React.ReactNode;
   speed?: number;              // Parallax speed multiplier (-1 to 1)
-  direction?: 'vertical' | 'horizontal' | 'both';
+  direction?: 'vertical' | 'horizontal' | 'both'; // Defaults to the nearest scroller's axis
   offset?: number;             // Initial offset
   className?: string;
   style?: React.CSSProperties;
@@ -28,7 +29,7 @@ interface ParallaxLayerProps {
 export const ParallaxLayer: React.FC<ParallaxLayerProps> = ({
   children,
   speed = 0.5,
-  direction = 'vertical',
+  direction: directionProp,
   offset = 0,
   className,
   style,
@@ -39,7 +40,11 @@ export const ParallaxLayer: React.FC<ParallaxLayerProps> = ({
   onProgressChange,
 }) => {
   const elementRef = useRef<HTMLDivElement>(null)
-  const { progress, velocity, scrollProgress } = useLenisScroll()
+  // Quality governor can switch scroll motion off
+  const { tier } = useQuality()
+  const isDisabled = disabled || !tier.scrollEffects
+  const { progress, velocity, scrollProgress, orientation } = useLenisScroll()
+  const direction = directionProp ?? (orientation === 'horizontal' ? 'horizontal' : 'vertical')
   const { createParallaxAnimation } = useAnimationCoordinator()
   
   // Motion values for smooth animations
@@ -63,7 +68,7 @@ export const ParallaxLayer: React.FC<ParallaxLayerProps> = ({
   
   // Calculate parallax offset
   const calculateParallaxOffset = useCallback((scrollProgress: number): { x: number; y: number } => {
-    if (disabled) return { x: 0, y: 0 }
+    if (isDisabled) return { x: 0, y: 0 }
     
     const viewportHeight = typeof window !== 'undefined' ? window.innerHeight : 1000
     const viewportWidth = typeof window !== 'undefined' ? window.innerWidth : 1000
@@ -71,8 +76,8 @@ export const ParallaxLayer: React.FC<ParallaxLayerProps> = ({
     let offsetX = 0
     let offsetY = 0
     
-    // Calculate base offset
-    const scrollDistance = scrollProgress * viewportHeight
+    // Calculate base offset along the scroller's axis
+    const scrollDistance = scrollProgress * (orientation === 'horizontal' ? viewportWidth : viewportHeight)
     const parallaxDistance = scrollDistance * speed
     
     // Apply direction
@@ -93,7 +98,7 @@ export const ParallaxLayer: React.FC<ParallaxLayerProps> = ({
     }
     
     return { x: offsetX, y: offsetY }
-  }, [disabled, speed, direction, offset, bounds])
+  }, [isDisabled, speed, direction, orientation, offset, bounds])
   
   // Update parallax position
   useEffect(() => {
@@ -133,7 +138,7 @@ export const ParallaxLayer: React.FC<ParallaxLayerProps> = ({
     if (elementRef.current) {
       const element = elementRef.current
       
-      if (!disabled && Math.abs(speed) > 0.01) {
+      if (!isDisabled && Math.abs(speed) > 0.01) {
         element.style.willChange = 'transform'
       } else {
         element.style.willChange = 'auto'
@@ -143,7 +148,7 @@ export const ParallaxLayer: React.FC<ParallaxLayerProps> = ({
         element.style.willChange = 'auto'
       }
     }
-  }, [disabled, speed])
+  }, [isDisabled, speed])
   
   // Debug information - MotionValue fix applied
   const debugInfo = debugMode && (
@@ -154,7 +159,7 @@ export const ParallaxLayer: React.FC<ParallaxLayerProps> = ({
       <div>X: {springX.get().toFixed(1)}px</div>
       <div>Y: {springY.get().toFixed(1)}px</div>
       <div>Velocity: {velocity.get().toFixed(2)}</div>
-      <div>Disabled: {disabled.toString()}</div>
+      <div>Disabled: {isDisabled.toString()}</div>
     </div>
   )
   
@@ -164,7 +169,7 @@ export const ParallaxLayer: React.FC<ParallaxLayerProps> = ({
       className={cn(
         'parallax-layer',
         {
-          'parallax-disabled': disabled,
+          'parallax-disabled': isDisabled,
           [`parallax-${direction}`]: direction,
           [`parallax-${easing}`]: easing,
         },
@@ -172,11 +177,11 @@ export const ParallaxLayer: React.FC<ParallaxLayerProps> = ({
       )}
       style={{
         ...style,
-        transform: disabled ? 'none' : undefined,
+        transform: isDisabled ? 'none' : undefined,
         backfaceVisibility: 'hidden',
         perspective: 1000,
-        x: disabled ? 0 : enhancedX,
-        y: disabled ? 0 : enhancedY,
+        x: isDisabled ? 0 : enhancedX,
+        y: isDisabled ? 0 : enhancedY,
       }}
       transition={{
         type: easing === 'spring' ? 'spring' : 'tween',
@@ -185,7 +190,7 @@ export const ParallaxLayer: React.FC<ParallaxLayerProps> = ({
       }}
       data-parallax-speed={speed}
       data-parallax-direction={direction}
-      data-parallax-disabled={disabled}
+      data-parallax-disabled={isDisabled}
     >
       {debugInfo}
       {children}
@@ -0,0 +1,66 @@
+"use client"
+
+import React, { createContext, useContext } from 'react'
+import type { MotionValue } from 'framer-motion'
+import { usePin } from '@/hooks/use-pin'
+import { PinDistance } from '@/types/scroll.types'
+import { cn } from '@/lib/utils'
+
+interface PinProps {
+  children: React.ReactNode;
+  distance?: PinDistance;     // Scroll distance to hold for (default one viewport)
+  offset?: number;            // Pixels from the top (or left) it's held at
+  disabled?: boolean;
+  className?: string;         // Applied to the spacer
+  style?: React.CSSProperties; // Applied to the pinned element
+}
+
+const PinContext = createContext<MotionValue<number> | null>(null)
+
+/**
+ * Holds its children in place while the nearest scroller moves on by `distance`.
+ * Following content is pushed down by the same distance.
+ */
+export const Pin: React.FC<PinProps> = ({
+  children,
+  distance,
+  offset,
+  disabled = false,
+  className,
+  style,
+}) => {
+  const { spacerRef, pinRef, progress, phase } = usePin({ distance, offset, enabled: !disabled })
+
+  return (
+    <PinContext.Provider value={progress}>
+      <div
+        ref={spacerRef}
+        className={cn('pin-spacer relative shrink-0', className)}
+        data-pin-spacer
+      >
+        <div
+          ref={pinRef}
+          className="pin-target"
+          style={{
+            ...style,
+            willChange: phase === 'pinned' ? 'transform' : undefined,
+          }}
+          data-pin-phase={disabled ? undefined : phase}
+        >
+          {children}
+        </div>
+      </div>
+    </PinContext.Provider>
+  )
+}
+
+// Progress (0-1) through the nearest Pin's distance
+export const usePinProgress = (): MotionValue<number> => {
+  const context = useContext(PinContext)
+  if (!context) {
+    throw new Error('usePinProgress must be used within a Pin')
+  }
+  return context
+}
+
+export default Pin
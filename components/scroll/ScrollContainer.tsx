@@ -0,0 +1,157 @@
+"use client"
+
+import React, { useCallback, useContext, useEffect, useRef, useState } from 'react'
+import Lenis from 'lenis'
+import { LenisContext, LenisContextValue } from '@/providers/LenisProvider'
+import { useReducedMotion } from '@/hooks/use-reduced-motion'
+import { canScrollFurther, getGestureDelta, getScrollerState } from '@/lib/scroll/nested'
+import { getElementScrollOffset } from '@/lib/scroll/snap'
+import { ScrollContainerProps, ScrollState, LenisInstance, SnapPointSource } from '@/types/scroll.types'
+import { cn } from '@/lib/utils'
+
+/**
+ * Nested Lenis scroller - a horizontal gallery inside the page, say.
+ * ScrollTrigger, ParallaxLayer and useLenisScroll inside it follow its own
+ * scroll state; wheel deltas go back to the parent scroller at either end.
+ */
+export const ScrollContainer: React.FC<ScrollContainerProps> = ({
+  children,
+  orientation = 'horizontal',
+  gestureOrientation = 'both',
+  lerp = 0.1,
+  duration = 1.2,
+  handOff = true,
+  className,
+  contentClassName,
+  style,
+}) => {
+  const parent = useContext(LenisContext)
+  const wrapperRef = useRef<HTMLDivElement>(null)
+  const contentRef = useRef<HTMLDivElement>(null)
+  const [lenis, setLenis] = useState<Lenis | null>(null)
+  // Consumers read the scroller element from context, so it has to re-render them once mounted
+  const [element, setElement] = useState<HTMLElement | null>(null)
+  const prefersReducedMotion = useReducedMotion()
+  const horizontal = orientation === 'horizontal'
+
+  const [scrollState, setScrollState] = useState<ScrollState>({
+    progress: 0,
+    velocity: 0,
+    direction: 'down',
+    activeSection: '',
+    isScrolling: false,
+  })
+
+  const updateScrollState = useCallback((newState: Partial<ScrollState>) => {
+    setScrollState(prev => ({ ...prev, ...newState }))
+  }, [])
+
+  useEffect(() => {
+    const wrapper = wrapperRef.current
+    const content = contentRef.current
+    if (!wrapper || !content) return
+
+    const instance: Lenis = new Lenis({
+      wrapper,
+      content,
+      orientation,
+      gestureOrientation,
+      lerp: prefersReducedMotion ? 1 : lerp,
+      duration,
+      smoothWheel: !prefersReducedMotion,
+      // Every gesture we take stops at this scroller...
+      overscroll: false,
+      // ...so at either end we don't take it, and the parent scroller gets the wheel event
+      virtualScroll: (data) => !handOff || canScrollFurther(
+        { scroll: instance.targetScroll, limit: instance.limit },
+        getGestureDelta(data, gestureOrientation)
+      ),
+      autoRaf: true,
+    })
+
+    const update = () => {
+      updateScrollState({ ...getScrollerState(instance), isScrolling: instance.isScrolling !== false })
+    }
+    const unsubscribe = instance.on('scroll', update)
+    setLenis(instance)
+    setElement(wrapper)
+
+    return () => {
+      unsubscribe()
+      instance.destroy()
+      setLenis(null)
+      setElement(null)
+    }
+  }, [orientation, gestureOrientation, lerp, duration, handOff, prefersReducedMotion, updateScrollState])
+
+  const scrollTo = useCallback((target: string | number, scrollOptions?: any) => {
+    if (!lenis) return
+
+    // Create easing function at runtime to avoid serialization
+    const runtimeEasing = (t: number) => Math.min(1, 1.001 - Math.pow(2, -10 * t))
+
+    lenis.scrollTo(target, {
+      offset: 0,
+      duration,
+      easing: runtimeEasing,
+      immediate: prefersReducedMotion,
+      ...scrollOptions
+    })
+  }, [lenis, duration, prefersReducedMotion])
+
+  // Only the page scroller snaps: a snap point in here settles the page on this
+  // container, measured from the container rather than the point itself
+  const registerParentSnapPoint = parent?.registerSnapPoint
+  const registerSnapPoint = useCallback((point: SnapPointSource) => {
+    if (!registerParentSnapPoint) return () => {}
+
+    return registerParentSnapPoint({
+      ...point,
+      getOffset: (scroll) => {
+        const wrapper = wrapperRef.current
+        return wrapper && point.getOffset(scroll) !== null ? getElementScrollOffset(wrapper, scroll) : null
+      },
+    })
+  }, [registerParentSnapPoint])
+
+  const contextValue: LenisContextValue = {
+    lenis: lenis as unknown as LenisInstance | null,
+    // The active section belongs to the page
+    scrollState: { ...scrollState, activeSection: parent?.scrollState.activeSection ?? '' },
+    isReady: lenis !== null,
+    scrollTo,
+    updateScrollState,
+    // Snap points and paging stay with the page scroller
+    registerSnapPoint,
+    paginate: parent?.paginate ?? (() => false),
+    orientation,
+    element,
+    parent,
+    // Recordings capture the page scroll
+    recorder: parent?.recorder ?? null,
+  }
+
+  return (
+    <LenisContext.Provider value={contextValue}>
+      <div
+        ref={wrapperRef}
+        className={cn('scroll-container relative', className)}
+        style={{
+          ...style,
+          overflowX: horizontal ? 'auto' : 'hidden',
+          overflowY: horizontal ? 'hidden' : 'auto',
+        }}
+        data-scroll-orientation={orientation}
+      >
+        <div
+          ref={contentRef}
+          className={cn(horizontal ? 'flex w-max' : 'flex flex-col', contentClassName)}
+        >
+          {children}
+        </div>
+      </div>
+    </LenisContext.Provider>
+  )
+}
+
+export default ScrollContainer
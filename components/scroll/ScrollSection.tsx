@@ -3,23 +3,28 @@
 import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react'
 import { motion } from 'framer-motion'
 import { useSectionManager } from '@/hooks/use-section-manager'
+import { SectionParentContext, useParentSectionId } from '@/providers/SectionProvider'
 import { useZIndexOrchestrator } from '@/hooks/use-z-index-orchestrator'
 import { useAnimationCoordinator } from '@/hooks/use-animation-coordinator'
-import { ContrastMode, Animation, ZLayers } from '@/types/scroll.types'
+import { useSectionBounds } from '@/hooks/use-section-bounds'
+import type { TriggerPosition } from '@/lib/scroll/trigger-position'
+import { ContrastMode, Animation, ZLayers, SectionEvent } from '@/types/scroll.types'
 import { cn } from '@/lib/utils'
 
 interface ScrollSectionProps {
   id: string;
-  triggerStart: number;
-  triggerEnd: number;
+  /** Measured from the section's bounds unless given - page progress, or a position like 'top bottom' */
+  triggerStart?: TriggerPosition;
+  triggerEnd?: TriggerPosition;
   children: React.ReactNode;
   className?: string;
   zIndex?: number;
   layer?: ZLayers;
   contrast?: ContrastMode;
   animations?: Animation[];
-  onEnter?: () => void;
-  onLeave?: () => void;
+  /** Also called for nested sections (event.target) unless they stop propagation */
+  onEnter?: (event: SectionEvent) => void;
+  onLeave?: (event: SectionEvent) => void;
   onProgress?: (progress: number) => void;
   parallaxStrength?: number;
   fadeEffect?: boolean;
@@ -56,6 +61,10 @@ export const ScrollSection = forwardRef<ScrollSectionRef, ScrollSectionProps>(({
   ...props
 }, ref) => {
   const sectionRef = useRef<HTMLDivElement>(null)
+  const parentId = useParentSectionId()
+  
+  // Page progress range, re-measured as the layout changes
+  const bounds = useSectionBounds(sectionRef, triggerStart, triggerEnd)
   
   // Hooks for section management
   const {
@@ -66,11 +75,12 @@ export const ScrollSection = forwardRef<ScrollSectionRef, ScrollSectionProps>(({
     section,
   } = useSectionManager({
     id,
-    triggerStart,
-    triggerEnd,
+    triggerStart: bounds.triggerStart,
+    triggerEnd: bounds.triggerEnd,
     zIndex,
     animations,
     contrast,
+    parentId,
     onEnter,
     onLeave,
     onProgress,
@@ -108,14 +118,14 @@ export const ScrollSection = forwardRef<ScrollSectionRef, ScrollSectionProps>(({
   const fadeAnimation = fadeEffect ? 
     createScrollAnimation(
       `${id}-fade`,
-      [triggerStart, triggerStart + 0.1, triggerEnd - 0.1, triggerEnd],
+      [bounds.triggerStart, bounds.triggerStart + 0.1, bounds.triggerEnd - 0.1, bounds.triggerEnd],
       [0, 1, 1, 0]
     ) : null
   
   const scaleAnimation = scaleEffect ?
     createScrollAnimation(
       `${id}-scale`,
-      [triggerStart, triggerStart + 0.2, triggerEnd - 0.2, triggerEnd],
+      [bounds.triggerStart, bounds.triggerStart + 0.2, bounds.triggerEnd - 0.2, bounds.triggerEnd],
       [0.8, 1, 1, 0.8]
     ) : null
   
@@ -126,7 +136,7 @@ export const ScrollSection = forwardRef<ScrollSectionRef, ScrollSectionProps>(({
   const slideAnimation = slideDirection ?
     createScrollAnimation(
       `${id}-slide`,
-      [triggerStart, triggerStart + 0.3, triggerEnd - 0.3, triggerEnd],
+      [bounds.triggerStart, bounds.triggerStart + 0.3, bounds.triggerEnd - 0.3, bounds.triggerEnd],
       slideDirection === 'up' ? [50, 0, 0, -50] :
       slideDirection === 'down' ? [-50, 0, 0, 50] :
       slideDirection === 'left' ? [50, 0, 0, -50] :
@@ -169,8 +179,8 @@ export const ScrollSection = forwardRef<ScrollSectionRef, ScrollSectionProps>(({
   const cssProperties = {
     '--section-progress': sectionProgress,
     '--section-active': isActive ? 1 : 0,
-    '--section-trigger-start': triggerStart,
-    '--section-trigger-end': triggerEnd,
+    '--section-trigger-start': bounds.triggerStart,
+    '--section-trigger-end': bounds.triggerEnd,
     '--section-z-index': getZIndexState(id)?.assignedIndex || zIndex || 0,
   } as React.CSSProperties
   
@@ -193,10 +203,12 @@ export const ScrollSection = forwardRef<ScrollSectionRef, ScrollSectionProps>(({
         ...cssProperties,
       }}
       data-section-id={id}
+      data-section-parent={parentId ?? undefined}
       data-section-active={isActive}
       data-section-progress={sectionProgress}
-      data-trigger-start={triggerStart}
-      data-trigger-end={triggerEnd}
+      data-trigger-start={bounds.triggerStart}
+      data-trigger-end={bounds.triggerEnd}
+      data-trigger-measured={bounds.measured || undefined}
       data-contrast={contrast}
       initial={{ opacity: fadeEffect ? 0 : 1 }}
       animate={{ 
@@ -209,7 +221,9 @@ export const ScrollSection = forwardRef<ScrollSectionRef, ScrollSectionProps>(({
       }}
       {...props}
     >
-      {children}
+      <SectionParentContext.Provider value={id}>
+        {children}
+      </SectionParentContext.Provider>
     </motion.div>
   )
 })
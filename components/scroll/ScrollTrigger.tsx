@@ -4,14 +4,58 @@ import React, { useEffect, useCallback, useRef, useState } from 'react'
 import { motion, useMotionValue } from 'framer-motion'
 import { useLenisScroll } from '@/hooks/use-lenis-scroll'
 import { useAnimationCoordinator } from '@/hooks/use-animation-coordinator'
+import { useTriggerBounds, type TriggerBounds } from '@/hooks/use-trigger-bounds'
+import type { TriggerPosition } from '@/lib/scroll/trigger-position'
+import { useQuality } from '@/providers/QualityProvider'
 import { cn } from '@/lib/utils'
+import { PinDistance } from '@/types/scroll.types'
+import { Pin } from './Pin'
+
+const MARKER_STYLES = {
+  start: { line: 'bg-green-500', label: 'text-green-500' },
+  end: { line: 'bg-red-500', label: 'text-red-500' },
+}
+
+// Debug markers: each resolved line on the viewport, and the point of the element that meets it
+const TriggerMarkers: React.FC<{
+  bounds: TriggerBounds;
+  horizontal: boolean;
+  on: 'viewport' | 'element';
+}> = ({ bounds, horizontal, on }) => (
+  <>
+    {(['start', 'end'] as const).map(name => {
+      const line = bounds.lines[name]
+      const offset = on === 'viewport'
+        ? bounds.lines.viewportStart + line.viewportOffset
+        : line.scroll + line.viewportOffset - bounds.lines.elementStart
+
+      return (
+        <div
+          key={name}
+          className={cn(
+            on === 'viewport' ? 'fixed' : 'absolute',
+            horizontal ? 'top-0 h-full w-px' : 'left-0 w-full h-px',
+            'z-50 pointer-events-none',
+            MARKER_STYLES[name].line
+          )}
+          style={horizontal ? { left: offset } : { top: offset }}
+          data-trigger-marker={`${on}-${name}`}
+        >
+          <span className={cn('absolute left-2 -top-4 text-xs bg-black px-1 whitespace-nowrap', MARKER_STYLES[name].label)}>
+            {on === 'viewport' ? `scroller-${name}` : name}
+          </span>
+        </div>
+      )
+    })}
+  </>
+)
 
 interface ScrollTriggerProps {
   children: React.ReactNode;
-  start?: number | string; // scroll position to start (0-1 or 'top', 'center', 'bottom')
-  end?: number | string;   // scroll position to end
+  start?: TriggerPosition; // 0-1 page progress, 'top' | 'center' | 'bottom', or element-relative ('top 80%')
+  end?: TriggerPosition;   // same, or relative to start ('+=300px')
   scrub?: boolean | number; // Link animation to scroll position
-  pin?: boolean;           // Pin element during scroll
+  pin?: boolean | PinDistance; // Hold element in place for a scroll distance (true = one viewport)
   markers?: boolean;       // Show debug markers
   onEnter?: () => void;
   onLeave?: () => void;
@@ -65,7 +109,12 @@ export const ScrollTrigger: React.FC<ScrollTriggerProps> = ({
   const [progress, setProgress] = useState(0)
   const hasTriggered = useRef(false)
   
-  const { progress: scrollProgress } = useLenisScroll()
+  const { progress: scrollProgress, orientation } = useLenisScroll()
+  // Element-relative positions ('top 80%', '+=300px') resolved to scroller progress
+  const bounds = useTriggerBounds(elementRef, start, end, markers)
+  // Callbacks and progress keep running when the quality budget drops scroll motion
+  const { tier } = useQuality()
+  const animated = tier.scrollEffects
   const { createScrollAnimation, createParallaxAnimation } = useAnimationCoordinator({
     autoCleanup: true,
   })
@@ -82,8 +131,8 @@ export const ScrollTrigger: React.FC<ScrollTriggerProps> = ({
     }
   }, [])
   
-  const startPos = normalizePosition(start)
-  const endPos = normalizePosition(end)
+  const startPos = bounds?.start ?? normalizePosition(start)
+  const endPos = bounds?.end ?? normalizePosition(end)
   
   // Create animations based on props
   const triggerAnimations = useRef<Map<string, any>>(new Map())
@@ -210,6 +259,7 @@ export const ScrollTrigger: React.FC<ScrollTriggerProps> = ({
   // Calculate transform values
   const getTransformValue = useCallback(() => {
     const transforms: string[] = []
+    if (!animated) return 'none'
     
     // Get values from animations
     const fadeValue = triggerAnimations.current.get('fade')?.motionValue.get() ?? 1
@@ -246,70 +296,48 @@ export const ScrollTrigger: React.FC<ScrollTriggerProps> = ({
     }
     
     return transforms.join(' ') || 'none'
-  }, [animation])
+  }, [animation, animated])
   
-  // Pin element styles
-  const pinStyles = pin ? {
-    position: 'fixed' as const,
-    top: '50%',
-    left: '50%',
-    transform: `${getTransformValue()} translate(-50%, -50%)`,
-    zIndex: 1000,
-  } : {}
-  
-  // Debug markers
-  const DebugMarkers = markers && (
-    <>
-      <div 
-        className="fixed left-0 w-full h-px bg-green-500 z-50 pointer-events-none"
-        style={{ top: `${startPos * 100}%` }}
-      >
-        <span className="absolute left-2 -top-4 text-xs text-green-500 bg-black px-1">
-          Start: {startPos}
-        </span>
-      </div>
-      <div 
-        className="fixed left-0 w-full h-px bg-red-500 z-50 pointer-events-none"
-        style={{ top: `${endPos * 100}%` }}
-      >
-        <span className="absolute left-2 -top-4 text-xs text-red-500 bg-black px-1">
-          End: {endPos}
-        </span>
-      </div>
-    </>
+  // Debug markers - the resolved lines on the viewport, and where they meet the element
+  const horizontal = orientation === 'horizontal'
+  const DebugMarkers = markers && bounds && (
+    <TriggerMarkers bounds={bounds} horizontal={horizontal} on="viewport" />
   )
   
+  const content = (
+    <motion.div
+      ref={elementRef}
+      className={cn(
+        'scroll-trigger',
+        {
+          'scroll-trigger-active': isInView,
+          'scroll-trigger-pinned': !!pin,
+          'relative': markers,
+        },
+        className
+      )}
+      style={{
+        opacity: fade && animated ? (triggerAnimations.current.get('fade')?.motionValue.get() ?? 1) : 1,
+        transform: getTransformValue(),
+        willChange: 'transform, opacity',
+        '--scroll-progress': progress,
+        '--scroll-in-view': isInView ? 1 : 0,
+      } as React.CSSProperties}
+      data-scroll-trigger
+      data-start={startPos}
+      data-end={endPos}
+      data-progress={progress}
+      data-in-view={isInView}
+    >
+      {markers && bounds && <TriggerMarkers bounds={bounds} horizontal={horizontal} on="element" />}
+      {children}
+    </motion.div>
+  )
+
   return (
     <>
       {DebugMarkers}
-      <motion.div
-        ref={elementRef}
-        className={cn(
-          'scroll-trigger',
-          {
-            'scroll-trigger-active': isInView,
-            'scroll-trigger-pinned': pin,
-          },
-          className
-        )}
-        style={{
-          ...pinStyles,
-          opacity: fade ? (triggerAnimations.current.get('fade')?.motionValue.get() ?? 1) : 1,
-          transform: pin ? pinStyles.transform : getTransformValue(),
-          willChange: 'transform, opacity',
-          ...(!pin && {
-            '--scroll-progress': progress,
-            '--scroll-in-view': isInView ? 1 : 0,
-          }),
-        }}
-        data-scroll-trigger
-        data-start={startPos}
-        data-end={endPos}
-        data-progress={progress}
-        data-in-view={isInView}
-      >
-        {children}
-      </motion.div>
+      {pin ? <Pin distance={pin === true ? undefined : pin}>{content}</Pin> : content}
     </>
   )
 }
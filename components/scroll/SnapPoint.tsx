@@ -0,0 +1,52 @@
+"use client"
+
+import React, { useEffect, useRef } from 'react'
+import { useLenis } from '@/providers/LenisProvider'
+import { getElementScrollOffset } from '@/lib/scroll/snap'
+import { cn } from '@/lib/utils'
+
+interface SnapPointProps {
+  id: string;
+  children?: React.ReactNode;
+  className?: string;
+  align?: 'start' | 'center'; // Which edge of the element settles at the top of the viewport
+}
+
+/**
+ * Named snap point - scrolling can settle here in addition to section boundaries
+ * Inside a ScrollContainer it snaps the page onto the container (its top edge);
+ * the container's own scroll doesn't snap
+ */
+export const SnapPoint: React.FC<SnapPointProps> = ({
+  id,
+  children,
+  className,
+  align = 'start',
+}) => {
+  const { registerSnapPoint } = useLenis()
+  const elementRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    return registerSnapPoint({
+      id,
+      kind: 'point',
+      getOffset: (scroll) => {
+        const element = elementRef.current
+        if (!element) return null
+
+        const offset = getElementScrollOffset(element, scroll)
+        return align === 'center'
+          ? offset + (element.offsetHeight - window.innerHeight) / 2
+          : offset
+      },
+    })
+  }, [id, align, registerSnapPoint])
+
+  return (
+    <div ref={elementRef} className={cn('relative', className)} data-snap-point={id}>
+      {children}
+    </div>
+  )
+}
+
+export default SnapPoint
@@ -0,0 +1,111 @@
+import { render } from '@testing-library/react'
+import { motionValue } from 'framer-motion'
+import { BackgroundPrimitives } from './background-primitives'
+import { ETHEREAL_CONFIG } from '@/config/ethereal.config'
+import { generateStars, getTwinkleOpacity } from '@/lib/ethereal/primitives'
+import { AnimationClockProvider } from '@/providers/AnimationClockProvider'
+import type { EtherealConfig } from '@/types/ethereal.types'
+
+// Frame callbacks are driven by hand
+let frameCallbacks: (() => void)[] = []
+
+jest.mock('framer-motion', () => {
+  const actual = jest.requireActual('framer-motion')
+  return {
+    ...actual,
+    useAnimationFrame: (callback: () => void) => {
+      frameCallbacks.push(callback)
+    },
+  }
+})
+
+const withPrimitives = (overrides: Partial<Record<'starfield' | 'nebula' | 'orbitRings', object>>): EtherealConfig => ({
+  ...ETHEREAL_CONFIG,
+  starfield: { ...ETHEREAL_CONFIG.starfield, ...overrides.starfield },
+  nebula: { ...ETHEREAL_CONFIG.nebula, ...overrides.nebula },
+  orbitRings: { ...ETHEREAL_CONFIG.orbitRings, ...overrides.orbitRings },
+})
+
+describe('BackgroundPrimitives', () => {
+  const mouseX = motionValue(512)
+  const mouseY = motionValue(384)
+
+  beforeEach(() => {
+    frameCallbacks = []
+  })
+
+  it('renders nothing while every primitive is disabled', () => {
+    const { container } = render(<BackgroundPrimitives config={ETHEREAL_CONFIG} mouseX={mouseX} mouseY={mouseY} />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('stacks enabled primitives by zIndex inside the background layer', () => {
+    const config = withPrimitives({
+      starfield: { enabled: true, count: 12 },
+      nebula: { enabled: true },
+      orbitRings: { enabled: true },
+    })
+    const { container } = render(<BackgroundPrimitives config={config} mouseX={mouseX} mouseY={mouseY} />)
+    const layers = Array.from(container.querySelectorAll<HTMLElement>('[data-ethereal-primitive]'))
+
+    expect(layers.map(layer => layer.getAttribute('data-ethereal-primitive'))).toEqual(['starfield', 'nebula', 'orbitRings'])
+    expect(layers.map(layer => layer.style.zIndex)).toEqual(['5', '8', '35'])
+    expect(container.querySelectorAll('circle')).toHaveLength(12)
+    expect(container.querySelectorAll('[data-star-band]')).toHaveLength(ETHEREAL_CONFIG.starfield.layers)
+    expect(container.querySelectorAll('feTurbulence')).toHaveLength(ETHEREAL_CONFIG.nebula.colors.length)
+    expect(container.querySelectorAll('ellipse')).toHaveLength(ETHEREAL_CONFIG.orbitRings.rings.length)
+  })
+
+  it('twinkles stars and moves dashes on the animation clock', () => {
+    const config = withPrimitives({
+      starfield: { enabled: true, count: 4, twinkle: { duration: [2, 2], amount: 1 } },
+      orbitRings: { enabled: true },
+    })
+    const { container } = render(
+      <AnimationClockProvider options={{ mode: 'paused', time: 1 }} allowOverrides={false}>
+        <BackgroundPrimitives config={config} mouseX={mouseX} mouseY={mouseY} />
+      </AnimationClockProvider>
+    )
+    frameCallbacks.forEach(callback => callback())
+
+    // Stars render band by band, each at its twinkle 1s in
+    const stars = generateStars(config.starfield)
+    const expected = [0, 1, 2]
+      .flatMap(band => stars.filter(star => star.band === band))
+      .map(star => getTwinkleOpacity(star, 1, 1))
+    const opacities = Array.from(container.querySelectorAll('circle')).map(circle => Number(circle.getAttribute('opacity')))
+    opacities.forEach((opacity, index) => expect(opacity).toBeCloseTo(expected[index], 2))
+
+    // 1s into the 90s ring's loop
+    const dashed = container.querySelectorAll('ellipse')[1]
+    expect(Number(dashed.getAttribute('stroke-dashoffset'))).toBeCloseTo(-100 / 90, 2)
+  })
+
+  it('holds everything still for reduced motion', () => {
+    const config = withPrimitives({
+      starfield: { enabled: true, count: 4 },
+      orbitRings: { enabled: true },
+    })
+    const { container } = render(
+      <AnimationClockProvider options={{ mode: 'paused', time: 5 }} allowOverrides={false}>
+        <BackgroundPrimitives config={config} mouseX={mouseX} mouseY={mouseY} prefersReducedMotion />
+      </AnimationClockProvider>
+    )
+    const before = container.innerHTML
+    frameCallbacks.forEach(callback => callback())
+
+    expect(container.innerHTML).toBe(before)
+    container.querySelectorAll('ellipse').forEach(ellipse => {
+      expect(ellipse).toHaveAttribute('stroke-dashoffset', '0')
+    })
+  })
+
+  it('drops the nebula when effects are off', () => {
+    const config = withPrimitives({ nebula: { enabled: true } })
+    const { container } = render(
+      <BackgroundPrimitives config={config} mouseX={mouseX} mouseY={mouseY} effects={false} />
+    )
+
+    expect(container.querySelector('[data-ethereal-nebula]')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,47 @@
+"use client"
+
+import React from "react"
+import { EtherealStarfield } from "./ethereal-starfield"
+import { EtherealNebula } from "./ethereal-nebula"
+import { OrbitRings } from "./orbit-rings"
+import { getActivePrimitives } from "@/lib/ethereal/primitives"
+import type {
+  BackgroundPrimitiveConfig,
+  BackgroundPrimitiveName,
+  BackgroundPrimitiveProps,
+  EtherealConfig,
+} from "@/types/ethereal.types"
+
+type PrimitiveComponents = {
+  [Name in BackgroundPrimitiveName]: React.FC<BackgroundPrimitiveProps<EtherealConfig[Name]>>
+}
+
+/**
+ * Layer types drawn alongside the celestial arcs - each one renders the
+ * EtherealConfig entry of the same name
+ */
+export const BACKGROUND_PRIMITIVES: PrimitiveComponents = {
+  starfield: EtherealStarfield,
+  nebula: EtherealNebula,
+  orbitRings: OrbitRings,
+}
+
+interface BackgroundPrimitivesProps extends Omit<BackgroundPrimitiveProps<BackgroundPrimitiveConfig>, "config"> {
+  config: EtherealConfig
+}
+
+/**
+ * Every enabled primitive, stacked by its zIndex among the arcs
+ */
+export const BackgroundPrimitives: React.FC<BackgroundPrimitivesProps> = ({ config, ...props }) => (
+  <>
+    {getActivePrimitives(config).map(({ name, zIndex }) => {
+      const Primitive = BACKGROUND_PRIMITIVES[name] as React.FC<BackgroundPrimitiveProps<BackgroundPrimitiveConfig>>
+      return (
+        <div key={name} className="absolute inset-0 pointer-events-none" style={{ zIndex }} data-ethereal-primitive={name}>
+          <Primitive config={config[name]} {...props} />
+        </div>
+      )
+    })}
+  </>
+)
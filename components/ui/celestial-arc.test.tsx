@@ -1,6 +1,7 @@
 import { render, screen } from '@testing-library/react'
 import { MotionValue } from 'framer-motion'
 import { CelestialArc } from './celestial-arc'
+import { GRADIENT_LAYERS } from '@/config/ethereal.config'
 
 // Mock framer-motion
 jest.mock('framer-motion', () => ({
@@ -10,6 +11,7 @@ jest.mock('framer-motion', () => ({
         className={className} 
         style={style} 
         data-testid="motion-div"
+        data-delay={props.transition?.delay}
         {...props}
       >
         {children}
@@ -123,4 +125,57 @@ describe('CelestialArc', () => {
     rerender(<CelestialArc {...defaultProps} parallaxStrength={0.8} />)
     expect(screen.getAllByTestId('motion-div')).toHaveLength(4)
   })
-})
\ No newline at end of file
+
+  it('normalizes parallax against custom bounds', () => {
+    const { useTransform } = require('framer-motion')
+    useTransform.mockClear()
+
+    render(<CelestialArc {...defaultProps} parallaxStrength={10} bounds={{ width: 200, height: 100 }} />)
+
+    // Mouse at 100 is the horizontal center of a 200px wide container and the bottom edge of a 100px tall one
+    const [transformX, transformY] = useTransform.mock.calls.slice(-2).map((call: any[]) => call[1])
+    expect(transformX(100)).toBe(0)
+    expect(transformY(100)).toBe(10)
+  })
+
+  it('keeps the last valid layers when the configuration stops compiling', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const layers = GRADIENT_LAYERS.slice(0, 1)
+    const broken = [{ ...layers[0], size: { ...layers[0].size, base: ['wide', '50%'] as [string, string] } }]
+
+    const { rerender, getAllByTestId } = render(<CelestialArc {...defaultProps} gradientLayers={layers} />)
+    const before = getAllByTestId('motion-div').map(element => element.style.background)
+
+    rerender(<CelestialArc {...defaultProps} gradientLayers={broken} />)
+
+    expect(getAllByTestId('motion-div')).toHaveLength(layers.length + 1)
+    expect(getAllByTestId('motion-div').map(element => element.style.background)).toEqual(before)
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('invalid gradient layers'), expect.anything())
+    error.mockRestore()
+  })
+
+  it('falls back to the default layers when the first configuration is invalid', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const broken = [{ ...GRADIENT_LAYERS[0], duration: -1 }]
+
+    const { getAllByTestId } = render(<CelestialArc {...defaultProps} gradientLayers={broken} />)
+
+    // The wrapper plus one element per default layer
+    expect(getAllByTestId('motion-div')).toHaveLength(GRADIENT_LAYERS.length + 1)
+    error.mockRestore()
+  })
+
+  it('resumes the morph loops where they were when the layers change', () => {
+    const now = jest.spyOn(performance, 'now').mockReturnValue(1000)
+    const layers = GRADIENT_LAYERS.slice(0, 1)
+
+    const { rerender, getAllByTestId } = render(<CelestialArc {...defaultProps} gradientLayers={layers} />)
+    expect(getAllByTestId('motion-div')[1]).toHaveAttribute('data-delay', '0')
+
+    now.mockReturnValue(3500)
+    rerender(<CelestialArc {...defaultProps} gradientLayers={[{ ...layers[0] }]} />)
+    expect(getAllByTestId('motion-div')[1]).toHaveAttribute('data-delay', String(-(2.5 % layers[0].duration)))
+
+    now.mockRestore()
+  })
+})
@@ -1,7 +1,17 @@
 "use client"
 
-import React, { useMemo, useState, useEffect } from "react"
+import React, { useMemo, useRef, useState, useEffect } from "react"
 import { type MotionValue, motion, useSpring, useTransform } from "framer-motion"
+import type { ArcConfiguration, GradientLayer, SpringConfiguration } from "@/types/ethereal.types"
+import { GRADIENT_LAYERS, SPRING_CONFIGS } from "@/config/ethereal.config"
+import {
+  type CompiledGradientLayer,
+  compileGradientLayers,
+  createGradientString,
+  sampleGradientLayer,
+} from "@/lib/ethereal/gradient-compiler"
+import { resolveArcAppearance } from "@/lib/ethereal/scene"
+import { useAnimationClock, useClockTime } from "@/providers/AnimationClockProvider"
 
 interface CelestialArcProps {
   mouseX: MotionValue<number>
@@ -12,10 +22,30 @@ interface CelestialArcProps {
   zIndex: number
   parallaxStrength: number
   prefersReducedMotion?: boolean
+  /** Runs the gradient morph loops (off holds the base shapes) */
+  morph?: boolean
+  gradientLayers?: GradientLayer[]
+  spring?: SpringConfiguration
+  duration?: number
+  /** Size of the area mouse coordinates are relative to (defaults to the viewport) */
+  bounds?: { width: number; height: number }
+  /** Scroll-velocity stretch along the scroll axis */
+  stretch?: MotionValue<number>
+  /** Scroll-velocity filter (hue shift) */
+  filter?: MotionValue<string>
 }
 
-// Optimized spring config for better performance
-const springConfig = { stiffness: 120, damping: 25, mass: 0.8, restSpeed: 0.01 }
+interface CompiledLayerSet {
+  source: GradientLayer[]
+  compiled: CompiledGradientLayer[]
+}
+
+let defaultLayerSet: CompiledLayerSet | null = null
+
+const getDefaultLayerSet = (): CompiledLayerSet => {
+  defaultLayerSet ??= { source: GRADIENT_LAYERS, compiled: compileGradientLayers(GRADIENT_LAYERS) }
+  return defaultLayerSet
+}
 
 export const CelestialArc: React.FC<CelestialArcProps> = ({
   mouseX,
@@ -26,41 +56,99 @@ export const CelestialArc: React.FC<CelestialArcProps> = ({
   zIndex,
   parallaxStrength,
   prefersReducedMotion = false,
+  morph = true,
+  gradientLayers = GRADIENT_LAYERS,
+  spring = SPRING_CONFIGS.celestial,
+  duration = 2,
+  bounds,
+  stretch,
+  filter,
 }) => {
   const [isClient, setIsClient] = useState(false)
+  const { deterministic } = useAnimationClock()
+  const mountedAt = useRef<number | null>(null)
   
   useEffect(() => {
+    mountedAt.current = performance.now()
     setIsClient(true)
   }, [])
 
   // Memoized transform functions for better performance
   const transformX = useMemo(() => (val: number) => {
     if (!isClient) return 0
-    return (val / window.innerWidth - 0.5) * 2 * parallaxStrength
-  }, [parallaxStrength, isClient])
+    const width = bounds?.width || window.innerWidth
+    return (val / width - 0.5) * 2 * parallaxStrength
+  }, [parallaxStrength, isClient, bounds?.width])
   
   const transformY = useMemo(() => (val: number) => {
     if (!isClient) return 0
-    return (val / window.innerHeight - 0.5) * 2 * parallaxStrength
-  }, [parallaxStrength, isClient])
+    const height = bounds?.height || window.innerHeight
+    return (val / height - 0.5) * 2 * parallaxStrength
+  }, [parallaxStrength, isClient, bounds?.height])
+
+  // Layers that last compiled - an invalid configuration keeps showing them
+  const lastValidLayers = useRef<CompiledLayerSet | null>(null)
+
+  // Compile layer definitions into morph keyframes once per configuration
+  const { source: sourceLayers, compiled: compiledLayers } = useMemo(() => {
+    try {
+      return { source: gradientLayers, compiled: compileGradientLayers(gradientLayers) }
+    } catch (error) {
+      console.error('CelestialArc: invalid gradient layers, keeping the last valid ones:', error)
+      return lastValidLayers.current ?? getDefaultLayerSet()
+    }
+  }, [gradientLayers])
+
+  useEffect(() => {
+    lastValidLayers.current = { source: sourceLayers, compiled: compiledLayers }
+  }, [sourceLayers, compiledLayers])
+
+  // Recolored layers (palette morphs) restart their loop - resume it where it was.
+  // The loops pick up new layers together with the offset measured when they arrived
+  const [morphLayers, setMorphLayers] = useState({ layers: compiledLayers, elapsed: 0 })
+  useEffect(() => {
+    setMorphLayers(current => current.layers === compiledLayers ? current : {
+      layers: compiledLayers,
+      elapsed: mountedAt.current === null ? 0 : (performance.now() - mountedAt.current) / 1000,
+    })
+  }, [compiledLayers])
 
   const transformedX = useTransform(mouseX, transformX)
   const transformedY = useTransform(mouseY, transformY)
 
-  const x = useSpring(transformedX, springConfig)
-  const y = useSpring(transformedY, springConfig)
+  const x = useSpring(transformedX, spring)
+  const y = useSpring(transformedY, spring)
+
+  const isMorphing = morph && !prefersReducedMotion
 
   // Prevent hydration mismatch by not rendering until client is ready
   if (!isClient) {
     return null
   }
 
+  // Paused, stepped and seeded clocks render every frame from clock time instead
+  if (deterministic) {
+    return (
+      <ClockedCelestialArc
+        x={transformedX}
+        y={transformedY}
+        arc={{ delay, scale, opacity, zIndex, parallaxStrength }}
+        duration={duration}
+        layers={compiledLayers}
+        gradientLayers={sourceLayers}
+        morph={isMorphing}
+      />
+    )
+  }
+
   return (
     <motion.div
       className="absolute inset-0 pointer-events-none"
       style={{
         x,
         y,
+        scaleY: stretch,
+        filter,
         zIndex: Number(zIndex),
         transform: `scale3d(${scale}, ${scale}, 1)`,
         willChange: "transform",
@@ -69,63 +157,97 @@ export const CelestialArc: React.FC<CelestialArcProps> = ({
       }}
       initial={{ opacity: 0, scale: 0.8 }}
       animate={{ opacity, scale }}
-      transition={{ delay, duration: 2, ease: "easeOut" }}
+      transition={{ delay, duration, ease: "easeOut" }}
     >
-      {/* Gradient layers remain the same as they are visually correct */}
-      <motion.div
-        className="absolute w-[200%] h-[200%] -top-1/2 -left-1/2"
-        style={{
-          background: `radial-gradient(ellipse 80% 60% at 75% 25%, rgba(30, 58, 138, 0.5) 0%, rgba(59, 130, 246, 0.3) 25%, rgba(37, 99, 235, 0.2) 50%, transparent 70%)`,
-        }}
-        animate={{
-          background: [
-            `radial-gradient(ellipse 80% 60% at 75% 25%, rgba(30, 58, 138, 0.5) 0%, rgba(59, 130, 246, 0.3) 25%, rgba(37, 99, 235, 0.2) 50%, transparent 70%)`,
-            `radial-gradient(ellipse 82% 62% at 76% 26%, rgba(30, 58, 138, 0.55) 0%, rgba(59, 130, 246, 0.35) 25%, rgba(37, 99, 235, 0.25) 50%, transparent 70%)`,
-            `radial-gradient(ellipse 80% 60% at 75% 25%, rgba(30, 58, 138, 0.5) 0%, rgba(59, 130, 246, 0.3) 25%, rgba(37, 99, 235, 0.2) 50%, transparent 70%)`,
-          ],
-        }}
-        transition={{ 
-          duration: prefersReducedMotion ? 0 : 8, 
-          repeat: prefersReducedMotion ? 0 : Number.POSITIVE_INFINITY, 
-          ease: "easeInOut" 
-        }}
-      />
-      <motion.div
-        className="absolute w-[180%] h-[180%] -top-1/2 -left-1/2"
-        style={{
-          background: `radial-gradient(ellipse 70% 50% at 70% 30%, rgba(59, 130, 246, 0.6) 0%, rgba(37, 99, 235, 0.4) 30%, transparent 60%)`,
-        }}
-        animate={{
-          background: [
-            `radial-gradient(ellipse 70% 50% at 70% 30%, rgba(59, 130, 246, 0.6) 0%, rgba(37, 99, 235, 0.4) 30%, transparent 60%)`,
-            `radial-gradient(ellipse 72% 52% at 71% 31%, rgba(59, 130, 246, 0.65) 0%, rgba(37, 99, 235, 0.45) 30%, transparent 60%)`,
-            `radial-gradient(ellipse 70% 50% at 70% 30%, rgba(59, 130, 246, 0.6) 0%, rgba(37, 99, 235, 0.4) 30%, transparent 60%)`,
-          ],
-        }}
-        transition={{ 
-          duration: prefersReducedMotion ? 0 : 7, 
-          repeat: prefersReducedMotion ? 0 : Number.POSITIVE_INFINITY, 
-          ease: "easeInOut" 
-        }}
-      />
-      <motion.div
-        className="absolute w-[160%] h-[160%] -top-1/2 -left-1/2"
-        style={{
-          background: `radial-gradient(ellipse 60% 40% at 65% 35%, rgba(96, 165, 250, 0.7) 0%, rgba(59, 130, 246, 0.5) 25%, transparent 50%)`,
-        }}
-        animate={{
-          background: [
-            `radial-gradient(ellipse 60% 40% at 65% 35%, rgba(96, 165, 250, 0.7) 0%, rgba(59, 130, 246, 0.5) 25%, transparent 50%)`,
-            `radial-gradient(ellipse 62% 42% at 66% 36%, rgba(96, 165, 250, 0.75) 0%, rgba(59, 130, 246, 0.55) 25%, transparent 50%)`,
-            `radial-gradient(ellipse 60% 40% at 65% 35%, rgba(96, 165, 250, 0.7) 0%, rgba(59, 130, 246, 0.5) 25%, transparent 50%)`,
-          ],
-        }}
-        transition={{ 
-          duration: prefersReducedMotion ? 0 : 6, 
-          repeat: prefersReducedMotion ? 0 : Number.POSITIVE_INFINITY, 
-          ease: "easeInOut" 
-        }}
-      />
+      {morphLayers.layers.map((layer, index) => (
+        <motion.div
+          key={index}
+          className="absolute -top-1/2 -left-1/2"
+          style={{ width: layer.extent, height: layer.extent, background: layer.initial }}
+          animate={{ background: layer.keyframes }}
+          transition={{
+            duration: isMorphing ? layer.duration : 0,
+            delay: isMorphing ? -(morphLayers.elapsed % layer.duration) : 0,
+            times: layer.times,
+            repeat: isMorphing ? Number.POSITIVE_INFINITY : 0,
+            ease: "easeInOut"
+          }}
+        />
+      ))}
     </motion.div>
   )
 }
+
+interface ClockedCelestialArcProps {
+  x: MotionValue<number>
+  y: MotionValue<number>
+  arc: ArcConfiguration
+  duration: number
+  layers: CompiledGradientLayer[]
+  gradientLayers: GradientLayer[]
+  morph: boolean
+}
+
+/**
+ * CelestialArc driven by the animation clock - entrance and morphs are sampled
+ * at clock time and pointer parallax skips the springs, so a frame only depends
+ * on the clock and the pointer
+ */
+const ClockedCelestialArc: React.FC<ClockedCelestialArcProps> = ({
+  x,
+  y,
+  arc,
+  duration,
+  layers,
+  gradientLayers,
+  morph,
+}) => {
+  const time = useClockTime()
+  const opacity = useTransform(time, (latest) => resolveArcAppearance(arc, latest, duration).opacity)
+  const scale = useTransform(time, (latest) => resolveArcAppearance(arc, latest, duration).scale)
+
+  return (
+    <motion.div
+      className="absolute inset-0 pointer-events-none"
+      style={{
+        x,
+        y,
+        zIndex: Number(arc.zIndex),
+        opacity,
+        scale,
+        willChange: "transform",
+        backfaceVisibility: "hidden",
+        perspective: "1000px",
+      }}
+      data-ethereal-clocked
+    >
+      {layers.map((layer, index) => (
+        <ClockedGradientLayer
+          key={index}
+          layer={layer}
+          source={gradientLayers[index]}
+          time={time}
+          morph={morph}
+        />
+      ))}
+    </motion.div>
+  )
+}
+
+const ClockedGradientLayer: React.FC<{
+  layer: CompiledGradientLayer
+  source: GradientLayer
+  time: MotionValue<number>
+  morph: boolean
+}> = ({ layer, source, time, morph }) => {
+  const background = useTransform(time, (latest) =>
+    morph ? createGradientString(sampleGradientLayer(source, latest), source.stops) : layer.initial
+  )
+
+  return (
+    <motion.div
+      className="absolute -top-1/2 -left-1/2"
+      style={{ width: layer.extent, height: layer.extent, background }}
+    />
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import React, { useEffect, useRef } from "react"
+import type { MotionValue } from "framer-motion"
+import { EtherealCanvasRenderer } from "@/lib/ethereal/canvas-renderer"
+import { createSectionRectLookup } from "@/lib/ethereal/spotlight"
+import { useAnimationClock } from "@/providers/AnimationClockProvider"
+import { useRegisteredSections } from "@/providers/SectionProvider"
+import type { EtherealConfig, QualityTier } from "@/types/ethereal.types"
+
+interface EtherealCanvasProps {
+  config: EtherealConfig
+  mouseX: MotionValue<number>
+  mouseY: MotionValue<number>
+  maskOpacity: MotionValue<number>
+  scrollProgress?: MotionValue<number>
+  prefersReducedMotion: boolean
+  quality?: QualityTier
+}
+
+/**
+ * Single-canvas counterpart of the DOM arc/spotlight/mask layers
+ * Draws the whole scene once per animation frame via EtherealCanvasRenderer
+ */
+export const EtherealCanvas: React.FC<EtherealCanvasProps> = ({
+  config,
+  mouseX,
+  mouseY,
+  maskOpacity,
+  scrollProgress,
+  prefersReducedMotion,
+  quality,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const rendererRef = useRef<EtherealCanvasRenderer | null>(null)
+  const { clock } = useAnimationClock()
+  // Spotlight section anchors resolve through the registered sections
+  const sections = useRegisteredSections()
+  const sectionsRef = useRef(sections)
+  sectionsRef.current = sections
+
+  // The renderer starts from the latest config; later changes are applied below
+  const configRef = useRef(config)
+  configRef.current = config
+
+  // Create the renderer once and keep the backing store in sync with size and DPR
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    let renderer: EtherealCanvasRenderer
+    try {
+      renderer = new EtherealCanvasRenderer(canvas, configRef.current)
+    } catch (error) {
+      // Canvas 2D unavailable - nothing to draw
+      return
+    }
+    rendererRef.current = renderer
+
+    const resize = () => {
+      const { width, height } = canvas.getBoundingClientRect()
+      renderer.resize(width, height, window.devicePixelRatio || 1)
+    }
+    resize()
+
+    const observer = typeof ResizeObserver !== "undefined" ? new ResizeObserver(resize) : null
+    observer?.observe(canvas)
+    // DPR changes (zoom, moving between screens) don't always resize the element
+    window.addEventListener("resize", resize)
+
+    return () => {
+      observer?.disconnect()
+      window.removeEventListener("resize", resize)
+      renderer.destroy()
+      rendererRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    rendererRef.current?.setConfig(config)
+  }, [config])
+
+  // Click/tap ripples
+  const pulsesEnabled = config.spotlight.pulse.enabled && !prefersReducedMotion
+  useEffect(() => {
+    if (!pulsesEnabled) return
+
+    const handlePointerDown = (event: PointerEvent) => {
+      const rect = canvasRef.current?.getBoundingClientRect()
+      if (!rect) return
+      rendererRef.current?.pulse(event.clientX - rect.left, event.clientY - rect.top)
+    }
+
+    window.addEventListener("pointerdown", handlePointerDown, { passive: true })
+    return () => window.removeEventListener("pointerdown", handlePointerDown)
+  }, [pulsesEnabled])
+
+  // Render loop
+  useEffect(() => {
+    let rafId: number
+    const start = performance.now()
+    const findSectionRect = createSectionRectLookup(() => sectionsRef.current)
+    const getSectionRect = (sectionId: string) => {
+      const canvas = canvasRef.current
+      return canvas ? findSectionRect(sectionId, canvas.getBoundingClientRect()) : null
+    }
+
+    const tick = (now: number) => {
+      rendererRef.current?.render({
+        // Reduced motion settles on the fully entered, un-morphed scene
+        time: prefersReducedMotion
+          ? Number.MAX_SAFE_INTEGER
+          : clock.deterministic ? clock.time : (now - start) / 1000,
+        pointerX: mouseX.get(),
+        pointerY: mouseY.get(),
+        scrollProgress: scrollProgress?.get() ?? 0,
+        maskOpacity: maskOpacity.get(),
+        reducedMotion: prefersReducedMotion,
+        getSectionRect,
+        quality,
+      })
+      rafId = requestAnimationFrame(tick)
+    }
+
+    rafId = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(rafId)
+  }, [mouseX, mouseY, maskOpacity, scrollProgress, prefersReducedMotion, quality, clock])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      aria-hidden="true"
+      data-ethereal-canvas
+    />
+  )
+}
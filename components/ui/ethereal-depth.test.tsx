@@ -1,8 +1,11 @@
-import { render, screen, fireEvent } from '@testing-library/react'
+import { render, screen, fireEvent, act } from '@testing-library/react'
 import { EtherealDepth } from './ethereal-depth'
+import { EtherealProvider, useEthereal } from '@/providers/EtherealProvider'
+import { AURORA_CONFIG } from '@/config/ethereal.presets'
 
 // Mock framer-motion
 jest.mock('framer-motion', () => ({
+  AnimatePresence: ({ children }: any) => <>{children}</>,
   motion: {
     div: ({ children, className, style, onMouseMove, ...props }: any) => (
       <div 
@@ -43,18 +46,76 @@ jest.mock('framer-motion', () => ({
 
 // Mock CelestialArc component
 jest.mock('./celestial-arc', () => ({
-  CelestialArc: ({ delay, scale, opacity, zIndex }: any) => (
-    <div data-testid="celestial-arc" data-delay={delay} data-scale={scale} data-opacity={opacity} data-zindex={zIndex} />
+  CelestialArc: ({ delay, scale, opacity, zIndex, stretch }: any) => (
+    <div data-testid="celestial-arc" data-delay={delay} data-scale={scale} data-opacity={opacity} data-zindex={zIndex} data-stretch={stretch ? 'velocity' : undefined} />
   ),
 }))
 
 // Mock EtherealSpotlight component
 jest.mock('./ethereal-spotlight', () => ({
-  EtherealSpotlight: ({ mouseX, mouseY }: any) => (
-    <div data-testid="ethereal-spotlight" />
+  EtherealSpotlight: ({ mouseX, mouseY, intensity }: any) => (
+    <div data-testid="ethereal-spotlight" data-intensity={intensity ? 'velocity' : undefined} />
   ),
 }))
 
+jest.mock('./ethereal-starfield', () => ({
+  EtherealStarfield: () => <div data-testid="ethereal-starfield" />,
+}))
+
+jest.mock('./ethereal-nebula', () => ({
+  EtherealNebula: () => <div data-testid="ethereal-nebula" />,
+}))
+
+jest.mock('./orbit-rings', () => ({
+  OrbitRings: () => <div data-testid="orbit-rings" />,
+}))
+
+// Mock Lenis-driven hooks so the component renders without providers
+jest.mock('@/hooks/use-lenis-scroll', () => ({
+  useLenisScroll: jest.fn(() => ({
+    scrollProgress: { get: () => 0 },
+    createScrollTransform: jest.fn((input: number[], output: any[]) => output[0]),
+    isReady: true,
+  })),
+}))
+
+jest.mock('@/hooks/use-animation-coordinator', () => ({
+  useAnimationCoordinator: jest.fn(() => ({
+    createParallaxAnimation: jest.fn(),
+    createSpringAnimation: jest.fn(),
+  })),
+}))
+
+jest.mock('@/hooks/use-performance-monitor', () => ({
+  detectDeviceCapabilities: jest.fn(() => ({ memoryLimit: 4096, cpuCores: 4, isLowEndDevice: false })),
+}))
+
+jest.mock('@/hooks/use-ethereal-input', () => ({
+  useEtherealInput: jest.fn(() => ({ source: null, deviceClass: 'desktop', orientationPermission: 'unsupported' })),
+}))
+
+// Scroll choreography: static timeline values, real section resolution
+jest.mock('@/hooks/use-scroll-choreography', () => ({
+  useScrollChoreography: jest.fn(({ choreography, sectionId }: any) => {
+    const { resolveSectionChoreography } = jest.requireActual('@/lib/ethereal/choreography')
+    const section = resolveSectionChoreography(choreography, sectionId)
+    return { scale: 1, y: 0, opacity: 1, mask: 0, tint: section.tint, tintOpacity: section.tintOpacity }
+  }),
+}))
+
+jest.mock('@/providers/SectionProvider', () => ({
+  useActiveSection: jest.fn(() => null),
+}))
+
+// Mock EtherealCanvas (jsdom has no 2D context)
+jest.mock('./ethereal-canvas', () => ({
+  EtherealCanvas: () => <canvas data-testid="ethereal-canvas" />,
+}))
+
+jest.mock('@/components/scroll/ParallaxLayer', () => ({
+  ParallaxLayer: ({ children }: any) => <div data-testid="parallax-layer">{children}</div>,
+}))
+
 // Mock useReducedMotion hook
 jest.mock('../../hooks/use-reduced-motion', () => ({
   useReducedMotion: jest.fn(() => false),
@@ -80,7 +141,7 @@ describe('EtherealDepth', () => {
 
   it('renders without crashing', () => {
     render(<EtherealDepth />)
-    expect(screen.getAllByTestId('motion-div')).toHaveLength(4) // Main + inner + spotlight + mask divs
+    expect(screen.getAllByTestId('motion-div')).toHaveLength(5) // Main + inner + config layer + spotlight + mask divs
   })
 
   it('renders all celestial arcs', () => {
@@ -149,4 +210,150 @@ describe('EtherealDepth', () => {
     const style = mainContainer.style
     expect(style.willChange).toBe('transform')
   })
-})
\ No newline at end of file
+
+  it('renders arcs from the config prop', () => {
+    render(<EtherealDepth config={{ ...AURORA_CONFIG, arcConfigurations: AURORA_CONFIG.arcConfigurations.slice(0, 2) }} />)
+    expect(screen.getAllByTestId('celestial-arc')).toHaveLength(2)
+  })
+
+  it('uses the background of the active configuration', () => {
+    // jsdom drops gradient backgrounds, so use a solid color
+    render(<EtherealDepth config={{ ...AURORA_CONFIG, colors: { ...AURORA_CONFIG.colors, background: '#00100c' } }} />)
+    const mainContainer = screen.getAllByTestId('motion-div')[0]
+    expect(mainContainer.style.background).toContain('rgb(0, 16, 12)')
+  })
+
+  it('starts a new generation when the provider preset changes', () => {
+    let switchPreset: (name: string) => void = () => {}
+    const PresetSwitcher = () => {
+      switchPreset = useEthereal().setPreset
+      return null
+    }
+
+    const { container } = render(
+      <EtherealProvider preset="cosmic-blue">
+        <PresetSwitcher />
+        <EtherealDepth />
+      </EtherealProvider>
+    )
+    expect(container.querySelector('[data-ethereal-generation]')).toHaveAttribute('data-ethereal-generation', '0')
+
+    act(() => switchPreset('ember'))
+    expect(container.querySelector('[data-ethereal-generation]')).toHaveAttribute('data-ethereal-generation', '1')
+  })
+
+  it('restyles the current generation for live edits', () => {
+    let context: ReturnType<typeof useEthereal> | null = null
+    const Tuner = () => {
+      context = useEthereal()
+      return null
+    }
+
+    const { container } = render(
+      <EtherealProvider preset="cosmic-blue">
+        <Tuner />
+        <EtherealDepth />
+      </EtherealProvider>
+    )
+
+    const arcs = context!.config.arcConfigurations.slice(0, 2)
+    act(() => context!.setConfig({ ...context!.config, arcConfigurations: arcs }, { crossfade: false }))
+
+    expect(screen.getAllByTestId('celestial-arc')).toHaveLength(2)
+    expect(container.querySelector('[data-ethereal-generation]')).toHaveAttribute('data-ethereal-generation', '0')
+  })
+
+  it('renders enabled background primitives alongside the arcs', () => {
+    const config = {
+      ...AURORA_CONFIG,
+      starfield: { ...AURORA_CONFIG.starfield, enabled: true },
+      orbitRings: { ...AURORA_CONFIG.orbitRings, enabled: true },
+    }
+    render(<EtherealDepth config={config} />)
+
+    expect(screen.getByTestId('ethereal-starfield')).toBeInTheDocument()
+    expect(screen.getByTestId('orbit-rings')).toBeInTheDocument()
+    expect(screen.queryByTestId('ethereal-nebula')).not.toBeInTheDocument()
+    expect(screen.getAllByTestId('celestial-arc')).toHaveLength(4)
+  })
+
+  it('drives arcs and spotlights from scroll velocity when enabled', () => {
+    const { useReducedMotion } = require('../../hooks/use-reduced-motion')
+    useReducedMotion.mockReturnValue(false)
+
+    const config = { ...AURORA_CONFIG, velocityEffects: { ...AURORA_CONFIG.velocityEffects, enabled: true } }
+    render(<EtherealDepth config={config} />)
+
+    screen.getAllByTestId('celestial-arc').forEach(arc => expect(arc).toHaveAttribute('data-stretch', 'velocity'))
+    expect(screen.getByTestId('ethereal-spotlight')).toHaveAttribute('data-intensity', 'velocity')
+  })
+
+  it('leaves velocity effects off for reduced motion', () => {
+    const { useReducedMotion } = require('../../hooks/use-reduced-motion')
+    useReducedMotion.mockReturnValue(true)
+
+    const config = { ...AURORA_CONFIG, velocityEffects: { ...AURORA_CONFIG.velocityEffects, enabled: true } }
+    render(<EtherealDepth config={config} />)
+
+    screen.getAllByTestId('celestial-arc').forEach(arc => expect(arc).not.toHaveAttribute('data-stretch'))
+    useReducedMotion.mockReturnValue(false)
+  })
+
+  it('draws onto a single canvas in canvas2d mode', () => {
+    render(<EtherealDepth renderer="canvas2d" />)
+
+    expect(screen.getByTestId('ethereal-canvas')).toBeInTheDocument()
+    expect(screen.queryAllByTestId('celestial-arc')).toHaveLength(0)
+    expect(screen.queryByTestId('ethereal-spotlight')).not.toBeInTheDocument()
+  })
+
+  it('falls back to canvas2d on low-end devices in auto mode', () => {
+    const { detectDeviceCapabilities } = require('@/hooks/use-performance-monitor')
+    detectDeviceCapabilities.mockReturnValueOnce({ memoryLimit: 2048, cpuCores: 2, isLowEndDevice: true })
+
+    const { container } = render(<EtherealDepth renderer="auto" />)
+    expect(container.querySelector('[data-ethereal-renderer]')).toHaveAttribute('data-ethereal-renderer', 'canvas2d')
+    expect(screen.getByTestId('ethereal-canvas')).toBeInTheDocument()
+  })
+
+  it('only detects the device for the auto renderer', () => {
+    const { detectDeviceCapabilities } = require('@/hooks/use-performance-monitor')
+
+    render(<EtherealDepth />)
+    render(<EtherealDepth renderer="canvas2d" />)
+    expect(detectDeviceCapabilities).not.toHaveBeenCalled()
+  })
+
+  it('server-renders the static poster instead of a blank frame', () => {
+    // The browser build of react-dom/server needs TextEncoder, which jsdom lacks
+    const { renderToString } = require('react-dom/server.node')
+    const html = renderToString(<EtherealDepth />)
+
+    expect(html).toContain('data-ethereal-poster')
+    expect(html).not.toContain('data-testid="celestial-arc"')
+  })
+
+  it('fills and tracks its host element in container scope', () => {
+    const { useEtherealInput } = require('@/hooks/use-ethereal-input')
+    render(<EtherealDepth scope="container" />)
+
+    const mainContainer = screen.getAllByTestId('motion-div')[0]
+    expect(mainContainer).toHaveClass('absolute', 'inset-0')
+    expect(mainContainer).not.toHaveClass('fixed')
+    expect(mainContainer).toHaveAttribute('data-ethereal-scope', 'container')
+
+    // Input is reported relative to the host rather than the window
+    const [{ element }] = useEtherealInput.mock.calls[useEtherealInput.mock.calls.length - 1]
+    expect(element).toHaveProperty('current')
+  })
+
+  it('tints the background while a choreographed section is active', () => {
+    const { useActiveSection } = require('@/providers/SectionProvider')
+    useActiveSection.mockReturnValue('section-2')
+
+    const { container } = render(<EtherealDepth />)
+    expect(container.querySelector('[data-ethereal-tint]')).toBeInTheDocument()
+
+    useActiveSection.mockReturnValue(null)
+  })
+})
@@ -1,36 +1,111 @@
 "use client"
 
 import React, { useEffect, useRef, useState } from "react"
-import { motion, useMotionValue, useScroll, useSpring, useTransform } from "framer-motion"
+import { AnimatePresence, motion, useMotionValue, useScroll, useSpring, useTransform } from "framer-motion"
 import { CelestialArc } from "./celestial-arc"
+import { BackgroundPrimitives } from "./background-primitives"
 import { EtherealSpotlight } from "./ethereal-spotlight"
+import { EtherealCanvas } from "./ethereal-canvas"
+import { EtherealPoster } from "./ethereal-poster"
 import { useReducedMotion } from "@/hooks/use-reduced-motion"
 import { useLenisScroll } from "@/hooks/use-lenis-scroll"
 import { useAnimationCoordinator } from "@/hooks/use-animation-coordinator"
+import { detectDeviceCapabilities } from "@/hooks/use-performance-monitor"
+import { useEtherealInput } from "@/hooks/use-ethereal-input"
+import { useElementSize } from "@/hooks/use-element-size"
+import { useScrollChoreography } from "@/hooks/use-scroll-choreography"
+import { useContrastPalette } from "@/hooks/use-contrast-palette"
+import { useVelocityEffects } from "@/hooks/use-velocity-effects"
 import { ParallaxLayer } from "@/components/scroll/ParallaxLayer"
+import { useEtherealConfig, useEtherealGeneration } from "@/providers/EtherealProvider"
+import { useActiveSection } from "@/providers/SectionProvider"
+import { useQuality } from "@/providers/QualityProvider"
+import { useAnimationClock } from "@/providers/AnimationClockProvider"
+import { createSpotlightGradient } from "@/config/ethereal.config"
+import { limitArcs } from "@/lib/ethereal/quality"
+import { reportConfigDiagnostics } from "@/lib/ethereal/config-validator"
+import { cn } from "@/lib/utils"
+import type { EtherealConfig } from "@/types/ethereal.types"
 
-const arcConfigurations = [
-  { delay: 0, scale: 1.2, opacity: 0.3, zIndex: 10, parallaxStrength: -15 },
-  { delay: 0.3, scale: 1.0, opacity: 0.5, zIndex: 20, parallaxStrength: -8 },
-  { delay: 0.6, scale: 0.8, opacity: 0.7, zIndex: 30, parallaxStrength: -3 },
-  { delay: 0.9, scale: 0.6, opacity: 0.4, zIndex: 40, parallaxStrength: 5 },
-]
+export type EtherealRenderer = "dom" | "canvas2d" | "auto"
 
-// Optimized spring configs for different use cases
-const scrollSpringConfig = { stiffness: 80, damping: 18, mass: 0.4, restSpeed: 0.01 }
-const mouseSpringConfig = { stiffness: 60, damping: 15, mass: 0.3, restSpeed: 0.01 }
+/** "viewport" covers the window; "container" fills and tracks the positioned parent */
+export type EtherealScope = "viewport" | "container"
 
-export const EtherealDepth: React.FC = () => {
+interface EtherealDepthProps {
+  /** Explicit configuration - takes precedence over the EtherealProvider preset */
+  config?: EtherealConfig
+  /**
+   * "dom" animates layered motion.divs, "canvas2d" draws the scene onto a single
+   * canvas, "auto" picks canvas2d on low-end devices
+   */
+  renderer?: EtherealRenderer
+  scope?: EtherealScope
+  className?: string
+}
+
+export const EtherealDepth: React.FC<EtherealDepthProps> = ({
+  config: configProp,
+  renderer = "dom",
+  scope = "viewport",
+  className,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null)
   const [isLoaded, setIsLoaded] = useState(false)
   const [isClient, setIsClient] = useState(false)
   const prefersReducedMotion = useReducedMotion()
+  // Paused/stepped/seeded clocks render reproducible frames - no springs, fades or live input
+  const { clock, deterministic } = useAnimationClock()
+  const instant = prefersReducedMotion || deterministic
+  const isContainer = scope === "container"
+  const contextConfig = useEtherealConfig()
+  const providerGeneration = useEtherealGeneration()
+  const baseConfig = configProp ?? contextConfig
+  // Colors morph toward the ContrastProvider mode's palette (when there is one)
+  const config = useContrastPalette(baseConfig, { immediate: instant })
+  const { colors, timing, springConfigs } = config
+
+  // Each configuration change gets its own generation so the old one can cross-fade out;
+  // palette morphs and live provider edits restyle the current generation in place
+  const generationSource = configProp ?? providerGeneration ?? baseConfig
+  // (bumped during render from the previous source in state, so discarded renders don't count)
+  const [generationState, setGenerationState] = useState({ source: generationSource, key: 0 })
+  let currentGeneration = generationState
+  if (generationState.source !== generationSource) {
+    currentGeneration = { source: generationSource, key: generationState.key + 1 }
+    setGenerationState(currentGeneration)
+  }
+  const generation = currentGeneration.key
+
+  // Development builds flag configurations that break the organic-motion rules
+  useEffect(() => {
+    if (process.env.NODE_ENV === "development") {
+      reportConfigDiagnostics(baseConfig)
+    }
+  }, [baseConfig])
+
+  // Quality budget from QualityProvider (everything on without one)
+  const { tier: quality } = useQuality()
+  const arcs = limitArcs(config.arcConfigurations, quality)
+
+  // Only "auto" needs device detection; it runs on the client, so "auto" starts
+  // out as DOM to match the server render
+  const [isLowEndDevice, setIsLowEndDevice] = useState(false)
+  useEffect(() => {
+    if (renderer === "auto") {
+      setIsLowEndDevice(detectDeviceCapabilities().isLowEndDevice)
+    }
+  }, [renderer])
+  const activeRenderer = renderer === "auto"
+    ? (isLowEndDevice ? "canvas2d" : "dom")
+    : renderer
+  const useCanvas = activeRenderer === "canvas2d"
 
   const mouseX = useMotionValue(0)
   const mouseY = useMotionValue(0)
 
   // Use Lenis scroll integration instead of native useScroll
-  const { scrollProgress, createScrollTransform, isReady } = useLenisScroll({
+  const { scrollProgress, velocity, isReady } = useLenisScroll({
     onScroll: (data) => {
       // Scroll data handled internally by animation coordinator
     }
@@ -43,62 +118,67 @@ export const EtherealDepth: React.FC = () => {
     performanceMode: prefersReducedMotion ? 'battery' : 'smooth'
   })
 
-  // Enhanced scroll transforms using Lenis
-  const scale = createScrollTransform([0, 1], [1, 1.5])
-  const y = createScrollTransform([0, 1], [0, -200])
-  const opacity = createScrollTransform([0, 0.5, 1], [1, 0.8, 0])
-  const maskOpacity = createScrollTransform([0.8, 1], [0, 1])
+  // Container scope: 0 when the host's top reaches the viewport top, 1 once it has scrolled out
+  const { scrollYProgress: containerProgress } = useScroll(
+    isContainer ? { target: containerRef, offset: ["start start", "end start"] } : undefined
+  )
+  const bounds = useElementSize(isContainer ? containerRef : undefined)
+  const scrollReady = isContainer || isReady
 
-  const spotlightBackground = useTransform<number[], string>(
+  // Scroll choreography - page progress (via Lenis) in viewport scope, the host's own progress in container scope
+  const activeSection = useActiveSection()
+  const { scale, y, opacity, mask: maskOpacity, tint, tintOpacity } = useScrollChoreography({
+    choreography: config.scrollChoreography,
+    progress: isContainer ? containerProgress : scrollProgress,
+    sectionId: activeSection,
+    spring: springConfigs.main,
+    immediate: instant,
+  })
+
+  // Scroll speed stretches the arcs, shifts their hue and brightens the spotlights
+  const velocityEffects = useVelocityEffects({
+    velocity,
+    effects: config.velocityEffects,
+    enabled: !prefersReducedMotion && !deterministic,
+  })
+
+  const spotlightBackground = useTransform<number, string>(
     [mouseX, mouseY],
-    ([latestX, latestY]) =>
-      `radial-gradient(circle at ${latestX}px ${latestY}px, rgba(59, 130, 246, 0.1) 0%, transparent 300px)`,
+    ([latestX, latestY]) => createSpotlightGradient(latestX, latestY, colors.glow),
   )
 
   useEffect(() => {
     setIsClient(true)
     setIsLoaded(true)
-    
-    // Safer mouse tracking with CodeSandbox compatibility
-    let ticking = false
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!ticking && !prefersReducedMotion) {
-        requestAnimationFrame(() => {
-          try {
-            mouseX.set(e.clientX)
-            mouseY.set(e.clientY)
-          } catch (error) {
-            // Mouse tracking error handled silently
-          }
-          ticking = false
-        })
-        ticking = true
-      }
-    }
+  }, [])
 
-    // Check if we're in a safe environment for mouse tracking
-    if (typeof window !== 'undefined' && !prefersReducedMotion) {
-      try {
-        window.addEventListener("mousemove", handleMouseMove, { passive: true })
-        return () => {
-          try {
-            window.removeEventListener("mousemove", handleMouseMove)
-          } catch (error) {
-            // Mouse listener cleanup error handled silently
-          }
-        }
-      } catch (error) {
-        // Mouse tracking initialization error handled silently
-      }
-    }
-  }, [mouseX, mouseY, prefersReducedMotion])
+  // Without live input the pointer rests at the center of the scene
+  useEffect(() => {
+    if (!deterministic) return
+    const width = isContainer ? bounds.width : window.innerWidth
+    const height = isContainer ? bounds.height : window.innerHeight
+    mouseX.jump(width / 2)
+    mouseY.jump(height / 2)
+  }, [deterministic, isContainer, bounds.width, bounds.height, mouseX, mouseY])
+
+  // Pointer, touch, tilt or idle drift - whatever the device offers
+  const { source: inputSource } = useEtherealInput({
+    x: mouseX,
+    y: mouseY,
+    config: config.input,
+    enabled: !prefersReducedMotion && !deterministic,
+    element: isContainer ? containerRef : undefined,
+  })
 
   return (
     <motion.div
       ref={containerRef}
-      className="fixed top-0 left-0 w-full h-screen overflow-hidden"
+      className={cn(
+        isContainer ? "absolute inset-0 w-full h-full overflow-hidden" : "fixed top-0 left-0 w-full h-screen overflow-hidden",
+        className
+      )}
       style={{
-        background: "linear-gradient(135deg, #020010 0%, #0a0a23 50%, #020010 100%)",
+        background: colors.background,
         perspective: "1000px",
         scale,
         opacity,
@@ -108,36 +188,108 @@ export const EtherealDepth: React.FC = () => {
       }}
       data-ethereal-depth
       data-lenis-ready={isReady}
+      data-ethereal-renderer={activeRenderer}
+      data-ethereal-input={inputSource ?? undefined}
+      data-ethereal-scope={scope}
+      data-ethereal-quality={quality.name}
+      data-ethereal-clock={clock.mode}
     >
+      {/* Server-rendered frozen frame - covers the first paint until the live layers fade in above it */}
+      <AnimatePresence>
+        {!isLoaded && (
+          <motion.div
+            key="poster"
+            className="absolute inset-0"
+            exit={{ opacity: 0 }}
+            transition={{ duration: instant ? 0 : timing.loadDuration }}
+          >
+            <EtherealPoster config={config} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       <motion.div
         className="absolute inset-0"
         style={{ transformStyle: "preserve-3d" }}
         initial={{ opacity: 0 }}
         animate={{ opacity: isLoaded ? 1 : 0 }}
-        transition={{ duration: 1.5 }}
+        transition={{ duration: deterministic ? 0 : timing.loadDuration }}
       >
-        {/* Enhanced parallax celestial arcs */}
-        {isClient && isReady && arcConfigurations.map((config, index) => (
-          <ParallaxLayer
-            key={config.zIndex}
-            speed={config.parallaxStrength * 0.01}
-            direction="vertical"
-            easing="smooth"
+        {/* Configuration layer - cross-fades when the preset changes */}
+        <AnimatePresence initial={false}>
+          <motion.div
+            key={generation}
             className="absolute inset-0"
+            style={{ background: colors.background, transformStyle: "preserve-3d" }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: instant ? 0 : timing.crossfadeDuration }}
+            data-ethereal-generation={generation}
           >
-            <CelestialArc 
-              mouseX={mouseX} 
-              mouseY={mouseY} 
-              prefersReducedMotion={prefersReducedMotion}
-              {...config} 
-            />
-          </ParallaxLayer>
-        ))}
+            {/* Single-canvas renderer draws arcs, spotlight and mask itself */}
+            {useCanvas && isClient && (
+              <EtherealCanvas
+                config={config}
+                mouseX={mouseX}
+                mouseY={mouseY}
+                maskOpacity={maskOpacity}
+                scrollProgress={isContainer ? containerProgress : scrollProgress}
+                prefersReducedMotion={prefersReducedMotion}
+                quality={quality}
+              />
+            )}
+
+            {/* Enhanced parallax celestial arcs */}
+            {!useCanvas && isClient && scrollReady && arcs.map((arc) => (
+              <ParallaxLayer
+                key={arc.zIndex}
+                speed={arc.parallaxStrength * 0.01}
+                disabled={isContainer}
+                direction="vertical"
+                easing="smooth"
+                className="absolute inset-0"
+                // Stacks the arc among the background primitives
+                style={{ zIndex: arc.zIndex }}
+              >
+                <CelestialArc
+                  mouseX={mouseX}
+                  mouseY={mouseY}
+                  prefersReducedMotion={prefersReducedMotion}
+                  morph={quality.morph}
+                  gradientLayers={config.gradientLayers}
+                  spring={springConfigs.celestial}
+                  duration={timing.arcDuration}
+                  bounds={isContainer ? bounds : undefined}
+                  stretch={velocityEffects.active ? velocityEffects.stretch : undefined}
+                  filter={velocityEffects.active ? velocityEffects.arcFilter : undefined}
+                  {...arc}
+                />
+              </ParallaxLayer>
+            ))}
+
+            {/* Starfield, nebula and orbit rings - interleaved with the arcs by zIndex */}
+            {!useCanvas && isClient && scrollReady && (
+              <BackgroundPrimitives
+                config={config}
+                mouseX={mouseX}
+                mouseY={mouseY}
+                scrollProgress={isContainer ? containerProgress : scrollProgress}
+                spring={springConfigs.celestial}
+                prefersReducedMotion={prefersReducedMotion}
+                effects={quality.effects}
+                scrollEffects={quality.scrollEffects}
+                bounds={isContainer ? bounds : undefined}
+              />
+            )}
+          </motion.div>
+        </AnimatePresence>
 
         {/* Enhanced spotlight with parallax */}
-        {isClient && isReady && (
+        {!useCanvas && isClient && scrollReady && (
           <ParallaxLayer
             speed={-0.1}
+            disabled={isContainer}
             direction="both"
             easing="spring"
             className="absolute inset-0"
@@ -149,30 +301,62 @@ export const EtherealDepth: React.FC = () => {
           </ParallaxLayer>
         )}
 
-        {/* Main spotlight effect */}
-        {isClient && isLoaded && isReady && (
+        {/* Spotlights - cursor light, wanderers, section lights, trails and pulses */}
+        {!useCanvas && isClient && isLoaded && scrollReady && (
           <ParallaxLayer
             speed={0.2}
+            disabled={isContainer}
             direction="vertical"
             easing="smooth"
             className="absolute inset-0"
           >
-            <EtherealSpotlight mouseX={mouseX} mouseY={mouseY} />
+            <EtherealSpotlight
+              mouseX={mouseX}
+              mouseY={mouseY}
+              gradient={colors.spotlight}
+              duration={timing.spotlightDuration}
+              config={config.spotlight}
+              prefersReducedMotion={prefersReducedMotion}
+              effects={quality.effects}
+              frozen={!quality.spotlight}
+              element={isContainer ? containerRef : undefined}
+              intensity={velocityEffects.active ? velocityEffects.spotlightBoost : undefined}
+            />
           </ParallaxLayer>
         )}
 
-        {/* Scroll-based mask overlay */}
-        <motion.div
-          className="absolute inset-0 z-50 pointer-events-none"
-          style={{
-            background: "rgba(2, 0, 16, 0.9)",
-            opacity: maskOpacity,
-            willChange: "opacity",
-          }}
-        />
-        
-        {/* Static gradient overlay */}
-        <div className="absolute inset-0 z-40 pointer-events-none bg-gradient-to-t from-black/50 to-transparent" />
+        {/* Section tint - washes over both renderers */}
+        <AnimatePresence>
+          {tint && (
+            <motion.div
+              key={tint}
+              className="absolute inset-0 z-40 pointer-events-none"
+              style={{ background: tint }}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: tintOpacity }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: instant ? 0 : timing.crossfadeDuration }}
+              data-ethereal-tint
+            />
+          )}
+        </AnimatePresence>
+
+        {!useCanvas && (
+          <>
+            {/* Scroll-based mask overlay */}
+            <motion.div
+              className="absolute inset-0 z-50 pointer-events-none"
+              style={{
+                background: colors.maskOverlay,
+                opacity: maskOpacity,
+                willChange: "opacity",
+              }}
+            />
+
+            {/* Static gradient overlay */}
+            <div className="absolute inset-0 z-40 pointer-events-none bg-gradient-to-t from-black/50 to-transparent" />
+          </>
+        )}
       </motion.div>
     </motion.div>
   )
@@ -0,0 +1,80 @@
+"use client"
+
+import React, { useId } from "react"
+import { motion, useAnimationFrame, useMotionValue } from "framer-motion"
+import { SPRING_CONFIGS } from "@/config/ethereal.config"
+import { createNebulaColorMatrix, getNebulaDrift } from "@/lib/ethereal/primitives"
+import { usePrimitiveParallax } from "@/hooks/use-primitive-parallax"
+import { useAnimationClock } from "@/providers/AnimationClockProvider"
+import type { BackgroundPrimitiveProps, NebulaConfig } from "@/types/ethereal.types"
+
+export const EtherealNebula: React.FC<BackgroundPrimitiveProps<NebulaConfig>> = ({
+  mouseX,
+  mouseY,
+  config,
+  scrollProgress,
+  spring = SPRING_CONFIGS.celestial,
+  prefersReducedMotion = false,
+  effects = true,
+  scrollEffects = true,
+  bounds,
+}) => {
+  const { clock, deterministic } = useAnimationClock()
+  // useId's colons aren't valid inside url(#...) references
+  const filterId = `nebula${useId().replace(/:/g, "")}`
+
+  const { x, y } = usePrimitiveParallax({
+    mouseX,
+    mouseY,
+    scrollProgress,
+    strength: prefersReducedMotion ? 0 : config.parallaxStrength,
+    scrollDepth: prefersReducedMotion || !scrollEffects ? 0 : config.scrollDepth,
+    spring,
+    bounds,
+    immediate: prefersReducedMotion || deterministic,
+  })
+
+  const driftX = useMotionValue(0)
+  const driftY = useMotionValue(0)
+
+  // Slow wander on the animation clock (held at rest for reduced motion)
+  useAnimationFrame(() => {
+    if (prefersReducedMotion) return
+    const drift = getNebulaDrift(clock.time, config.drift)
+    driftX.set(drift.x)
+    driftY.set(drift.y)
+  })
+
+  // Full-screen turbulence is the most expensive layer - it goes with the other effects
+  if (!effects) return null
+
+  return (
+    <motion.div
+      className="absolute -inset-[10%] pointer-events-none"
+      style={{ x, y, opacity: config.opacity, mixBlendMode: config.blendMode, willChange: "transform" }}
+      data-ethereal-nebula
+    >
+      <motion.div className="absolute inset-0" style={{ x: driftX, y: driftY }}>
+        <svg className="absolute inset-0 w-full h-full" aria-hidden="true">
+          <defs>
+            {config.colors.map((color, index) => (
+              <filter key={index} id={`${filterId}-${index}`} x="0" y="0" width="100%" height="100%">
+                {/* Each color gets its own noise field, so the clouds overlap instead of stacking */}
+                <feTurbulence
+                  type="fractalNoise"
+                  baseFrequency={config.frequency}
+                  numOctaves={config.octaves}
+                  seed={config.seed + index}
+                />
+                <feColorMatrix type="matrix" values={createNebulaColorMatrix(color, config.threshold)} />
+              </filter>
+            ))}
+          </defs>
+          {config.colors.map((_, index) => (
+            <rect key={index} width="100%" height="100%" filter={`url(#${filterId}-${index})`} />
+          ))}
+        </svg>
+      </motion.div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,31 @@
+import type React from "react"
+import { cn } from "@/lib/utils"
+import { ETHEREAL_CONFIG } from "@/config/ethereal.config"
+import { createEtherealPosterBackground, type EtherealPosterOptions } from "@/lib/ethereal/poster"
+import type { EtherealConfig } from "@/types/ethereal.types"
+
+interface EtherealPosterProps extends EtherealPosterOptions {
+  config?: EtherealConfig
+  className?: string
+  style?: React.CSSProperties
+}
+
+/**
+ * Static frame of the ethereal background
+ * Has no client-side dependencies, so it renders on the server and without JavaScript
+ */
+export const EtherealPoster: React.FC<EtherealPosterProps> = ({
+  config = ETHEREAL_CONFIG,
+  className,
+  style,
+  ...options
+}) => {
+  return (
+    <div
+      aria-hidden="true"
+      className={cn("absolute inset-0 pointer-events-none", className)}
+      style={{ background: createEtherealPosterBackground(config, options), ...style }}
+      data-ethereal-poster
+    />
+  )
+}
@@ -0,0 +1,84 @@
+import { render } from '@testing-library/react'
+import { motionValue } from 'framer-motion'
+import { EtherealSpotlight } from './ethereal-spotlight'
+import { SPOTLIGHT_CONFIG } from '@/config/ethereal.config'
+import type { EtherealSpotlightConfig } from '@/types/ethereal.types'
+
+// Frame callbacks are driven by hand
+let frameCallback: (() => void) | null = null
+
+jest.mock('framer-motion', () => {
+  const actual = jest.requireActual('framer-motion')
+  return {
+    ...actual,
+    motion: {
+      div: ({ style, ...props }: any) => (
+        <div
+          data-opacity={style.opacity?.get?.()}
+          data-blend={style.mixBlendMode}
+          data-filter={style.filter?.get?.() ?? style.filter}
+          {...props}
+        />
+      ),
+    },
+    useAnimationFrame: (callback: () => void) => {
+      frameCallback = callback
+    },
+  }
+})
+
+describe('EtherealSpotlight', () => {
+  const mouseX = motionValue(100)
+  const mouseY = motionValue(200)
+
+  it('renders the single cursor light by default', () => {
+    const { container } = render(<EtherealSpotlight mouseX={mouseX} mouseY={mouseY} />)
+    const sprites = container.querySelectorAll('[data-spotlight-sprite]')
+
+    expect(sprites).toHaveLength(1)
+    expect(sprites[0]).toHaveAttribute('data-spotlight-sprite', 'light')
+    expect(sprites[0]).toHaveAttribute('data-blend', 'screen')
+  })
+
+  it('renders every light, trail and pulse with its own blend mode', () => {
+    const config: EtherealSpotlightConfig = {
+      ...SPOTLIGHT_CONFIG,
+      lights: [
+        { id: 'cursor', anchor: { type: 'cursor' }, trail: { count: 3, length: 0.3 } },
+        { id: 'ambient', anchor: { type: 'wander', speed: 0.1, amplitude: 0.3 }, blendMode: 'overlay' },
+      ],
+      pulse: { enabled: true, duration: 1, size: 600, maxPulses: 2 },
+    }
+    const { container } = render(<EtherealSpotlight mouseX={mouseX} mouseY={mouseY} config={config} />)
+    const kinds = Array.from(container.querySelectorAll('[data-spotlight-sprite]'))
+      .map(sprite => sprite.getAttribute('data-spotlight-sprite'))
+
+    expect(kinds).toEqual(['trail', 'trail', 'trail', 'light', 'light', 'pulse', 'pulse'])
+    expect(container.querySelectorAll('[data-blend="overlay"]')).toHaveLength(1)
+  })
+
+  it('writes sampled positions into the sprites each frame', () => {
+    const { container, rerender } = render(
+      <EtherealSpotlight mouseX={mouseX} mouseY={mouseY} duration={0} />
+    )
+
+    frameCallback?.()
+    rerender(<EtherealSpotlight mouseX={mouseX} mouseY={mouseY} duration={0} />)
+
+    expect(container.querySelector('[data-spotlight-sprite]')).toHaveAttribute('data-opacity', '1')
+  })
+
+  it('brightens the sprites by the intensity multiplier', () => {
+    const intensity = motionValue(1.5)
+    const { container, rerender } = render(
+      <EtherealSpotlight mouseX={mouseX} mouseY={mouseY} intensity={intensity} />
+    )
+
+    frameCallback?.()
+    rerender(<EtherealSpotlight mouseX={mouseX} mouseY={mouseY} intensity={intensity} />)
+    expect(container.querySelector('[data-spotlight-sprite]')).toHaveAttribute('data-filter', 'blur(1px) brightness(1.500)')
+
+    rerender(<EtherealSpotlight mouseX={mouseX} mouseY={mouseY} />)
+    expect(container.querySelector('[data-spotlight-sprite]')).toHaveAttribute('data-filter', 'blur(1px)')
+  })
+})
@@ -1,38 +1,152 @@
 "use client"
 
-import type React from "react"
-import { type MotionValue, motion } from "framer-motion"
+import React, { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from "react"
+import { type MotionValue, motion, motionValue, useAnimationFrame } from "framer-motion"
+import { ETHEREAL_COLORS, ETHEREAL_TIMING, SPOTLIGHT_CONFIG } from "@/config/ethereal.config"
+import { easeOut } from "@/lib/ethereal/easing"
+import { EtherealSpotlightController, createSectionRectLookup } from "@/lib/ethereal/spotlight"
+import { useAnimationClock } from "@/providers/AnimationClockProvider"
+import { useRegisteredSections } from "@/providers/SectionProvider"
+import type { EtherealSpotlightConfig } from "@/types/ethereal.types"
 
 interface EtherealSpotlightProps {
   mouseX: MotionValue<number>
   mouseY: MotionValue<number>
+  /** Gradient for lights and pulses that don't set their own */
+  gradient?: string
+  duration?: number
+  config?: EtherealSpotlightConfig
+  prefersReducedMotion?: boolean
+  /** Blur filters and blend modes (off draws plain sprites) */
+  effects?: boolean
+  /** Holds every sprite where it is */
+  frozen?: boolean
+  /** Positions are relative to this element instead of the viewport */
+  element?: RefObject<HTMLElement | null>
+  /** Brightness multiplier (scroll-velocity boost) */
+  intensity?: MotionValue<number>
 }
 
-export const EtherealSpotlight: React.FC<EtherealSpotlightProps> = ({ mouseX, mouseY }) => {
+// Blur when effects are on, brightened by the intensity multiplier
+const spriteFilter = (blur: string, effects: boolean, intensity: number) => {
+  const filters = [effects && `blur(${blur})`, intensity !== 1 && `brightness(${intensity.toFixed(3)})`].filter(Boolean)
+  return filters.length > 0 ? filters.join(" ") : "none"
+}
+
+export const EtherealSpotlight: React.FC<EtherealSpotlightProps> = ({
+  mouseX,
+  mouseY,
+  gradient = ETHEREAL_COLORS.spotlight,
+  duration = ETHEREAL_TIMING.spotlightDuration,
+  config = SPOTLIGHT_CONFIG,
+  prefersReducedMotion = false,
+  effects = true,
+  frozen = false,
+  element,
+  intensity,
+}) => {
+  const controller = useMemo(() => new EtherealSpotlightController(config), [config])
+
+  // One set of motion values per sprite, written every frame without re-rendering
+  const values = useMemo(() => controller.sprites.map(() => ({
+    x: motionValue(0),
+    y: motionValue(0),
+    scale: motionValue(1),
+    opacity: motionValue(0),
+    filter: motionValue("none"),
+  })), [controller])
+
+  const { clock } = useAnimationClock()
+  const appearedAt = useRef<number | null>(null)
+  const settled = useRef(false)
+
+  // A new clock restarts the entrance and trails on its own timeline
+  useEffect(() => {
+    appearedAt.current = null
+    settled.current = false
+    controller.reset()
+  }, [clock, controller])
+
+  // Section anchors resolve through the registered sections (read on every frame)
+  const sections = useRegisteredSections()
+  const sectionsRef = useRef(sections)
+  sectionsRef.current = sections
+  const [findSectionRect] = useState(() => createSectionRectLookup(() => sectionsRef.current))
+
+  const getBounds = useCallback(() => element?.current?.getBoundingClientRect()
+    ?? { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight }, [element])
+
+  useAnimationFrame(() => {
+    const now = clock.time
+    // Deterministic clocks fade in from clock time 0, like the arcs
+    appearedAt.current ??= clock.deterministic ? 0 : now
+    // Fade in on mount - applied per sprite, a faded wrapper would isolate the blend modes
+    const entrance = duration > 0 ? easeOut(Math.min(1, Math.max(0, now - appearedAt.current) / duration)) : 1
+    if (frozen && settled.current) return
+    settled.current = entrance >= 1
+
+    const bounds = getBounds()
+    const states = controller.sample(now, {
+      pointer: { x: mouseX.get(), y: mouseY.get() },
+      width: bounds.width,
+      height: bounds.height,
+      getSectionRect: (sectionId) => findSectionRect(sectionId, bounds),
+      reducedMotion: prefersReducedMotion,
+    })
+
+    states.forEach((state, index) => {
+      values[index].x.set(state.x)
+      values[index].y.set(state.y)
+      values[index].scale.set(state.scale)
+      values[index].opacity.set(state.opacity * entrance)
+      if (intensity) {
+        values[index].filter.set(spriteFilter(controller.sprites[index].blur, effects, intensity.get()))
+      }
+    })
+  })
+
+  // Click/tap ripples
+  const pulsesEnabled = config.pulse.enabled && !prefersReducedMotion
+  useEffect(() => {
+    if (!pulsesEnabled) return
+
+    const handlePointerDown = (event: PointerEvent) => {
+      const { left, top } = getBounds()
+      controller.pulse(event.clientX - left, event.clientY - top, clock.time)
+    }
+
+    window.addEventListener("pointerdown", handlePointerDown, { passive: true })
+    return () => window.removeEventListener("pointerdown", handlePointerDown)
+  }, [pulsesEnabled, controller, clock, getBounds])
+
   return (
-    <motion.div
-      className="absolute pointer-events-none"
-      style={{
-        // Use motion values directly for transform for max performance
-        translateX: mouseX,
-        translateY: mouseY,
-        // Offset by -50% to center the spotlight on the cursor
-        x: "-50%",
-        y: "-50%",
-        transform: "translate3d(0, 0, 0)",
-        width: 400,
-        height: 400,
-        background: `radial-gradient(circle, rgba(96, 165, 250, 0.15) 0%, rgba(59, 130, 246, 0.08) 25%, transparent 60%)`,
-        borderRadius: "50%",
-        filter: "blur(1px)",
-        mixBlendMode: "screen",
-        zIndex: 50,
-        willChange: "transform",
-        backfaceVisibility: "hidden",
-      }}
-      initial={{ opacity: 0, scale: 0 }}
-      animate={{ opacity: 1, scale: 1 }}
-      transition={{ duration: 1, ease: "easeOut" }}
-    />
+    <>
+      {controller.sprites.map((sprite, index) => (
+        <motion.div
+          key={sprite.key}
+          className="absolute top-0 left-0 pointer-events-none"
+          style={{
+            // Motion values drive the transform directly for max performance
+            translateX: values[index].x,
+            translateY: values[index].y,
+            // Offset by -50% to center the sprite on its position
+            x: "-50%",
+            y: "-50%",
+            scale: values[index].scale,
+            opacity: values[index].opacity,
+            width: sprite.size,
+            height: sprite.size,
+            background: sprite.gradient ?? gradient,
+            borderRadius: "50%",
+            filter: intensity ? values[index].filter : spriteFilter(sprite.blur, effects, 1),
+            mixBlendMode: effects ? sprite.blendMode : "normal",
+            zIndex: 50,
+            willChange: "transform, opacity",
+            backfaceVisibility: "hidden",
+          }}
+          data-spotlight-sprite={sprite.kind}
+        />
+      ))}
+    </>
   )
 }
@@ -0,0 +1,130 @@
+"use client"
+
+import React, { useMemo, useRef } from "react"
+import { type MotionValue, motion, useAnimationFrame } from "framer-motion"
+import { SPRING_CONFIGS } from "@/config/ethereal.config"
+import { type Star, generateStars, getBandDepth, getTwinkleOpacity } from "@/lib/ethereal/primitives"
+import { usePrimitiveParallax } from "@/hooks/use-primitive-parallax"
+import { useAnimationClock } from "@/providers/AnimationClockProvider"
+import type { BackgroundPrimitiveProps, SpringConfiguration, StarfieldConfig } from "@/types/ethereal.types"
+
+interface StarBandProps {
+  stars: Star[]
+  band: number
+  depth: number
+  config: StarfieldConfig
+  mouseX: MotionValue<number>
+  mouseY: MotionValue<number>
+  scrollProgress?: MotionValue<number>
+  spring: SpringConfiguration
+  bounds?: { width: number; height: number }
+  /** Holds the band in place */
+  still: boolean
+  /** Off holds each star at its resting brightness */
+  twinkle: boolean
+  scrollEffects: boolean
+  immediate: boolean
+}
+
+// One depth band - its own parallax offset, stars twinkling against the animation clock
+const StarBand: React.FC<StarBandProps> = ({
+  stars,
+  band,
+  depth,
+  config,
+  mouseX,
+  mouseY,
+  scrollProgress,
+  spring,
+  bounds,
+  still,
+  twinkle,
+  scrollEffects,
+  immediate,
+}) => {
+  const { clock } = useAnimationClock()
+  const circles = useRef<(SVGCircleElement | null)[]>([])
+
+  const { x, y } = usePrimitiveParallax({
+    mouseX,
+    mouseY,
+    scrollProgress,
+    strength: still ? 0 : config.parallaxStrength * depth,
+    scrollDepth: still || !scrollEffects ? 0 : config.scrollDepth * depth,
+    spring,
+    bounds,
+    immediate,
+  })
+
+  useAnimationFrame(() => {
+    if (!twinkle) return
+    const now = clock.time
+    stars.forEach((star, index) => {
+      circles.current[index]?.setAttribute("opacity", getTwinkleOpacity(star, now, config.twinkle.amount).toFixed(3))
+    })
+  })
+
+  return (
+    <motion.div className="absolute -inset-[10%]" style={{ x, y, willChange: "transform" }} data-star-band={band}>
+      <svg className="absolute inset-0 w-full h-full" aria-hidden="true">
+        {stars.map((star, index) => (
+          <circle
+            key={index}
+            ref={(element) => { circles.current[index] = element }}
+            cx={`${star.x}%`}
+            cy={`${star.y}%`}
+            r={star.size / 2}
+            fill={config.color}
+            opacity={twinkle ? getTwinkleOpacity(star, clock.time, config.twinkle.amount) : star.brightness}
+          />
+        ))}
+      </svg>
+    </motion.div>
+  )
+}
+
+export const EtherealStarfield: React.FC<BackgroundPrimitiveProps<StarfieldConfig>> = ({
+  mouseX,
+  mouseY,
+  config,
+  scrollProgress,
+  spring = SPRING_CONFIGS.celestial,
+  prefersReducedMotion = false,
+  effects = true,
+  scrollEffects = true,
+  bounds,
+}) => {
+  const { deterministic } = useAnimationClock()
+  const stars = useMemo(() => generateStars(config), [config])
+  const layers = Math.max(1, Math.floor(config.layers))
+
+  // Farthest band first so nearer stars paint on top
+  const bands = useMemo(
+    () => Array.from({ length: layers }, (_, band) => stars.filter(star => star.band === band)),
+    [stars, layers]
+  )
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" style={{ opacity: config.opacity }} data-ethereal-starfield>
+      {bands.map((bandStars, band) => (
+        <StarBand
+          key={band}
+          stars={bandStars}
+          band={band}
+          depth={getBandDepth(band, layers)}
+          config={config}
+          mouseX={mouseX}
+          mouseY={mouseY}
+          scrollProgress={scrollProgress}
+          spring={spring}
+          bounds={bounds}
+          still={prefersReducedMotion}
+          // Twinkling goes with the other effects on a constrained budget
+          twinkle={!prefersReducedMotion && effects}
+          scrollEffects={scrollEffects}
+          immediate={prefersReducedMotion || deterministic}
+        />
+      ))}
+    </div>
+  )
+}
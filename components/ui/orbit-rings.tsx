@@ -0,0 +1,77 @@
+"use client"
+
+import React, { useRef } from "react"
+import { motion, useAnimationFrame } from "framer-motion"
+import { SPRING_CONFIGS } from "@/config/ethereal.config"
+import { getOrbitDashOffset } from "@/lib/ethereal/primitives"
+import { usePrimitiveParallax } from "@/hooks/use-primitive-parallax"
+import { useAnimationClock } from "@/providers/AnimationClockProvider"
+import type { BackgroundPrimitiveProps, OrbitRingsConfig } from "@/types/ethereal.types"
+
+export const OrbitRings: React.FC<BackgroundPrimitiveProps<OrbitRingsConfig>> = ({
+  mouseX,
+  mouseY,
+  config,
+  scrollProgress,
+  spring = SPRING_CONFIGS.celestial,
+  prefersReducedMotion = false,
+  scrollEffects = true,
+  bounds,
+}) => {
+  const { clock, deterministic } = useAnimationClock()
+  const ellipses = useRef<(SVGEllipseElement | null)[]>([])
+
+  const { x, y } = usePrimitiveParallax({
+    mouseX,
+    mouseY,
+    scrollProgress,
+    strength: prefersReducedMotion ? 0 : config.parallaxStrength,
+    scrollDepth: prefersReducedMotion || !scrollEffects ? 0 : config.scrollDepth,
+    spring,
+    bounds,
+    immediate: prefersReducedMotion || deterministic,
+  })
+
+  // Dashed rings circle on the animation clock; solid ones have nothing to show
+  useAnimationFrame(() => {
+    if (prefersReducedMotion) return
+    const now = clock.time
+    config.rings.forEach((ring, index) => {
+      if (!ring.dash || ring.period === 0) return
+      ellipses.current[index]?.setAttribute("stroke-dashoffset", getOrbitDashOffset(now, ring.period).toFixed(3))
+    })
+  })
+
+  return (
+    <motion.div
+      className="absolute inset-0 pointer-events-none"
+      style={{ x, y, opacity: config.opacity, willChange: "transform" }}
+      data-ethereal-orbit-rings
+    >
+      <svg className="absolute inset-0 w-full h-full overflow-visible" aria-hidden="true">
+        {config.rings.map((ring, index) => (
+          <ellipse
+            key={index}
+            ref={(element) => { ellipses.current[index] = element }}
+            cx={`${ring.center[0]}%`}
+            cy={`${ring.center[1]}%`}
+            rx={`${ring.radius[0]}%`}
+            ry={`${ring.radius[1]}%`}
+            fill="none"
+            stroke={ring.color}
+            strokeWidth={ring.width}
+            // Dash lengths are percentages of the ring
+            pathLength={100}
+            strokeDasharray={ring.dash?.join(" ")}
+            strokeDashoffset={ring.dash && !prefersReducedMotion ? getOrbitDashOffset(clock.time, ring.period) : 0}
+            style={{
+              transform: `rotate(${ring.tilt}deg)`,
+              transformOrigin: `${ring.center[0]}% ${ring.center[1]}%`,
+              transformBox: "view-box",
+            }}
+          />
+        ))}
+      </svg>
+    </motion.div>
+  )
+}
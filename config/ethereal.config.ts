@@ -4,7 +4,16 @@ import type {
   EtherealColors, 
   EtherealTiming,
   GradientLayer,
-  EtherealConfig 
+  EtherealConfig,
+  EtherealInputConfig,
+  EtherealScrollChoreography,
+  EtherealContrastPalettes,
+  EtherealSpotlightConfig,
+  EtherealVelocityEffects,
+  StarfieldConfig,
+  NebulaConfig,
+  OrbitRingsConfig,
+  QualityConfig
 } from "../types/ethereal.types"
 
 /**
@@ -75,9 +84,10 @@ export const SPRING_CONFIGS = {
   
   /** Celestial arc spring - Used for mouse tracking */
   celestial: {
-    stiffness: 150,  // High responsiveness for mouse tracking
-    damping: 30,     // Medium damping for controlled movement
-    mass: 1          // Normal mass for balanced feel
+    stiffness: 120,  // High responsiveness for mouse tracking
+    damping: 25,     // Medium damping for controlled movement
+    mass: 0.8,       // Slightly light mass for a floaty feel
+    restSpeed: 0.01  // Settle early to stop idle repaints
   }
 } as const satisfies { main: SpringConfiguration; celestial: SpringConfiguration }
 
@@ -94,7 +104,9 @@ export const ETHEREAL_COLORS: EtherealColors = {
   secondary: "rgba(59, 130, 246, 0.3)",  // Bright cosmic blue
   accent: "rgba(96, 165, 250, 0.7)",     // Light ethereal blue
   background: "linear-gradient(135deg, #020010 0%, #0a0a23 50%, #020010 100%)",
-  maskOverlay: "rgba(2, 0, 16, 0.9)"     // Dark overlay for scroll effects
+  maskOverlay: "rgba(2, 0, 16, 0.9)",    // Dark overlay for scroll effects
+  spotlight: "radial-gradient(circle, rgba(96, 165, 250, 0.15) 0%, rgba(59, 130, 246, 0.08) 25%, transparent 60%)",
+  glow: "rgba(59, 130, 246, 0.1)"        // Faint cursor glow
 } as const
 
 /**
@@ -108,6 +120,7 @@ export const ETHEREAL_TIMING: EtherealTiming = {
   loadDuration: 1.5,      // System fade-in time
   arcDuration: 2,         // Arc entrance animation time
   spotlightDuration: 1,   // Spotlight appearance time
+  crossfadeDuration: 1.2, // Preset switch cross-fade time
   
   /** 
    * Morphing durations - CRITICAL for organic effect
@@ -123,7 +136,8 @@ export const ETHEREAL_TIMING: EtherealTiming = {
 /**
  * Gradient layer definitions - The heart of the shapeshifting effect
  * 
- * Each layer morphs between two states continuously:
+ * Compiled into keyframes by lib/ethereal/gradient-compiler. Each layer
+ * morphs between its base and morph states (plus any extra `states`):
  * - Size changes create breathing effect
  * - Position changes create shifting effect
  * - Different durations prevent synchronization
@@ -144,6 +158,8 @@ export const GRADIENT_LAYERS: GradientLayer[] = [
       middle: "rgba(59, 130, 246, 0.3)",
       outer: "rgba(37, 99, 235, 0.2)"
     },
+    stops: [0, 25, 50, 70],
+    extent: 200,
     duration: 8  // Slowest morphing
   },
   {
@@ -161,6 +177,8 @@ export const GRADIENT_LAYERS: GradientLayer[] = [
       middle: "rgba(37, 99, 235, 0.4)",
       outer: "transparent"
     },
+    stops: [0, 30, 60, 60],
+    extent: 180,
     duration: 7  // Medium morphing
   },
   {
@@ -178,26 +196,221 @@ export const GRADIENT_LAYERS: GradientLayer[] = [
       middle: "rgba(59, 130, 246, 0.5)",
       outer: "transparent"
     },
+    stops: [0, 25, 50, 50],
+    extent: 160,
     duration: 6  // Fastest morphing
   }
 ] as const
 
 /**
- * Spotlight configuration - Mouse-following gradient
+ * Spotlight configuration - Named lights, trails and click pulses
+ * Ships with the single cursor-following light; add wanderers
+ * ({ type: "wander" }) or section-anchored lights ({ type: "section" })
+ * to `lights`, give any light a `trail`, or enable `pulse` for tap ripples.
+ * Lights use `colors.spotlight` unless they set their own gradient.
  */
-export const SPOTLIGHT_CONFIG = {
+export const SPOTLIGHT_CONFIG: EtherealSpotlightConfig = {
   size: 400,  // Diameter in pixels
   blur: "1px",
-  blendMode: "screen" as const,
-  gradient: "radial-gradient(circle, rgba(96, 165, 250, 0.15) 0%, rgba(59, 130, 246, 0.08) 25%, transparent 60%)"
-} as const
+  blendMode: "screen",
+  lights: [
+    { id: "cursor", anchor: { type: "cursor" } }
+  ],
+  pulse: {
+    enabled: false,
+    duration: 1.2,
+    size: 600,
+    maxPulses: 4
+  }
+}
+
+/**
+ * Velocity effects - How the background reacts to scroll speed
+ * Fast scrolling stretches the arcs, brightens the spotlights and rotates
+ * the arc hues; everything eases back through `smoothing` once scrolling
+ * slows. Off by default so the tuned look stays put - set `enabled` to try it.
+ */
+export const VELOCITY_EFFECTS: EtherealVelocityEffects = {
+  enabled: false,
+  threshold: 2,       // Ignore trackpad jitter
+  maxVelocity: 60,    // A hard fling
+  smoothing: {
+    stiffness: 60,    // Slower than the scroll itself - effects linger briefly
+    damping: 20,
+    mass: 0.5
+  },
+  stretch: [1, 1.12],
+  spotlightBoost: [1, 1.6],
+  hueShift: [0, 24]
+}
+
+/**
+ * Background primitives - Starfield, nebula and orbit rings
+ * Each one stacks inside ZLayers.BACKGROUND by its own zIndex: stars and
+ * clouds sit behind the first arc (10), the rings between the third and
+ * front arcs. They ship disabled so the arcs keep the stage to themselves;
+ * flip `enabled` to bring one in.
+ */
+export const STARFIELD_CONFIG: StarfieldConfig = {
+  enabled: false,
+  zIndex: 5,
+  opacity: 0.8,
+  parallaxStrength: -20,  // Farther than the back arc
+  scrollDepth: 120,
+  count: 140,
+  seed: 7,
+  size: [1, 2.5],
+  color: "rgba(219, 234, 254, 0.9)",
+  layers: 3,
+  twinkle: {
+    duration: [2.5, 6],  // Per-star cycles that never line up
+    amount: 0.6
+  }
+}
+
+export const NEBULA_CONFIG: NebulaConfig = {
+  enabled: false,
+  zIndex: 8,
+  opacity: 0.5,
+  parallaxStrength: -18,
+  scrollDepth: 80,
+  colors: ["rgba(59, 130, 246, 0.5)", "rgba(139, 92, 246, 0.4)"],
+  seed: 3,
+  frequency: 0.004,
+  octaves: 3,
+  threshold: 0.45,
+  blendMode: "screen",
+  drift: {
+    duration: 47,  // Slower than any morph cycle
+    distance: 40
+  }
+}
+
+export const ORBIT_RINGS_CONFIG: OrbitRingsConfig = {
+  enabled: false,
+  zIndex: 35,
+  opacity: 0.6,
+  parallaxStrength: 2,
+  scrollDepth: 160,
+  rings: [
+    { center: [50, 55], radius: [38, 22], tilt: -12, width: 1, color: "rgba(147, 197, 253, 0.35)", period: 0 },
+    { center: [50, 55], radius: [46, 28], tilt: -12, width: 1, color: "rgba(96, 165, 250, 0.3)", dash: [2, 4], period: 90 },
+    { center: [50, 55], radius: [56, 34], tilt: -8, width: 0.5, color: "rgba(167, 139, 250, 0.25)", dash: [0.5, 1.5], period: -140 }
+  ]
+}
 
 /**
  * Dynamic spotlight gradient function
  * Creates the real-time mouse-following effect
  */
-export const createSpotlightGradient = (x: number, y: number): string =>
-  `radial-gradient(circle at ${x}px ${y}px, rgba(59, 130, 246, 0.1) 0%, transparent 300px)`
+export const createSpotlightGradient = (x: number, y: number, color: string = ETHEREAL_COLORS.glow): string =>
+  `radial-gradient(circle at ${x}px ${y}px, ${color} 0%, transparent 300px)`
+
+/**
+ * Input profiles - What drives mouseX/mouseY on each device class
+ * Desktop follows the pointer; touch devices add drag and tilt, and every
+ * class drifts slowly along a Lissajous path when left idle
+ */
+export const INPUT_CONFIG: EtherealInputConfig = {
+  desktop: {
+    sources: ["pointer", "drift"],
+    orientationRange: 30,
+    idleTimeout: 6,        // Long pause - the cursor is usually somewhere
+    drift: { speed: 0.25, amplitude: 0.2 },
+  },
+  tablet: {
+    sources: ["pointer", "touch", "orientation", "drift"],
+    orientationRange: 25,
+    idleTimeout: 3,
+    drift: { speed: 0.3, amplitude: 0.25 },
+  },
+  mobile: {
+    sources: ["touch", "orientation", "drift"],
+    orientationRange: 20,  // Phones are tilted less - smaller range feels livelier
+    idleTimeout: 2,
+    drift: { speed: 0.35, amplitude: 0.3 },
+  },
+}
+
+/**
+ * Scroll choreography - How the background reacts to scrolling
+ * The keyframes grow the background, lift it and fade it out across the page,
+ * with the dark mask closing in over the last 20%. Sections layer on top:
+ * a violet wash while section-2 is active and a slow zoom on section-3.
+ */
+export const SCROLL_CHOREOGRAPHY: EtherealScrollChoreography = {
+  keyframes: [
+    { at: 0, scale: 1, y: 0, opacity: 1, mask: 0 },
+    { at: 0.5, opacity: 0.8 },
+    { at: 0.8, mask: 0 },
+    { at: 1, scale: 1.5, y: -200, opacity: 0, mask: 1 },
+  ],
+  sections: {
+    "section-2": { tint: "rgba(139, 92, 246, 1)", tintOpacity: 0.12 },
+    "section-3": { scale: 1.1 },
+  },
+}
+
+/**
+ * Quality governor - Tiers QualityProvider steps through when frames drop
+ * Each tier gives up one more thing: morphing first, then half the arcs,
+ * then blur/blend modes, and finally spotlight and scroll motion.
+ */
+export const QUALITY_CONFIG: QualityConfig = {
+  tiers: [
+    { name: "high", morph: true, effects: true, spotlight: true, scrollEffects: true },
+    { name: "balanced", morph: false, effects: true, spotlight: true, scrollEffects: true },
+    { name: "reduced", morph: false, maxArcs: 2, effects: true, spotlight: true, scrollEffects: true },
+    { name: "low", morph: false, maxArcs: 2, effects: false, spotlight: true, scrollEffects: true },
+    { name: "minimal", morph: false, maxArcs: 2, effects: false, spotlight: false, scrollEffects: false }
+  ],
+  downgradeFps: 48,
+  upgradeFps: 57,
+  downgradeAfter: 3,
+  upgradeAfter: 8,
+  cooldown: 2
+}
+
+/**
+ * Contrast palettes - What the background morphs into per ContrastProvider mode
+ * Dark is the cosmic blue palette itself. Light turns the void into a pale dawn
+ * sky with softer arcs; auto shifts toward the provider's violet theme.
+ * Gradient strings keep the same stop layout so they interpolate smoothly.
+ */
+export const CONTRAST_PALETTES: EtherealContrastPalettes = {
+  light: {
+    colors: {
+      primary: "rgba(147, 197, 253, 0.5)",
+      secondary: "rgba(191, 219, 254, 0.4)",
+      accent: "rgba(59, 130, 246, 0.5)",
+      background: "linear-gradient(135deg, #f8fafc 0%, #e0e7ff 50%, #f8fafc 100%)",
+      maskOverlay: "rgba(248, 250, 252, 0.9)",
+      spotlight: "radial-gradient(circle, rgba(59, 130, 246, 0.12) 0%, rgba(147, 197, 253, 0.08) 25%, transparent 60%)",
+      glow: "rgba(59, 130, 246, 0.06)",
+    },
+    layers: [
+      { inner: "rgba(147, 197, 253, 0.45)", middle: "rgba(191, 219, 254, 0.3)", outer: "rgba(224, 231, 255, 0.2)" },
+      { inner: "rgba(165, 180, 252, 0.4)", middle: "rgba(191, 219, 254, 0.3)", outer: "transparent" },
+      { inner: "rgba(96, 165, 250, 0.35)", middle: "rgba(165, 180, 252, 0.25)", outer: "transparent" },
+    ],
+  },
+  auto: {
+    colors: {
+      primary: "rgba(76, 29, 149, 0.5)",
+      secondary: "rgba(139, 92, 246, 0.3)",
+      accent: "rgba(167, 139, 250, 0.7)",
+      background: "linear-gradient(135deg, #0a0a23 0%, #1e1b4b 50%, #0a0a23 100%)",
+      maskOverlay: "rgba(10, 10, 35, 0.9)",
+      spotlight: "radial-gradient(circle, rgba(167, 139, 250, 0.15) 0%, rgba(139, 92, 246, 0.08) 25%, transparent 60%)",
+      glow: "rgba(139, 92, 246, 0.1)",
+    },
+    layers: [
+      { inner: "rgba(76, 29, 149, 0.5)", middle: "rgba(139, 92, 246, 0.3)", outer: "rgba(109, 40, 217, 0.2)" },
+      { inner: "rgba(139, 92, 246, 0.6)", middle: "rgba(109, 40, 217, 0.4)", outer: "transparent" },
+      { inner: "rgba(167, 139, 250, 0.7)", middle: "rgba(139, 92, 246, 0.5)", outer: "transparent" },
+    ],
+  },
+}
 
 /**
  * Complete ethereal system configuration
@@ -208,7 +421,15 @@ export const ETHEREAL_CONFIG: EtherealConfig = {
   springConfigs: SPRING_CONFIGS,
   colors: ETHEREAL_COLORS,
   timing: ETHEREAL_TIMING,
-  gradientLayers: GRADIENT_LAYERS
+  gradientLayers: GRADIENT_LAYERS,
+  input: INPUT_CONFIG,
+  scrollChoreography: SCROLL_CHOREOGRAPHY,
+  contrastPalettes: CONTRAST_PALETTES,
+  spotlight: SPOTLIGHT_CONFIG,
+  velocityEffects: VELOCITY_EFFECTS,
+  starfield: STARFIELD_CONFIG,
+  nebula: NEBULA_CONFIG,
+  orbitRings: ORBIT_RINGS_CONFIG
 } as const
 
 /**
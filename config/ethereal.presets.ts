@@ -0,0 +1,105 @@
+import type { EtherealConfig, EtherealPresetName, GradientLayer } from "../types/ethereal.types"
+import { ETHEREAL_CONFIG, GRADIENT_LAYERS, NEBULA_CONFIG } from "./ethereal.config"
+
+/**
+ * 🎨 ETHEREAL PRESETS
+ *
+ * Named brand themes for the ethereal depth system. Presets only swap
+ * colors - arcs, springs, timing and morphing ranges are shared with
+ * ETHEREAL_CONFIG so every theme keeps the same organic movement.
+ */
+
+/**
+ * Recolors the shared gradient layers (outer, middle, inner order)
+ */
+const recolorLayers = (palettes: GradientLayer["colors"][]): GradientLayer[] =>
+  GRADIENT_LAYERS.map((layer, index) => ({
+    ...layer,
+    colors: palettes[index] ?? layer.colors,
+  }))
+
+/**
+ * Aurora - Polar greens drifting into violet
+ */
+export const AURORA_CONFIG: EtherealConfig = {
+  ...ETHEREAL_CONFIG,
+  colors: {
+    primary: "rgba(6, 95, 70, 0.5)",        // Deep polar green
+    secondary: "rgba(45, 212, 191, 0.3)",   // Bright teal
+    accent: "rgba(167, 139, 250, 0.7)",     // Soft violet
+    background: "linear-gradient(135deg, #00100c 0%, #081a23 50%, #00100c 100%)",
+    maskOverlay: "rgba(0, 16, 12, 0.9)",
+    spotlight: "radial-gradient(circle, rgba(167, 139, 250, 0.15) 0%, rgba(45, 212, 191, 0.08) 25%, transparent 60%)",
+    glow: "rgba(45, 212, 191, 0.1)"
+  },
+  gradientLayers: recolorLayers([
+    {
+      inner: "rgba(6, 95, 70, 0.5)",
+      middle: "rgba(45, 212, 191, 0.3)",
+      outer: "rgba(16, 185, 129, 0.2)"
+    },
+    {
+      inner: "rgba(45, 212, 191, 0.6)",
+      middle: "rgba(139, 92, 246, 0.4)",
+      outer: "transparent"
+    },
+    {
+      inner: "rgba(167, 139, 250, 0.7)",
+      middle: "rgba(45, 212, 191, 0.5)",
+      outer: "transparent"
+    }
+  ]),
+  nebula: {
+    ...NEBULA_CONFIG,
+    colors: ["rgba(16, 185, 129, 0.45)", "rgba(167, 139, 250, 0.4)"]
+  }
+}
+
+/**
+ * Ember - Smouldering reds with a warm amber core
+ */
+export const EMBER_CONFIG: EtherealConfig = {
+  ...ETHEREAL_CONFIG,
+  colors: {
+    primary: "rgba(127, 29, 29, 0.5)",      // Deep ember red
+    secondary: "rgba(249, 115, 22, 0.3)",   // Burning orange
+    accent: "rgba(251, 191, 36, 0.7)",      // Amber highlight
+    background: "linear-gradient(135deg, #100402 0%, #230d0a 50%, #100402 100%)",
+    maskOverlay: "rgba(16, 4, 2, 0.9)",
+    spotlight: "radial-gradient(circle, rgba(251, 191, 36, 0.15) 0%, rgba(249, 115, 22, 0.08) 25%, transparent 60%)",
+    glow: "rgba(249, 115, 22, 0.1)"
+  },
+  gradientLayers: recolorLayers([
+    {
+      inner: "rgba(127, 29, 29, 0.5)",
+      middle: "rgba(249, 115, 22, 0.3)",
+      outer: "rgba(220, 38, 38, 0.2)"
+    },
+    {
+      inner: "rgba(249, 115, 22, 0.6)",
+      middle: "rgba(220, 38, 38, 0.4)",
+      outer: "transparent"
+    },
+    {
+      inner: "rgba(251, 191, 36, 0.7)",
+      middle: "rgba(249, 115, 22, 0.5)",
+      outer: "transparent"
+    }
+  ]),
+  nebula: {
+    ...NEBULA_CONFIG,
+    colors: ["rgba(220, 38, 38, 0.45)", "rgba(251, 191, 36, 0.35)"]
+  }
+}
+
+/**
+ * All shipped presets, keyed by name
+ */
+export const ETHEREAL_PRESETS: Record<EtherealPresetName, EtherealConfig> = {
+  "cosmic-blue": ETHEREAL_CONFIG,
+  aurora: AURORA_CONFIG,
+  ember: EMBER_CONFIG
+}
+
+/** Preset used when nothing else is selected */
+export const DEFAULT_ETHEREAL_PRESET: EtherealPresetName = "cosmic-blue"
@@ -0,0 +1,174 @@
+import React from 'react'
+import { renderHook, act } from '@testing-library/react'
+import { useAutoplayTour } from './use-autoplay-tour'
+import { LenisContext, LenisContextValue } from '@/providers/LenisProvider'
+import { resolveAutoplayOptions } from '@/lib/scroll/autoplay'
+import { AutoplayOptions, ContrastMode, Section } from '@/types/scroll.types'
+
+describe('useAutoplayTour', () => {
+  const createSection = (id: string, top: number): Section => {
+    const element = document.createElement('section')
+    element.getBoundingClientRect = () => ({ top } as DOMRect)
+    return { id, zIndex: 100, triggerStart: top / 10000, triggerEnd: 1, animations: [], contrast: 'auto' as ContrastMode, isActive: false, element }
+  }
+
+  const sections = new Map([
+    ['hero', createSection('hero', 0)],
+    ['features', createSection('features', 1000)],
+    ['contact', createSection('contact', 2000)],
+  ])
+
+  const createScroller = (): LenisContextValue => ({
+    lenis: { scroll: 0 } as any,
+    scrollState: { progress: 0, velocity: 0, direction: 'down', activeSection: '', isScrolling: false },
+    isReady: true,
+    scrollTo: jest.fn(),
+    updateScrollState: jest.fn(),
+    registerSnapPoint: jest.fn(() => () => {}),
+    paginate: jest.fn(() => false),
+    orientation: 'vertical',
+    element: null,
+    parent: null,
+    recorder: null,
+  })
+
+  const renderTour = (scroller: LenisContextValue, options: Partial<AutoplayOptions> = {}) =>
+    renderHook(
+      () => useAutoplayTour({
+        sections,
+        activeSection: null,
+        options: resolveAutoplayOptions({ dwell: 2000, duration: 1, ...options }),
+      }),
+      { wrapper: ({ children }) => <LenisContext.Provider value={scroller}>{children}</LenisContext.Provider> }
+    )
+
+  const scrolledTo = (scroller: LenisContextValue) =>
+    (scroller.scrollTo as jest.Mock).mock.calls.filter(([, options]) => !options?.immediate).map(([target]) => target)
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('walks through the sections, dwelling on each', () => {
+    const scroller = createScroller()
+    const { result } = renderTour(scroller)
+
+    act(() => result.current.play())
+    expect(result.current.status).toBe('playing')
+    expect(scrolledTo(scroller)).toEqual([0])
+
+    act(() => {
+      jest.advanceTimersByTime(2999)
+    })
+    expect(scrolledTo(scroller)).toEqual([0])
+
+    act(() => {
+      jest.advanceTimersByTime(1)
+    })
+    expect(scrolledTo(scroller)).toEqual([0, 1000])
+    expect(result.current.currentIndex).toBe(1)
+    expect(scroller.scrollTo).toHaveBeenLastCalledWith(1000, expect.objectContaining({ duration: 1 }))
+  })
+
+  it('loops, or stops after the last section', () => {
+    const looping = createScroller()
+    const { result } = renderTour(looping)
+    act(() => result.current.play())
+    act(() => {
+      jest.advanceTimersByTime(9000)
+    })
+    expect(scrolledTo(looping)).toEqual([0, 1000, 2000, 0])
+
+    const once = createScroller()
+    const single = renderTour(once, { loop: false })
+    act(() => single.result.current.play())
+    act(() => {
+      jest.advanceTimersByTime(9000)
+    })
+    expect(scrolledTo(once)).toEqual([0, 1000, 2000])
+    expect(single.result.current.status).toBe('stopped')
+  })
+
+  it('waits at pause steps until played again', () => {
+    const scroller = createScroller()
+    const { result } = renderTour(scroller, { steps: { features: { pause: true } } })
+
+    act(() => result.current.play())
+    act(() => {
+      jest.advanceTimersByTime(10000)
+    })
+    expect(result.current.status).toBe('paused')
+    expect(scrolledTo(scroller)).toEqual([0, 1000])
+
+    act(() => result.current.play())
+    expect(scrolledTo(scroller)).toEqual([0, 1000, 2000])
+  })
+
+  it('gives way to user input and resumes after idle', () => {
+    const scroller = createScroller()
+    const { result } = renderTour(scroller, { resumeAfter: 5000 })
+
+    act(() => result.current.play())
+    act(() => {
+      window.dispatchEvent(new WheelEvent('wheel', { deltaY: 100 }))
+    })
+    expect(result.current.status).toBe('interrupted')
+    expect(scroller.scrollTo).toHaveBeenLastCalledWith(0, { immediate: true })
+
+    // More input pushes the resume back
+    act(() => {
+      jest.advanceTimersByTime(4000)
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }))
+      jest.advanceTimersByTime(4000)
+    })
+    expect(result.current.status).toBe('interrupted')
+
+    act(() => {
+      jest.advanceTimersByTime(1000)
+    })
+    expect(result.current.status).toBe('playing')
+  })
+
+  it('seeks, and pages with next and previous', () => {
+    const scroller = createScroller()
+    const { result } = renderTour(scroller)
+
+    let found = false
+    act(() => {
+      found = result.current.seek('contact')
+    })
+    expect(found).toBe(true)
+    expect(result.current.status).toBe('stopped')
+    expect(result.current.currentIndex).toBe(2)
+
+    act(() => {
+      result.current.previous()
+    })
+    expect(result.current.currentIndex).toBe(1)
+    expect(result.current.seek('missing')).toBe(false)
+
+    act(() => result.current.play())
+    act(() => {
+      result.current.next()
+    })
+    expect(result.current.status).toBe('playing')
+    expect(scrolledTo(scroller)).toEqual([2000, 1000, 1000, 2000])
+  })
+
+  it('pauses and starts by itself when asked to', () => {
+    const scroller = createScroller()
+    const { result } = renderTour(scroller, { autoStart: true })
+    expect(result.current.status).toBe('playing')
+
+    act(() => result.current.pause())
+    act(() => {
+      jest.advanceTimersByTime(10000)
+    })
+    expect(result.current.status).toBe('paused')
+    expect(scrolledTo(scroller)).toEqual([0])
+  })
+})
@@ -0,0 +1,206 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useLenis } from '@/providers/LenisProvider'
+import { getElementScrollOffset } from '@/lib/scroll/snap'
+import {
+  AUTOPLAY_INTERRUPT_EVENTS,
+  getNextStepIndex,
+  getTourSteps,
+  isAutoplayControl,
+  resolveStepIndex,
+} from '@/lib/scroll/autoplay'
+import type { AutoplayOptions, AutoplayStatus, Section, TourStep } from '@/types/scroll.types'
+
+interface UseAutoplayTourOptions {
+  sections: Map<string, Section>;
+  activeSection: string | null;
+  options: AutoplayOptions;
+}
+
+export interface AutoplayControls {
+  status: AutoplayStatus;
+  steps: TourStep[];
+  /** Step being shown or travelled to (-1 before the tour starts) */
+  currentIndex: number;
+  /** Starts, or resumes from the section the viewer is on */
+  play: () => void;
+  pause: () => void;
+  /** Pauses and forgets the position - the next play starts over */
+  stop: () => void;
+  toggle: () => void;
+  /** Goes to a step by section id or index - the tour carries on from there if it's playing */
+  seek: (target: string | number) => boolean;
+  next: () => boolean;
+  previous: () => boolean;
+}
+
+/**
+ * Plays the page by itself: scrolls from section to section, dwelling on
+ * each, gives way to user input and picks up again once the input stops
+ */
+export const useAutoplayTour = ({ sections, activeSection, options }: UseAutoplayTourOptions): AutoplayControls => {
+  const { lenis, isReady, scrollTo } = useLenis()
+  const [status, setStatusState] = useState<AutoplayStatus>('stopped')
+  const [currentIndex, setCurrentIndexState] = useState(-1)
+  const timer = useRef<ReturnType<typeof setTimeout>>()
+  const started = useRef(false)
+  // Arrived at a `pause` step - playing again moves on rather than repeating it
+  const heldAtStep = useRef(false)
+
+  const steps = getTourSteps(sections.values(), options)
+
+  // Timers outlive renders, so they read the latest of everything through refs
+  const latest = useRef({ steps, sections, activeSection, options })
+  latest.current = { steps, sections, activeSection, options }
+  const statusRef = useRef<AutoplayStatus>('stopped')
+  const indexRef = useRef(-1)
+
+  const setStatus = useCallback((next: AutoplayStatus) => {
+    statusRef.current = next
+    setStatusState(next)
+  }, [])
+
+  const setCurrentIndex = useCallback((next: number) => {
+    indexRef.current = next
+    setCurrentIndexState(next)
+  }, [])
+
+  const getScroll = useCallback((): number => {
+    const current = (lenis as { scroll?: number } | null)?.scroll
+    return typeof current === 'number' ? current : window.scrollY
+  }, [lenis])
+
+  // Stops a tour scroll where it is
+  const halt = useCallback(() => {
+    clearTimeout(timer.current)
+    scrollTo(getScroll(), { immediate: true })
+  }, [scrollTo, getScroll])
+
+  // Scrolls to a step; when the tour continues, dwells there and moves on
+  const travel = useCallback(function travelTo(index: number, continueTour: boolean) {
+    const step = latest.current.steps[index]
+    if (!step) return
+
+    clearTimeout(timer.current)
+    heldAtStep.current = false
+    setCurrentIndex(index)
+
+    const element = latest.current.sections.get(step.id)?.element
+    if (element) {
+      scrollTo(getElementScrollOffset(element, getScroll()), { duration: step.duration, easing: step.easing })
+    }
+    if (!continueTour) return
+
+    timer.current = setTimeout(() => {
+      if (step.pause) {
+        heldAtStep.current = true
+        setStatus('paused')
+        return
+      }
+
+      timer.current = setTimeout(() => {
+        const { steps: current, options: settings } = latest.current
+        const next = getNextStepIndex(index, current.length, settings.loop)
+        if (next === null) setStatus('stopped')
+        else travelTo(next, true)
+      }, step.dwell)
+    }, step.duration * 1000)
+  }, [scrollTo, getScroll, setCurrentIndex, setStatus])
+
+  const play = useCallback(() => {
+    const { steps: current, activeSection: viewing, options: settings } = latest.current
+    if (current.length === 0 || statusRef.current === 'playing') return
+
+    started.current = true
+    const viewingIndex = viewing ? resolveStepIndex(current, viewing) : -1
+    let index = viewingIndex >= 0 ? viewingIndex : Math.max(0, indexRef.current)
+
+    // Still on the step that paused the tour: carry on past it
+    if (heldAtStep.current && index === indexRef.current) {
+      const next = getNextStepIndex(index, current.length, settings.loop)
+      if (next === null) return
+      index = next
+    }
+
+    setStatus('playing')
+    travel(index, true)
+  }, [travel, setStatus])
+
+  const pause = useCallback(() => {
+    if (statusRef.current === 'stopped' || statusRef.current === 'paused') return
+    halt()
+    setStatus('paused')
+  }, [halt, setStatus])
+
+  const stop = useCallback(() => {
+    if (statusRef.current !== 'stopped') halt()
+    heldAtStep.current = false
+    setCurrentIndex(-1)
+    setStatus('stopped')
+  }, [halt, setCurrentIndex, setStatus])
+
+  const toggle = useCallback(() => {
+    if (statusRef.current === 'playing') pause()
+    else play()
+  }, [play, pause])
+
+  const seek = useCallback((target: string | number): boolean => {
+    const index = resolveStepIndex(latest.current.steps, target)
+    if (index < 0) return false
+
+    const continueTour = statusRef.current === 'playing' || statusRef.current === 'interrupted'
+    if (continueTour) setStatus('playing')
+    travel(index, continueTour)
+    return true
+  }, [travel, setStatus])
+
+  const next = useCallback((): boolean => {
+    const { steps: current, options: settings } = latest.current
+    const index = getNextStepIndex(indexRef.current, current.length, settings.loop)
+    return index !== null && seek(index)
+  }, [seek])
+
+  const previous = useCallback((): boolean => {
+    const { steps: current, options: settings } = latest.current
+    const index = indexRef.current > 0 ? indexRef.current - 1 : settings.loop ? current.length - 1 : -1
+    return index >= 0 && seek(index)
+  }, [seek])
+
+  // Kiosks start by themselves once there's somewhere to go
+  useEffect(() => {
+    if (options.autoStart && isReady && steps.length > 0 && !started.current) play()
+  }, [options.autoStart, isReady, steps.length, play])
+
+  // User input takes over; the tour resumes after `resumeAfter` ms without any
+  const watching = status === 'playing' || status === 'interrupted'
+  useEffect(() => {
+    if (!watching) return
+
+    const handleInput = (event: Event) => {
+      if (isAutoplayControl(event.target)) return
+
+      // Only a tour scroll in flight needs stopping - the user's own scrolling carries on
+      if (statusRef.current === 'playing') halt()
+      else clearTimeout(timer.current)
+
+      const { resumeAfter } = latest.current.options
+      if (resumeAfter > 0) {
+        setStatus('interrupted')
+        timer.current = setTimeout(play, resumeAfter)
+      } else {
+        setStatus('paused')
+      }
+    }
+    const listenerOptions = { capture: true, passive: true }
+
+    AUTOPLAY_INTERRUPT_EVENTS.forEach(type => window.addEventListener(type, handleInput, listenerOptions))
+    return () => {
+      AUTOPLAY_INTERRUPT_EVENTS.forEach(type => window.removeEventListener(type, handleInput, listenerOptions))
+    }
+  }, [watching, halt, play, setStatus])
+
+  useEffect(() => () => clearTimeout(timer.current), [])
+
+  return { status, steps, currentIndex, play, pause, stop, toggle, seek, next, previous }
+}
@@ -0,0 +1,83 @@
+import { renderHook, act } from '@testing-library/react'
+import { motionValue } from 'framer-motion'
+import { useContrastPalette } from './use-contrast-palette'
+import { useOptionalContrast } from '@/providers/ContrastProvider'
+import { ETHEREAL_CONFIG } from '@/config/ethereal.config'
+import { resolveContrastConfig } from '@/lib/ethereal/palette'
+
+jest.mock('@/providers/ContrastProvider', () => ({
+  useOptionalContrast: jest.fn(() => null),
+}))
+
+const mockUseOptionalContrast = useOptionalContrast as jest.Mock
+
+describe('useContrastPalette', () => {
+  let transition = motionValue(1)
+  const withMode = (mode: string) => {
+    mockUseOptionalContrast.mockReturnValue({ contrastState: { mode }, transition })
+  }
+
+  beforeEach(() => {
+    transition = motionValue(1)
+    mockUseOptionalContrast.mockReturnValue(null)
+  })
+
+  it('returns the configuration untouched outside a ContrastProvider', () => {
+    const { result } = renderHook(() => useContrastPalette(ETHEREAL_CONFIG))
+    expect(result.current).toBe(ETHEREAL_CONFIG)
+  })
+
+  it('morphs toward the new palette as the transition progresses', () => {
+    const light = resolveContrastConfig(ETHEREAL_CONFIG, 'light')
+    withMode('dark')
+    const { result, rerender } = renderHook(() => useContrastPalette(ETHEREAL_CONFIG))
+    expect(result.current).toBe(ETHEREAL_CONFIG)
+
+    act(() => {
+      withMode('light')
+      transition.jump(0)
+    })
+    rerender()
+    expect(result.current.colors).toEqual(ETHEREAL_CONFIG.colors)
+
+    act(() => transition.set(0.5))
+    expect(result.current.colors.primary).not.toBe(ETHEREAL_CONFIG.colors.primary)
+    expect(result.current.colors.primary).not.toBe(light.colors.primary)
+
+    act(() => transition.set(1))
+    expect(result.current.colors).toEqual(light.colors)
+    expect(result.current.gradientLayers).toEqual(light.gradientLayers)
+  })
+
+  it('starts a mid-transition mode change from the palette on screen', () => {
+    withMode('dark')
+    const { result, rerender } = renderHook(() => useContrastPalette(ETHEREAL_CONFIG))
+
+    act(() => {
+      withMode('light')
+      transition.jump(0)
+    })
+    rerender()
+    act(() => transition.set(0.5))
+    const halfway = result.current.colors
+
+    act(() => {
+      withMode('dark')
+      transition.jump(0)
+    })
+    rerender()
+    expect(result.current.colors).toEqual(halfway)
+  })
+
+  it('jumps straight to the palette when immediate', () => {
+    withMode('dark')
+    const { result, rerender } = renderHook(() => useContrastPalette(ETHEREAL_CONFIG, { immediate: true }))
+
+    act(() => {
+      withMode('auto')
+      transition.jump(0)
+    })
+    rerender()
+    expect(result.current.colors).toEqual(resolveContrastConfig(ETHEREAL_CONFIG, 'auto').colors)
+  })
+})
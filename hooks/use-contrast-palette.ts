@@ -0,0 +1,72 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useOptionalContrast } from '@/providers/ContrastProvider'
+import { interpolateEtherealConfig, resolveContrastConfig } from '@/lib/ethereal/palette'
+import type { EtherealConfig } from '@/types/ethereal.types'
+
+/** Re-renders per palette transition - gradients are restyled at each step */
+const TRANSITION_STEPS = 12
+
+interface ContrastPaletteOptions {
+  /** Jump straight to the new palette (reduced motion) */
+  immediate?: boolean;
+}
+
+/**
+ * Morphs a configuration's colors toward the palette of the current
+ * ContrastProvider mode, following the provider's transition progress
+ * Outside a ContrastProvider the configuration is returned as is
+ */
+export const useContrastPalette = (
+  config: EtherealConfig,
+  { immediate = false }: ContrastPaletteOptions = {}
+) => {
+  const contrast = useOptionalContrast()
+  const mode = contrast?.contrastState.mode ?? null
+  const transition = contrast?.transition
+
+  const target = useMemo(() => resolveContrastConfig(config, mode), [config, mode])
+
+  const [step, setStep] = useState(1)
+  // Last palette that reached the screen - written after commit, so renders React discards don't count
+  const renderedRef = useRef(target)
+  const [morph, setMorph] = useState({ config, mode, from: target })
+
+  // A mode change morphs from whatever is on screen (even mid-transition);
+  // a new base configuration is cross-faded by EtherealDepth instead.
+  // Updated during render (React's "previous props in state" pattern) so the
+  // first frame of a morph already starts from the right palette
+  let current = morph
+  if (morph.config !== config) {
+    current = { config, mode, from: target }
+  } else if (morph.mode !== mode) {
+    current = { config, mode, from: renderedRef.current }
+  }
+  if (current !== morph) {
+    setMorph(current)
+  }
+  const from = current.from
+
+  useEffect(() => {
+    if (!transition) return
+
+    const update = (value: number) => {
+      setStep(Math.min(1, Math.round(value * TRANSITION_STEPS) / TRANSITION_STEPS))
+    }
+    update(transition.get())
+
+    return transition.on('change', update)
+  }, [transition])
+
+  const rendered = useMemo(
+    () => interpolateEtherealConfig(from, target, immediate ? 1 : step),
+    [from, target, step, immediate]
+  )
+
+  useEffect(() => {
+    renderedRef.current = rendered
+  }, [rendered])
+
+  return rendered
+}
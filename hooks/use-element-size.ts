@@ -0,0 +1,50 @@
+"use client"
+
+import { useEffect, useState, type RefObject } from 'react'
+
+interface ElementSize {
+  width: number;
+  height: number;
+}
+
+const getViewportSize = (): ElementSize => ({
+  width: typeof window !== 'undefined' ? window.innerWidth : 0,
+  height: typeof window !== 'undefined' ? window.innerHeight : 0,
+})
+
+/**
+ * Tracks the size of an element with ResizeObserver,
+ * or of the viewport when no element is given
+ */
+export const useElementSize = (ref?: RefObject<HTMLElement | null>): ElementSize => {
+  const [size, setSize] = useState<ElementSize>({ width: 0, height: 0 })
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+
+    const element = ref?.current
+    if (!element) {
+      const update = () => setSize(getViewportSize())
+      update()
+      window.addEventListener('resize', update)
+      return () => window.removeEventListener('resize', update)
+    }
+
+    const update = () => {
+      const { width, height } = element.getBoundingClientRect()
+      setSize(current => (current.width === width && current.height === height ? current : { width, height }))
+    }
+    update()
+
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', update)
+      return () => window.removeEventListener('resize', update)
+    }
+
+    const observer = new ResizeObserver(update)
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [ref])
+
+  return size
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react'
+import type { MotionValue } from 'framer-motion'
+import { INPUT_CONFIG } from '@/config/ethereal.config'
+import {
+  detectDeviceClass,
+  EtherealInputController,
+  type OrientationPermission,
+} from '@/lib/ethereal/input'
+import type {
+  EtherealDeviceClass,
+  EtherealInputConfig,
+  EtherealInputSource,
+} from '@/types/ethereal.types'
+
+interface EtherealInputOptions {
+  x: MotionValue<number>;
+  y: MotionValue<number>;
+  config?: EtherealInputConfig;
+  /** Forces a device class instead of detecting it */
+  deviceClass?: EtherealDeviceClass;
+  enabled?: boolean;
+  autoRequestPermission?: boolean;
+  /** Reports positions relative to this element instead of the viewport */
+  element?: RefObject<HTMLElement | null>;
+}
+
+/**
+ * Feeds x/y motion values from whichever input the device offers
+ * (pointer, touch drag, tilt) and drifts them when the user is idle
+ */
+export const useEtherealInput = ({
+  x,
+  y,
+  config = INPUT_CONFIG,
+  deviceClass: forcedDeviceClass,
+  enabled = true,
+  autoRequestPermission = true,
+  element,
+}: EtherealInputOptions) => {
+  const [detectedDeviceClass, setDetectedDeviceClass] = useState<EtherealDeviceClass>('desktop')
+  const [source, setSource] = useState<EtherealInputSource | null>(null)
+  const [orientationPermission, setOrientationPermission] = useState<OrientationPermission>('unsupported')
+  const controllerRef = useRef<EtherealInputController | null>(null)
+
+  const deviceClass = forcedDeviceClass ?? detectedDeviceClass
+  const profile = config[deviceClass]
+
+  // Re-classify when the viewport or primary pointer changes (rotation, docking)
+  useEffect(() => {
+    if (forcedDeviceClass || typeof window === 'undefined') return
+
+    const update = () => setDetectedDeviceClass(detectDeviceClass())
+    update()
+
+    window.addEventListener('resize', update)
+    return () => window.removeEventListener('resize', update)
+  }, [forcedDeviceClass])
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined') return
+
+    const controller = new EtherealInputController(
+      profile,
+      {
+        onMove: (position) => {
+          x.set(position.x)
+          y.set(position.y)
+        },
+        onSourceChange: setSource,
+        onPermissionChange: setOrientationPermission,
+      },
+      {
+        autoRequestPermission,
+        getBounds: element
+          ? () => element.current?.getBoundingClientRect() ?? { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight }
+          : undefined,
+      }
+    )
+
+    controller.attach(window)
+    controllerRef.current = controller
+
+    return () => {
+      controller.detach()
+      controllerRef.current = null
+    }
+  }, [enabled, profile, x, y, autoRequestPermission, element])
+
+  const requestOrientationPermission = useCallback(async () => {
+    return controllerRef.current?.requestOrientationPermission() ?? 'unsupported'
+  }, [])
+
+  return {
+    deviceClass,
+    source,
+    orientationPermission,
+    requestOrientationPermission,
+  }
+}
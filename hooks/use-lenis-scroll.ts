@@ -21,7 +21,7 @@ interface LenisScrollOptions {
 }
 
 export const useLenisScroll = (options: LenisScrollOptions = {}) => {
-  const { lenis, scrollState, isReady } = useLenis()
+  const { lenis, scrollState, isReady, orientation } = useLenis()
   const prefersReducedMotion = useReducedMotion()
   const lastCallTime = useRef(0)
   
@@ -129,6 +129,7 @@ export const useLenisScroll = (options: LenisScrollOptions = {}) => {
     isScrolling: scrollState.isScrolling,
     direction: scrollState.direction,
     progress: scrollState.progress,
+    orientation,
     
     // Control functions
     scrollTo,
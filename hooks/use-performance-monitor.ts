@@ -41,22 +41,48 @@ const DEFAULT_THRESHOLDS: PerformanceThresholds = {
   warningMemoryMB: 75,
 }
 
+// Device capability detection (SSR-safe, assumes a capable device on the server)
+export function detectDeviceCapabilities(): {
+  memoryLimit: number;
+  cpuCores: number;
+  isLowEndDevice: boolean;
+} {
+  if (typeof navigator === 'undefined') {
+    return { memoryLimit: 4 * 1024, cpuCores: 4, isLowEndDevice: false }
+  }
+
+  const memory = (navigator as any).deviceMemory || 4
+  const cores = navigator.hardwareConcurrency || 4
+  const connection = (navigator as any).connection
+  
+  const isLowEnd = (
+    memory < 4 ||
+    cores < 4 ||
+    (connection && ['slow-2g', '2g', '3g'].includes(connection.effectiveType))
+  )
+  
+  return {
+    memoryLimit: memory * 1024, // Convert GB to MB
+    cpuCores: cores,
+    isLowEndDevice: Boolean(isLowEnd),
+  }
+}
+
 export function usePerformanceMonitor(
   thresholds: Partial<PerformanceThresholds> = {},
   enableAlerts: boolean = true
 ) {
-  const [metrics, setMetrics] = useState<PerformanceMetrics>({
+  // Device capabilities are known up front so callers can adapt before monitoring starts
+  const [metrics, setMetrics] = useState<PerformanceMetrics>(() => ({
     fps: 60,
     averageFps: 60,
     frameTime: 16.67,
     animationCount: 0,
     activeAnimations: 0,
     memoryUsage: 0,
-    memoryLimit: 0,
-    cpuCores: 1,
-    isLowEndDevice: false,
+    ...detectDeviceCapabilities(),
     timestamp: Date.now(),
-  })
+  }))
   
   const [alerts, setAlerts] = useState<PerformanceAlert[]>([])
   const [isMonitoring, setIsMonitoring] = useState(false)
@@ -70,29 +96,6 @@ export function usePerformanceMonitor(
   
   const { animations, activeAnimations } = useAnimationCoordinator()
   
-  // Device capability detection
-  const detectDeviceCapabilities = useCallback((): {
-    memoryLimit: number;
-    cpuCores: number;
-    isLowEndDevice: boolean;
-  } => {
-    const memory = (navigator as any).deviceMemory || 4
-    const cores = navigator.hardwareConcurrency || 4
-    const connection = (navigator as any).connection
-    
-    const isLowEnd = (
-      memory < 4 ||
-      cores < 4 ||
-      (connection && ['slow-2g', '2g', '3g'].includes(connection.effectiveType))
-    )
-    
-    return {
-      memoryLimit: memory * 1024, // Convert GB to MB
-      cpuCores: cores,
-      isLowEndDevice: isLowEnd,
-    }
-  }, [])
-  
   // Get battery information
   const getBatteryInfo = useCallback(async (): Promise<number | undefined> => {
     try {
@@ -250,7 +253,7 @@ export function usePerformanceMonitor(
     if (isMonitoring) {
       rafIdRef.current = requestAnimationFrame(monitorPerformance)
     }
-  }, [isMonitoring, animations, activeAnimations, detectDeviceCapabilities, getBatteryInfo, getConnectionInfo, checkThresholds])
+  }, [isMonitoring, animations, activeAnimations, getBatteryInfo, getConnectionInfo, checkThresholds])
   
   // Start monitoring
   const startMonitoring = useCallback(() => {
@@ -0,0 +1,126 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { type MotionValue, useMotionValue } from 'framer-motion'
+import { useLenis } from '@/providers/LenisProvider'
+import { getPinState, getScrollerViewport, resolvePinDistance } from '@/lib/scroll/pin'
+import type { PinDistance, PinPhase } from '@/types/scroll.types'
+
+interface UsePinOptions {
+  /** Scroll distance to hold the element for */
+  distance?: PinDistance;
+  /** Pixels from the scroller's leading edge the element is held at */
+  offset?: number;
+  enabled?: boolean;
+}
+
+interface Pin {
+  /** Wrapper that reserves the pinned distance so following content isn't overlapped */
+  spacerRef: React.RefObject<HTMLDivElement>;
+  /** Element that's held in place */
+  pinRef: React.RefObject<HTMLDivElement>;
+  /** 0-1 through the pinned distance */
+  progress: MotionValue<number>;
+  phase: PinPhase;
+}
+
+/**
+ * Holds an element in place for a scroll distance on the nearest scroller -
+ * the page or a nested ScrollContainer. Re-measures on resize and re-layout.
+ */
+export const usePin = ({
+  distance = '100vh',
+  offset = 0,
+  enabled = true,
+}: UsePinOptions = {}): Pin => {
+  const { lenis, orientation, element: scroller } = useLenis()
+  const spacerRef = useRef<HTMLDivElement>(null)
+  const pinRef = useRef<HTMLDivElement>(null)
+  const progress = useMotionValue(0)
+  const [phase, setPhase] = useState<PinPhase>('before')
+  const layout = useRef({ start: 0, distance: 0 })
+  const horizontal = orientation === 'horizontal'
+
+  const getScroll = useCallback((): number => {
+    const current = (lenis as { scroll?: number } | null)?.scroll
+    if (typeof current === 'number') return current
+    if (scroller) return horizontal ? scroller.scrollLeft : scroller.scrollTop
+    return horizontal ? window.scrollX : window.scrollY
+  }, [lenis, scroller, horizontal])
+
+  const apply = useCallback((scroll: number) => {
+    const pin = pinRef.current
+    if (!pin) return
+
+    const state = getPinState(scroll, layout.current)
+    pin.style.transform = state.offset === 0
+      ? ''
+      : horizontal ? `translate3d(${state.offset}px, 0, 0)` : `translate3d(0, ${state.offset}px, 0)`
+    progress.set(state.progress)
+    setPhase(state.phase)
+  }, [horizontal, progress])
+
+  const measure = useCallback(() => {
+    const spacer = spacerRef.current
+    const pin = pinRef.current
+    if (!spacer || !pin) return
+
+    const size = horizontal ? pin.offsetWidth : pin.offsetHeight
+    const viewport = getScrollerViewport(scroller, orientation)
+    const length = resolvePinDistance(distance, { viewport: viewport.size, element: size })
+
+    spacer.style[horizontal ? 'width' : 'height'] = `${size + length}px`
+
+    // The spacer never moves with the pin, so it measures the same at any scroll position
+    const scroll = getScroll()
+    const rect = spacer.getBoundingClientRect()
+    layout.current = {
+      start: (horizontal ? rect.left : rect.top) - viewport.start + scroll - offset,
+      distance: length,
+    }
+    apply(scroll)
+  }, [distance, offset, orientation, horizontal, scroller, getScroll, apply])
+
+  // Follow the scroller
+  useEffect(() => {
+    if (!enabled) return
+
+    const update = () => apply(getScroll())
+    if (lenis) {
+      lenis.on('scroll', update)
+      return () => lenis.off('scroll', update)
+    }
+
+    const target = scroller ?? window
+    target.addEventListener('scroll', update, { passive: true })
+    return () => target.removeEventListener('scroll', update)
+  }, [enabled, lenis, scroller, apply, getScroll])
+
+  // Measure now, and again whenever the layout around the pin changes
+  useEffect(() => {
+    const spacer = spacerRef.current
+    const pin = pinRef.current
+    if (!enabled || !spacer || !pin) return
+
+    measure()
+    window.addEventListener('resize', measure)
+
+    let observer: ResizeObserver | null = null
+    if (typeof ResizeObserver !== 'undefined') {
+      observer = new ResizeObserver(() => measure())
+      observer.observe(pin)
+      observer.observe(scroller?.firstElementChild ?? document.body)
+    }
+
+    return () => {
+      window.removeEventListener('resize', measure)
+      observer?.disconnect()
+      spacer.style.removeProperty(horizontal ? 'width' : 'height')
+      pin.style.transform = ''
+      progress.set(0)
+      setPhase('before')
+    }
+  }, [enabled, measure, scroller, horizontal, progress])
+
+  return { spacerRef, pinRef, progress, phase }
+}
@@ -0,0 +1,52 @@
+"use client"
+
+import { type MotionValue, useMotionValue, useSpring, useTransform } from 'framer-motion'
+import type { SpringConfiguration } from '@/types/ethereal.types'
+
+interface UsePrimitiveParallaxOptions {
+  mouseX: MotionValue<number>;
+  mouseY: MotionValue<number>;
+  /** Scroll progress (0-1) - the layer rises `scrollDepth` pixels across it */
+  scrollProgress?: MotionValue<number>;
+  /** Pixels moved at the scene's edges - same convention as the arcs' parallaxStrength */
+  strength: number;
+  scrollDepth: number;
+  spring: SpringConfiguration;
+  /** Size mouse coordinates are relative to (defaults to the viewport) */
+  bounds?: { width: number; height: number };
+  /** Follow the inputs directly instead of through the spring */
+  immediate?: boolean;
+}
+
+/**
+ * Mouse and scroll offsets for a background primitive, matching how
+ * CelestialArc maps the pointer onto its parallax strength
+ */
+export const usePrimitiveParallax = ({
+  mouseX,
+  mouseY,
+  scrollProgress,
+  strength,
+  scrollDepth,
+  spring,
+  bounds,
+  immediate = false,
+}: UsePrimitiveParallaxOptions): { x: MotionValue<number>; y: MotionValue<number> } => {
+  const noScroll = useMotionValue(0)
+
+  const targetX = useTransform(mouseX, (latest: number) => {
+    const width = bounds?.width || (typeof window !== 'undefined' ? window.innerWidth : 0)
+    return width > 0 ? (latest / width - 0.5) * 2 * strength : 0
+  })
+
+  const targetY = useTransform<number, number>([mouseY, scrollProgress ?? noScroll], ([latest, progress]) => {
+    const height = bounds?.height || (typeof window !== 'undefined' ? window.innerHeight : 0)
+    const pointer = height > 0 ? (latest / height - 0.5) * 2 * strength : 0
+    return pointer - progress * scrollDepth
+  })
+
+  const x = useSpring(targetX, spring)
+  const y = useSpring(targetY, spring)
+
+  return immediate ? { x: targetX, y: targetY } : { x, y }
+}
@@ -0,0 +1,47 @@
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { motionValue } from 'framer-motion'
+import { useScrollChoreography } from './use-scroll-choreography'
+import { SCROLL_CHOREOGRAPHY, SPRING_CONFIGS } from '@/config/ethereal.config'
+
+describe('useScrollChoreography', () => {
+  const choreography = {
+    ...SCROLL_CHOREOGRAPHY,
+    sections: { zoom: { scale: 2, tint: 'rgba(255, 0, 0, 1)' } },
+  }
+
+  // Combined motion values update on the next animation frame, hence waitFor
+
+  it('follows the progress timeline', async () => {
+    const progress = motionValue(0)
+    const { result } = renderHook(() => useScrollChoreography({
+      choreography,
+      progress,
+      sectionId: null,
+      spring: SPRING_CONFIGS.main,
+    }))
+
+    act(() => progress.set(0.5))
+    await waitFor(() => expect(result.current.scale.get()).toBeCloseTo(1.25))
+    expect(result.current.y.get()).toBeCloseTo(-100)
+    expect(result.current.opacity.get()).toBeCloseTo(0.8)
+    expect(result.current.tint).toBeNull()
+  })
+
+  it('applies section adjustments immediately under reduced motion', async () => {
+    const progress = motionValue(0)
+    const { result, rerender } = renderHook(
+      ({ sectionId }) => useScrollChoreography({
+        choreography,
+        progress,
+        sectionId,
+        spring: SPRING_CONFIGS.main,
+        immediate: true,
+      }),
+      { initialProps: { sectionId: null as string | null } }
+    )
+
+    rerender({ sectionId: 'zoom' })
+    await waitFor(() => expect(result.current.scale.get()).toBeCloseTo(2))
+    expect(result.current.tint).toBe('rgba(255, 0, 0, 1)')
+  })
+})
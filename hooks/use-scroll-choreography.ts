@@ -0,0 +1,87 @@
+"use client"
+
+import { useEffect, useMemo } from 'react'
+import { type MotionValue, useSpring, useTransform } from 'framer-motion'
+import {
+  resolveScrollRange,
+  resolveSectionChoreography,
+} from '@/lib/ethereal/choreography'
+import type { EtherealScrollChoreography, SpringConfiguration } from '@/types/ethereal.types'
+
+interface ScrollChoreographyOptions {
+  choreography: EtherealScrollChoreography;
+  /** Scroll progress (0-1) driving the timeline */
+  progress: MotionValue<number>;
+  /** Currently active section id */
+  sectionId: string | null;
+  /** Spring used when section adjustments change */
+  spring: SpringConfiguration;
+  /** Jump to section adjustments instead of animating (reduced motion) */
+  immediate?: boolean;
+}
+
+/**
+ * Turns a scroll choreography into motion values for the background transforms
+ * Timeline values follow `progress`; section adjustments spring in and out as
+ * the active section changes and are combined as in `combineScrollEffects`
+ */
+export const useScrollChoreography = ({
+  choreography,
+  progress,
+  sectionId,
+  spring,
+  immediate = false,
+}: ScrollChoreographyOptions) => {
+  const ranges = useMemo(() => ({
+    scale: resolveScrollRange(choreography, 'scale'),
+    y: resolveScrollRange(choreography, 'y'),
+    opacity: resolveScrollRange(choreography, 'opacity'),
+    mask: resolveScrollRange(choreography, 'mask'),
+  }), [choreography])
+
+  const timelineScale = useTransform(progress, ranges.scale.input, ranges.scale.output)
+  const timelineY = useTransform(progress, ranges.y.input, ranges.y.output)
+  const timelineOpacity = useTransform(progress, ranges.opacity.input, ranges.opacity.output)
+  const timelineMask = useTransform(progress, ranges.mask.input, ranges.mask.output)
+
+  const section = useMemo(
+    () => resolveSectionChoreography(choreography, sectionId),
+    [choreography, sectionId]
+  )
+
+  const sectionScale = useSpring(section.scale, spring)
+  const sectionY = useSpring(section.y, spring)
+  const sectionOpacity = useSpring(section.opacity, spring)
+  const sectionMask = useSpring(section.mask, spring)
+
+  useEffect(() => {
+    const targets: [MotionValue<number>, number][] = [
+      [sectionScale, section.scale],
+      [sectionY, section.y],
+      [sectionOpacity, section.opacity],
+      [sectionMask, section.mask],
+    ]
+
+    targets.forEach(([value, target]) => {
+      if (immediate) {
+        value.jump(target)
+      } else {
+        value.set(target)
+      }
+    })
+  }, [section, immediate, sectionScale, sectionY, sectionOpacity, sectionMask])
+
+  const scale = useTransform<number, number>([timelineScale, sectionScale], ([timeline, adjustment]) => timeline * adjustment)
+  const y = useTransform<number, number>([timelineY, sectionY], ([timeline, adjustment]) => timeline + adjustment)
+  const opacity = useTransform<number, number>([timelineOpacity, sectionOpacity], ([timeline, adjustment]) => timeline * adjustment)
+  const mask = useTransform<number, number>([timelineMask, sectionMask], ([timeline, minimum]) => Math.max(timeline, minimum))
+
+  return {
+    scale,
+    y,
+    opacity,
+    mask,
+    tint: section.tint,
+    tintOpacity: section.tintOpacity,
+  }
+}
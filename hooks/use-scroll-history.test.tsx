@@ -0,0 +1,100 @@
+import React from 'react'
+import { renderHook, act } from '@testing-library/react'
+import { useScrollHistory } from './use-scroll-history'
+import { LenisContext, LenisContextValue } from '@/providers/LenisProvider'
+import { DEFAULT_SCROLL_HISTORY_OPTIONS, SCROLL_HISTORY_KEY } from '@/lib/scroll/history'
+import { ContrastMode, Section } from '@/types/scroll.types'
+
+describe('useScrollHistory', () => {
+  const createSection = (id: string, top: number): Section => {
+    const element = document.createElement('section')
+    element.getBoundingClientRect = () => ({ top } as DOMRect)
+    return { id, zIndex: 100, triggerStart: 0, triggerEnd: 1, animations: [], contrast: 'auto' as ContrastMode, isActive: false, element }
+  }
+
+  const sections = new Map([
+    ['hero', createSection('hero', 0)],
+    ['features', createSection('features', 1800)],
+  ])
+
+  const createScroller = (): LenisContextValue => ({
+    lenis: { scroll: 0, on: jest.fn(), off: jest.fn() } as any,
+    scrollState: { progress: 0, velocity: 0, direction: 'down', activeSection: '', isScrolling: false },
+    isReady: true,
+    scrollTo: jest.fn(),
+    updateScrollState: jest.fn(),
+    registerSnapPoint: jest.fn(() => () => {}),
+    paginate: jest.fn(() => false),
+    orientation: 'vertical',
+    element: null,
+    parent: null,
+    recorder: null,
+  })
+
+  const renderScrollHistory = (scroller: LenisContextValue, activeSection: string | null = null) =>
+    renderHook(
+      ({ active }) => useScrollHistory({ sections, activeSection: active, options: DEFAULT_SCROLL_HISTORY_OPTIONS }),
+      {
+        initialProps: { active: activeSection },
+        wrapper: ({ children }) => <LenisContext.Provider value={scroller}>{children}</LenisContext.Provider>,
+      }
+    )
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/')
+    jest.spyOn(performance, 'now').mockReturnValue(10000)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('scrolls to an incoming #section-id once sections are registered', () => {
+    window.history.replaceState(null, '', '/#features')
+    const scroller = createScroller()
+    renderScrollHistory(scroller)
+
+    expect(scroller.scrollTo).toHaveBeenCalledWith(1800)
+  })
+
+  it('restores a saved position ahead of the hash', () => {
+    window.history.replaceState({ [SCROLL_HISTORY_KEY]: { scroll: 640, section: 'hero' } }, '', '/#features')
+    const scroller = createScroller()
+    renderScrollHistory(scroller)
+
+    expect(scroller.scrollTo).toHaveBeenCalledTimes(1)
+    expect(scroller.scrollTo).toHaveBeenCalledWith(640, { immediate: true })
+  })
+
+  it('mirrors the active section in the hash and history state', () => {
+    const { rerender } = renderScrollHistory(createScroller(), 'hero')
+
+    rerender({ active: 'features' })
+    expect(window.location.hash).toBe('#features')
+    expect(window.history.state[SCROLL_HISTORY_KEY]).toEqual({ scroll: 0, section: 'features' })
+  })
+
+  it('leaves the hash alone while a deep link is still scrolling', () => {
+    window.history.replaceState(null, '', '/#features')
+    const { rerender } = renderScrollHistory(createScroller(), 'hero')
+
+    rerender({ active: 'hero' })
+    expect(window.location.hash).toBe('#features')
+  })
+
+  it('restores positions on back/forward', () => {
+    const scroller = createScroller()
+    renderScrollHistory(scroller)
+
+    act(() => {
+      window.dispatchEvent(new PopStateEvent('popstate', { state: { [SCROLL_HISTORY_KEY]: { scroll: 2400, section: null } } }))
+    })
+    expect(scroller.scrollTo).toHaveBeenLastCalledWith(2400, { immediate: true })
+
+    window.history.replaceState(null, '', '/#features')
+    act(() => {
+      window.dispatchEvent(new PopStateEvent('popstate', { state: null }))
+    })
+    expect(scroller.scrollTo).toHaveBeenLastCalledWith(1800)
+  })
+})
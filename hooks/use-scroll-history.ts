@@ -0,0 +1,141 @@
+"use client"
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useLenis } from '@/providers/LenisProvider'
+import { getElementScrollOffset } from '@/lib/scroll/snap'
+import {
+  getSectionUrl,
+  parseSectionHash,
+  readScrollHistory,
+  writeScrollHistory,
+} from '@/lib/scroll/history'
+import type { ScrollHistoryOptions, Section } from '@/types/scroll.types'
+
+interface UseScrollHistoryOptions {
+  sections: Map<string, Section>;
+  activeSection: string | null;
+  options: ScrollHistoryOptions;
+}
+
+/** Scroll position is saved this long (ms) after scrolling stops */
+const SAVE_DELAY = 150
+
+/** Active section changes don't touch the hash while a deep-link scroll runs (ms) */
+const DEEP_LINK_LOCK = 1500
+
+const findSectionElement = (sections: Map<string, Section>, id: string): Element | null =>
+  sections.get(id)?.element
+    ?? document.querySelector(`[data-section-id="${id.replace(/["\\]/g, '\\$&')}"]`)
+    ?? document.getElementById(id)
+
+/**
+ * Keeps the URL and history in step with the scroll: the active section in
+ * the hash, the position in history.state - restored on reload and
+ * back/forward - and incoming #section-id links scrolled to once registered
+ */
+export const useScrollHistory = ({ sections, activeSection, options }: UseScrollHistoryOptions) => {
+  const { lenis, isReady, scrollTo } = useLenis()
+  // Nothing is saved or written until the arrival position has been restored
+  const arrived = useRef(false)
+  const hashLockUntil = useRef(0)
+
+  const getScroll = useCallback((): number => {
+    const current = (lenis as { scroll?: number } | null)?.scroll
+    return typeof current === 'number' ? current : window.scrollY
+  }, [lenis])
+
+  const scrollToSection = useCallback((id: string): boolean => {
+    const element = findSectionElement(sections, id)
+    if (!element) return false
+
+    hashLockUntil.current = performance.now() + DEEP_LINK_LOCK
+    // Smooth, or a jump under reduced motion (LenisProvider decides)
+    scrollTo(getElementScrollOffset(element, getScroll()))
+    return true
+  }, [sections, scrollTo, getScroll])
+
+  // We restore positions ourselves once content is registered
+  useEffect(() => {
+    if (!options.restore || !('scrollRestoration' in window.history)) return
+
+    const previous = window.history.scrollRestoration
+    window.history.scrollRestoration = 'manual'
+    return () => {
+      window.history.scrollRestoration = previous
+    }
+  }, [options.restore])
+
+  // Arrival: a saved position (reload) wins over the hash (shared link)
+  useEffect(() => {
+    if (arrived.current || !isReady || sections.size === 0) return
+
+    const saved = options.restore ? readScrollHistory(window.history.state) : null
+    const hash = options.deepLink ? parseSectionHash(window.location.hash) : null
+
+    if (saved) {
+      scrollTo(saved.scroll, { immediate: true })
+    } else if (hash) {
+      // A hash naming something that never registers is left alone
+      scrollToSection(hash)
+    }
+    arrived.current = true
+  }, [isReady, sections, options.restore, options.deepLink, scrollTo, scrollToSection])
+
+  // Save the position as it changes, and on the way out
+  useEffect(() => {
+    if (!options.restore) return
+
+    let timeout: ReturnType<typeof setTimeout>
+    const save = () => {
+      if (!arrived.current) return
+      window.history.replaceState(writeScrollHistory(window.history.state, { scroll: getScroll() }), '')
+    }
+    const schedule = () => {
+      clearTimeout(timeout)
+      timeout = setTimeout(save, SAVE_DELAY)
+    }
+
+    if (lenis) lenis.on('scroll', schedule)
+    else window.addEventListener('scroll', schedule, { passive: true })
+    window.addEventListener('pagehide', save)
+
+    return () => {
+      clearTimeout(timeout)
+      if (lenis) lenis.off('scroll', schedule)
+      else window.removeEventListener('scroll', schedule)
+      window.removeEventListener('pagehide', save)
+    }
+  }, [options.restore, lenis, getScroll])
+
+  // Mirror the active section in the hash - replaced, so scrolling doesn't flood the history
+  useEffect(() => {
+    if (!options.hash || !activeSection || !arrived.current) return
+    if (performance.now() < hashLockUntil.current) return
+    if (parseSectionHash(window.location.hash) === activeSection) return
+
+    window.history.replaceState(
+      writeScrollHistory(window.history.state, { section: activeSection }),
+      '',
+      getSectionUrl(window.location, activeSection)
+    )
+  }, [activeSection, options.hash])
+
+  // Back/forward: the saved position, or the section in the hash (in-page links)
+  useEffect(() => {
+    const handlePopState = (event: PopStateEvent) => {
+      const saved = options.restore ? readScrollHistory(event.state) : null
+      if (saved) {
+        scrollTo(saved.scroll, { immediate: true })
+        return
+      }
+
+      const hash = options.deepLink ? parseSectionHash(window.location.hash) : null
+      if (hash) scrollToSection(hash)
+    }
+
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [options.restore, options.deepLink, scrollTo, scrollToSection])
+
+  return { scrollToSection }
+}
@@ -0,0 +1,60 @@
+import { renderHook, act } from '@testing-library/react'
+import { motionValue } from 'framer-motion'
+import { useScrollTimeline } from './use-scroll-timeline'
+import { createScrollTimeline, getRegisteredTimelines } from '@/lib/scroll/timeline'
+
+const pageProgress = motionValue(0)
+
+jest.mock('./use-lenis-scroll', () => ({
+  useLenisScroll: () => ({ scrollProgress: pageProgress }),
+}))
+
+jest.mock('@/providers/SectionProvider', () => ({
+  useSectionById: (sectionId?: string) =>
+    sectionId === 'story' ? { id: 'story', triggerStart: 0.5, triggerEnd: 1 } : null,
+}))
+
+describe('useScrollTimeline', () => {
+  const timeline = createScrollTimeline('story')
+    .to('title', { opacity: [0, 1] }, { duration: 1 })
+    .to('image', { scale: [0.8, 1] }, { duration: 1 })
+
+  beforeEach(() => {
+    act(() => pageProgress.set(0))
+  })
+
+  it('scrubs the timeline with the page progress', () => {
+    const { result } = renderHook(() => useScrollTimeline(timeline))
+
+    act(() => pageProgress.set(0.25))
+    expect(result.current.title.opacity.get()).toBeCloseTo(0.5)
+    expect(result.current.image.scale.get()).toBeCloseTo(0.8)
+  })
+
+  it("scrubs by a section's share of the page", () => {
+    const { result } = renderHook(() => useScrollTimeline(timeline, { sectionId: 'story' }))
+
+    act(() => pageProgress.set(0.5))
+    expect(result.current.title.opacity.get()).toBe(0)
+
+    act(() => pageProgress.set(0.875))
+    expect(result.current.image.scale.get()).toBeCloseTo(0.9)
+  })
+
+  it('follows an explicit progress in reverse', () => {
+    const progress = motionValue(0)
+    const { result } = renderHook(() => useScrollTimeline(timeline, { progress, reversed: true }))
+
+    expect(result.current.image.scale.get()).toBe(1)
+    act(() => progress.set(1))
+    expect(result.current.title.opacity.get()).toBe(0)
+  })
+
+  it('registers with the animation debugger while mounted', () => {
+    const { unmount } = renderHook(() => useScrollTimeline(timeline))
+    expect(getRegisteredTimelines()).toContain(timeline)
+
+    unmount()
+    expect(getRegisteredTimelines()).not.toContain(timeline)
+  })
+})
@@ -0,0 +1,68 @@
+"use client"
+
+import { useEffect, useMemo } from 'react'
+import { type MotionValue, motionValue } from 'framer-motion'
+import { useLenisScroll } from './use-lenis-scroll'
+import { useSectionById } from '@/providers/SectionProvider'
+import { getRangeProgress, registerTimeline, type ScrollTimeline } from '@/lib/scroll/timeline'
+
+interface UseScrollTimelineOptions {
+  /** Scrub by this section's share of the page instead of the whole page */
+  sectionId?: string;
+  /** Or by any 0-1 progress - a Pin's, say */
+  progress?: MotionValue<number>;
+  reversed?: boolean;
+}
+
+/** Motion values per target, per property - spread a target's straight into a motion style */
+export type ScrollTimelineStyles = Record<string, Record<string, MotionValue<number>>>
+
+/**
+ * Scrubs a timeline by scroll progress and exposes its values as motion values
+ */
+export const useScrollTimeline = (
+  timeline: ScrollTimeline,
+  { sectionId, progress, reversed = false }: UseScrollTimelineOptions = {}
+): ScrollTimelineStyles => {
+  const { scrollProgress } = useLenisScroll()
+  const section = useSectionById(sectionId)
+  const source = progress ?? scrollProgress
+  // An explicit progress wins over the section's range
+  const rangeStart = progress ? undefined : section?.triggerStart
+  const rangeEnd = progress ? undefined : section?.triggerEnd
+
+  const styles = useMemo(() => {
+    const initial = timeline.sample(0)
+    return Object.fromEntries(
+      Object.entries(initial).map(([target, values]) => [
+        target,
+        Object.fromEntries(Object.entries(values).map(([property, value]) => [property, motionValue(value)])),
+      ])
+    ) as ScrollTimelineStyles
+  }, [timeline])
+
+  // Shows up in the animation debugger while mounted
+  useEffect(() => registerTimeline(timeline), [timeline])
+
+  useEffect(() => {
+    timeline.reverse(reversed)
+
+    const update = (latest: number) => {
+      const local = rangeStart !== undefined && rangeEnd !== undefined
+        ? getRangeProgress(latest, [rangeStart, rangeEnd])
+        : latest
+      const values = timeline.sample(local)
+
+      Object.entries(values).forEach(([target, properties]) => {
+        Object.entries(properties).forEach(([property, value]) => {
+          styles[target]?.[property]?.set(value)
+        })
+      })
+    }
+
+    update(source.get())
+    return source.on('change', update)
+  }, [timeline, styles, source, rangeStart, rangeEnd, reversed])
+
+  return styles
+}
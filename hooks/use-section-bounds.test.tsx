@@ -0,0 +1,73 @@
+import React from 'react'
+import { renderHook, act } from '@testing-library/react'
+import { useSectionBounds } from './use-section-bounds'
+import { LenisContext, LenisContextValue } from '@/providers/LenisProvider'
+
+describe('useSectionBounds', () => {
+  const scroller: LenisContextValue = {
+    lenis: { limit: 4000 } as any,
+    scrollState: { progress: 0, velocity: 0, direction: 'down', activeSection: '', isScrolling: false },
+    isReady: true,
+    scrollTo: jest.fn(),
+    updateScrollState: jest.fn(),
+    registerSnapPoint: jest.fn(() => () => {}),
+    paginate: jest.fn(() => false),
+    orientation: 'vertical',
+    element: null,
+    parent: null,
+    recorder: null,
+  }
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <LenisContext.Provider value={scroller}>{children}</LenisContext.Provider>
+  )
+
+  const createSection = (top: number, height: number) => {
+    const element = document.createElement('section')
+    Object.defineProperty(element, 'offsetTop', { value: top, configurable: true })
+    Object.defineProperty(element, 'offsetHeight', { value: height, configurable: true })
+    return { current: element }
+  }
+
+  beforeEach(() => {
+    Object.defineProperty(window, 'innerHeight', { value: 800, configurable: true })
+  })
+
+  it('derives the range from where the section crosses the middle of the viewport', () => {
+    const ref = createSection(1000, 1200)
+    const { result } = renderHook(() => useSectionBounds(ref), { wrapper })
+
+    expect(result.current.measured).toBe(true)
+    expect(result.current.triggerStart).toBeCloseTo(600 / 4000)
+    expect(result.current.triggerEnd).toBeCloseTo(1800 / 4000)
+  })
+
+  it('clamps sections at the very top of the page', () => {
+    const ref = createSection(0, 1000)
+    const { result } = renderHook(() => useSectionBounds(ref), { wrapper })
+
+    expect(result.current.triggerStart).toBe(0)
+    expect(result.current.triggerEnd).toBeCloseTo(600 / 4000)
+  })
+
+  it('keeps manual progress overrides without measuring', () => {
+    const ref = createSection(1000, 1200)
+
+    expect(renderHook(() => useSectionBounds(ref, 0.2, 0.5), { wrapper }).result.current)
+      .toEqual({ triggerStart: 0.2, triggerEnd: 0.5, measured: false })
+    expect(renderHook(() => useSectionBounds(ref, 0.1), { wrapper }).result.current.triggerEnd)
+      .toBeCloseTo(1800 / 4000)
+  })
+
+  it('follows the section when content above it changes', () => {
+    const ref = createSection(1000, 1200)
+    const { result } = renderHook(() => useSectionBounds(ref), { wrapper })
+
+    Object.defineProperty(ref.current, 'offsetTop', { value: 1400 })
+    act(() => {
+      window.dispatchEvent(new Event('resize'))
+    })
+
+    expect(result.current.triggerStart).toBeCloseTo(1000 / 4000)
+    expect(result.current.triggerEnd).toBeCloseTo(2200 / 4000)
+  })
+})
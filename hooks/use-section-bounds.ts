@@ -0,0 +1,52 @@
+"use client"
+
+import type { RefObject } from 'react'
+import { useTriggerBounds } from './use-trigger-bounds'
+import type { TriggerPosition } from '@/lib/scroll/trigger-position'
+
+/** A section is active while it crosses the middle of the viewport */
+export const DEFAULT_SECTION_START: TriggerPosition = 'top center'
+export const DEFAULT_SECTION_END: TriggerPosition = 'bottom center'
+
+export interface SectionBounds {
+  /** Page progress the section starts and ends at */
+  triggerStart: number;
+  triggerEnd: number;
+  /** False until the section has been measured (or when both bounds were given as progress) */
+  measured: boolean;
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+/**
+ * Derives a section's triggerStart/triggerEnd from its DOM bounds, so they
+ * follow the layout instead of drifting from hand-entered fractions.
+ * Either bound can be overridden with a progress or an element-relative position.
+ */
+export const useSectionBounds = (
+  elementRef: RefObject<HTMLElement>,
+  triggerStart: TriggerPosition = DEFAULT_SECTION_START,
+  triggerEnd: TriggerPosition = DEFAULT_SECTION_END
+): SectionBounds => {
+  // Keywords like 'center' are still measured, so they resolve against the live page length
+  const bounds = useTriggerBounds(
+    elementRef,
+    triggerStart,
+    triggerEnd,
+    typeof triggerStart === 'string' || typeof triggerEnd === 'string'
+  )
+
+  if (!bounds) {
+    return {
+      triggerStart: typeof triggerStart === 'number' ? triggerStart : 0,
+      triggerEnd: typeof triggerEnd === 'number' ? triggerEnd : 0,
+      measured: false,
+    }
+  }
+
+  return {
+    triggerStart: clamp01(bounds.start),
+    triggerEnd: clamp01(bounds.end),
+    measured: true,
+  }
+}
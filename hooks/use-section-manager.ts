@@ -3,7 +3,7 @@
 import { useEffect, useCallback, useRef, useState } from 'react'
 import { useSection } from '@/providers/SectionProvider'
 import { useLenisScroll } from './use-lenis-scroll'
-import { Section, ZLayers, ContrastMode, Animation } from '@/types/scroll.types'
+import { Section, ZLayers, ContrastMode, Animation, SectionEvent } from '@/types/scroll.types'
 
 interface SectionConfig {
   id: string;
@@ -12,8 +12,9 @@ interface SectionConfig {
   zIndex?: number;
   animations?: Animation[];
   contrast?: ContrastMode;
-  onEnter?: () => void;
-  onLeave?: () => void;
+  parentId?: string | null;
+  onEnter?: (event: SectionEvent) => void;
+  onLeave?: (event: SectionEvent) => void;
   onProgress?: (progress: number) => void;
 }
 
@@ -23,7 +24,8 @@ export const useSectionManager = (config: SectionConfig) => {
     unregisterSection, 
     updateSection, 
     activeSection, 
-    getNextZIndex 
+    getNextZIndex,
+    addSectionListener,
   } = useSection()
   
   const { progress, isReady } = useLenisScroll()
@@ -42,6 +44,7 @@ export const useSectionManager = (config: SectionConfig) => {
     contrast: config.contrast || 'auto',
     isActive: false,
     element: elementRef.current || undefined,
+    parentId: config.parentId ?? undefined,
   }
   
   // Register section on mount
@@ -53,7 +56,7 @@ export const useSectionManager = (config: SectionConfig) => {
     return () => {
       unregisterSection(config.id)
     }
-  }, [isReady, registerSection, unregisterSection, config.id])
+  }, [isReady, registerSection, unregisterSection, config.id, config.parentId])
   
   // Update section when element ref changes
   useEffect(() => {
@@ -62,6 +65,20 @@ export const useSectionManager = (config: SectionConfig) => {
     }
   }, [elementRef.current, updateSection, config.id])
   
+  // Keep the registered range in step as measured bounds change
+  useEffect(() => {
+    updateSection(config.id, { triggerStart: config.triggerStart, triggerEnd: config.triggerEnd })
+  }, [config.triggerStart, config.triggerEnd, updateSection, config.id])
+  
+  // Enter/leave come from the provider, which orders them across nesting levels and bubbles them
+  const handlers = useRef({ onEnter: config.onEnter, onLeave: config.onLeave })
+  handlers.current = { onEnter: config.onEnter, onLeave: config.onLeave }
+  
+  useEffect(() => addSectionListener(config.id, {
+    onEnter: (event) => handlers.current.onEnter?.(event),
+    onLeave: (event) => handlers.current.onLeave?.(event),
+  }), [addSectionListener, config.id])
+  
   // Monitor section progress and trigger callbacks
   useEffect(() => {
     const currentProgress = progress
@@ -83,7 +100,6 @@ export const useSectionManager = (config: SectionConfig) => {
       if (!wasActive && !hasEnteredRef.current) {
         setIsActive(true)
         hasEnteredRef.current = true
-        config.onEnter?.()
       }
     } else {
       // Handle section leave
@@ -91,10 +107,9 @@ export const useSectionManager = (config: SectionConfig) => {
         setIsActive(false)
         hasEnteredRef.current = false
         setSectionProgress(0)
-        config.onLeave?.()
       }
     }
-  }, [progress, config.triggerStart, config.triggerEnd, isActive, config.onEnter, config.onLeave, config.onProgress])
+  }, [progress, config.triggerStart, config.triggerEnd, isActive, config.onProgress])
   
   // Update section active state in provider
   useEffect(() => {
@@ -0,0 +1,93 @@
+import React from 'react'
+import { renderHook, act } from '@testing-library/react'
+import { useTriggerBounds } from './use-trigger-bounds'
+import { LenisContext, LenisContextValue } from '@/providers/LenisProvider'
+
+describe('useTriggerBounds', () => {
+  const scroller: LenisContextValue = {
+    lenis: { limit: 5000 } as any,
+    scrollState: { progress: 0, velocity: 0, direction: 'down', activeSection: '', isScrolling: false },
+    isReady: true,
+    scrollTo: jest.fn(),
+    updateScrollState: jest.fn(),
+    registerSnapPoint: jest.fn(() => () => {}),
+    paginate: jest.fn(() => false),
+    orientation: 'vertical',
+    element: null,
+    parent: null,
+    recorder: null,
+  }
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <LenisContext.Provider value={scroller}>{children}</LenisContext.Provider>
+  )
+
+  const createElement = (top: number) => {
+    const element = document.createElement('div')
+    Object.defineProperty(element, 'offsetTop', { value: top, configurable: true })
+    Object.defineProperty(element, 'offsetHeight', { value: 400 })
+    return { current: element }
+  }
+
+  beforeEach(() => {
+    Object.defineProperty(window, 'innerHeight', { value: 800, configurable: true })
+  })
+
+  it('resolves element-relative positions to scroller progress', () => {
+    const ref = createElement(2000)
+    const { result } = renderHook(() => useTriggerBounds(ref, 'top 80%', '+=300px'), { wrapper })
+
+    expect(result.current?.start).toBeCloseTo(1360 / 5000)
+    expect(result.current?.end).toBeCloseTo(1660 / 5000)
+    expect(result.current?.lines.start.viewportOffset).toBe(640)
+  })
+
+  it('leaves plain progress positions alone unless markers need them', () => {
+    const ref = createElement(2000)
+
+    expect(renderHook(() => useTriggerBounds(ref, 0.25, 0.5), { wrapper }).result.current).toBeNull()
+    expect(renderHook(() => useTriggerBounds(ref, 0.25, 0.5, true), { wrapper }).result.current?.end).toBe(0.5)
+  })
+
+  it('re-measures when the viewport resizes', () => {
+    const ref = createElement(2000)
+    const { result } = renderHook(() => useTriggerBounds(ref, 'top bottom', 'bottom top'), { wrapper })
+    expect(result.current?.start).toBeCloseTo(1200 / 5000)
+
+    Object.defineProperty(ref.current, 'offsetTop', { value: 2500 })
+    act(() => {
+      window.dispatchEvent(new Event('resize'))
+    })
+
+    expect(result.current?.start).toBeCloseTo(1700 / 5000)
+    expect(result.current?.end).toBeCloseTo(2900 / 5000)
+  })
+  it('re-measures once web fonts have loaded', async () => {
+    const listeners: Record<string, () => void> = {}
+    let fontsReady!: () => void
+    Object.defineProperty(document, 'fonts', {
+      configurable: true,
+      value: {
+        ready: new Promise<void>(resolve => { fontsReady = resolve }),
+        addEventListener: (type: string, listener: () => void) => { listeners[type] = listener },
+        removeEventListener: jest.fn(),
+      },
+    })
+
+    const ref = createElement(2000)
+    const { result, unmount } = renderHook(() => useTriggerBounds(ref, 'top top', 'bottom top'), { wrapper })
+    expect(result.current?.start).toBeCloseTo(2000 / 5000)
+
+    Object.defineProperty(ref.current, 'offsetTop', { value: 2200 })
+    await act(async () => {
+      fontsReady()
+    })
+    expect(result.current?.start).toBeCloseTo(2200 / 5000)
+
+    Object.defineProperty(ref.current, 'offsetTop', { value: 2300 })
+    act(() => listeners.loadingdone())
+    expect(result.current?.start).toBeCloseTo(2300 / 5000)
+
+    unmount()
+    delete (document as { fonts?: unknown }).fonts
+  })
+})
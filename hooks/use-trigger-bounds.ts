@@ -0,0 +1,111 @@
+"use client"
+
+import { useCallback, useEffect, useState, type RefObject } from 'react'
+import { useLenis } from '@/providers/LenisProvider'
+import { useRegisteredSections } from '@/providers/SectionProvider'
+import { getScrollerViewport } from '@/lib/scroll/pin'
+import {
+  getLayoutOffset,
+  isElementRelativePosition,
+  resolveTriggerPosition,
+  type ResolvedTriggerPosition,
+  type TriggerPosition,
+} from '@/lib/scroll/trigger-position'
+
+export interface TriggerBounds {
+  /** Start and end as progress of the scroller (what ScrollTrigger animates against) */
+  start: number;
+  end: number;
+  /** Resolved lines, for markers */
+  lines: {
+    start: ResolvedTriggerPosition;
+    end: ResolvedTriggerPosition;
+    /** Element's scroll offset, so markers can be drawn on it */
+    elementStart: number;
+    /** Scroller's leading edge on screen */
+    viewportStart: number;
+  };
+}
+
+/**
+ * Resolves ScrollTrigger start/end against the element and the nearest scroller.
+ * Recomputed on resize, on layout changes (lazy content, web fonts) and when
+ * sections register or unregister.
+ * Null until measured, and for plain progress positions that need no measuring.
+ */
+export const useTriggerBounds = (
+  elementRef: RefObject<HTMLElement>,
+  start: TriggerPosition,
+  end: TriggerPosition,
+  measureAlways = false
+): TriggerBounds | null => {
+  const { lenis, orientation, element: scroller } = useLenis()
+  const sections = useRegisteredSections()
+  const [bounds, setBounds] = useState<TriggerBounds | null>(null)
+  const relative = measureAlways || isElementRelativePosition(start) || isElementRelativePosition(end)
+
+  const measure = useCallback(() => {
+    const element = elementRef.current
+    if (!element) return
+
+    const horizontal = orientation === 'horizontal'
+    const { start: viewportStart, size: viewport } = getScrollerViewport(scroller, orientation)
+    const scrollLength = scroller
+      ? (horizontal ? scroller.scrollWidth : scroller.scrollHeight)
+      : (horizontal ? document.documentElement.scrollWidth : document.documentElement.scrollHeight)
+    const limit = (lenis as { limit?: number } | null)?.limit || Math.max(0, scrollLength - viewport)
+
+    const geometry = {
+      elementStart: getLayoutOffset(element, orientation, scroller),
+      elementSize: horizontal ? element.offsetWidth : element.offsetHeight,
+      viewport,
+      limit,
+    }
+    const startLine = resolveTriggerPosition(start, geometry)
+    const endLine = resolveTriggerPosition(end, geometry, startLine)
+
+    const next: TriggerBounds = {
+      start: limit > 0 ? startLine.scroll / limit : 0,
+      end: limit > 0 ? endLine.scroll / limit : 0,
+      lines: { start: startLine, end: endLine, elementStart: geometry.elementStart, viewportStart },
+    }
+    setBounds(current =>
+      current && current.start === next.start && current.end === next.end && current.lines.elementStart === next.lines.elementStart
+        ? current
+        : next
+    )
+  }, [elementRef, start, end, lenis, orientation, scroller])
+
+  useEffect(() => {
+    if (!relative) {
+      setBounds(null)
+      return
+    }
+
+    measure()
+    window.addEventListener('resize', measure)
+
+    let observer: ResizeObserver | null = null
+    const element = elementRef.current
+    if (typeof ResizeObserver !== 'undefined' && element) {
+      observer = new ResizeObserver(() => measure())
+      observer.observe(element)
+      observer.observe(scroller?.firstElementChild ?? document.body)
+    }
+
+    // Swapping in a web font reflows text without necessarily resizing anything observed
+    const fonts = document.fonts as FontFaceSet | undefined
+    let active = true
+    fonts?.ready.then(() => active && measure())
+    fonts?.addEventListener('loadingdone', measure)
+
+    return () => {
+      active = false
+      window.removeEventListener('resize', measure)
+      fonts?.removeEventListener('loadingdone', measure)
+      observer?.disconnect()
+    }
+  }, [relative, measure, elementRef, scroller, sections])
+
+  return relative ? bounds : null
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { type MotionValue, useMotionValue, useSpring, useTransform } from 'framer-motion'
+import { resolveVelocityEffects } from '@/lib/ethereal/velocity'
+import type { EtherealVelocityEffects } from '@/types/ethereal.types'
+
+interface UseVelocityEffectsOptions {
+  /** Scroll velocity (Lenis pixels per frame, positive scrolling down) */
+  velocity?: MotionValue<number>;
+  effects: EtherealVelocityEffects;
+  /** Off holds every effect at its resting value (reduced motion, deterministic clocks) */
+  enabled?: boolean;
+}
+
+interface VelocityEffects {
+  /** Whether anything reacts at all - consumers can skip the extra styles when false */
+  active: boolean;
+  stretch: MotionValue<number>;
+  spotlightBoost: MotionValue<number>;
+  /** Arc filter carrying the hue shift */
+  arcFilter: MotionValue<string>;
+}
+
+/**
+ * Smooths the scroll velocity and maps it onto the configured effect ranges
+ */
+export const useVelocityEffects = ({
+  velocity,
+  effects,
+  enabled = true,
+}: UseVelocityEffectsOptions): VelocityEffects => {
+  const resting = useMotionValue(0)
+  const active = enabled && effects.enabled
+  const smoothed = useSpring(velocity ?? resting, effects.smoothing)
+
+  const resolve = (latest: number) => resolveVelocityEffects(active ? latest : 0, effects)
+
+  const stretch = useTransform(smoothed, (latest: number) => resolve(latest).stretch)
+  const spotlightBoost = useTransform(smoothed, (latest: number) => resolve(latest).spotlightBoost)
+  const arcFilter = useTransform(smoothed, (latest: number) => `hue-rotate(${resolve(latest).hueShift.toFixed(2)}deg)`)
+
+  return { active, stretch, spotlightBoost, arcFilter }
+}
@@ -0,0 +1,316 @@
+/**
+ * Ethereal Canvas Renderer
+ * Draws the complete ethereal scene (arcs, morphing gradients, spotlight and
+ * mask) onto a single 2D canvas instead of dozens of repainting DOM layers
+ */
+
+import type {
+  ArcConfiguration,
+  EtherealConfig,
+  GradientLayer,
+  QualityTier,
+  SpotlightBlendMode,
+} from '@/types/ethereal.types'
+import { parseGradientStops, type GradientStop } from './color'
+import { sampleGradientLayer } from './gradient-compiler'
+import {
+  DEFAULT_LAYER_STOPS,
+  resolveArcAppearance,
+  resolveLayerEllipse,
+  sortArcs,
+} from './scene'
+import { limitArcs } from './quality'
+import {
+  EtherealSpotlightController,
+  type SpotlightInput,
+  type SpotlightSpriteState,
+} from './spotlight'
+
+export interface EtherealFrame {
+  /** Seconds since the scene started (drives morphing and entrance) */
+  time: number
+  /** Pointer position in CSS pixels relative to the canvas */
+  pointerX: number
+  pointerY: number
+  /** Global scroll progress (0-1), used for per-arc scroll parallax */
+  scrollProgress?: number
+  /** Opacity of the dark scroll mask (0-1) */
+  maskOpacity?: number
+  /** Freezes morphing and pointer parallax */
+  reducedMotion?: boolean
+  /** Section boxes for section-anchored spotlights, relative to the canvas */
+  getSectionRect?: SpotlightInput['getSectionRect']
+  /** Quality budget (morphing, arc count, blend modes, spotlight motion) */
+  quality?: QualityTier
+}
+
+interface ArcSpringState {
+  x: number
+  y: number
+  velocityX: number
+  velocityY: number
+}
+
+const MAX_DPR = 2
+const GLOW_RADIUS = 300
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+const toCompositeOperation = (mode: SpotlightBlendMode): GlobalCompositeOperation =>
+  mode === 'normal' ? 'source-over' : mode
+
+export class EtherealCanvasRenderer {
+  private readonly ctx: CanvasRenderingContext2D
+  private config: EtherealConfig
+  private spotlightStops: GradientStop[]
+  private spotlights: EtherealSpotlightController
+  private spriteStops = new Map<string, GradientStop[]>()
+  private spotlightStates: SpotlightSpriteState[] | null = null
+  private arcs = new Map<ArcConfiguration, ArcSpringState>()
+  private width = 0
+  private height = 0
+  private dpr = 1
+  private lastTime: number | null = null
+
+  constructor(private readonly canvas: HTMLCanvasElement, config: EtherealConfig) {
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available')
+    }
+
+    this.ctx = ctx
+    this.config = config
+    this.spotlightStops = parseGradientStops(config.colors.spotlight)
+    this.spotlights = new EtherealSpotlightController(config.spotlight)
+    this.resetArcs()
+  }
+
+  setConfig(config: EtherealConfig): void {
+    if (config === this.config) return
+
+    // Palette morphs only recolor - keep the arcs' springs moving
+    const previous = this.config
+    const arcsChanged = config.arcConfigurations !== previous.arcConfigurations
+    this.config = config
+    this.spotlightStops = parseGradientStops(config.colors.spotlight)
+    if (config.spotlight !== previous.spotlight) {
+      this.spotlights = new EtherealSpotlightController(config.spotlight)
+      this.spriteStops.clear()
+      this.spotlightStates = null
+    }
+    if (arcsChanged) this.resetArcs()
+  }
+
+  /**
+   * Starts a click/tap ripple at a position in CSS pixels (when pulses are enabled)
+   */
+  pulse(x: number, y: number): void {
+    this.spotlights.pulse(x, y, this.lastTime ?? 0)
+  }
+
+  /**
+   * Matches the backing store to the CSS size and device pixel ratio
+   */
+  resize(width: number, height: number, devicePixelRatio: number = 1): void {
+    this.width = width
+    this.height = height
+    this.dpr = Math.min(MAX_DPR, Math.max(1, devicePixelRatio))
+
+    this.canvas.width = Math.round(width * this.dpr)
+    this.canvas.height = Math.round(height * this.dpr)
+    this.ctx.setTransform(this.dpr, 0, 0, this.dpr, 0, 0)
+  }
+
+  render(frame: EtherealFrame): void {
+    const { ctx, width, height } = this
+    if (width === 0 || height === 0) return
+
+    const delta = this.lastTime === null ? 0 : Math.min(1 / 30, Math.max(0, frame.time - this.lastTime))
+    this.lastTime = frame.time
+
+    ctx.save()
+    ctx.setTransform(this.dpr, 0, 0, this.dpr, 0, 0)
+    ctx.clearRect(0, 0, width, height)
+
+    const quality = frame.quality
+    const morphing = !frame.reducedMotion && (quality?.morph ?? true)
+    const arcs = quality ? limitArcs(this.config.arcConfigurations, quality) : this.config.arcConfigurations
+
+    for (const arc of sortArcs(arcs)) {
+      const spring = this.getSpring(arc)
+      this.stepSpring(spring, arc.parallaxStrength, frame, delta)
+
+      const { opacity, scale } = resolveArcAppearance(arc, frame.time, this.config.timing.arcDuration)
+      if (opacity <= 0) continue
+
+      const scrollOffset = (frame.scrollProgress ?? 0) * height * arc.parallaxStrength * 0.01
+
+      ctx.save()
+      ctx.globalAlpha = opacity
+      ctx.translate(width / 2 + spring.x, height / 2 + spring.y + scrollOffset)
+      ctx.scale(scale, scale)
+      ctx.translate(-width / 2, -height / 2)
+
+      for (const layer of this.config.gradientLayers) {
+        this.drawLayer(layer, morphing ? frame.time : 0)
+      }
+
+      ctx.restore()
+    }
+
+    this.drawGlow(frame)
+    this.drawStaticOverlay()
+    this.drawSpotlights(frame)
+    this.drawMask(frame.maskOpacity ?? 0)
+
+    ctx.restore()
+  }
+
+  destroy(): void {
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height)
+    this.arcs.clear()
+  }
+
+  private resetArcs(): void {
+    this.arcs.clear()
+  }
+
+  private getSpring(arc: ArcConfiguration): ArcSpringState {
+    let spring = this.arcs.get(arc)
+    if (!spring) {
+      spring = { x: 0, y: 0, velocityX: 0, velocityY: 0 }
+      this.arcs.set(arc, spring)
+    }
+    return spring
+  }
+
+  // Integrates the celestial spring toward the pointer parallax target
+  private stepSpring(spring: ArcSpringState, strength: number, frame: EtherealFrame, delta: number): void {
+    const targetX = frame.reducedMotion ? 0 : (frame.pointerX / this.width - 0.5) * 2 * strength
+    const targetY = frame.reducedMotion ? 0 : (frame.pointerY / this.height - 0.5) * 2 * strength
+
+    if (delta === 0) {
+      spring.x = targetX
+      spring.y = targetY
+      return
+    }
+
+    const { stiffness, damping, mass } = this.config.springConfigs.celestial
+    const steps = Math.ceil(delta / (1 / 240))
+    const dt = delta / steps
+
+    for (let i = 0; i < steps; i++) {
+      spring.velocityX += ((-stiffness * (spring.x - targetX) - damping * spring.velocityX) / mass) * dt
+      spring.velocityY += ((-stiffness * (spring.y - targetY) - damping * spring.velocityY) / mass) * dt
+      spring.x += spring.velocityX * dt
+      spring.y += spring.velocityY * dt
+    }
+  }
+
+  private drawLayer(layer: GradientLayer, time: number): void {
+    const { ctx } = this
+    const state = sampleGradientLayer(layer, time)
+    const stops = layer.stops ?? DEFAULT_LAYER_STOPS
+    const { box, cx: centerX, cy: centerY, rx: radiusX, ry: radiusY } =
+      resolveLayerEllipse(state, layer, this.width, this.height)
+
+    const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, 1)
+    gradient.addColorStop(stops[0] / 100, state.colors.inner)
+    gradient.addColorStop(stops[1] / 100, state.colors.middle)
+    gradient.addColorStop(stops[2] / 100, state.colors.outer)
+    gradient.addColorStop(stops[3] / 100, 'transparent')
+
+    // Draw a unit circle gradient stretched into the ellipse
+    ctx.save()
+    ctx.translate(centerX, centerY)
+    ctx.scale(radiusX, radiusY)
+    ctx.fillStyle = gradient
+    ctx.fillRect(
+      (box.x - centerX) / radiusX,
+      (box.y - centerY) / radiusY,
+      box.width / radiusX,
+      box.height / radiusY
+    )
+    ctx.restore()
+  }
+
+  private drawGlow(frame: EtherealFrame): void {
+    const { ctx } = this
+    const gradient = ctx.createRadialGradient(frame.pointerX, frame.pointerY, 0, frame.pointerX, frame.pointerY, GLOW_RADIUS)
+    gradient.addColorStop(0, this.config.colors.glow)
+    gradient.addColorStop(1, 'transparent')
+
+    ctx.fillStyle = gradient
+    ctx.fillRect(0, 0, this.width, this.height)
+  }
+
+  // Matches the `bg-gradient-to-t from-black/50 to-transparent` overlay
+  private drawStaticOverlay(): void {
+    const { ctx } = this
+    const gradient = ctx.createLinearGradient(0, this.height, 0, 0)
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0.5)')
+    gradient.addColorStop(1, 'transparent')
+
+    ctx.fillStyle = gradient
+    ctx.fillRect(0, 0, this.width, this.height)
+  }
+
+  private drawSpotlights(frame: EtherealFrame): void {
+    const { ctx } = this
+    const effects = frame.quality?.effects ?? true
+    // A frozen spotlight keeps drawing its last sampled positions
+    const states = frame.quality?.spotlight === false && this.spotlightStates
+      ? this.spotlightStates
+      : this.spotlights.sample(frame.time, {
+          pointer: { x: frame.pointerX, y: frame.pointerY },
+          width: this.width,
+          height: this.height,
+          getSectionRect: frame.getSectionRect,
+          reducedMotion: frame.reducedMotion,
+        })
+    this.spotlightStates = states
+
+    this.spotlights.sprites.forEach((sprite, index) => {
+      const { x, y, scale, opacity } = states[index]
+      const stops = this.getSpriteStops(sprite.key, sprite.gradient)
+      const diameter = sprite.size * scale
+      if (opacity <= 0 || diameter <= 0 || stops.length === 0) return
+
+      // `circle` defaults to farthest-corner sizing inside the square spotlight box
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, (diameter / 2) * Math.SQRT2)
+      stops.forEach(stop => gradient.addColorStop(stop.offset, stop.color))
+
+      ctx.save()
+      ctx.globalAlpha = clamp01(opacity)
+      ctx.globalCompositeOperation = effects ? toCompositeOperation(sprite.blendMode) : 'source-over'
+      ctx.beginPath()
+      ctx.arc(x, y, diameter / 2, 0, Math.PI * 2)
+      ctx.fillStyle = gradient
+      ctx.fill()
+      ctx.restore()
+    })
+  }
+
+  // Sprites without their own gradient share the (palette-morphed) scene spotlight
+  private getSpriteStops(key: string, gradient: string | undefined): GradientStop[] {
+    if (!gradient) return this.spotlightStops
+
+    let stops = this.spriteStops.get(key)
+    if (!stops) {
+      stops = parseGradientStops(gradient)
+      this.spriteStops.set(key, stops)
+    }
+    return stops
+  }
+
+  private drawMask(opacity: number): void {
+    if (opacity <= 0) return
+
+    const { ctx } = this
+    ctx.save()
+    ctx.globalAlpha = clamp01(opacity)
+    ctx.fillStyle = this.config.colors.maskOverlay
+    ctx.fillRect(0, 0, this.width, this.height)
+    ctx.restore()
+  }
+}
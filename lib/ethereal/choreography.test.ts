@@ -0,0 +1,50 @@
+import {
+  resolveScrollRange,
+  resolveSectionChoreography,
+  sampleScrollChoreography,
+} from './choreography'
+import { SCROLL_CHOREOGRAPHY } from '@/config/ethereal.config'
+import type { EtherealScrollChoreography } from '@/types/ethereal.types'
+
+describe('scroll choreography', () => {
+  it('reproduces the original scroll curves', () => {
+    expect(resolveScrollRange(SCROLL_CHOREOGRAPHY, 'scale')).toEqual({ input: [0, 1], output: [1, 1.5] })
+    expect(resolveScrollRange(SCROLL_CHOREOGRAPHY, 'y')).toEqual({ input: [0, 1], output: [0, -200] })
+    expect(resolveScrollRange(SCROLL_CHOREOGRAPHY, 'opacity')).toEqual({ input: [0, 0.5, 1], output: [1, 0.8, 0] })
+    expect(resolveScrollRange(SCROLL_CHOREOGRAPHY, 'mask')).toEqual({ input: [0, 0.8, 1], output: [0, 0, 1] })
+  })
+
+  it('samples the timeline between keyframes', () => {
+    expect(sampleScrollChoreography(SCROLL_CHOREOGRAPHY, 0.5)).toEqual({ scale: 1.25, y: -100, opacity: 0.8, mask: 0 })
+    expect(sampleScrollChoreography(SCROLL_CHOREOGRAPHY, 0.9).mask).toBeCloseTo(0.5)
+    expect(sampleScrollChoreography(SCROLL_CHOREOGRAPHY, 2)).toEqual({ scale: 1.5, y: -200, opacity: 0, mask: 1 })
+  })
+
+  it('keeps properties without keyframes neutral', () => {
+    const choreography: EtherealScrollChoreography = { keyframes: [{ at: 0.2, scale: 2 }], sections: {} }
+    expect(sampleScrollChoreography(choreography, 0.7)).toEqual({ scale: 2, y: 0, opacity: 1, mask: 0 })
+  })
+
+  it('layers the active section on top of the timeline', () => {
+    const choreography: EtherealScrollChoreography = {
+      ...SCROLL_CHOREOGRAPHY,
+      sections: { zoom: { scale: 1.2, y: 50, opacity: 0.5, mask: 0.3 } },
+    }
+
+    expect(sampleScrollChoreography(choreography, 0.5, 'zoom')).toEqual({
+      scale: 1.5,
+      y: -50,
+      opacity: 0.4,
+      mask: 0.3,
+    })
+    expect(sampleScrollChoreography(choreography, 0.5, 'unknown')).toEqual(sampleScrollChoreography(choreography, 0.5))
+  })
+
+  it('resolves section tints with a default opacity', () => {
+    expect(resolveSectionChoreography({ keyframes: [], sections: { glow: { tint: 'red' } } }, 'glow')).toMatchObject({
+      tint: 'red',
+      tintOpacity: 0.25,
+    })
+    expect(resolveSectionChoreography(SCROLL_CHOREOGRAPHY, null).tint).toBeNull()
+  })
+})
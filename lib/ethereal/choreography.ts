@@ -0,0 +1,118 @@
+/**
+ * Scroll Choreography
+ * Resolves the declarative scroll timeline and per-section adjustments
+ * into transform ranges and concrete values
+ */
+
+import type {
+  EtherealScrollChoreography,
+  ScrollEffectValues,
+  SectionChoreography,
+} from '@/types/ethereal.types'
+
+export type ScrollEffectProperty = keyof ScrollEffectValues
+
+export interface ScrollEffectRange {
+  /** Scroll progress offsets (ascending) */
+  input: number[]
+  /** Values at those offsets */
+  output: number[]
+}
+
+export interface ResolvedSectionChoreography extends ScrollEffectValues {
+  tint: string | null
+  tintOpacity: number
+}
+
+export const SCROLL_EFFECT_PROPERTIES: ScrollEffectProperty[] = ['scale', 'y', 'opacity', 'mask']
+
+/** Values of an untouched background */
+export const NEUTRAL_SCROLL_EFFECTS: ScrollEffectValues = { scale: 1, y: 0, opacity: 1, mask: 0 }
+
+const DEFAULT_TINT_OPACITY = 0.25
+
+/**
+ * Builds the useTransform range for one property
+ * Keyframes that don't set the property are skipped; a property no keyframe
+ * sets stays at its neutral value
+ */
+export function resolveScrollRange(
+  choreography: EtherealScrollChoreography,
+  property: ScrollEffectProperty
+): ScrollEffectRange {
+  const points = choreography.keyframes
+    .filter(keyframe => keyframe[property] !== undefined)
+    .sort((a, b) => a.at - b.at)
+
+  if (points.length === 0) {
+    return { input: [0, 1], output: [NEUTRAL_SCROLL_EFFECTS[property], NEUTRAL_SCROLL_EFFECTS[property]] }
+  }
+  if (points.length === 1) {
+    const value = points[0][property]!
+    return { input: [0, 1], output: [value, value] }
+  }
+
+  return {
+    input: points.map(point => point.at),
+    output: points.map(point => point[property]!),
+  }
+}
+
+/**
+ * Samples one range at a progress (clamped at both ends, like useTransform)
+ */
+export function sampleScrollRange({ input, output }: ScrollEffectRange, progress: number): number {
+  if (progress <= input[0]) return output[0]
+  if (progress >= input[input.length - 1]) return output[output.length - 1]
+
+  const index = input.findIndex((offset, i) => progress >= offset && progress <= input[i + 1])
+  const span = input[index + 1] - input[index]
+  const t = span > 0 ? (progress - input[index]) / span : 1
+  return output[index] + (output[index + 1] - output[index]) * t
+}
+
+/**
+ * Fills in the neutral values for a section's adjustments
+ */
+export function resolveSectionChoreography(
+  choreography: EtherealScrollChoreography,
+  sectionId: string | null
+): ResolvedSectionChoreography {
+  const section: SectionChoreography = (sectionId && choreography.sections[sectionId]) || {}
+
+  return {
+    ...NEUTRAL_SCROLL_EFFECTS,
+    ...section,
+    tint: section.tint ?? null,
+    tintOpacity: section.tintOpacity ?? DEFAULT_TINT_OPACITY,
+  }
+}
+
+/**
+ * Combines timeline and section values: scale and opacity multiply,
+ * offsets add and the mask never drops below the section minimum
+ */
+export function combineScrollEffects(timeline: ScrollEffectValues, section: ScrollEffectValues): ScrollEffectValues {
+  return {
+    scale: timeline.scale * section.scale,
+    y: timeline.y + section.y,
+    opacity: timeline.opacity * section.opacity,
+    mask: Math.max(timeline.mask, section.mask),
+  }
+}
+
+/**
+ * Complete scroll effect values at a progress with a given active section
+ */
+export function sampleScrollChoreography(
+  choreography: EtherealScrollChoreography,
+  progress: number,
+  sectionId: string | null = null
+): ScrollEffectValues {
+  const timeline = SCROLL_EFFECT_PROPERTIES.reduce((values, property) => ({
+    ...values,
+    [property]: sampleScrollRange(resolveScrollRange(choreography, property), progress),
+  }), { ...NEUTRAL_SCROLL_EFFECTS })
+
+  return combineScrollEffects(timeline, resolveSectionChoreography(choreography, sectionId))
+}
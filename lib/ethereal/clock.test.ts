@@ -0,0 +1,112 @@
+import { createSeededRandom, EtherealClock, getSeedEpoch, parseClockQuery } from './clock'
+
+describe('animation clock', () => {
+  let wallClock = 0
+  const readWallClock = () => wallClock
+
+  beforeEach(() => {
+    wallClock = 1000
+  })
+
+  it('follows the wall clock in real mode', () => {
+    const clock = new EtherealClock({ mode: 'real' }, readWallClock)
+
+    expect(clock.deterministic).toBe(false)
+    expect(clock.time).toBe(0)
+
+    wallClock += 2500
+    expect(clock.time).toBe(2.5)
+
+    // Deterministic controls don't apply
+    clock.setTime(10)
+    clock.tick()
+    expect(clock.time).toBe(2.5)
+  })
+
+  it('stands still when paused', () => {
+    const clock = new EtherealClock({ mode: 'paused', time: 3 }, readWallClock)
+
+    wallClock += 5000
+    clock.tick()
+    expect(clock.time).toBe(3)
+
+    clock.setTime(4.5)
+    expect(clock.time).toBe(4.5)
+  })
+
+  it('advances one step per frame in fixed-step mode', () => {
+    const clock = new EtherealClock({ mode: 'fixed-step', time: 1, step: 0.5 }, readWallClock)
+
+    clock.tick()
+    clock.tick()
+    wallClock += 60000
+    expect(clock.time).toBe(2)
+  })
+
+  it('renders the same time for the same seed', () => {
+    const a = new EtherealClock({ mode: 'seeded', seed: 42, time: 2 })
+    const b = new EtherealClock({ mode: 'seeded', seed: 42, time: 2 })
+    const c = new EtherealClock({ mode: 'seeded', seed: 7, time: 2 })
+
+    expect(a.time).toBe(b.time)
+    expect(a.time).not.toBe(c.time)
+    expect(a.time).toBeCloseTo(getSeedEpoch(42) + 2)
+
+    a.tick()
+    b.tick()
+    b.tick()
+    expect(a.time).toBe(b.time)
+  })
+
+  it('holds a seeded clock at its epoch until it is moved', () => {
+    const clock = new EtherealClock({ mode: 'seeded', seed: 42, time: 2, step: 0.5 }, readWallClock)
+    const start = clock.time
+
+    clock.tick()
+    wallClock += 5000
+    expect(clock.time).toBe(start)
+
+    clock.advance(1)
+    expect(clock.time).toBeCloseTo(start + 1)
+
+    clock.setTime(0)
+    expect(clock.time).toBeCloseTo(getSeedEpoch(42, 0.5))
+  })
+
+  it('notifies subscribers when a deterministic clock moves', () => {
+    const clock = new EtherealClock({ mode: 'paused' }, readWallClock)
+    const listener = jest.fn()
+    const unsubscribe = clock.subscribe(listener)
+
+    clock.advance(1)
+    expect(listener).toHaveBeenLastCalledWith(1)
+
+    unsubscribe()
+    clock.advance(1)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('produces a repeatable random sequence', () => {
+    const a = createSeededRandom(3)
+    const b = createSeededRandom(3)
+    const values = [a(), a(), a()]
+
+    expect([b(), b(), b()]).toEqual(values)
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    })
+  })
+
+  it('reads clock options from the query string', () => {
+    expect(parseClockQuery('?ethereal-clock=seeded&ethereal-seed=42&ethereal-time=3.5')).toEqual({
+      mode: 'seeded',
+      seed: 42,
+      time: 3.5,
+      step: undefined,
+    })
+    expect(parseClockQuery('?ethereal-clock=paused&ethereal-time=abc')?.time).toBeUndefined()
+    expect(parseClockQuery('?ethereal-clock=slow')).toBeNull()
+    expect(parseClockQuery('')).toBeNull()
+  })
+})
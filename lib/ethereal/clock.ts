@@ -0,0 +1,150 @@
+/**
+ * Ethereal Animation Clock
+ * Single source of animation time - the wall clock in production, or a
+ * paused/stepped/seeded clock so a given seed and timestamp always renders
+ * the same frame (visual regression tests, screenshots)
+ */
+
+import type { AnimationClockMode, AnimationClockOptions } from '@/types/ethereal.types'
+
+export const DEFAULT_CLOCK_STEP = 1 / 60
+
+/** Seeded epochs fall within this many seconds - long past every entrance, across many morph cycles */
+const SEED_EPOCH_RANGE = 3600
+
+const CLOCK_MODES: AnimationClockMode[] = ['real', 'paused', 'fixed-step', 'seeded']
+
+/** Query parameters read by `parseClockQuery` */
+export const CLOCK_QUERY_PARAMS = {
+  mode: 'ethereal-clock',
+  time: 'ethereal-time',
+  step: 'ethereal-step',
+  seed: 'ethereal-seed',
+} as const
+
+type ClockListener = (time: number) => void
+
+/**
+ * Deterministic pseudo-random sequence (mulberry32)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = Math.floor(seed) >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Seconds the seeded clock is offset by - a whole number of steps so frames line up
+ */
+export function getSeedEpoch(seed: number, step: number = DEFAULT_CLOCK_STEP): number {
+  const epoch = createSeededRandom(seed)() * SEED_EPOCH_RANGE
+  return step > 0 ? Math.round(epoch / step) * step : epoch
+}
+
+/**
+ * Reads clock options from a query string (`?ethereal-clock=seeded&ethereal-seed=42&ethereal-time=3`)
+ * Returns null when no (valid) mode is given
+ */
+export function parseClockQuery(search: string): AnimationClockOptions | null {
+  const params = new URLSearchParams(search)
+  const mode = params.get(CLOCK_QUERY_PARAMS.mode) as AnimationClockMode | null
+  if (!mode || !CLOCK_MODES.includes(mode)) return null
+
+  const readNumber = (name: string) => {
+    const value = params.get(name)
+    if (value === null || value.trim() === '') return undefined
+    const parsed = Number(value)
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+
+  return {
+    mode,
+    time: readNumber(CLOCK_QUERY_PARAMS.time),
+    step: readNumber(CLOCK_QUERY_PARAMS.step),
+    seed: readNumber(CLOCK_QUERY_PARAMS.seed),
+  }
+}
+
+export class EtherealClock {
+  readonly mode: AnimationClockMode
+  readonly step: number
+  readonly seed: number
+  /** Fixed offset added to the elapsed time (seeded mode only) */
+  readonly epoch: number
+  private elapsed: number
+  private readonly origin: number
+  private listeners = new Set<ClockListener>()
+
+  constructor(
+    options: AnimationClockOptions = { mode: 'real' },
+    private readonly readWallClock: () => number = () => performance.now()
+  ) {
+    this.mode = options.mode
+    this.step = Math.max(0, options.step ?? DEFAULT_CLOCK_STEP)
+    this.seed = options.seed ?? 1
+    this.epoch = this.mode === 'seeded' ? getSeedEpoch(this.seed, this.step) : 0
+    this.elapsed = Math.max(0, options.time ?? 0)
+    this.origin = readWallClock() - this.elapsed * 1000
+  }
+
+  /** False only for the wall clock - everything else renders reproducibly */
+  get deterministic(): boolean {
+    return this.mode !== 'real'
+  }
+
+  /** Current animation time in seconds */
+  get time(): number {
+    if (this.mode === 'real') {
+      return (this.readWallClock() - this.origin) / 1000
+    }
+    return this.epoch + this.elapsed
+  }
+
+  /**
+   * Advances one frame (fixed-step mode only) - called once per animation frame.
+   * Seeded clocks hold at their epoch like paused ones, so the frame count
+   * before a screenshot doesn't change what it shows.
+   */
+  tick(): number {
+    if (this.mode === 'fixed-step') {
+      this.advance(this.step)
+    }
+    return this.time
+  }
+
+  /**
+   * Moves a deterministic clock forward by `seconds` (ignored by the wall clock)
+   */
+  advance(seconds: number): void {
+    if (!this.deterministic || seconds === 0) return
+    this.elapsed = Math.max(0, this.elapsed + seconds)
+    this.notify()
+  }
+
+  /**
+   * Jumps a deterministic clock to `seconds` after its start (ignored by the wall clock)
+   */
+  setTime(seconds: number): void {
+    if (!this.deterministic) return
+    this.elapsed = Math.max(0, seconds)
+    this.notify()
+  }
+
+  subscribe(listener: ClockListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    const time = this.time
+    this.listeners.forEach(listener => listener(time))
+  }
+}
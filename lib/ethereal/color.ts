@@ -0,0 +1,216 @@
+/**
+ * Ethereal Color Utilities
+ * Parsing, formatting and color-space aware mixing for gradient colors
+ */
+
+import type { ColorSpace } from '@/types/ethereal.types'
+
+export type { ColorSpace }
+
+export interface RGBA {
+  r: number // 0-255
+  g: number // 0-255
+  b: number // 0-255
+  a: number // 0-1
+}
+
+const HEX_PATTERN = /^#([\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})$/i
+const RGB_PATTERN = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i
+
+/**
+ * Parses hex, rgb(), rgba() and `transparent` colors
+ * Returns null for anything else
+ */
+export function parseColor(color: string): RGBA | null {
+  const value = color.trim()
+
+  if (value.toLowerCase() === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 }
+  }
+
+  const hex = HEX_PATTERN.exec(value)
+  if (hex) {
+    const digits = hex[1].length <= 4
+      ? hex[1].split('').map(d => d + d).join('')
+      : hex[1]
+
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    }
+  }
+
+  const rgb = RGB_PATTERN.exec(value)
+  if (rgb) {
+    const [r, g, b] = [rgb[1], rgb[2], rgb[3]].map(Number)
+    const a = rgb[4] === undefined ? 1 : Number(rgb[4])
+
+    if ([r, g, b].some(channel => channel > 255) || a > 1) {
+      return null
+    }
+
+    return { r, g, b, a }
+  }
+
+  return null
+}
+
+/**
+ * Formats a color as rgba(), collapsing fully transparent colors to `transparent`
+ * unless `keepHue` is set (useful when the color is an animation keyframe)
+ */
+export function formatColor({ r, g, b, a }: RGBA, keepHue: boolean = false): string {
+  if (a <= 0 && !keepHue) return 'transparent'
+
+  const alpha = Math.round(Math.max(0, Math.min(1, a)) * 1000) / 1000
+  return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${alpha})`
+}
+
+// sRGB transfer functions (channel values 0-1)
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4))
+const fromLinear = (c: number) => (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055)
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+type Vec3 = [number, number, number]
+
+const rgbToLinear = ({ r, g, b }: RGBA): Vec3 => [toLinear(r / 255), toLinear(g / 255), toLinear(b / 255)]
+const linearToRgb = ([r, g, b]: Vec3, a: number): RGBA => ({
+  r: clamp01(fromLinear(r)) * 255,
+  g: clamp01(fromLinear(g)) * 255,
+  b: clamp01(fromLinear(b)) * 255,
+  a,
+})
+
+// OKLab conversion (https://bottosson.github.io/posts/oklab/)
+const linearToOklab = ([r, g, b]: Vec3): Vec3 => {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ]
+}
+
+const oklabToLinear = ([L, A, B]: Vec3): Vec3 => {
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3)
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3)
+  const s = Math.pow(L - 0.0894841775 * A - 1.291485548 * B, 3)
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ]
+}
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t
+const lerpVec = (from: Vec3, to: Vec3, t: number): Vec3 => [
+  lerp(from[0], to[0], t),
+  lerp(from[1], to[1], t),
+  lerp(from[2], to[2], t),
+]
+
+/**
+ * Mixes two parsed colors in the given color space
+ *
+ * A fully transparent endpoint borrows the other endpoint's hue so fades
+ * never pass through gray (the CSS `transparent` is black at zero alpha).
+ */
+export function mixRgba(from: RGBA, to: RGBA, t: number, space: ColorSpace = 'srgb'): RGBA {
+  const start = from.a === 0 ? { ...to, a: 0 } : from
+  const end = to.a === 0 ? { ...from, a: 0 } : to
+  const alpha = lerp(start.a, end.a, t)
+
+  switch (space) {
+    case 'linear-rgb':
+      return linearToRgb(lerpVec(rgbToLinear(start), rgbToLinear(end), t), alpha)
+    case 'oklab':
+      return linearToRgb(
+        oklabToLinear(lerpVec(linearToOklab(rgbToLinear(start)), linearToOklab(rgbToLinear(end)), t)),
+        alpha
+      )
+    default:
+      return {
+        r: lerp(start.r, end.r, t),
+        g: lerp(start.g, end.g, t),
+        b: lerp(start.b, end.b, t),
+        a: alpha,
+      }
+  }
+}
+
+/**
+ * Mixes two CSS colors, returning the `from` color untouched if either is unparseable
+ */
+export function mixColors(from: string, to: string, t: number, space: ColorSpace = 'srgb'): string {
+  const start = parseColor(from)
+  const end = parseColor(to)
+  if (!start || !end) return from
+
+  return formatColor(mixRgba(start, end, clamp01(t), space))
+}
+
+/**
+ * Adds `delta` to a color's alpha channel, leaving transparent colors transparent
+ */
+export function shiftAlpha(color: string, delta: number): string {
+  const parsed = parseColor(color)
+  if (!parsed || parsed.a === 0) return color
+
+  return formatColor({ ...parsed, a: clamp01(parsed.a + delta) })
+}
+
+export interface GradientStop {
+  color: string
+  offset: number // 0-1
+}
+
+/**
+ * Extracts the color stops from a CSS gradient string
+ * e.g. "radial-gradient(circle, rgba(96, 165, 250, 0.15) 0%, transparent 60%)"
+ * Stops without a position are spread evenly, as in CSS.
+ */
+export function parseGradientStops(gradient: string): GradientStop[] {
+  const open = gradient.indexOf('(')
+  const close = gradient.lastIndexOf(')')
+  if (open === -1 || close <= open) return []
+
+  // Split on top-level commas only (colors contain commas too)
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of gradient.slice(open + 1, close)) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  parts.push(current.trim())
+
+  const stops = parts
+    .map(part => {
+      const match = /^(.*?)(?:\s+(-?[\d.]+)%)?$/.exec(part)
+      const color = match?.[1].trim() ?? ''
+      return parseColor(color)
+        ? { color, offset: match?.[2] !== undefined ? Number(match[2]) / 100 : NaN }
+        : null
+    })
+    .filter((stop): stop is GradientStop => stop !== null)
+
+  return stops.map((stop, index) => ({
+    color: stop.color,
+    offset: Number.isNaN(stop.offset)
+      ? (stops.length > 1 ? index / (stops.length - 1) : 0)
+      : clamp01(stop.offset),
+  }))
+}
@@ -0,0 +1,121 @@
+import {
+  formatConfigDiagnostics,
+  getSyncPeriod,
+  hasConfigErrors,
+  reportConfigDiagnostics,
+  validateEtherealConfig,
+} from './config-validator'
+import { ETHEREAL_CONFIG } from '@/config/ethereal.config'
+import { ETHEREAL_PRESETS } from '@/config/ethereal.presets'
+import { applyPalette } from './palette'
+import type { EtherealConfig } from '@/types/ethereal.types'
+
+describe('ethereal config validator', () => {
+  const codes = (config: EtherealConfig) => validateEtherealConfig(config).map(diagnostic => diagnostic.code)
+
+  describe('shipped presets', () => {
+    it.each(Object.entries(ETHEREAL_PRESETS))('%s passes every rule', (_, config) => {
+      const diagnostics = validateEtherealConfig(config)
+      expect(formatConfigDiagnostics(diagnostics)).toBe('')
+    })
+
+    it.each(Object.entries(ETHEREAL_CONFIG.contrastPalettes))('the %s contrast palette passes every rule', (_, palette) => {
+      expect(validateEtherealConfig(applyPalette(ETHEREAL_CONFIG, palette!))).toEqual([])
+    })
+  })
+
+  it('finds when two morph loops line up again', () => {
+    expect(getSyncPeriod(6, 8)).toBe(24)
+    expect(getSyncPeriod(7, 8)).toBe(56)
+    expect(getSyncPeriod(1.5, 2)).toBe(6)
+  })
+
+  it('rejects morph durations that synchronize', () => {
+    const layers = ETHEREAL_CONFIG.gradientLayers
+    const lockstep = { ...ETHEREAL_CONFIG, gradientLayers: [layers[0], { ...layers[1], duration: 8 }, layers[2]] }
+    const harmonic = { ...ETHEREAL_CONFIG, gradientLayers: [layers[0], { ...layers[1], duration: 9 }, layers[2]] }
+
+    const [error] = validateEtherealConfig(lockstep)
+    expect(error).toMatchObject({ severity: 'error', code: 'morph-duration-sync', path: 'gradientLayers[1].duration' })
+
+    const [warning] = validateEtherealConfig(harmonic)
+    expect(warning).toMatchObject({ severity: 'warning', code: 'morph-duration-sync' })
+    expect(hasConfigErrors(validateEtherealConfig(harmonic))).toBe(false)
+  })
+
+  it('keeps opacities within 0-1', () => {
+    const arcs = ETHEREAL_CONFIG.arcConfigurations.map((arc, index) => (index === 0 ? { ...arc, opacity: 1.4 } : arc))
+    const diagnostics = validateEtherealConfig({ ...ETHEREAL_CONFIG, arcConfigurations: arcs })
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'error', code: 'opacity-range', path: 'arcConfigurations[0].opacity' }),
+    ])
+  })
+
+  it('expects arcs to shrink from back to front', () => {
+    const arcs = ETHEREAL_CONFIG.arcConfigurations.map((arc, index) => (index === 3 ? { ...arc, scale: 1.5 } : arc))
+
+    expect(codes({ ...ETHEREAL_CONFIG, arcConfigurations: arcs })).toEqual(['arc-depth-order'])
+  })
+
+  it('rejects arcs sharing a zIndex', () => {
+    const arcs = ETHEREAL_CONFIG.arcConfigurations.map((arc, index) => (index === 1 ? { ...arc, zIndex: 10 } : arc))
+
+    expect(codes({ ...ETHEREAL_CONFIG, arcConfigurations: arcs })).toContain('arc-z-index-duplicate')
+  })
+
+  it('enforces the parallax sign conventions', () => {
+    const flipped = ETHEREAL_CONFIG.arcConfigurations.map(arc => ({ ...arc, parallaxStrength: -arc.parallaxStrength }))
+    const diagnostics = validateEtherealConfig({ ...ETHEREAL_CONFIG, arcConfigurations: flipped })
+
+    expect(diagnostics.filter(diagnostic => diagnostic.code === 'parallax-sign')).toHaveLength(2)
+    expect(diagnostics.filter(diagnostic => diagnostic.code === 'parallax-order')).toHaveLength(3)
+
+    const extreme = ETHEREAL_CONFIG.arcConfigurations.map((arc, index) => (index === 0 ? { ...arc, parallaxStrength: -40 } : arc))
+    expect(codes({ ...ETHEREAL_CONFIG, arcConfigurations: extreme })).toEqual(['parallax-range'])
+  })
+
+  it('reports invalid gradient layers with their path', () => {
+    const layers = ETHEREAL_CONFIG.gradientLayers.map((layer, index) => (index === 2 ? { ...layer, stops: [0, 60, 50, 70] as [number, number, number, number] } : layer))
+    const [diagnostic] = validateEtherealConfig({ ...ETHEREAL_CONFIG, gradientLayers: layers })
+
+    expect(diagnostic).toMatchObject({ code: 'gradient-layer', path: 'gradientLayers[2]' })
+  })
+
+  it('keeps background primitives inside the background layer', () => {
+    const config = {
+      ...ETHEREAL_CONFIG,
+      starfield: { ...ETHEREAL_CONFIG.starfield, zIndex: 120 },
+      nebula: { ...ETHEREAL_CONFIG.nebula, threshold: 1.5 },
+    }
+
+    expect(validateEtherealConfig(config)).toEqual([
+      expect.objectContaining({ code: 'primitive-z-index', path: 'starfield.zIndex' }),
+      expect.objectContaining({ code: 'opacity-range', path: 'nebula.threshold' }),
+    ])
+  })
+
+  it('rejects velocity ranges that cannot be mapped', () => {
+    const config = {
+      ...ETHEREAL_CONFIG,
+      velocityEffects: { ...ETHEREAL_CONFIG.velocityEffects, threshold: 80, stretch: [1, 0] as [number, number] },
+    }
+
+    expect(validateEtherealConfig(config).map(diagnostic => diagnostic.path)).toEqual([
+      'velocityEffects.maxVelocity',
+      'velocityEffects.stretch[1]',
+    ])
+  })
+
+  it('logs each configuration once', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const config = { ...ETHEREAL_CONFIG, timing: { ...ETHEREAL_CONFIG.timing, arcDuration: -1 } }
+
+    expect(reportConfigDiagnostics(config)).toHaveLength(1)
+    reportConfigDiagnostics(config)
+
+    expect(error).toHaveBeenCalledTimes(1)
+    expect(error.mock.calls[0][0]).toContain('error [timing] timing.arcDuration')
+    error.mockRestore()
+  })
+})
@@ -0,0 +1,357 @@
+/**
+ * Ethereal Config Validator
+ * Checks an EtherealConfig against the rules the organic effect depends on -
+ * unsynchronized morph durations, opacities within 0-1, depth order,
+ * parallax sign conventions and background z-layer bounds - and reports
+ * every problem as a diagnostic
+ */
+
+import type {
+  ArcConfiguration,
+  EtherealConfig,
+  EtherealVelocityEffects,
+  SpringConfiguration,
+} from '@/types/ethereal.types'
+import { ZLayers } from '@/types/scroll.types'
+import { validateGradientLayer } from './gradient-compiler'
+import { BACKGROUND_PRIMITIVE_NAMES } from './primitives'
+import { sortArcs } from './scene'
+
+export type ConfigDiagnosticSeverity = 'error' | 'warning'
+
+export interface ConfigDiagnostic {
+  severity: ConfigDiagnosticSeverity
+  /** Stable identifier of the rule that failed */
+  code: string
+  /** Where in the configuration, e.g. "arcConfigurations[2].opacity" */
+  path: string
+  message: string
+}
+
+/** Durations are compared at this resolution (1/10 s) when looking for their common period */
+const DURATION_RESOLUTION = 10
+/** Two morph loops must not line up again within this many cycles of the slower one */
+const MIN_SYNC_CYCLES = 3
+/** Tuned parallax range - beyond it arcs slide visibly off their gradients */
+const PARALLAX_LIMIT = 20
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b))
+
+/**
+ * Seconds until two morph loops line up again
+ */
+export function getSyncPeriod(a: number, b: number): number {
+  const ticksA = Math.round(a * DURATION_RESOLUTION)
+  const ticksB = Math.round(b * DURATION_RESOLUTION)
+  if (ticksA <= 0 || ticksB <= 0) return 0
+  return (ticksA / gcd(ticksA, ticksB)) * ticksB / DURATION_RESOLUTION
+}
+
+const inUnitRange = (value: number) => Number.isFinite(value) && value >= 0 && value <= 1
+
+function checkDurations(
+  durations: { path: string; duration: number }[],
+  diagnostics: ConfigDiagnostic[]
+): void {
+  for (let i = 0; i < durations.length; i++) {
+    for (let j = i + 1; j < durations.length; j++) {
+      const a = durations[i]
+      const b = durations[j]
+      if (!(a.duration > 0) || !(b.duration > 0)) continue
+
+      const cycles = getSyncPeriod(a.duration, b.duration) / Math.max(a.duration, b.duration)
+      if (cycles <= 1) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'morph-duration-sync',
+          path: b.path,
+          message: `${b.path} (${b.duration}s) morphs in lockstep with ${a.path} (${a.duration}s)`,
+        })
+      } else if (cycles < MIN_SYNC_CYCLES) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'morph-duration-sync',
+          path: b.path,
+          message: `${b.path} (${b.duration}s) lines up with ${a.path} (${a.duration}s) every ${Math.round(cycles * 100) / 100} cycles`,
+        })
+      }
+    }
+  }
+}
+
+function checkArcs(arcs: ArcConfiguration[], diagnostics: ConfigDiagnostic[]): void {
+  const pathOf = (arc: ArcConfiguration) => `arcConfigurations[${arcs.indexOf(arc)}]`
+
+  arcs.forEach((arc, index) => {
+    const path = `arcConfigurations[${index}]`
+
+    if (!inUnitRange(arc.opacity)) {
+      diagnostics.push({ severity: 'error', code: 'opacity-range', path: `${path}.opacity`, message: `opacity must be within 0-1 (got ${arc.opacity})` })
+    }
+    if (!(arc.scale > 0)) {
+      diagnostics.push({ severity: 'error', code: 'arc-scale', path: `${path}.scale`, message: `scale must be positive (got ${arc.scale})` })
+    }
+    if (!(arc.delay >= 0)) {
+      diagnostics.push({ severity: 'error', code: 'arc-delay', path: `${path}.delay`, message: `delay must not be negative (got ${arc.delay})` })
+    }
+    if (Math.abs(arc.parallaxStrength) > PARALLAX_LIMIT) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'parallax-range',
+        path: `${path}.parallaxStrength`,
+        message: `parallaxStrength ${arc.parallaxStrength} is outside the tuned range of ±${PARALLAX_LIMIT}`,
+      })
+    }
+  })
+
+  // zIndex doubles as the arc's key - it has to be unique
+  const seen = new Map<number, number>()
+  arcs.forEach((arc, index) => {
+    if (seen.has(arc.zIndex)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'arc-z-index-duplicate',
+        path: `arcConfigurations[${index}].zIndex`,
+        message: `zIndex ${arc.zIndex} is already used by arcConfigurations[${seen.get(arc.zIndex)}]`,
+      })
+    }
+    seen.set(arc.zIndex, index)
+  })
+
+  // Back to front: arcs shrink and parallax turns from opposing the pointer to following it
+  const ordered = sortArcs(arcs)
+  for (let i = 1; i < ordered.length; i++) {
+    const behind = ordered[i - 1]
+    const arc = ordered[i]
+    if (arc.zIndex === behind.zIndex) continue
+
+    if (arc.scale > behind.scale) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'arc-depth-order',
+        path: `${pathOf(arc)}.scale`,
+        message: `arc at zIndex ${arc.zIndex} (scale ${arc.scale}) is larger than the arc behind it at zIndex ${behind.zIndex} (scale ${behind.scale})`,
+      })
+    }
+    if (arc.parallaxStrength < behind.parallaxStrength) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'parallax-order',
+        path: `${pathOf(arc)}.parallaxStrength`,
+        message: `arc at zIndex ${arc.zIndex} opposes the pointer more than the arc behind it (${arc.parallaxStrength} < ${behind.parallaxStrength})`,
+      })
+    }
+  }
+
+  if (ordered.length > 1) {
+    const back = ordered[0]
+    const front = ordered[ordered.length - 1]
+    if (back.parallaxStrength > 0) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'parallax-sign',
+        path: `${pathOf(back)}.parallaxStrength`,
+        message: `the back arc should move against the pointer (negative parallaxStrength, got ${back.parallaxStrength})`,
+      })
+    }
+    if (front.parallaxStrength < 0) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'parallax-sign',
+        path: `${pathOf(front)}.parallaxStrength`,
+        message: `the front arc should move with the pointer (positive parallaxStrength, got ${front.parallaxStrength})`,
+      })
+    }
+  }
+}
+
+function checkPrimitives(config: EtherealConfig, diagnostics: ConfigDiagnostic[]): void {
+  const zLimit = ZLayers.CONTENT_BASE - ZLayers.BACKGROUND
+
+  for (const name of BACKGROUND_PRIMITIVE_NAMES) {
+    const primitive = config[name]
+    if (!primitive) continue
+
+    if (!inUnitRange(primitive.opacity)) {
+      diagnostics.push({ severity: 'error', code: 'opacity-range', path: `${name}.opacity`, message: `opacity must be within 0-1 (got ${primitive.opacity})` })
+    }
+    if (!(primitive.zIndex >= 0 && primitive.zIndex < zLimit)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'primitive-z-index',
+        path: `${name}.zIndex`,
+        message: `zIndex must stay inside the background layer (0-${zLimit - 1}, got ${primitive.zIndex})`,
+      })
+    }
+    if (Math.abs(primitive.parallaxStrength) > PARALLAX_LIMIT) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'parallax-range',
+        path: `${name}.parallaxStrength`,
+        message: `parallaxStrength ${primitive.parallaxStrength} is outside the tuned range of ±${PARALLAX_LIMIT}`,
+      })
+    }
+  }
+
+  if (config.starfield && !inUnitRange(config.starfield.twinkle.amount)) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'opacity-range',
+      path: 'starfield.twinkle.amount',
+      message: `amount must be within 0-1 (got ${config.starfield.twinkle.amount})`,
+    })
+  }
+  if (config.nebula && !inUnitRange(config.nebula.threshold)) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'opacity-range',
+      path: 'nebula.threshold',
+      message: `threshold must be within 0-1 (got ${config.nebula.threshold})`,
+    })
+  }
+}
+
+function checkVelocityEffects(effects: EtherealVelocityEffects, diagnostics: ConfigDiagnostic[]): void {
+  if (!(effects.threshold >= 0 && effects.maxVelocity > effects.threshold)) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'velocity-range',
+      path: 'velocityEffects.maxVelocity',
+      message: `maxVelocity must be above a non-negative threshold (got ${effects.threshold}-${effects.maxVelocity})`,
+    })
+  }
+  for (const key of ['stretch', 'spotlightBoost'] as const) {
+    effects[key].forEach((value, index) => {
+      if (!(value > 0)) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'velocity-range',
+          path: `velocityEffects.${key}[${index}]`,
+          message: `${key} multipliers must be positive (got ${value})`,
+        })
+      }
+    })
+  }
+  checkSpring('velocityEffects.smoothing', effects.smoothing, diagnostics)
+}
+
+function checkSpring(path: string, spring: SpringConfiguration, diagnostics: ConfigDiagnostic[]): void {
+  for (const key of ['stiffness', 'damping', 'mass'] as const) {
+    const value = spring[key]
+    if (value !== undefined && !(value > 0)) {
+      diagnostics.push({ severity: 'error', code: 'spring', path: `${path}.${key}`, message: `${key} must be positive (got ${value})` })
+    }
+  }
+}
+
+/**
+ * Checks a configuration and returns every problem found (empty when it's sound)
+ */
+export function validateEtherealConfig(config: EtherealConfig): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = []
+
+  checkArcs(config.arcConfigurations, diagnostics)
+
+  config.gradientLayers.forEach((layer, index) => {
+    validateGradientLayer(layer).forEach(message => {
+      diagnostics.push({ severity: 'error', code: 'gradient-layer', path: `gradientLayers[${index}]`, message })
+    })
+  })
+
+  checkDurations(
+    config.gradientLayers.map((layer, index) => ({ path: `gradientLayers[${index}].duration`, duration: layer.duration })),
+    diagnostics
+  )
+  checkDurations(
+    Object.entries(config.timing.morphingDurations).map(([name, duration]) => ({
+      path: `timing.morphingDurations.${name}`,
+      duration,
+    })),
+    diagnostics
+  )
+
+  for (const key of ['loadDuration', 'arcDuration', 'spotlightDuration', 'crossfadeDuration'] as const) {
+    if (!(config.timing[key] >= 0)) {
+      diagnostics.push({ severity: 'error', code: 'timing', path: `timing.${key}`, message: `${key} must not be negative (got ${config.timing[key]})` })
+    }
+  }
+
+  checkSpring('springConfigs.main', config.springConfigs.main, diagnostics)
+  checkSpring('springConfigs.celestial', config.springConfigs.celestial, diagnostics)
+
+  if (config.velocityEffects) {
+    checkVelocityEffects(config.velocityEffects, diagnostics)
+  }
+
+  config.scrollChoreography.keyframes.forEach((keyframe, index) => {
+    const path = `scrollChoreography.keyframes[${index}]`
+    if (!inUnitRange(keyframe.at)) {
+      diagnostics.push({ severity: 'error', code: 'scroll-range', path: `${path}.at`, message: `at must be a scroll progress within 0-1 (got ${keyframe.at})` })
+    }
+    for (const key of ['opacity', 'mask'] as const) {
+      const value = keyframe[key]
+      if (value !== undefined && !inUnitRange(value)) {
+        diagnostics.push({ severity: 'error', code: 'opacity-range', path: `${path}.${key}`, message: `${key} must be within 0-1 (got ${value})` })
+      }
+    }
+  })
+
+  Object.entries(config.scrollChoreography.sections).forEach(([sectionId, section]) => {
+    if (section.tintOpacity !== undefined && !inUnitRange(section.tintOpacity)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'opacity-range',
+        path: `scrollChoreography.sections.${sectionId}.tintOpacity`,
+        message: `tintOpacity must be within 0-1 (got ${section.tintOpacity})`,
+      })
+    }
+  })
+
+  checkPrimitives(config, diagnostics)
+
+  config.spotlight.lights.forEach((light, index) => {
+    if (light.opacity !== undefined && !inUnitRange(light.opacity)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'opacity-range',
+        path: `spotlight.lights[${index}].opacity`,
+        message: `opacity must be within 0-1 (got ${light.opacity})`,
+      })
+    }
+  })
+
+  return diagnostics
+}
+
+/**
+ * True when any diagnostic is an error (warnings alone still render)
+ */
+export function hasConfigErrors(diagnostics: ConfigDiagnostic[]): boolean {
+  return diagnostics.some(diagnostic => diagnostic.severity === 'error')
+}
+
+/**
+ * Formats diagnostics one per line, e.g. "error [opacity-range] arcConfigurations[0].opacity: ..."
+ */
+export function formatConfigDiagnostics(diagnostics: ConfigDiagnostic[]): string {
+  return diagnostics
+    .map(({ severity, code, path, message }) => `${severity} [${code}] ${path}: ${message}`)
+    .join('\n')
+}
+
+const reported = new WeakSet<EtherealConfig>()
+
+/**
+ * Logs a configuration's diagnostics to the console once per config object
+ */
+export function reportConfigDiagnostics(config: EtherealConfig, label: string = 'Ethereal config'): ConfigDiagnostic[] {
+  if (reported.has(config)) return []
+  reported.add(config)
+
+  const diagnostics = validateEtherealConfig(config)
+  if (diagnostics.length > 0) {
+    const log = hasConfigErrors(diagnostics) ? console.error : console.warn
+    log(`${label} has ${diagnostics.length} problem(s):\n${formatConfigDiagnostics(diagnostics)}`)
+  }
+  return diagnostics
+}
@@ -0,0 +1,48 @@
+/**
+ * Ethereal Easing Functions
+ * CSS-compatible cubic-bezier curves matching Framer Motion's named easings
+ */
+
+export type EasingFunction = (t: number) => number
+
+/**
+ * Creates a cubic-bezier easing function (same semantics as CSS `cubic-bezier()`)
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  const sample = (a1: number, a2: number, t: number) =>
+    ((1 - 3 * a2 + 3 * a1) * t + (3 * a2 - 6 * a1)) * t * t + 3 * a1 * t
+  const slope = (a1: number, a2: number, t: number) =>
+    3 * (1 - 3 * a2 + 3 * a1) * t * t + 2 * (3 * a2 - 6 * a1) * t + 3 * a1
+
+  return (x: number) => {
+    if (x <= 0) return 0
+    if (x >= 1) return 1
+
+    // Newton-Raphson to find the curve parameter for x, then bisection as a fallback
+    let t = x
+    for (let i = 0; i < 8; i++) {
+      const error = sample(x1, x2, t) - x
+      const derivative = slope(x1, x2, t)
+      if (Math.abs(error) < 1e-6) return sample(y1, y2, t)
+      if (Math.abs(derivative) < 1e-6) break
+      t -= error / derivative
+    }
+
+    let low = 0
+    let high = 1
+    t = x
+    while (high - low > 1e-6) {
+      if (sample(x1, x2, t) < x) low = t
+      else high = t
+      t = (low + high) / 2
+    }
+
+    return sample(y1, y2, t)
+  }
+}
+
+/** Framer Motion "easeInOut" */
+export const easeInOut = cubicBezier(0.42, 0, 0.58, 1)
+
+/** Framer Motion "easeOut" */
+export const easeOut = cubicBezier(0, 0, 0.58, 1)
@@ -0,0 +1,125 @@
+import {
+  compileGradientLayer,
+  compileGradientLayers,
+  interpolateGradientState,
+  resolveGradientStates,
+  sampleGradientLayer,
+  validateGradientLayer,
+} from './gradient-compiler'
+import { mixColors, parseColor, parseGradientStops } from './color'
+import { GRADIENT_LAYERS } from '@/config/ethereal.config'
+import type { GradientLayer } from '@/types/ethereal.types'
+
+const outerLayer = GRADIENT_LAYERS[0]
+
+describe('gradient compiler', () => {
+  it('reproduces the hand-written celestial arc gradients', () => {
+    const compiled = compileGradientLayer(outerLayer)
+
+    expect(compiled.keyframes).toEqual([
+      'radial-gradient(ellipse 80% 60% at 75% 25%, rgba(30, 58, 138, 0.5) 0%, rgba(59, 130, 246, 0.3) 25%, rgba(37, 99, 235, 0.2) 50%, transparent 70%)',
+      'radial-gradient(ellipse 82% 62% at 76% 26%, rgba(30, 58, 138, 0.55) 0%, rgba(59, 130, 246, 0.35) 25%, rgba(37, 99, 235, 0.25) 50%, transparent 70%)',
+      'radial-gradient(ellipse 80% 60% at 75% 25%, rgba(30, 58, 138, 0.5) 0%, rgba(59, 130, 246, 0.3) 25%, rgba(37, 99, 235, 0.2) 50%, transparent 70%)',
+    ])
+    expect(compiled.times).toEqual([0, 0.5, 1])
+    expect(compiled.duration).toBe(8)
+    expect(compiled.extent).toBe('200%')
+  })
+
+  it('compiles every shipped layer', () => {
+    expect(compileGradientLayers(GRADIENT_LAYERS)).toHaveLength(GRADIENT_LAYERS.length)
+  })
+
+  it('cycles through additional morph states', () => {
+    const layer: GradientLayer = {
+      ...outerLayer,
+      states: [
+        { size: ['90%', '70%'], position: ['60%', '40%'], colors: { inner: 'rgba(255, 0, 0, 0.5)' } },
+        { size: ['85%', '65%'], position: ['70%', '30%'] },
+      ],
+    }
+
+    const compiled = compileGradientLayer(layer)
+    expect(resolveGradientStates(layer)).toHaveLength(4)
+    expect(compiled.keyframes).toHaveLength(5)
+    expect(compiled.keyframes[2]).toContain('ellipse 90% 70% at 60% 40%, rgba(255, 0, 0, 0.5) 0%')
+    expect(compiled.keyframes[4]).toBe(compiled.keyframes[0])
+  })
+
+  it('inserts interpolated steps between states', () => {
+    const compiled = compileGradientLayer(outerLayer, { steps: 1 })
+
+    expect(compiled.keyframes).toHaveLength(5)
+    expect(compiled.times).toEqual([0, 0.25, 0.5, 0.75, 1])
+    expect(compiled.keyframes[1]).toContain('ellipse 81% 61% at 75.5% 25.5%')
+  })
+
+  it('interpolates colors in the requested color space', () => {
+    const [base, morph] = resolveGradientStates({
+      ...outerLayer,
+      colors: { inner: 'rgba(255, 0, 0, 1)', middle: 'transparent', outer: 'transparent' },
+      states: [],
+      morphOpacity: 0,
+    })
+    const target = { ...morph, colors: { ...morph.colors, inner: 'rgba(0, 0, 255, 1)' } }
+
+    const srgb = parseColor(interpolateGradientState(base, target, 0.5, 'srgb').colors.inner)
+    const linear = parseColor(interpolateGradientState(base, target, 0.5, 'linear-rgb').colors.inner)
+    const oklab = parseColor(interpolateGradientState(base, target, 0.5, 'oklab').colors.inner)
+
+    expect(srgb).toEqual({ r: 128, g: 0, b: 128, a: 1 })
+    expect(linear!.r).toBeGreaterThan(srgb!.r)
+    expect(oklab).not.toEqual(srgb)
+  })
+
+  it('fades to transparent without passing through black', () => {
+    expect(mixColors('rgba(59, 130, 246, 0.6)', 'transparent', 0.5)).toBe('rgba(59, 130, 246, 0.3)')
+  })
+
+  it('keeps the hue of transparent keyframes next to visible colors', () => {
+    const compiled = compileGradientLayer({
+      ...outerLayer,
+      states: [{ size: ['80%', '60%'], position: ['75%', '25%'], colors: { outer: 'transparent' } }],
+    })
+
+    expect(compiled.keyframes[2]).toContain('rgba(37, 99, 235, 0) 50%')
+  })
+
+  it('reports every invalid field', () => {
+    const errors = validateGradientLayer({
+      ...outerLayer,
+      size: { base: ['80%', 'wide'], morph: ['82px', '62%'] },
+      colors: { ...outerLayer.colors, inner: 'not-a-color' },
+      stops: [0, 50, 25, 120],
+      duration: 0,
+    })
+
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.stringContaining('duration'),
+      expect.stringContaining('size[1] of state 0 is not a CSS length'),
+      expect.stringContaining('size[0] mixes units'),
+      expect.stringContaining('colors.inner of state 0'),
+      expect.stringContaining('within 0-100'),
+      expect.stringContaining('ascending order'),
+    ]))
+  })
+
+  it('throws a validation error for invalid layers', () => {
+    expect(() => compileGradientLayer({ ...outerLayer, duration: -1 })).toThrow('Validation failed')
+  })
+
+  it('samples the morph cycle at a point in time', () => {
+    const [base, morph] = resolveGradientStates(outerLayer)
+
+    expect(sampleGradientLayer(outerLayer, 0)).toEqual(base)
+    expect(sampleGradientLayer(outerLayer, outerLayer.duration / 2).size).toEqual(morph.size)
+    expect(sampleGradientLayer(outerLayer, outerLayer.duration * 3)).toEqual(base)
+  })
+
+  it('parses the stops of a CSS gradient', () => {
+    expect(parseGradientStops('radial-gradient(circle, rgba(96, 165, 250, 0.15) 0%, transparent 60%)')).toEqual([
+      { color: 'rgba(96, 165, 250, 0.15)', offset: 0 },
+      { color: 'transparent', offset: 0.6 },
+    ])
+  })
+})
@@ -0,0 +1,285 @@
+/**
+ * Gradient Layer Compiler
+ * Turns declarative GradientLayer definitions into morph keyframes
+ */
+
+import type { ColorSpace, GradientLayer } from '@/types/ethereal.types'
+import { ValidationError } from '@/lib/patterns/clean-architecture'
+import { formatColor, mixRgba, parseColor, shiftAlpha } from './color'
+import { easeInOut } from './easing'
+
+export interface GradientCompileOptions {
+  /** Overrides the layer's interpolation color space */
+  colorSpace?: ColorSpace
+  /** Interpolated keyframes inserted between each pair of states (default 0) */
+  steps?: number
+}
+
+export interface CompiledGradientLayer {
+  /** Static gradient for the base state */
+  initial: string
+  /** Keyframes for one full morph cycle (first and last are the base state) */
+  keyframes: string[]
+  /** Keyframe offsets (0-1), aligned with `keyframes` */
+  times: number[]
+  /** Cycle duration in seconds */
+  duration: number
+  /** Layer box size relative to the arc, as a CSS percentage */
+  extent: string
+}
+
+/** A fully resolved point in a layer's morph cycle */
+export interface GradientState {
+  size: [string, string]
+  position: [string, string]
+  colors: GradientLayer['colors']
+}
+
+interface Length {
+  value: number
+  unit: string
+}
+
+const DEFAULT_STOPS: [number, number, number, number] = [0, 25, 50, 70]
+const DEFAULT_EXTENT = 200
+const DEFAULT_MORPH_OPACITY = 0.05
+const LENGTH_PATTERN = /^(-?\d*\.?\d+)(%|px|vw|vh|rem|em)$/
+
+const parseLength = (value: string): Length | null => {
+  const match = LENGTH_PATTERN.exec(value.trim())
+  return match ? { value: Number(match[1]), unit: match[2] } : null
+}
+
+const formatLength = ({ value, unit }: Length) => `${Math.round(value * 100) / 100}${unit}`
+
+/**
+ * Expands a layer into the ordered states of one morph cycle (without the closing base)
+ */
+export function resolveGradientStates(layer: GradientLayer): GradientState[] {
+  const boost = layer.morphOpacity ?? DEFAULT_MORPH_OPACITY
+  const boosted = {
+    inner: shiftAlpha(layer.colors.inner, boost),
+    middle: shiftAlpha(layer.colors.middle, boost),
+    outer: shiftAlpha(layer.colors.outer, boost),
+  }
+
+  return [
+    { size: layer.size.base, position: layer.position.base, colors: layer.colors },
+    { size: layer.size.morph, position: layer.position.morph, colors: boosted },
+    ...(layer.states ?? []).map(state => ({
+      size: state.size,
+      position: state.position,
+      colors: { ...layer.colors, ...state.colors },
+    })),
+  ]
+}
+
+/**
+ * Checks a layer definition and returns a list of human-readable problems
+ */
+export function validateGradientLayer(layer: GradientLayer): string[] {
+  const errors: string[] = []
+  const states = resolveGradientStates(layer)
+
+  if (!Number.isFinite(layer.duration) || layer.duration <= 0) {
+    errors.push(`duration must be a positive number of seconds (got ${layer.duration})`)
+  }
+
+  // Lengths must parse and keep the same unit throughout the cycle
+  for (const property of ['size', 'position'] as const) {
+    for (const axis of [0, 1]) {
+      const units = new Set<string>()
+
+      states.forEach((state, index) => {
+        const raw = state[property][axis]
+        const length = parseLength(raw)
+
+        if (!length) {
+          errors.push(`${property}[${axis}] of state ${index} is not a CSS length: "${raw}"`)
+        } else {
+          units.add(length.unit)
+        }
+      })
+
+      if (units.size > 1) {
+        errors.push(`${property}[${axis}] mixes units across states (${Array.from(units).join(', ')})`)
+      }
+    }
+  }
+
+  states.forEach((state, index) => {
+    Object.entries(state.colors).forEach(([name, color]) => {
+      if (!parseColor(color)) {
+        errors.push(`colors.${name} of state ${index} is not a supported color: "${color}"`)
+      }
+    })
+  })
+
+  const stops = layer.stops ?? DEFAULT_STOPS
+  if (stops.some(stop => stop < 0 || stop > 100)) {
+    errors.push(`stops must be within 0-100 (got ${stops.join(', ')})`)
+  }
+  if (stops.some((stop, index) => index > 0 && stop < stops[index - 1])) {
+    errors.push(`stops must be in ascending order (got ${stops.join(', ')})`)
+  }
+
+  if (layer.extent !== undefined && !(layer.extent > 0)) {
+    errors.push(`extent must be positive (got ${layer.extent})`)
+  }
+
+  if (layer.morphOpacity !== undefined && Math.abs(layer.morphOpacity) > 1) {
+    errors.push(`morphOpacity must be within -1 and 1 (got ${layer.morphOpacity})`)
+  }
+
+  return errors
+}
+
+/**
+ * Renders a single state as a CSS radial-gradient
+ */
+export function createGradientString(state: GradientState, stops: [number, number, number, number] = DEFAULT_STOPS): string {
+  const [width, height] = state.size
+  const [x, y] = state.position
+  const [innerStop, middleStop, outerStop, fadeStop] = stops
+  const { inner, middle, outer } = state.colors
+
+  return `radial-gradient(ellipse ${width} ${height} at ${x} ${y}, ${inner} ${innerStop}%, ${middle} ${middleStop}%, ${outer} ${outerStop}%, transparent ${fadeStop}%)`
+}
+
+/**
+ * Interpolates between two states in the given color space
+ */
+export function interpolateGradientState(
+  from: GradientState,
+  to: GradientState,
+  t: number,
+  colorSpace: ColorSpace = 'srgb'
+): GradientState {
+  const mixLength = (a: string, b: string) => {
+    const start = parseLength(a)
+    const end = parseLength(b)
+    if (!start || !end) return a
+    return formatLength({ value: start.value + (end.value - start.value) * t, unit: start.unit })
+  }
+
+  const mixColor = (a: string, b: string) => {
+    const start = parseColor(a)
+    const end = parseColor(b)
+    if (!start || !end) return a
+    return formatColor(mixRgba(start, end, t, colorSpace))
+  }
+
+  return {
+    size: [mixLength(from.size[0], to.size[0]), mixLength(from.size[1], to.size[1])],
+    position: [mixLength(from.position[0], to.position[0]), mixLength(from.position[1], to.position[1])],
+    colors: {
+      inner: mixColor(from.colors.inner, to.colors.inner),
+      middle: mixColor(from.colors.middle, to.colors.middle),
+      outer: mixColor(from.colors.outer, to.colors.outer),
+    },
+  }
+}
+
+/**
+ * Gives transparent keyframe colors the hue of their nearest visible neighbour
+ *
+ * Framer interpolates keyframes channel by channel, so `transparent` (black at
+ * zero alpha) next to a visible color would fade through a dark fringe. Slots
+ * that are transparent in every frame are left as `transparent`.
+ */
+function alignTransparentColors(frames: GradientState[]): GradientState[] {
+  const slots = ['inner', 'middle', 'outer'] as const
+  const aligned = frames.map(frame => ({ ...frame, colors: { ...frame.colors } }))
+
+  for (const slot of slots) {
+    const parsed = frames.map(frame => parseColor(frame.colors[slot]))
+    if (parsed.every(color => !color || color.a > 0) || parsed.every(color => !color || color.a === 0)) {
+      continue
+    }
+
+    parsed.forEach((color, index) => {
+      if (!color || color.a > 0) return
+
+      const neighbour = [...parsed.slice(index + 1), ...parsed.slice(0, index).reverse()]
+        .find(candidate => candidate && candidate.a > 0)
+
+      if (neighbour) {
+        aligned[index].colors[slot] = formatColor({ ...neighbour, a: 0 }, true)
+      }
+    })
+  }
+
+  return aligned
+}
+
+/**
+ * Compiles a gradient layer into a looping keyframe cycle
+ * Throws a ValidationError listing every problem if the layer is invalid
+ */
+export function compileGradientLayer(
+  layer: GradientLayer,
+  options: GradientCompileOptions = {}
+): CompiledGradientLayer {
+  const errors = validateGradientLayer(layer)
+  if (errors.length > 0) {
+    throw new ValidationError(errors)
+  }
+
+  const colorSpace = options.colorSpace ?? layer.colorSpace ?? 'srgb'
+  const steps = Math.max(0, Math.floor(options.steps ?? 0))
+  const stops = layer.stops ?? DEFAULT_STOPS
+  const states = resolveGradientStates(layer)
+  const cycle = [...states, states[0]]
+
+  const frames: GradientState[] = [cycle[0]]
+  for (let segment = 0; segment < cycle.length - 1; segment++) {
+    for (let step = 1; step <= steps; step++) {
+      frames.push(interpolateGradientState(cycle[segment], cycle[segment + 1], step / (steps + 1), colorSpace))
+    }
+    frames.push(cycle[segment + 1])
+  }
+
+  const keyframes = alignTransparentColors(frames).map(frame => createGradientString(frame, stops))
+  const lastIndex = keyframes.length - 1
+
+  return {
+    initial: keyframes[0],
+    keyframes,
+    times: keyframes.map((_, index) => index / lastIndex),
+    duration: layer.duration,
+    extent: `${layer.extent ?? DEFAULT_EXTENT}%`,
+  }
+}
+
+/**
+ * Samples a layer's morph cycle at a point in time (seconds)
+ *
+ * Mirrors the keyframe animation: every segment between two states lasts an
+ * equal share of the duration and is eased with "easeInOut".
+ */
+export function sampleGradientLayer(
+  layer: GradientLayer,
+  time: number,
+  colorSpace: ColorSpace = layer.colorSpace ?? 'srgb'
+): GradientState {
+  const states = resolveGradientStates(layer)
+  const cycle = [...states, states[0]]
+  const segments = cycle.length - 1
+  const duration = layer.duration > 0 ? layer.duration : 1
+
+  const phase = (((time % duration) + duration) % duration) / duration
+  const position = phase * segments
+  const segment = Math.min(segments - 1, Math.floor(position))
+
+  return interpolateGradientState(cycle[segment], cycle[segment + 1], easeInOut(position - segment), colorSpace)
+}
+
+/**
+ * Compiles every layer of a configuration
+ */
+export function compileGradientLayers(
+  layers: GradientLayer[],
+  options: GradientCompileOptions = {}
+): CompiledGradientLayer[] {
+  return layers.map(layer => compileGradientLayer(layer, options))
+}
@@ -0,0 +1,139 @@
+import {
+  createDriftPath,
+  detectDeviceClass,
+  EtherealInputController,
+  orientationToPosition,
+} from './input'
+import { INPUT_CONFIG } from '@/config/ethereal.config'
+import type { EtherealInputProfile } from '@/types/ethereal.types'
+
+// Minimal window stand-in with a manually flushed animation frame
+const createTarget = () => {
+  const target = new EventTarget() as EventTarget & Record<string, unknown>
+  let frame: FrameRequestCallback | null = null
+  let now = 0
+
+  Object.assign(target, {
+    innerWidth: 1000,
+    innerHeight: 800,
+    performance: { now: () => now },
+    requestAnimationFrame: (callback: FrameRequestCallback) => {
+      frame = callback
+      return 1
+    },
+    cancelAnimationFrame: () => {
+      frame = null
+    },
+  })
+
+  return {
+    target: target as unknown as Window,
+    flush: (time: number) => {
+      now = time
+      const callback = frame
+      frame = null
+      callback?.(time)
+    },
+    dispatch: (type: string, init: Record<string, unknown>) => target.dispatchEvent(Object.assign(new Event(type), init)),
+  }
+}
+
+const profile = (overrides: Partial<EtherealInputProfile> = {}): EtherealInputProfile => ({
+  ...INPUT_CONFIG.tablet,
+  ...overrides,
+})
+
+describe('ethereal input', () => {
+  it('keeps the drift path within the configured amplitude', () => {
+    const path = createDriftPath({ speed: 0.3, amplitude: 0.25 })
+
+    for (let time = 0; time < 60; time += 0.7) {
+      const { x, y } = path(time, 1000, 800)
+      expect(Math.abs(x - 500)).toBeLessThanOrEqual(250)
+      expect(Math.abs(y - 400)).toBeLessThanOrEqual(200)
+    }
+  })
+
+  it('maps tilt relative to the resting angle', () => {
+    expect(orientationToPosition(40, 0, 40, 20, 1000, 800)).toEqual({ x: 500, y: 400 })
+    expect(orientationToPosition(50, -10, 40, 20, 1000, 800)).toEqual({ x: 250, y: 600 })
+    expect(orientationToPosition(40, 90, 40, 20, 1000, 800).x).toBe(1000)
+  })
+
+  it('treats devices without a coarse pointer as desktop', () => {
+    expect(detectDeviceClass()).toBe('desktop')
+  })
+
+  it('coalesces pointer and touch input into one update per frame', () => {
+    const { target, flush, dispatch } = createTarget()
+    const onMove = jest.fn()
+    const onSourceChange = jest.fn()
+    const controller = new EtherealInputController(profile({ sources: ['pointer', 'touch'] }), { onMove, onSourceChange })
+    controller.attach(target)
+
+    dispatch('pointermove', { clientX: 10, clientY: 20, pointerType: 'mouse' })
+    dispatch('pointermove', { clientX: 30, clientY: 40, pointerType: 'mouse' })
+    flush(16)
+    expect(onMove).toHaveBeenCalledTimes(1)
+    expect(onMove).toHaveBeenLastCalledWith({ x: 30, y: 40 }, 'pointer')
+
+    dispatch('touchmove', { touches: [{ clientX: 100, clientY: 200 }] })
+    flush(32)
+    expect(onMove).toHaveBeenLastCalledWith({ x: 100, y: 200 }, 'touch')
+    expect(onSourceChange.mock.calls).toEqual([['pointer'], ['touch']])
+
+    controller.detach()
+  })
+
+  it('ignores disabled sources', () => {
+    const { target, flush, dispatch } = createTarget()
+    const onMove = jest.fn()
+    const controller = new EtherealInputController(profile({ sources: ['touch'] }), { onMove })
+    controller.attach(target)
+
+    dispatch('pointermove', { clientX: 10, clientY: 20, pointerType: 'mouse' })
+    flush(16)
+    expect(onMove).not.toHaveBeenCalled()
+
+    controller.detach()
+  })
+
+  it('drifts after the idle timeout, starting from the last position', () => {
+    const { target, flush, dispatch } = createTarget()
+    const onMove = jest.fn()
+    const controller = new EtherealInputController(profile({ sources: ['pointer', 'drift'], idleTimeout: 2 }), { onMove })
+    controller.attach(target)
+
+    dispatch('pointermove', { clientX: 100, clientY: 100, pointerType: 'mouse' })
+    flush(16)
+    flush(1000)
+    expect(onMove).toHaveBeenCalledTimes(1)
+
+    flush(2100)
+    expect(onMove).toHaveBeenLastCalledWith({ x: 100, y: 100 }, 'drift')
+
+    flush(4000)
+    const [position, source] = onMove.mock.calls[onMove.mock.calls.length - 1]
+    expect(source).toBe('drift')
+    expect(position).not.toEqual({ x: 100, y: 100 })
+
+    controller.detach()
+  })
+
+  it('reports positions relative to custom bounds', () => {
+    const { target, flush, dispatch } = createTarget()
+    const onMove = jest.fn()
+    const controller = new EtherealInputController(
+      profile({ sources: ['pointer'] }),
+      { onMove },
+      { getBounds: () => ({ left: 200, top: 150, width: 400, height: 300 }) }
+    )
+    controller.attach(target)
+
+    dispatch('pointermove', { clientX: 250, clientY: 200, pointerType: 'mouse' })
+    flush(16)
+    expect(onMove).toHaveBeenLastCalledWith({ x: 50, y: 50 }, 'pointer')
+
+    controller.detach()
+  })
+})
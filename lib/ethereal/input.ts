@@ -0,0 +1,335 @@
+/**
+ * Ethereal Input Controller
+ * Pointer-agnostic source for the parallax/spotlight position: mouse and pen,
+ * touch drag, device orientation and an idle auto-drift path
+ */
+
+import type {
+  EtherealDeviceClass,
+  EtherealInputProfile,
+  EtherealInputSource,
+} from '@/types/ethereal.types'
+
+export interface InputPosition {
+  x: number
+  y: number
+}
+
+/** Area that positions are reported in, in client (viewport) coordinates */
+export interface InputBounds {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export type OrientationPermission = 'unsupported' | 'prompt' | 'granted' | 'denied'
+
+export interface EtherealInputCallbacks {
+  /** Called at most once per animation frame with the latest position */
+  onMove: (position: InputPosition, source: EtherealInputSource) => void
+  /** Called when a different source takes over */
+  onSourceChange?: (source: EtherealInputSource) => void
+  onPermissionChange?: (permission: OrientationPermission) => void
+}
+
+export interface EtherealInputOptions {
+  /** Ask for orientation access on the first tap (iOS needs a user gesture) */
+  autoRequestPermission?: boolean
+  /** Reports positions relative to this area instead of the whole viewport */
+  getBounds?: () => InputBounds
+}
+
+type PendingInput = {
+  source: EtherealInputSource
+  resolve: (bounds: InputBounds) => InputPosition
+}
+
+type OrientationEventConstructor = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>
+}
+
+const MOBILE_BREAKPOINT = 768
+const TABLET_BREAKPOINT = 1280
+/** Tilt changes smaller than this (degrees) count as sensor noise, not input */
+const ORIENTATION_DEADZONE = 0.5
+/** Seconds over which the drift blends in from the last real position */
+const DRIFT_BLEND = 1
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+/**
+ * Classifies the current device (SSR-safe, defaults to desktop)
+ */
+export function detectDeviceClass(): EtherealDeviceClass {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+    return 'desktop'
+  }
+
+  const coarse = window.matchMedia('(pointer: coarse)').matches
+  const shortestSide = Math.min(window.innerWidth, window.innerHeight)
+
+  if (!coarse) return 'desktop'
+  if (shortestSide < MOBILE_BREAKPOINT) return 'mobile'
+  return Math.max(window.innerWidth, window.innerHeight) <= TABLET_BREAKPOINT ? 'tablet' : 'desktop'
+}
+
+/**
+ * Creates the idle drift path: a slow Lissajous figure around the viewport center
+ * The 3:2 frequency ratio never retraces itself quickly, so it reads as organic
+ */
+export function createDriftPath(drift: EtherealInputProfile['drift']) {
+  const amplitude = clamp(drift.amplitude, 0, 0.5)
+
+  return (time: number, width: number, height: number): InputPosition => ({
+    x: width / 2 + Math.sin(time * drift.speed * 1.5) * amplitude * width,
+    y: height / 2 + Math.sin(time * drift.speed + Math.PI / 4) * amplitude * height,
+  })
+}
+
+/**
+ * Maps device tilt to a viewport position
+ * `gamma` (left/right) drives x, `beta` (front/back) relative to the resting angle drives y
+ */
+export function orientationToPosition(
+  beta: number,
+  gamma: number,
+  restingBeta: number,
+  range: number,
+  width: number,
+  height: number
+): InputPosition {
+  return {
+    x: width / 2 + clamp(gamma / range, -1, 1) * (width / 2),
+    y: height / 2 + clamp((beta - restingBeta) / range, -1, 1) * (height / 2),
+  }
+}
+
+/**
+ * Reads whether orientation events need an explicit permission request
+ */
+export function getOrientationPermission(): OrientationPermission {
+  if (typeof window === 'undefined' || typeof window.DeviceOrientationEvent === 'undefined') {
+    return 'unsupported'
+  }
+
+  const OrientationEvent = window.DeviceOrientationEvent as OrientationEventConstructor
+  return typeof OrientationEvent.requestPermission === 'function' ? 'prompt' : 'granted'
+}
+
+export class EtherealInputController {
+  private target: Window | null = null
+  private rafId: number | null = null
+  private pending: PendingInput | null = null
+  private source: EtherealInputSource | null = null
+  private lastPosition: InputPosition | null = null
+  private lastInputAt = 0
+  private driftStartedAt: number | null = null
+  private restingBeta: number | null = null
+  private lastTilt: { beta: number; gamma: number } | null = null
+  private permission: OrientationPermission = 'unsupported'
+  private readonly drift: ReturnType<typeof createDriftPath>
+
+  constructor(
+    private readonly profile: EtherealInputProfile,
+    private readonly callbacks: EtherealInputCallbacks,
+    private readonly options: EtherealInputOptions = {}
+  ) {
+    this.drift = createDriftPath(profile.drift)
+  }
+
+  get activeSource(): EtherealInputSource | null {
+    return this.source
+  }
+
+  get orientationPermission(): OrientationPermission {
+    return this.permission
+  }
+
+  attach(target: Window = window): void {
+    if (this.target) this.detach()
+
+    this.target = target
+    this.lastInputAt = target.performance.now()
+
+    if (this.enabled('pointer')) {
+      target.addEventListener('pointermove', this.handlePointerMove, { passive: true })
+    }
+    if (this.enabled('touch')) {
+      target.addEventListener('touchstart', this.handleTouch, { passive: true })
+      target.addEventListener('touchmove', this.handleTouch, { passive: true })
+    }
+    if (this.enabled('orientation')) {
+      this.setPermission(getOrientationPermission())
+      if (this.permission === 'granted') {
+        target.addEventListener('deviceorientation', this.handleOrientation, { passive: true })
+      } else if (this.permission === 'prompt' && this.options.autoRequestPermission !== false) {
+        target.addEventListener('touchend', this.handleFirstTap, { passive: true })
+      }
+    }
+    if (this.enabled('drift')) {
+      this.schedule()
+    }
+  }
+
+  detach(): void {
+    const target = this.target
+    if (!target) return
+
+    target.removeEventListener('pointermove', this.handlePointerMove)
+    target.removeEventListener('touchstart', this.handleTouch)
+    target.removeEventListener('touchmove', this.handleTouch)
+    target.removeEventListener('touchend', this.handleFirstTap)
+    target.removeEventListener('deviceorientation', this.handleOrientation)
+
+    if (this.rafId !== null) {
+      target.cancelAnimationFrame(this.rafId)
+      this.rafId = null
+    }
+
+    this.target = null
+    this.pending = null
+  }
+
+  /**
+   * Requests orientation access (must be called from a user gesture on iOS)
+   */
+  async requestOrientationPermission(): Promise<OrientationPermission> {
+    const current = getOrientationPermission()
+    if (current !== 'prompt') {
+      this.setPermission(current)
+      return current
+    }
+
+    try {
+      const OrientationEvent = window.DeviceOrientationEvent as OrientationEventConstructor
+      const result = await OrientationEvent.requestPermission!()
+      this.setPermission(result)
+    } catch (error) {
+      // Rejected outside a user gesture or blocked by the browser
+      this.setPermission('denied')
+    }
+
+    if (this.permission === 'granted' && this.target) {
+      this.target.addEventListener('deviceorientation', this.handleOrientation, { passive: true })
+    }
+    return this.permission
+  }
+
+  private enabled(source: EtherealInputSource): boolean {
+    return this.profile.sources.includes(source)
+  }
+
+  private setPermission(permission: OrientationPermission): void {
+    if (permission === this.permission) return
+    this.permission = permission
+    this.callbacks.onPermissionChange?.(permission)
+  }
+
+  // Positions are resolved against the bounds once per frame, not per event
+  private input(source: EtherealInputSource, resolve: PendingInput['resolve']): void {
+    if (!this.target) return
+
+    this.pending = { source, resolve }
+    this.lastInputAt = this.target.performance.now()
+    this.driftStartedAt = null
+    this.schedule()
+  }
+
+  private schedule(): void {
+    if (!this.target || this.rafId !== null) return
+    this.rafId = this.target.requestAnimationFrame(this.tick)
+  }
+
+  private tick = (now: number): void => {
+    this.rafId = null
+    if (!this.target) return
+
+    if (this.pending) {
+      this.emit(this.pending.resolve(this.getBounds()), this.pending.source)
+      this.pending = null
+    } else if (this.enabled('drift') && now - this.lastInputAt >= this.profile.idleTimeout * 1000) {
+      this.emit(this.sampleDrift(now, this.getBounds()), 'drift')
+    }
+
+    if (this.enabled('drift')) {
+      this.schedule()
+    }
+  }
+
+  private getBounds(): InputBounds {
+    return this.options.getBounds?.() ?? {
+      left: 0,
+      top: 0,
+      width: this.target!.innerWidth,
+      height: this.target!.innerHeight,
+    }
+  }
+
+  private emit(position: InputPosition, source: EtherealInputSource): void {
+    if (source !== 'drift') {
+      this.lastPosition = position
+    }
+    if (source !== this.source) {
+      this.source = source
+      this.callbacks.onSourceChange?.(source)
+    }
+    this.callbacks.onMove(position, source)
+  }
+
+  // Blends from the last real position onto the drift path so the hand-off never jumps
+  private sampleDrift(now: number, { width, height }: InputBounds): InputPosition {
+    if (this.driftStartedAt === null) {
+      this.driftStartedAt = now
+    }
+
+    const target = this.drift(now / 1000, width, height)
+    const from = this.lastPosition ?? { x: width / 2, y: height / 2 }
+    const blend = clamp((now - this.driftStartedAt) / (DRIFT_BLEND * 1000), 0, 1)
+
+    return {
+      x: from.x + (target.x - from.x) * blend,
+      y: from.y + (target.y - from.y) * blend,
+    }
+  }
+
+  private handlePointerMove = (event: PointerEvent): void => {
+    // Touch pointers are cancelled as soon as the page scrolls - touch events handle them
+    if (event.pointerType === 'touch') return
+    const { clientX, clientY } = event
+    this.input('pointer', ({ left, top }) => ({ x: clientX - left, y: clientY - top }))
+  }
+
+  private handleTouch = (event: TouchEvent): void => {
+    const touch = event.touches[0]
+    if (!touch) return
+    const { clientX, clientY } = touch
+    this.input('touch', ({ left, top }) => ({ x: clientX - left, y: clientY - top }))
+  }
+
+  private handleFirstTap = (): void => {
+    this.target?.removeEventListener('touchend', this.handleFirstTap)
+    void this.requestOrientationPermission()
+  }
+
+  private handleOrientation = (event: DeviceOrientationEvent): void => {
+    if (event.beta === null || event.gamma === null) return
+
+    // The first reading is how the device is being held - treat it as neutral
+    if (this.restingBeta === null) {
+      this.restingBeta = event.beta
+    }
+
+    const last = this.lastTilt
+    if (last && Math.abs(event.beta - last.beta) < ORIENTATION_DEADZONE && Math.abs(event.gamma - last.gamma) < ORIENTATION_DEADZONE) {
+      return
+    }
+    const { beta, gamma } = event
+    const restingBeta = this.restingBeta
+    this.lastTilt = { beta, gamma }
+
+    this.input('orientation', ({ width, height }) =>
+      orientationToPosition(beta, gamma, restingBeta, this.profile.orientationRange, width, height)
+    )
+  }
+}
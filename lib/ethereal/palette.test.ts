@@ -0,0 +1,60 @@
+import {
+  applyPalette,
+  interpolateEtherealConfig,
+  mixColorValues,
+  resolveContrastConfig,
+} from './palette'
+import { CONTRAST_PALETTES, ETHEREAL_CONFIG } from '@/config/ethereal.config'
+
+describe('ethereal palettes', () => {
+  it('keeps the base colors for dark mode and without a mode', () => {
+    expect(resolveContrastConfig(ETHEREAL_CONFIG, 'dark')).toBe(ETHEREAL_CONFIG)
+    expect(resolveContrastConfig(ETHEREAL_CONFIG, null)).toBe(ETHEREAL_CONFIG)
+  })
+
+  it('swaps in the palette colors and layer colors', () => {
+    const light = resolveContrastConfig(ETHEREAL_CONFIG, 'light')
+
+    expect(light.colors.background).toBe(CONTRAST_PALETTES.light!.colors!.background)
+    expect(light.gradientLayers[0].colors).toEqual(CONTRAST_PALETTES.light!.layers![0])
+    expect(light.gradientLayers[0].size).toBe(ETHEREAL_CONFIG.gradientLayers[0].size)
+    expect(light.arcConfigurations).toBe(ETHEREAL_CONFIG.arcConfigurations)
+  })
+
+  it('merges partial palettes over the configuration', () => {
+    const config = applyPalette(ETHEREAL_CONFIG, { colors: { glow: 'rgba(255, 255, 255, 0.1)' } })
+
+    expect(config.colors.glow).toBe('rgba(255, 255, 255, 0.1)')
+    expect(config.colors.primary).toBe(ETHEREAL_CONFIG.colors.primary)
+    expect(config.gradientLayers).toBe(ETHEREAL_CONFIG.gradientLayers)
+  })
+
+  it('mixes plain colors and gradients with matching stops', () => {
+    expect(mixColorValues('rgba(0, 0, 0, 1)', 'rgba(200, 100, 50, 0.5)', 0.5)).toBe('rgba(100, 50, 25, 0.75)')
+    expect(mixColorValues(
+      'linear-gradient(135deg, #000000 0%, #ffffff 100%)',
+      'linear-gradient(135deg, #ffffff 0%, #000000 100%)',
+      0.5
+    )).toBe('linear-gradient(135deg, rgba(128, 128, 128, 1) 0%, rgba(128, 128, 128, 1) 100%)')
+  })
+
+  it('switches halfway between gradients that do not line up', () => {
+    const from = 'linear-gradient(135deg, #000000 0%, #ffffff 100%)'
+    const to = 'radial-gradient(circle, #000000 0%, transparent 60%)'
+
+    expect(mixColorValues(from, to, 0.4)).toBe(from)
+    expect(mixColorValues(from, to, 0.6)).toBe(to)
+  })
+
+  it('interpolates every color between two palettes', () => {
+    const light = resolveContrastConfig(ETHEREAL_CONFIG, 'light')
+    const halfway = interpolateEtherealConfig(ETHEREAL_CONFIG, light, 0.5)
+
+    expect(interpolateEtherealConfig(ETHEREAL_CONFIG, light, 0)).toEqual(ETHEREAL_CONFIG)
+    expect(interpolateEtherealConfig(ETHEREAL_CONFIG, light, 1)).toBe(light)
+    expect(halfway.colors.background).toMatch(/^linear-gradient\(135deg, rgba\(/)
+    expect(halfway.colors.background).not.toBe(light.colors.background)
+    expect(halfway.gradientLayers[1].colors.outer).toBe('transparent')
+    expect(halfway.gradientLayers[0].colors.inner).not.toBe(light.gradientLayers[0].colors.inner)
+  })
+})
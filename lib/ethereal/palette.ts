@@ -0,0 +1,119 @@
+/**
+ * Ethereal Palettes
+ * Applies contrast-mode palettes to a configuration and interpolates
+ * between two configurations' colors
+ */
+
+import type { ContrastMode } from '@/types/scroll.types'
+import type {
+  ColorSpace,
+  EtherealColors,
+  EtherealConfig,
+  EtherealPalette,
+  GradientLayer,
+} from '@/types/ethereal.types'
+import { mixColors, parseColor } from './color'
+
+type LayerColors = GradientLayer['colors']
+
+// Hex, rgb()/rgba() and `transparent` tokens inside a CSS value
+const COLOR_TOKEN = /#[\da-f]{3,8}\b|rgba?\([^)]*\)|\btransparent\b/gi
+
+const COLOR_KEYS: (keyof EtherealColors)[] = [
+  'primary',
+  'secondary',
+  'accent',
+  'background',
+  'maskOverlay',
+  'spotlight',
+  'glow',
+]
+
+const LAYER_COLOR_KEYS: (keyof LayerColors)[] = ['inner', 'middle', 'outer']
+
+const tokenize = (value: string) => ({
+  colors: value.match(COLOR_TOKEN) ?? [],
+  skeleton: value.replace(COLOR_TOKEN, '\u0000'),
+})
+
+/**
+ * Mixes two CSS color values - plain colors or gradients
+ * Gradients that only differ in their colors are mixed stop by stop; anything
+ * else (different angles, stop positions or gradient types) switches halfway
+ */
+export function mixColorValues(from: string, to: string, t: number, space: ColorSpace = 'srgb'): string {
+  if (t <= 0 || from === to) return from
+  if (t >= 1) return to
+
+  if (parseColor(from) && parseColor(to)) {
+    return mixColors(from, to, t, space)
+  }
+
+  const start = tokenize(from)
+  const end = tokenize(to)
+  if (start.skeleton !== end.skeleton || start.colors.length !== end.colors.length) {
+    return t < 0.5 ? from : to
+  }
+
+  let index = 0
+  return start.skeleton.replace(/\u0000/g, () => {
+    const color = mixColors(start.colors[index], end.colors[index], t, space)
+    index++
+    return color
+  })
+}
+
+/**
+ * Returns the configuration with a palette's colors swapped in
+ */
+export function applyPalette(config: EtherealConfig, palette: EtherealPalette | undefined): EtherealConfig {
+  if (!palette) return config
+
+  return {
+    ...config,
+    colors: { ...config.colors, ...palette.colors },
+    gradientLayers: palette.layers
+      ? config.gradientLayers.map((layer, index) => ({
+          ...layer,
+          colors: { ...layer.colors, ...palette.layers![index] },
+        }))
+      : config.gradientLayers,
+  }
+}
+
+/**
+ * Configuration to show for a contrast mode
+ * A mode without a palette (or no mode at all) keeps the configuration's own colors
+ */
+export function resolveContrastConfig(config: EtherealConfig, mode: ContrastMode | null): EtherealConfig {
+  return mode ? applyPalette(config, config.contrastPalettes?.[mode]) : config
+}
+
+/**
+ * Interpolates colors and gradient layer colors between two variants of one configuration
+ * Everything else (shapes, timing, arcs) comes from `to`
+ */
+export function interpolateEtherealConfig(from: EtherealConfig, to: EtherealConfig, t: number): EtherealConfig {
+  if (t >= 1 || from === to) return to
+
+  const colors = COLOR_KEYS.reduce((mixed, key) => ({
+    ...mixed,
+    [key]: mixColorValues(from.colors[key], to.colors[key], t),
+  }), { ...to.colors })
+
+  return { ...to, colors, gradientLayers: mixLayers(from, to, t) }
+}
+
+function mixLayers(from: EtherealConfig, to: EtherealConfig, t: number): GradientLayer[] {
+  return to.gradientLayers.map((layer, index) => {
+    const source = from.gradientLayers[index]
+    if (!source) return layer
+
+    const colors = LAYER_COLOR_KEYS.reduce((mixed, key) => ({
+      ...mixed,
+      [key]: mixColorValues(source.colors[key], layer.colors[key], t, layer.colorSpace),
+    }), { ...layer.colors })
+
+    return { ...layer, colors }
+  })
+}
@@ -0,0 +1,45 @@
+import { createEtherealPosterBackground, createEtherealPosterSvg } from './poster'
+import { getSettledTime } from './scene'
+import { ETHEREAL_CONFIG } from '@/config/ethereal.config'
+import { EMBER_CONFIG } from '@/config/ethereal.presets'
+
+describe('ethereal poster', () => {
+  it('is deterministic for the same config and time', () => {
+    const options = { time: 3.2, width: 1200, height: 630 }
+    expect(createEtherealPosterSvg(ETHEREAL_CONFIG, options)).toBe(createEtherealPosterSvg(ETHEREAL_CONFIG, options))
+  })
+
+  it('draws every layer of every arc once the scene has settled', () => {
+    const svg = createEtherealPosterSvg(ETHEREAL_CONFIG, { width: 1200, height: 630 })
+    const layerCount = ETHEREAL_CONFIG.arcConfigurations.length * ETHEREAL_CONFIG.gradientLayers.length
+
+    expect(svg).toMatch(/^<svg [^>]*viewBox="0 0 1200 630"/)
+    expect(svg.match(/<radialGradient /g)).toHaveLength(layerCount)
+    expect(svg.match(/<g opacity=/g)).toHaveLength(ETHEREAL_CONFIG.arcConfigurations.length)
+  })
+
+  it('leaves out arcs that have not entered yet', () => {
+    expect(createEtherealPosterSvg(ETHEREAL_CONFIG, { time: 0 })).not.toContain('<g opacity=')
+    expect(createEtherealPosterSvg(ETHEREAL_CONFIG, { time: 0.5 }).match(/<g opacity=/g)).toHaveLength(2)
+  })
+
+  it('changes with the morph phase', () => {
+    const settled = getSettledTime(ETHEREAL_CONFIG)
+    expect(createEtherealPosterSvg(ETHEREAL_CONFIG, { time: settled + 2 }))
+      .not.toBe(createEtherealPosterSvg(ETHEREAL_CONFIG, { time: settled }))
+  })
+
+  it('converts the configured background into an SVG fill', () => {
+    const svg = createEtherealPosterSvg(EMBER_CONFIG)
+    expect(svg).toContain('<linearGradient id="ethereal-background"')
+    expect(svg).toContain('stop-color="rgb(35, 13, 10)"')
+  })
+
+  it('adds the scroll mask when requested', () => {
+    expect(createEtherealPosterSvg(ETHEREAL_CONFIG, { maskOpacity: 0.5 })).toContain('opacity="0.5"/></svg>')
+  })
+
+  it('produces a CSS background value', () => {
+    expect(createEtherealPosterBackground(ETHEREAL_CONFIG)).toMatch(/^url\("data:image\/svg\+xml,%3Csvg.*"\) center \/ cover no-repeat$/)
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Ethereal Poster Generator
+ * Deterministic "frozen frame" of the ethereal background as a standalone SVG,
+ * for OG images, email headers, no-JS visitors and the pre-hydration paint
+ */
+
+import type { EtherealConfig } from '@/types/ethereal.types'
+import { parseColor, parseGradientStops, type GradientStop } from './color'
+import { sampleGradientLayer } from './gradient-compiler'
+import {
+  DEFAULT_LAYER_STOPS,
+  getSettledTime,
+  resolveArcAppearance,
+  resolveLayerEllipse,
+  sortArcs,
+} from './scene'
+
+export interface EtherealPosterOptions {
+  /** Seconds since the scene started (default: the moment every arc has entered) */
+  time?: number
+  /** Viewport width in pixels (default 1440) */
+  width?: number
+  /** Viewport height in pixels (default 900) */
+  height?: number
+  /** Opacity of the dark scroll mask (default 0) */
+  maskOpacity?: number
+}
+
+const DEFAULT_WIDTH = 1440
+const DEFAULT_HEIGHT = 900
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// SVG paint servers don't reliably accept rgba(), so split color and opacity
+const svgStop = ({ offset, color }: GradientStop): string => {
+  const parsed = parseColor(color) ?? { r: 0, g: 0, b: 0, a: 0 }
+  const rgb = `rgb(${Math.round(parsed.r)}, ${Math.round(parsed.g)}, ${Math.round(parsed.b)})`
+  return `<stop offset="${round(offset)}" stop-color="${rgb}" stop-opacity="${round(parsed.a * 1000) / 1000}"/>`
+}
+
+/**
+ * Converts a CSS background (solid color or linear-gradient) into an SVG fill
+ * Returns the fill attribute value and any gradient definition it needs
+ */
+function backgroundFill(background: string, width: number, height: number): { fill: string; def: string } {
+  const solid = parseColor(background)
+  if (solid) {
+    return { fill: background, def: '' }
+  }
+
+  const stops = background.trim().startsWith('linear-gradient') ? parseGradientStops(background) : []
+  if (stops.length === 0) {
+    return { fill: 'black', def: '' }
+  }
+
+  // CSS angles start at "to top" and run clockwise; the gradient line spans the box corners
+  const angleMatch = /(-?[\d.]+)deg/.exec(background)
+  const angle = ((angleMatch ? Number(angleMatch[1]) : 180) * Math.PI) / 180
+  const dx = Math.sin(angle)
+  const dy = -Math.cos(angle)
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2
+
+  const def = [
+    `<linearGradient id="ethereal-background" gradientUnits="userSpaceOnUse"`,
+    ` x1="${round(width / 2 - dx * half)}" y1="${round(height / 2 - dy * half)}"`,
+    ` x2="${round(width / 2 + dx * half)}" y2="${round(height / 2 + dy * half)}">`,
+    ...stops.map(svgStop),
+    '</linearGradient>',
+  ].join('')
+
+  return { fill: 'url(#ethereal-background)', def }
+}
+
+/**
+ * Renders the composed arcs and gradients at a moment in time as an SVG document
+ * Pure and deterministic: the same config and options always yield the same string
+ */
+export function createEtherealPosterSvg(config: EtherealConfig, options: EtherealPosterOptions = {}): string {
+  const width = options.width ?? DEFAULT_WIDTH
+  const height = options.height ?? DEFAULT_HEIGHT
+  const time = options.time ?? getSettledTime(config)
+  const maskOpacity = Math.max(0, Math.min(1, options.maskOpacity ?? 0))
+
+  const defs: string[] = []
+  const body: string[] = []
+
+  const background = backgroundFill(config.colors.background, width, height)
+  defs.push(background.def)
+  body.push(`<rect width="${width}" height="${height}" fill="${background.fill}"/>`)
+
+  // Layer morph states are shared by every arc
+  const states = config.gradientLayers.map(layer => sampleGradientLayer(layer, time))
+
+  sortArcs(config.arcConfigurations).forEach((arc, arcIndex) => {
+    const { opacity, scale } = resolveArcAppearance(arc, time, config.timing.arcDuration)
+    if (opacity <= 0) return
+
+    const rects = config.gradientLayers.map((layer, layerIndex) => {
+      const id = `ethereal-arc-${arcIndex}-${layerIndex}`
+      const [innerStop, middleStop, outerStop, fadeStop] = layer.stops ?? DEFAULT_LAYER_STOPS
+      const { colors } = states[layerIndex]
+      const { box, cx, cy, rx, ry } = resolveLayerEllipse(states[layerIndex], layer, width, height)
+
+      defs.push([
+        `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="0" cy="0" r="1"`,
+        ` gradientTransform="translate(${round(cx)} ${round(cy)}) scale(${round(rx)} ${round(ry)})">`,
+        svgStop({ offset: innerStop / 100, color: colors.inner }),
+        svgStop({ offset: middleStop / 100, color: colors.middle }),
+        svgStop({ offset: outerStop / 100, color: colors.outer }),
+        svgStop({ offset: fadeStop / 100, color: 'transparent' }),
+        '</radialGradient>',
+      ].join(''))
+
+      return `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" fill="url(#${id})"/>`
+    })
+
+    // Arcs scale around the viewport center, like the DOM arcs
+    const transform = `translate(${width / 2} ${height / 2}) scale(${round(scale * 1000) / 1000}) translate(${-width / 2} ${-height / 2})`
+    body.push(`<g opacity="${round(opacity * 1000) / 1000}" transform="${transform}">${rects.join('')}</g>`)
+  })
+
+  // Static bottom-up darkening overlay
+  defs.push([
+    `<linearGradient id="ethereal-overlay" x1="0" y1="1" x2="0" y2="0">`,
+    svgStop({ offset: 0, color: 'rgba(0, 0, 0, 0.5)' }),
+    svgStop({ offset: 1, color: 'transparent' }),
+    '</linearGradient>',
+  ].join(''))
+  body.push(`<rect width="${width}" height="${height}" fill="url(#ethereal-overlay)"/>`)
+
+  if (maskOpacity > 0) {
+    body.push(`<rect width="${width}" height="${height}" fill="${config.colors.maskOverlay}" opacity="${maskOpacity}"/>`)
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" preserveAspectRatio="xMidYMid slice">`,
+    `<defs>${defs.join('')}</defs>`,
+    ...body,
+    '</svg>',
+  ].join('')
+}
+
+/**
+ * Poster as a CSS `background` value (an inline SVG data URI that covers the element)
+ */
+export function createEtherealPosterBackground(config: EtherealConfig, options: EtherealPosterOptions = {}): string {
+  const svg = createEtherealPosterSvg(config, options)
+  return `url("data:image/svg+xml,${encodeURIComponent(svg)}") center / cover no-repeat`
+}
@@ -0,0 +1,85 @@
+import {
+  createNebulaColorMatrix,
+  generateStars,
+  getActivePrimitives,
+  getBackgroundZIndex,
+  getBandDepth,
+  getNebulaDrift,
+  getOrbitDashOffset,
+  getTwinkleOpacity,
+} from './primitives'
+import { ETHEREAL_CONFIG, STARFIELD_CONFIG } from '@/config/ethereal.config'
+import { ZLayers } from '@/types/scroll.types'
+
+describe('background primitives', () => {
+  it('places the same stars for the same seed', () => {
+    const stars = generateStars(STARFIELD_CONFIG)
+
+    expect(stars).toHaveLength(STARFIELD_CONFIG.count)
+    expect(generateStars(STARFIELD_CONFIG)).toEqual(stars)
+    expect(generateStars({ ...STARFIELD_CONFIG, seed: 8 })).not.toEqual(stars)
+
+    stars.forEach(star => {
+      expect(star.x).toBeGreaterThanOrEqual(0)
+      expect(star.x).toBeLessThan(100)
+      expect(star.size).toBeGreaterThanOrEqual(STARFIELD_CONFIG.size[0])
+      expect(star.size).toBeLessThanOrEqual(STARFIELD_CONFIG.size[1])
+      expect(star.band).toBeLessThan(STARFIELD_CONFIG.layers)
+    })
+  })
+
+  it('moves far bands less than near ones', () => {
+    expect(getBandDepth(0, 3)).toBeCloseTo(1 / 3)
+    expect(getBandDepth(2, 3)).toBe(1)
+    expect(getBandDepth(0, 1)).toBe(1)
+  })
+
+  it('twinkles below the resting brightness and back', () => {
+    const star = { x: 0, y: 0, size: 1, band: 0, brightness: 0.8, duration: 4, phase: 0 }
+
+    expect(getTwinkleOpacity(star, 0, 0.5)).toBeCloseTo(0.8)
+    expect(getTwinkleOpacity(star, 2, 0.5)).toBeCloseTo(0.4)
+    expect(getTwinkleOpacity(star, 4, 0.5)).toBeCloseTo(0.8)
+    expect(getTwinkleOpacity(star, 2, 0)).toBeCloseTo(0.8)
+  })
+
+  it('drifts the nebula around its rest position', () => {
+    const drift = { duration: 40, distance: 20 }
+
+    expect(getNebulaDrift(0, drift)).toEqual({ x: 0, y: 0 })
+    expect(getNebulaDrift(10, drift).x).toBeCloseTo(20)
+    expect(getNebulaDrift(40, drift).x).toBeCloseTo(0)
+    expect(getNebulaDrift(10, { duration: 0, distance: 20 })).toEqual({ x: 0, y: 0 })
+  })
+
+  it('tints noise with a color above the threshold', () => {
+    const values = createNebulaColorMatrix('rgba(255, 0, 0, 0.5)', 0.5).split(' ').map(Number)
+
+    expect(values.slice(0, 5)).toEqual([0, 0, 0, 0, 1])
+    // alpha = noise * 1 - 0.5: transparent at the threshold, 0.5 at full noise
+    expect(values.slice(15)).toEqual([1, 0, 0, 0, -0.5])
+  })
+
+  it('moves dashes around a ring once per period', () => {
+    expect(getOrbitDashOffset(0, 10)).toBe(0)
+    expect(getOrbitDashOffset(2.5, 10)).toBeCloseTo(-25)
+    expect(getOrbitDashOffset(2.5, -10)).toBeCloseTo(25)
+    expect(getOrbitDashOffset(12.5, 10)).toBeCloseTo(-25)
+    expect(getOrbitDashOffset(5, 0)).toBe(0)
+  })
+
+  it('stacks enabled primitives inside the background layer', () => {
+    expect(getActivePrimitives(ETHEREAL_CONFIG)).toEqual([])
+
+    const config = {
+      ...ETHEREAL_CONFIG,
+      starfield: { ...ETHEREAL_CONFIG.starfield, enabled: true, zIndex: 15 },
+      orbitRings: { ...ETHEREAL_CONFIG.orbitRings, enabled: true, zIndex: 5 },
+    }
+    expect(getActivePrimitives(config)).toEqual([
+      { name: 'orbitRings', zIndex: ZLayers.BACKGROUND + 5 },
+      { name: 'starfield', zIndex: ZLayers.BACKGROUND + 15 },
+    ])
+    expect(getBackgroundZIndex(500)).toBeLessThan(ZLayers.CONTENT_BASE)
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * Background Primitives
+ * Framework-free geometry for the starfield, nebula and orbit rings: seeded
+ * star placement, twinkle and drift curves, noise tinting and stacking inside
+ * the background z-layer
+ */
+
+import type {
+  BackgroundPrimitiveName,
+  EtherealConfig,
+  NebulaConfig,
+  StarfieldConfig,
+} from '@/types/ethereal.types'
+import { ZLayers } from '@/types/scroll.types'
+import { createSeededRandom } from './clock'
+import { parseColor } from './color'
+
+export interface Star {
+  /** Position in percent of the scene */
+  x: number
+  y: number
+  /** Diameter in pixels */
+  size: number
+  /** Depth band, 0 (farthest) to `layers - 1` (nearest) */
+  band: number
+  /** Resting brightness (0-1) */
+  brightness: number
+  /** Seconds per twinkle cycle */
+  duration: number
+  /** Where in its cycle the star starts (0-1) */
+  phase: number
+}
+
+/** Every primitive, in the order they paint when their zIndex ties */
+export const BACKGROUND_PRIMITIVE_NAMES: BackgroundPrimitiveName[] = ['starfield', 'nebula', 'orbitRings']
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+const lerp = (from: number, to: number, amount: number) => from + (to - from) * amount
+
+/**
+ * Places the starfield's stars - the same seed always gives the same sky
+ * Nearer bands get the larger stars
+ */
+export function generateStars(config: StarfieldConfig): Star[] {
+  const random = createSeededRandom(config.seed)
+  const layers = Math.max(1, Math.floor(config.layers))
+  const [minSize, maxSize] = config.size
+  const [minDuration, maxDuration] = config.twinkle.duration
+
+  return Array.from({ length: Math.max(0, Math.floor(config.count)) }, () => {
+    const band = Math.min(layers - 1, Math.floor(random() * layers))
+    const depth = layers > 1 ? band / (layers - 1) : 1
+
+    return {
+      x: random() * 100,
+      y: random() * 100,
+      size: lerp(minSize, maxSize, clamp01(depth * 0.6 + random() * 0.4)),
+      band,
+      brightness: lerp(0.5, 1, random()),
+      duration: lerp(minDuration, maxDuration, random()),
+      phase: random(),
+    }
+  })
+}
+
+/**
+ * Share of the primitive's parallax and scroll depth a band moves by
+ * The farthest band moves a third as much as the nearest
+ */
+export function getBandDepth(band: number, layers: number): number {
+  if (layers <= 1) return 1
+  return lerp(1 / 3, 1, band / (layers - 1))
+}
+
+/**
+ * Opacity of a star `time` seconds in - a cosine dip of `amount` below its brightness
+ */
+export function getTwinkleOpacity(star: Star, time: number, amount: number): number {
+  if (star.duration <= 0) return star.brightness
+  const cycle = time / star.duration + star.phase
+  const dip = (1 - Math.cos(cycle * Math.PI * 2)) / 2
+  return star.brightness * (1 - clamp01(amount) * dip)
+}
+
+/**
+ * Offset of the nebula clouds `time` seconds into their drift loop
+ * A 1:2 Lissajous figure, so the clouds wander instead of sliding back and forth
+ */
+export function getNebulaDrift(time: number, drift: NebulaConfig['drift']): { x: number; y: number } {
+  if (drift.duration <= 0 || drift.distance === 0) return { x: 0, y: 0 }
+  const angle = (time / drift.duration) * Math.PI * 2
+  return {
+    x: Math.sin(angle) * drift.distance,
+    y: Math.sin(angle * 2) * drift.distance * 0.5,
+  }
+}
+
+/**
+ * feColorMatrix values that paint a noise field in one color
+ * Noise below `threshold` is transparent, full noise reaches the color's alpha
+ */
+export function createNebulaColorMatrix(color: string, threshold: number): string {
+  const { r, g, b, a } = parseColor(color) ?? { r: 255, g: 255, b: 255, a: 1 }
+  // Stretch [threshold, 1] of the noise's red channel onto [0, a]
+  const gain = a / Math.max(0.01, 1 - clamp01(threshold))
+  const round = (value: number) => Number(value.toFixed(4))
+
+  return [
+    [0, 0, 0, 0, round(r / 255)],
+    [0, 0, 0, 0, round(g / 255)],
+    [0, 0, 0, 0, round(b / 255)],
+    [round(gain), 0, 0, 0, round(-gain * clamp01(threshold))],
+  ].map(row => row.join(' ')).join(' ')
+}
+
+/**
+ * Dash offset of a ring `time` seconds in, as a percentage of its length
+ */
+export function getOrbitDashOffset(time: number, period: number): number {
+  if (period === 0) return 0
+  const offset = ((time / Math.abs(period)) % 1) * 100
+  // Dashes travel forward along the ring as the offset falls
+  return period > 0 ? 0 - offset : offset
+}
+
+/**
+ * Absolute z-index of a primitive - always inside the background layer,
+ * beneath every content section
+ */
+export function getBackgroundZIndex(zIndex: number): number {
+  return ZLayers.BACKGROUND + Math.max(0, Math.min(ZLayers.CONTENT_BASE - ZLayers.BACKGROUND - 1, Math.round(zIndex)))
+}
+
+/**
+ * Enabled primitives in paint order (lowest zIndex first), with their absolute z-index
+ */
+export function getActivePrimitives(config: EtherealConfig): { name: BackgroundPrimitiveName; zIndex: number }[] {
+  return BACKGROUND_PRIMITIVE_NAMES
+    .filter(name => config[name]?.enabled)
+    .map(name => ({ name, zIndex: getBackgroundZIndex(config[name].zIndex) }))
+    .sort((a, b) => a.zIndex - b.zIndex)
+}
@@ -0,0 +1,100 @@
+import { findQualityTier, limitArcs, QualityGovernor } from './quality'
+import { ARC_CONFIGURATIONS, QUALITY_CONFIG } from '@/config/ethereal.config'
+import type { QualityConfig } from '@/types/ethereal.types'
+
+describe('quality governor', () => {
+  const config: QualityConfig = {
+    ...QUALITY_CONFIG,
+    downgradeFps: 48,
+    upgradeFps: 57,
+    downgradeAfter: 2,
+    upgradeAfter: 3,
+    cooldown: 1,
+  }
+
+  const feed = (governor: QualityGovernor, fps: number, samples: number) => {
+    for (let i = 0; i < samples; i++) governor.sample(fps)
+    return governor.tierIndex
+  }
+
+  it('steps down one tier after sustained low frame rates', () => {
+    const governor = new QualityGovernor(config)
+
+    expect(feed(governor, 30, 1)).toBe(0)
+    expect(feed(governor, 30, 1)).toBe(1)
+    expect(governor.tier.name).toBe('balanced')
+  })
+
+  it('ignores single dips and frame rates inside the band', () => {
+    const governor = new QualityGovernor(config)
+
+    governor.sample(30)
+    governor.sample(60)
+    governor.sample(30)
+    expect(governor.tierIndex).toBe(0)
+
+    expect(feed(governor, 52, 20)).toBe(0)
+  })
+
+  it('waits out the cooldown after a change', () => {
+    const governor = new QualityGovernor(config)
+
+    feed(governor, 30, 2)
+    // The first low sample after the change is ignored, then two more are needed
+    expect(feed(governor, 30, 2)).toBe(1)
+    expect(feed(governor, 30, 1)).toBe(2)
+  })
+
+  it('steps back up when headroom returns', () => {
+    const governor = new QualityGovernor(config, 2)
+
+    expect(feed(governor, 60, 2)).toBe(2)
+    expect(feed(governor, 60, 1)).toBe(1)
+  })
+
+  it('never leaves the tier range', () => {
+    const governor = new QualityGovernor(config, 10)
+
+    expect(governor.tierIndex).toBe(config.tiers.length - 1)
+    expect(feed(governor, 10, 20)).toBe(config.tiers.length - 1)
+    expect(feed(governor, 60, 200)).toBe(0)
+  })
+
+  it('waits longer before retrying an upgrade that did not hold', () => {
+    const governor = new QualityGovernor(config, 1)
+
+    feed(governor, 60, 4)
+    expect(governor.tierIndex).toBe(0)
+    feed(governor, 30, 3)
+    expect(governor.tierIndex).toBe(1)
+
+    // The retry now needs twice the good samples
+    expect(feed(governor, 60, 1 + 3)).toBe(1)
+    expect(feed(governor, 60, 3)).toBe(0)
+  })
+
+  it('resets to a forced tier', () => {
+    const governor = new QualityGovernor(config)
+    feed(governor, 30, 1)
+
+    governor.reset(3)
+    expect(governor.tierIndex).toBe(3)
+    expect(feed(governor, 30, 1)).toBe(3)
+  })
+
+  it('looks up tiers and limits arcs', () => {
+    expect(findQualityTier(QUALITY_CONFIG, 'reduced')).toBe(2)
+    expect(findQualityTier(QUALITY_CONFIG, 'unknown')).toBe(-1)
+
+    expect(limitArcs(ARC_CONFIGURATIONS, QUALITY_CONFIG.tiers[0])).toBe(ARC_CONFIGURATIONS)
+    expect(limitArcs(ARC_CONFIGURATIONS, QUALITY_CONFIG.tiers[2])).toEqual(ARC_CONFIGURATIONS.slice(0, 2))
+  })
+
+  it('gives up one more thing per tier', () => {
+    const cost = (tier: (typeof QUALITY_CONFIG.tiers)[number]) =>
+      [tier.morph, tier.maxArcs === undefined, tier.effects, tier.spotlight, tier.scrollEffects].filter(Boolean).length
+
+    const costs = QUALITY_CONFIG.tiers.map(cost)
+    costs.slice(1).forEach((value, index) => expect(value).toBeLessThan(costs[index]))
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Quality Governor
+ * Steps through quality tiers from FPS samples, with hysteresis: separate
+ * down/up thresholds, sustained-sample requirements, a settle cooldown after
+ * every change and a growing delay for upgrades that didn't hold
+ */
+
+import type { QualityConfig, QualityTier } from '@/types/ethereal.types'
+
+/** Longest an upgrade delay can grow to, as a multiple of `upgradeAfter` */
+const MAX_UPGRADE_BACKOFF = 8
+
+/**
+ * Finds a tier's index by name (-1 when unknown)
+ */
+export function findQualityTier(config: QualityConfig, name: string): number {
+  return config.tiers.findIndex(tier => tier.name === name)
+}
+
+/**
+ * Arcs a tier keeps - the first `maxArcs` of the configuration
+ */
+export function limitArcs<T>(arcs: T[], tier: QualityTier): T[] {
+  return tier.maxArcs === undefined ? arcs : arcs.slice(0, Math.max(0, tier.maxArcs))
+}
+
+export class QualityGovernor {
+  private level: number
+  private lowSamples = 0
+  private goodSamples = 0
+  private settling = 0
+  private backoff = 1
+  /** Samples since the last upgrade, until it has held long enough to count */
+  private sinceUpgrade: number | null = null
+
+  constructor(private readonly config: QualityConfig, initialLevel: number = 0) {
+    this.level = this.clamp(initialLevel)
+  }
+
+  /** Current tier index (0 is the best) */
+  get tierIndex(): number {
+    return this.level
+  }
+
+  get tier(): QualityTier {
+    return this.config.tiers[this.level]
+  }
+
+  /**
+   * Feeds one FPS sample and returns the (possibly changed) tier index
+   */
+  sample(fps: number): number {
+    const { downgradeFps, upgradeFps, downgradeAfter, upgradeAfter } = this.config
+
+    // An upgrade that has held for a long while clears the backoff
+    if (this.sinceUpgrade !== null && ++this.sinceUpgrade > upgradeAfter * MAX_UPGRADE_BACKOFF) {
+      this.backoff = 1
+      this.sinceUpgrade = null
+    }
+
+    if (this.settling > 0) {
+      this.settling--
+      return this.level
+    }
+
+    if (fps < downgradeFps) {
+      this.lowSamples++
+      this.goodSamples = 0
+    } else if (fps >= upgradeFps) {
+      this.goodSamples++
+      this.lowSamples = 0
+    } else {
+      // Inside the band - neither direction builds up
+      this.lowSamples = 0
+      this.goodSamples = 0
+    }
+
+    if (this.lowSamples >= downgradeAfter && this.level < this.config.tiers.length - 1) {
+      // Dropping soon after an upgrade means the better tier can't be held yet
+      if (this.sinceUpgrade !== null) {
+        this.backoff = Math.min(MAX_UPGRADE_BACKOFF, this.backoff * 2)
+        this.sinceUpgrade = null
+      }
+      this.change(this.level + 1)
+    } else if (this.goodSamples >= upgradeAfter * this.backoff && this.level > 0) {
+      this.change(this.level - 1)
+      this.sinceUpgrade = 0
+    }
+
+    return this.level
+  }
+
+  /**
+   * Jumps to a tier (e.g. a manual override) and restarts the counters
+   */
+  reset(level: number = 0): void {
+    this.level = this.clamp(level)
+    this.lowSamples = 0
+    this.goodSamples = 0
+    this.settling = 0
+    this.backoff = 1
+    this.sinceUpgrade = null
+  }
+
+  private change(level: number): void {
+    this.level = this.clamp(level)
+    this.lowSamples = 0
+    this.goodSamples = 0
+    this.settling = this.config.cooldown
+  }
+
+  private clamp(level: number): number {
+    return Math.max(0, Math.min(this.config.tiers.length - 1, Math.round(level)))
+  }
+}
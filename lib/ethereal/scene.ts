@@ -0,0 +1,88 @@
+/**
+ * Ethereal Scene Geometry
+ * Framework-free description of where arcs and gradient layers sit at a given
+ * moment, shared by the canvas renderer and the static poster generator
+ */
+
+import type { ArcConfiguration, EtherealConfig, GradientLayer } from '@/types/ethereal.types'
+import { easeOut } from './easing'
+import type { GradientState } from './gradient-compiler'
+
+/** Arcs enter from this scale (mirrors CelestialArc's `initial`) */
+export const ENTRANCE_SCALE = 0.8
+
+export const DEFAULT_LAYER_EXTENT = 200
+export const DEFAULT_LAYER_STOPS: [number, number, number, number] = [0, 25, 50, 70]
+
+export interface ArcAppearance {
+  opacity: number
+  scale: number
+}
+
+export interface Ellipse {
+  cx: number
+  cy: number
+  rx: number
+  ry: number
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+// Resolves a CSS length ("80%", "120px") against a reference size
+export const resolveLength = (value: string, reference: number): number => {
+  const amount = parseFloat(value)
+  if (Number.isNaN(amount)) return 0
+  return value.trim().endsWith('%') ? (amount / 100) * reference : amount
+}
+
+/**
+ * Opacity and scale of an arc `time` seconds into its eased entrance
+ */
+export function resolveArcAppearance(arc: ArcConfiguration, time: number, arcDuration: number): ArcAppearance {
+  const progress = arcDuration > 0 ? clamp01((time - arc.delay) / arcDuration) : 1
+  const entrance = easeOut(progress)
+
+  return {
+    opacity: arc.opacity * entrance,
+    scale: ENTRANCE_SCALE + (arc.scale - ENTRANCE_SCALE) * entrance,
+  }
+}
+
+/**
+ * First moment at which every arc has finished entering
+ */
+export function getSettledTime(config: EtherealConfig): number {
+  const lastDelay = Math.max(0, ...config.arcConfigurations.map(arc => arc.delay))
+  return lastDelay + config.timing.arcDuration
+}
+
+/**
+ * Arcs in paint order (lowest zIndex first)
+ */
+export function sortArcs(arcs: ArcConfiguration[]): ArcConfiguration[] {
+  return [...arcs].sort((a, b) => a.zIndex - b.zIndex)
+}
+
+/**
+ * Gradient ellipse of a layer within an arc of the given size
+ *
+ * Mirrors the DOM layer box: `extent`% of the arc, offset by -50% on both axes,
+ * with the ellipse size and position resolved against that box.
+ */
+export function resolveLayerEllipse(
+  state: GradientState,
+  layer: GradientLayer,
+  width: number,
+  height: number
+): Ellipse & { box: { x: number; y: number; width: number; height: number } } {
+  const extent = (layer.extent ?? DEFAULT_LAYER_EXTENT) / 100
+  const box = { x: -0.5 * width, y: -0.5 * height, width: extent * width, height: extent * height }
+
+  return {
+    box,
+    cx: box.x + resolveLength(state.position[0], box.width),
+    cy: box.y + resolveLength(state.position[1], box.height),
+    rx: Math.max(1, resolveLength(state.size[0], box.width)),
+    ry: Math.max(1, resolveLength(state.size[1], box.height)),
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  createSectionRectLookup,
+  EtherealSpotlightController,
+  resolveAnchorPosition,
+  resolveSpotlightSprites,
+  type SpotlightInput,
+} from './spotlight'
+import { SPOTLIGHT_CONFIG } from '@/config/ethereal.config'
+import type { EtherealSpotlightConfig } from '@/types/ethereal.types'
+import type { Section } from '@/types/scroll.types'
+
+describe('ethereal spotlights', () => {
+  const input: SpotlightInput = { pointer: { x: 100, y: 200 }, width: 1000, height: 800 }
+
+  const config: EtherealSpotlightConfig = {
+    ...SPOTLIGHT_CONFIG,
+    lights: [
+      { id: 'cursor', anchor: { type: 'cursor' }, trail: { count: 2, length: 0.2 } },
+      { id: 'ambient', anchor: { type: 'wander', speed: 0.2, amplitude: 0.3 }, blendMode: 'soft-light', size: 800 },
+      { id: 'hero', anchor: { type: 'section', sectionId: 'hero', x: 0.25 }, gradient: 'radial-gradient(circle, red 0%, transparent 70%)' },
+    ],
+    pulse: { enabled: true, duration: 1, size: 600, maxPulses: 2 },
+  }
+
+  it('ships a single cursor light', () => {
+    const sprites = resolveSpotlightSprites(SPOTLIGHT_CONFIG)
+
+    expect(sprites).toHaveLength(1)
+    expect(sprites[0]).toMatchObject({ key: 'cursor', kind: 'light', size: 400, blur: '1px', blendMode: 'screen' })
+    expect(new EtherealSpotlightController(SPOTLIGHT_CONFIG).sample(0, input))
+      .toEqual([{ x: 100, y: 200, scale: 1, opacity: 1 }])
+  })
+
+  it('lays out trails below their light and pulses on top', () => {
+    const sprites = resolveSpotlightSprites(config)
+
+    expect(sprites.map(sprite => sprite.key)).toEqual([
+      'cursor:trail-2', 'cursor:trail-1', 'cursor', 'ambient', 'hero', 'pulse-0', 'pulse-1',
+    ])
+    expect(sprites[3]).toMatchObject({ size: 800, blendMode: 'soft-light', gradient: undefined })
+    expect(sprites[4].gradient).toContain('red')
+  })
+
+  it('resolves wander and section anchors', () => {
+    const [, ambient, hero] = config.lights
+
+    const start = resolveAnchorPosition(ambient, 0, input)
+    const later = resolveAnchorPosition(ambient, 5, input)
+    expect(later).not.toEqual(start)
+    expect(resolveAnchorPosition(ambient, 5, { ...input, reducedMotion: true })).toEqual(start)
+
+    expect(resolveAnchorPosition(hero, 0, input)).toBeNull()
+    expect(resolveAnchorPosition(hero, 0, {
+      ...input,
+      getSectionRect: () => ({ left: 0, top: -100, width: 400, height: 600 }),
+    })).toEqual({ x: 100, y: 200 })
+  })
+
+  it('hides the light of a section that is not on the page', () => {
+    const states = new EtherealSpotlightController(config).sample(0, input)
+    expect(states[4].opacity).toBe(0)
+  })
+
+  it('trails behind a moving light and fades out at rest', () => {
+    const controller = new EtherealSpotlightController(config)
+
+    controller.sample(0, input)
+    expect(controller.sample(0.05, input)[0].opacity).toBe(0)
+
+    controller.sample(0.1, { ...input, pointer: { x: 300, y: 200 } })
+    const [oldest, newest, light] = controller.sample(0.2, { ...input, pointer: { x: 500, y: 200 } })
+
+    expect(light.x).toBe(500)
+    expect(newest.x).toBeCloseTo(300)
+    expect(oldest.x).toBeCloseTo(100)
+    expect(newest.opacity).toBeGreaterThan(oldest.opacity)
+    expect(oldest.scale).toBeLessThan(newest.scale)
+
+    controller.sample(1, { ...input, pointer: { x: 500, y: 200 } })
+    const resting = controller.sample(1.5, { ...input, pointer: { x: 500, y: 200 } })
+    expect(resting[0].opacity).toBe(0)
+    expect(resting[1].opacity).toBe(0)
+  })
+
+  it('expands and fades click pulses, recycling the oldest', () => {
+    const controller = new EtherealSpotlightController(config)
+    const pulses = (time: number) => controller.sample(time, input).slice(5)
+
+    expect(pulses(0).every(pulse => pulse.opacity === 0)).toBe(true)
+
+    controller.pulse(10, 20, 1)
+    const [first] = pulses(1.5)
+    expect(first).toMatchObject({ x: 10, y: 20, opacity: 0.5 })
+    expect(first.scale).toBeGreaterThan(0.5)
+    expect(pulses(2)[0].opacity).toBe(0)
+
+    controller.pulse(30, 40, 2)
+    controller.pulse(50, 60, 2)
+    expect(pulses(2.1).map(pulse => pulse.x)).toEqual([50, 30])
+  })
+
+  it('ignores pulses when they are disabled', () => {
+    const controller = new EtherealSpotlightController(SPOTLIGHT_CONFIG)
+    controller.pulse(10, 20, 0)
+    expect(controller.sample(0.1, input)).toHaveLength(1)
+  })
+})
+
+describe('section rect lookup', () => {
+  const origin = { left: 10, top: 20 }
+
+  const createSectionElement = (sectionId: string, rect: Partial<DOMRect>) => {
+    const element = document.createElement('section')
+    element.setAttribute('data-section-id', sectionId)
+    element.getBoundingClientRect = () => ({ left: 0, top: 0, width: 0, height: 0, ...rect }) as DOMRect
+    document.body.appendChild(element)
+    return element
+  }
+
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('finds sections whose ids need escaping', () => {
+    createSectionElement('say "hi"', { left: 30, top: 50, width: 100, height: 200 })
+    const findSectionRect = createSectionRectLookup()
+
+    expect(findSectionRect('say "hi"', origin)).toEqual({ left: 20, top: 30, width: 100, height: 200 })
+    expect(findSectionRect('missing', origin)).toBeNull()
+  })
+
+  it('prefers registered section elements and keeps found ones', () => {
+    const registered = createSectionElement('hero', { left: 10, top: 20, width: 50, height: 60 })
+    createSectionElement('about', { top: 120 })
+    const sections = new Map([['hero', { id: 'hero', element: registered } as Section]])
+    const findSectionRect = createSectionRectLookup(() => sections)
+    const query = jest.spyOn(document, 'querySelector')
+
+    expect(findSectionRect('hero', origin)).toEqual({ left: 0, top: 0, width: 50, height: 60 })
+    findSectionRect('about', origin)
+    findSectionRect('about', origin)
+    expect(query).toHaveBeenCalledTimes(1)
+
+    query.mockRestore()
+  })
+})
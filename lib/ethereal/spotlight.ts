@@ -0,0 +1,309 @@
+/**
+ * Ethereal Spotlights
+ * Resolves the configured lights, their trails and click pulses into a fixed
+ * list of sprites, and samples where each sprite is at a given moment.
+ * Renderer-agnostic: the DOM spotlight and the canvas renderer draw the same sprites.
+ */
+
+import type {
+  EtherealSpotlightConfig,
+  SpotlightBlendMode,
+  SpotlightLight,
+} from '@/types/ethereal.types'
+import type { Section } from '@/types/scroll.types'
+import { easeOut } from './easing'
+import { createDriftPath, type InputBounds, type InputPosition } from './input'
+
+export type SpotlightSpriteKind = 'light' | 'trail' | 'pulse'
+
+/** Static description of one drawn spotlight element */
+export interface SpotlightSprite {
+  key: string
+  kind: SpotlightSpriteKind
+  /** Light the sprite belongs to (null for pulses) */
+  lightId: string | null
+  size: number
+  blur: string
+  blendMode: SpotlightBlendMode
+  /** Explicit gradient, or undefined for the scene's `colors.spotlight` */
+  gradient?: string
+}
+
+/** Where a sprite is and how visible it is at one moment */
+export interface SpotlightSpriteState {
+  x: number
+  y: number
+  scale: number
+  opacity: number
+}
+
+export interface SpotlightInput {
+  /** Cursor light position */
+  pointer: InputPosition
+  /** Size of the area positions are relative to */
+  width: number
+  height: number
+  /** Box of a section element in the same coordinates, or null when it isn't on the page */
+  getSectionRect?: (sectionId: string) => InputBounds | null
+  /** Holds wanderers still and hides trails */
+  reducedMotion?: boolean
+}
+
+interface TrailPoint extends InputPosition {
+  time: number
+}
+
+interface Pulse extends InputPosition {
+  startedAt: number
+}
+
+const HIDDEN: SpotlightSpriteState = { x: 0, y: 0, scale: 1, opacity: 0 }
+
+/** Trail copies fade in with distance from their light, so a resting light shows no halo */
+const TRAIL_FADE_DISTANCE = 0.25
+
+/**
+ * Expands the configuration into the sprites to draw, in paint order:
+ * each light's trail (oldest first) below the light, then the pulse pool on top
+ */
+export function resolveSpotlightSprites(config: EtherealSpotlightConfig): SpotlightSprite[] {
+  const sprites: SpotlightSprite[] = []
+
+  config.lights.forEach(light => {
+    const base = {
+      lightId: light.id,
+      size: light.size ?? config.size,
+      blur: light.blur ?? config.blur,
+      blendMode: light.blendMode ?? config.blendMode,
+      gradient: light.gradient,
+    }
+
+    for (let index = (light.trail?.count ?? 0); index > 0; index--) {
+      sprites.push({ ...base, key: `${light.id}:trail-${index}`, kind: 'trail' })
+    }
+    sprites.push({ ...base, key: light.id, kind: 'light' })
+  })
+
+  if (config.pulse.enabled) {
+    for (let index = 0; index < config.pulse.maxPulses; index++) {
+      sprites.push({
+        key: `pulse-${index}`,
+        kind: 'pulse',
+        lightId: null,
+        size: config.pulse.size,
+        blur: config.blur,
+        blendMode: config.pulse.blendMode ?? config.blendMode,
+        gradient: config.pulse.gradient,
+      })
+    }
+  }
+
+  return sprites
+}
+
+/**
+ * Position of a light's anchor, or null when it has nothing to follow
+ */
+export function resolveAnchorPosition(
+  light: SpotlightLight,
+  time: number,
+  input: SpotlightInput
+): InputPosition | null {
+  const { anchor } = light
+
+  switch (anchor.type) {
+    case 'cursor':
+      return input.pointer
+    case 'wander': {
+      const path = createDriftPath({ speed: anchor.speed, amplitude: anchor.amplitude })
+      return path((input.reducedMotion ? 0 : time) + (anchor.phase ?? 0), input.width, input.height)
+    }
+    case 'section': {
+      const rect = input.getSectionRect?.(anchor.sectionId)
+      if (!rect) return null
+      return {
+        x: rect.left + rect.width * (anchor.x ?? 0.5),
+        y: rect.top + rect.height * (anchor.y ?? 0.5),
+      }
+    }
+  }
+}
+
+export class EtherealSpotlightController {
+  readonly sprites: SpotlightSprite[]
+  private trails = new Map<string, TrailPoint[]>()
+  private pulses: Pulse[] = []
+  private nextPulse = 0
+
+  constructor(private readonly config: EtherealSpotlightConfig) {
+    this.sprites = resolveSpotlightSprites(config)
+  }
+
+  /**
+   * Starts a ripple at a position (recycles the oldest when the pool is full)
+   */
+  pulse(x: number, y: number, time: number): void {
+    const { enabled, maxPulses } = this.config.pulse
+    if (!enabled || maxPulses <= 0) return
+
+    this.pulses[this.nextPulse] = { x, y, startedAt: time }
+    this.nextPulse = (this.nextPulse + 1) % maxPulses
+  }
+
+  /**
+   * Samples every sprite at `time` (seconds), in the same order as `sprites`
+   */
+  sample(time: number, input: SpotlightInput): SpotlightSpriteState[] {
+    const states: SpotlightSpriteState[] = []
+
+    this.config.lights.forEach(light => {
+      const position = resolveAnchorPosition(light, time, input)
+      const opacity = light.opacity ?? 1
+      const trail = light.trail
+
+      if (trail && trail.count > 0) {
+        const history = this.record(light.id, position, time, trail.length)
+        const size = light.size ?? this.config.size
+
+        for (let index = trail.count; index > 0; index--) {
+          const point = position && !input.reducedMotion
+            ? this.lookBack(history, time - (trail.length * index) / trail.count)
+            : null
+          if (!point || !position) {
+            states.push(HIDDEN)
+            continue
+          }
+
+          const age = index / (trail.count + 1)
+          const distance = Math.hypot(point.x - position.x, point.y - position.y)
+          const spread = Math.min(1, distance / (size * TRAIL_FADE_DISTANCE))
+          states.push({
+            x: point.x,
+            y: point.y,
+            scale: 1 - age * 0.5,
+            opacity: opacity * (1 - age) * spread,
+          })
+        }
+      }
+
+      states.push(position ? { ...position, scale: 1, opacity } : HIDDEN)
+    })
+
+    if (this.config.pulse.enabled) {
+      for (let index = 0; index < this.config.pulse.maxPulses; index++) {
+        states.push(this.samplePulse(this.pulses[index], time))
+      }
+    }
+
+    return states
+  }
+
+  reset(): void {
+    this.trails.clear()
+    this.pulses = []
+    this.nextPulse = 0
+  }
+
+  // Keeps just enough history to cover the trail length
+  private record(lightId: string, position: InputPosition | null, time: number, length: number): TrailPoint[] {
+    let history = this.trails.get(lightId)
+    if (!history) {
+      history = []
+      this.trails.set(lightId, history)
+    }
+
+    if (!position) {
+      history.length = 0
+      return history
+    }
+
+    // Time moved backwards (clock reset) - start over
+    if (history.length > 0 && history[history.length - 1].time > time) {
+      history.length = 0
+    }
+
+    history.push({ x: position.x, y: position.y, time })
+    while (history.length > 2 && history[1].time <= time - length) {
+      history.shift()
+    }
+    return history
+  }
+
+  // Position the light had at `time`, interpolated between recorded frames
+  private lookBack(history: TrailPoint[], time: number): InputPosition | null {
+    if (history.length === 0) return null
+    if (time <= history[0].time) return history[0]
+
+    for (let index = history.length - 1; index > 0; index--) {
+      const previous = history[index - 1]
+      if (previous.time <= time) {
+        const next = history[index]
+        const span = next.time - previous.time
+        const t = span > 0 ? (time - previous.time) / span : 1
+        return {
+          x: previous.x + (next.x - previous.x) * t,
+          y: previous.y + (next.y - previous.y) * t,
+        }
+      }
+    }
+    return history[history.length - 1]
+  }
+
+  private samplePulse(pulse: Pulse | undefined, time: number): SpotlightSpriteState {
+    if (!pulse) return HIDDEN
+
+    const progress = (time - pulse.startedAt) / this.config.pulse.duration
+    if (progress < 0 || progress >= 1) return HIDDEN
+
+    return {
+      x: pulse.x,
+      y: pulse.y,
+      scale: easeOut(progress),
+      opacity: 1 - progress,
+    }
+  }
+}
+
+// Section ids are free-form - quote them for the attribute selector
+const escapeSelectorValue = (value: string): string =>
+  typeof CSS !== 'undefined' && typeof CSS.escape === 'function' ? CSS.escape(value) : value.replace(/["\\]/g, '\\$&')
+
+export type SectionRectLookup = (sectionId: string, origin: { left: number; top: number }) => InputBounds | null
+
+/**
+ * Looks up section element boxes relative to an origin (client coordinates)
+ * Elements come from the registered sections when there are any, otherwise from the
+ * `data-section-id` attribute SectionProvider and ScrollSection set - found once and
+ * kept until they leave the document, so per-frame lookups don't query the DOM
+ */
+export function createSectionRectLookup(getSections?: () => Map<string, Section> | null): SectionRectLookup {
+  const found = new Map<string, Element>()
+
+  const findElement = (sectionId: string): Element | null => {
+    const registered = getSections?.()?.get(sectionId)?.element
+    if (registered?.isConnected) return registered
+
+    const cached = found.get(sectionId)
+    if (cached?.isConnected) return cached
+
+    const element = document.querySelector(`[data-section-id="${escapeSelectorValue(sectionId)}"]`)
+    if (element) found.set(sectionId, element)
+    else found.delete(sectionId)
+    return element
+  }
+
+  return (sectionId, origin) => {
+    if (typeof document === 'undefined') return null
+
+    const element = findElement(sectionId)
+    if (!element) return null
+
+    const rect = element.getBoundingClientRect()
+    return {
+      left: rect.left - origin.left,
+      top: rect.top - origin.top,
+      width: rect.width,
+      height: rect.height,
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  exportConfigAsJson,
+  exportConfigAsTypeScript,
+  fromColorInput,
+  parseConfigJson,
+  setConfigValue,
+  toColorInput,
+  toConfigName,
+} from './tuning'
+import { ETHEREAL_CONFIG } from '@/config/ethereal.config'
+import { AURORA_CONFIG } from '@/config/ethereal.presets'
+
+describe('ethereal tuning', () => {
+  it('updates a nested field without touching the rest', () => {
+    const updated = setConfigValue(ETHEREAL_CONFIG, ['arcConfigurations', 1, 'opacity'], 0.9)
+
+    expect(updated.arcConfigurations[1].opacity).toBe(0.9)
+    expect(ETHEREAL_CONFIG.arcConfigurations[1].opacity).toBe(0.5)
+    expect(updated.arcConfigurations[0]).toBe(ETHEREAL_CONFIG.arcConfigurations[0])
+    expect(updated.colors).toBe(ETHEREAL_CONFIG.colors)
+  })
+
+  it('round-trips colors through the picker format', () => {
+    expect(toColorInput('rgba(59, 130, 246, 0.3)')).toEqual({ hex: '#3b82f6', alpha: 0.3 })
+    expect(toColorInput('linear-gradient(135deg, #020010 0%, #0a0a23 100%)')).toBeNull()
+    expect(fromColorInput('#3b82f6', 0.3)).toBe('rgba(59, 130, 246, 0.3)')
+  })
+
+  it('names exported constants after the preset', () => {
+    expect(toConfigName('cosmic-blue-tuned')).toBe('COSMIC_BLUE_TUNED_CONFIG')
+    expect(toConfigName('')).toBe('CUSTOM_CONFIG')
+  })
+
+  it('exports an object literal that evaluates back to the config', () => {
+    const source = exportConfigAsTypeScript(AURORA_CONFIG, 'AURORA_TUNED_CONFIG')
+
+    expect(source).toContain('export const AURORA_TUNED_CONFIG: EtherealConfig = {')
+    expect(source).toContain('stops: [0, 25, 50, 70]')
+
+    const literal = source.slice(source.indexOf('= ') + 2)
+    expect(new Function(`return ${literal}`)()).toEqual(AURORA_CONFIG)
+  })
+
+  it('exports and imports JSON presets', () => {
+    const json = exportConfigAsJson(AURORA_CONFIG)
+
+    expect(parseConfigJson(json, ETHEREAL_CONFIG)).toEqual(AURORA_CONFIG)
+    expect(parseConfigJson('{"colors": {"primary": "red"}}', ETHEREAL_CONFIG).colors.primary).toBe('red')
+  })
+
+  it('rejects presets of the wrong shape', () => {
+    expect(() => parseConfigJson('[]', ETHEREAL_CONFIG)).toThrow(TypeError)
+    expect(() => parseConfigJson('{"arcConfigurations": {}}', ETHEREAL_CONFIG)).toThrow('must be arrays')
+    expect(() => parseConfigJson('{', ETHEREAL_CONFIG)).toThrow(SyntaxError)
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Ethereal Tuning Helpers
+ * Slider ranges, immutable path updates and TypeScript/JSON export for the
+ * development tuning panel
+ */
+
+import type { EtherealConfig } from '@/types/ethereal.types'
+import { formatColor, parseColor } from './color'
+
+export type ConfigPath = (string | number)[]
+
+export interface TuningRange {
+  min: number
+  max: number
+  step: number
+}
+
+/** Slider ranges per numeric field - wide enough to explore, centered on the tuned values */
+export const TUNING_RANGES = {
+  delay: { min: 0, max: 3, step: 0.05 },
+  scale: { min: 0.2, max: 2, step: 0.05 },
+  opacity: { min: 0, max: 1, step: 0.01 },
+  zIndex: { min: 0, max: 100, step: 1 },
+  parallaxStrength: { min: -20, max: 20, step: 0.5 },
+  stiffness: { min: 10, max: 400, step: 5 },
+  damping: { min: 1, max: 60, step: 1 },
+  mass: { min: 0.1, max: 3, step: 0.05 },
+  timing: { min: 0, max: 5, step: 0.1 },
+  morphDuration: { min: 1, max: 20, step: 0.5 },
+  extent: { min: 50, max: 300, step: 5 },
+  morphOpacity: { min: -1, max: 1, step: 0.01 },
+} satisfies Record<string, TuningRange>
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+/**
+ * Returns a copy of `value` with the field at `path` replaced (untouched branches are shared)
+ */
+export function setConfigValue<T>(value: T, path: ConfigPath, next: unknown): T {
+  if (path.length === 0) return next as T
+
+  const [key, ...rest] = path
+  const current = (value as Record<string | number, unknown>)[key]
+  const updated = setConfigValue(current, rest, next)
+
+  if (Array.isArray(value)) {
+    const copy = [...value]
+    copy[key as number] = updated
+    return copy as T
+  }
+  return { ...(value as object), [key]: updated } as T
+}
+
+/**
+ * Splits a color into the hex value an `<input type="color">` takes and its alpha
+ * Returns null for values a picker can't edit (gradients)
+ */
+export function toColorInput(color: string): { hex: string; alpha: number } | null {
+  const parsed = parseColor(color)
+  if (!parsed) return null
+
+  const hex = [parsed.r, parsed.g, parsed.b]
+    .map(channel => Math.round(channel).toString(16).padStart(2, '0'))
+    .join('')
+  return { hex: `#${hex}`, alpha: parsed.a }
+}
+
+/**
+ * Combines a picker hex value and an alpha back into an rgba() color
+ */
+export function fromColorInput(hex: string, alpha: number): string {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return formatColor({ r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255, a: alpha })
+}
+
+// Object literal in the style of config/ethereal.config.ts
+function toLiteral(value: unknown, indent: string): string {
+  if (typeof value === 'string') return JSON.stringify(value)
+  if (typeof value !== 'object' || value === null) return String(value)
+
+  const inner = `${indent}  `
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]'
+    // Tuples of numbers/strings ([0, 25, 50, 70], ["80%", "60%"]) stay on one line
+    if (value.every(item => typeof item !== 'object' || item === null)) {
+      return `[${value.map(item => toLiteral(item, inner)).join(', ')}]`
+    }
+    return `[\n${value.map(item => `${inner}${toLiteral(item, inner)}`).join(',\n')}\n${indent}]`
+  }
+
+  const entries = Object.entries(value).filter(([, item]) => item !== undefined)
+  if (entries.length === 0) return '{}'
+
+  const lines = entries.map(([key, item]) => {
+    const name = IDENTIFIER.test(key) ? key : JSON.stringify(key)
+    return `${inner}${name}: ${toLiteral(item, inner)}`
+  })
+  return `{\n${lines.join(',\n')}\n${indent}}`
+}
+
+/**
+ * Turns a preset name into a config constant name ("cosmic-blue" -> "COSMIC_BLUE_CONFIG")
+ */
+export function toConfigName(name: string): string {
+  const base = name.trim().replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '').toUpperCase()
+  return `${/^[0-9]/.test(base) ? `_${base}` : base || 'CUSTOM'}_CONFIG`
+}
+
+/**
+ * Exports a configuration as a TypeScript module, ready to paste into config/
+ */
+export function exportConfigAsTypeScript(config: EtherealConfig, name: string = 'CUSTOM_CONFIG'): string {
+  return [
+    'import type { EtherealConfig } from "@/types/ethereal.types"',
+    '',
+    `export const ${name}: EtherealConfig = ${toLiteral(config, '')}`,
+    '',
+  ].join('\n')
+}
+
+/**
+ * Exports a configuration as a JSON preset (loadable with `parseConfigJson`)
+ */
+export function exportConfigAsJson(config: EtherealConfig): string {
+  return `${JSON.stringify(config, null, 2)}\n`
+}
+
+const REQUIRED_FIELDS: (keyof EtherealConfig)[] = [
+  'arcConfigurations',
+  'springConfigs',
+  'colors',
+  'timing',
+  'gradientLayers',
+  'input',
+  'scrollChoreography',
+  'contrastPalettes',
+  'spotlight',
+  'velocityEffects',
+  'starfield',
+  'nebula',
+  'orbitRings',
+]
+
+/**
+ * Reads a JSON preset - fields it leaves out come from `fallback`
+ * Throws a SyntaxError for malformed JSON or a TypeError for the wrong shape
+ */
+export function parseConfigJson(text: string, fallback: EtherealConfig): EtherealConfig {
+  const parsed: unknown = JSON.parse(text)
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new TypeError('A preset must be a JSON object')
+  }
+
+  const config = { ...fallback, ...(parsed as Partial<EtherealConfig>) }
+  for (const field of REQUIRED_FIELDS) {
+    if (typeof config[field] !== 'object' || config[field] === null) {
+      throw new TypeError(`"${field}" must be an object`)
+    }
+  }
+  if (!Array.isArray(config.arcConfigurations) || !Array.isArray(config.gradientLayers)) {
+    throw new TypeError('"arcConfigurations" and "gradientLayers" must be arrays')
+  }
+  return config
+}
@@ -0,0 +1,45 @@
+import { getVelocityIntensity, resolveVelocityEffects } from './velocity'
+import { VELOCITY_EFFECTS } from '@/config/ethereal.config'
+import type { EtherealVelocityEffects } from '@/types/ethereal.types'
+
+describe('velocity effects', () => {
+  const effects: EtherealVelocityEffects = {
+    ...VELOCITY_EFFECTS,
+    enabled: true,
+    threshold: 10,
+    maxVelocity: 50,
+    stretch: [1, 1.2],
+    spotlightBoost: [1, 2],
+    hueShift: [0, 40],
+  }
+
+  it('ignores speeds under the threshold', () => {
+    expect(getVelocityIntensity(0, effects)).toBe(0)
+    expect(getVelocityIntensity(8, effects)).toBe(0)
+    expect(resolveVelocityEffects(8, effects)).toEqual({ stretch: 1, spotlightBoost: 1, hueShift: 0 })
+  })
+
+  it('interpolates between the threshold and maxVelocity', () => {
+    expect(getVelocityIntensity(30, effects)).toBe(0.5)
+
+    const values = resolveVelocityEffects(30, effects)
+    expect(values.stretch).toBeCloseTo(1.1)
+    expect(values.spotlightBoost).toBeCloseTo(1.5)
+    expect(values.hueShift).toBeCloseTo(20)
+  })
+
+  it('clamps faster scrolling to the end of each range', () => {
+    expect(resolveVelocityEffects(500, effects)).toEqual({ stretch: 1.2, spotlightBoost: 2, hueShift: 40 })
+  })
+
+  it('reverses the hue shift when scrolling up', () => {
+    const values = resolveVelocityEffects(-50, effects)
+    expect(values.hueShift).toBe(-40)
+    expect(values.stretch).toBe(1.2)
+  })
+
+  it('stays at rest for unusable input', () => {
+    expect(getVelocityIntensity(Number.NaN, effects)).toBe(0)
+    expect(getVelocityIntensity(100, { ...effects, maxVelocity: 10 })).toBe(0)
+  })
+})
@@ -0,0 +1,41 @@
+/**
+ * Scroll Velocity Effects
+ * Maps scroll speed onto the configured stretch, spotlight boost and hue
+ * shift ranges, clamped at both ends
+ */
+
+import type { EtherealVelocityEffects } from '@/types/ethereal.types'
+
+export interface VelocityEffectValues {
+  stretch: number
+  spotlightBoost: number
+  hueShift: number
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+const mix = ([rest, peak]: [number, number], amount: number) => rest + (peak - rest) * amount
+
+/**
+ * How far into its ranges a speed pushes the effects (0 resting - 1 at `maxVelocity` or faster)
+ */
+export function getVelocityIntensity(velocity: number, effects: EtherealVelocityEffects): number {
+  const span = effects.maxVelocity - effects.threshold
+  if (!Number.isFinite(velocity) || span <= 0) return 0
+  return clamp01((Math.abs(velocity) - effects.threshold) / span)
+}
+
+/**
+ * Effect values for a scroll velocity (positive scrolls down)
+ */
+export function resolveVelocityEffects(velocity: number, effects: EtherealVelocityEffects): VelocityEffectValues {
+  const intensity = getVelocityIntensity(velocity, effects)
+  const hueShift = mix(effects.hueShift, intensity)
+
+  return {
+    stretch: mix(effects.stretch, intensity),
+    spotlightBoost: mix(effects.spotlightBoost, intensity),
+    // Scrolling up turns the hue the other way
+    hueShift: velocity < 0 ? -hueShift : hueShift,
+  }
+}
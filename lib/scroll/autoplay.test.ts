@@ -0,0 +1,78 @@
+import {
+  DEFAULT_AUTOPLAY_OPTIONS,
+  getNextStepIndex,
+  getTourSteps,
+  isAutoplayControl,
+  resolveAutoplayOptions,
+  resolveStepIndex,
+} from './autoplay'
+import type { ContrastMode, Section } from '@/types/scroll.types'
+
+describe('autoplay tour', () => {
+  const createSection = (id: string, triggerStart: number, element?: HTMLElement): Section => ({
+    id, zIndex: 100, triggerStart, triggerEnd: triggerStart + 0.2, animations: [], contrast: 'auto' as ContrastMode, isActive: false, element,
+  })
+
+  it('orders steps by page position and applies per-section settings', () => {
+    const sections = [createSection('contact', 0.8), createSection('hero', 0), createSection('features', 0.4)]
+    const steps = getTourSteps(sections, resolveAutoplayOptions({
+      dwell: 3000,
+      steps: { features: { dwell: 6000, pause: true }, contact: { skip: true } },
+    }))
+
+    expect(steps.map(step => step.id)).toEqual(['hero', 'features'])
+    expect(steps[0]).toMatchObject({ dwell: 3000, duration: DEFAULT_AUTOPLAY_OPTIONS.duration, pause: false })
+    expect(steps[1]).toMatchObject({ dwell: 6000, pause: true })
+  })
+
+  it('prefers document order once sections are mounted', () => {
+    const first = document.createElement('section')
+    const second = document.createElement('section')
+    document.body.append(first, second)
+
+    // Not yet measured - both ranges still read 0
+    const steps = getTourSteps([createSection('b', 0, second), createSection('a', 0, first)], DEFAULT_AUTOPLAY_OPTIONS)
+    expect(steps.map(step => step.id)).toEqual(['a', 'b'])
+
+    first.remove()
+    second.remove()
+  })
+
+  it('tours chapters through their nested sections', () => {
+    const sections = [
+      createSection('chapter-1', 0),
+      { ...createSection('step-1', 0.1), parentId: 'chapter-1' },
+      { ...createSection('step-2', 0.3), parentId: 'chapter-1' },
+      createSection('outro', 0.8),
+    ]
+
+    expect(getTourSteps(sections, DEFAULT_AUTOPLAY_OPTIONS).map(step => step.id)).toEqual(['step-1', 'step-2', 'outro'])
+  })
+
+  it('steps forward, looping or stopping at the end', () => {
+    expect(getNextStepIndex(0, 3, false)).toBe(1)
+    expect(getNextStepIndex(2, 3, true)).toBe(0)
+    expect(getNextStepIndex(2, 3, false)).toBeNull()
+    expect(getNextStepIndex(-1, 0, true)).toBeNull()
+  })
+
+  it('finds steps by section id or index', () => {
+    const steps = getTourSteps([createSection('hero', 0), createSection('features', 0.4)], DEFAULT_AUTOPLAY_OPTIONS)
+
+    expect(resolveStepIndex(steps, 'features')).toBe(1)
+    expect(resolveStepIndex(steps, 1)).toBe(1)
+    expect(resolveStepIndex(steps, 'missing')).toBe(-1)
+    expect(resolveStepIndex(steps, 5)).toBe(-1)
+  })
+
+  it('recognises the tour controls', () => {
+    const controls = document.createElement('div')
+    controls.setAttribute('data-autoplay-control', '')
+    const button = document.createElement('button')
+    controls.append(button)
+
+    expect(isAutoplayControl(button)).toBe(true)
+    expect(isAutoplayControl(document.createElement('button'))).toBe(false)
+    expect(isAutoplayControl(window)).toBe(false)
+  })
+})
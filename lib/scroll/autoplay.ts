@@ -0,0 +1,82 @@
+/**
+ * Autoplay Tour
+ * Orders registered sections into tour steps with their dwell, travel and
+ * pause settings, and steps through them
+ */
+
+import { easeInOut } from '@/lib/ethereal/easing'
+import type { AutoplayOptions, Section, TourStep } from '@/types/scroll.types'
+
+export const DEFAULT_AUTOPLAY_OPTIONS: AutoplayOptions = {
+  dwell: 4000,
+  duration: 1.8,
+  easing: easeInOut,
+  loop: true,
+  resumeAfter: 8000,
+  autoStart: false,
+  steps: {},
+}
+
+/** Input that takes the page back from the tour - moving the mouse alone doesn't */
+export const AUTOPLAY_INTERRUPT_EVENTS = ['wheel', 'touchstart', 'keydown', 'pointerdown'] as const
+
+/** Elements inside this attribute (the tour's own controls) don't interrupt it */
+export const AUTOPLAY_CONTROL_ATTRIBUTE = 'data-autoplay-control'
+
+export function resolveAutoplayOptions(options?: Partial<AutoplayOptions>): AutoplayOptions {
+  return { ...DEFAULT_AUTOPLAY_OPTIONS, ...options }
+}
+
+// Page order: by element position when both are in the document, else by trigger range
+const compareSections = (a: Section, b: Section): number => {
+  if (a.element?.isConnected && b.element?.isConnected && a.element !== b.element) {
+    return a.element.compareDocumentPosition(b.element) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+  }
+  return a.triggerStart - b.triggerStart
+}
+
+/**
+ * Sections as tour steps, in page order, with per-section overrides applied.
+ * Sections with nested sections are toured through their children instead.
+ */
+export function getTourSteps(sections: Iterable<Section>, options: AutoplayOptions): TourStep[] {
+  const list = Array.from(sections)
+  const parents = new Set(list.map(section => section.parentId))
+
+  return list
+    .filter(section => !parents.has(section.id) && !options.steps[section.id]?.skip)
+    .sort(compareSections)
+    .map(({ id }) => {
+      const step = options.steps[id] ?? {}
+      return {
+        id,
+        dwell: step.dwell ?? options.dwell,
+        duration: step.duration ?? options.duration,
+        easing: step.easing ?? options.easing,
+        pause: step.pause ?? false,
+      }
+    })
+}
+
+/**
+ * Step after `index` - wraps to the first when looping, null at the end otherwise
+ */
+export function getNextStepIndex(index: number, count: number, loop: boolean): number | null {
+  if (count === 0) return null
+  if (index + 1 < count) return index + 1
+  return loop ? 0 : null
+}
+
+/**
+ * Step index for a section id or an index (-1 when there's no such step)
+ */
+export function resolveStepIndex(steps: TourStep[], target: string | number): number {
+  if (typeof target === 'number') {
+    return Number.isInteger(target) && target >= 0 && target < steps.length ? target : -1
+  }
+  return steps.findIndex(step => step.id === target)
+}
+
+export function isAutoplayControl(target: EventTarget | null): boolean {
+  return target instanceof Element && target.closest(`[${AUTOPLAY_CONTROL_ATTRIBUTE}]`) !== null
+}
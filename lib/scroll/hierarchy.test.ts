@@ -0,0 +1,86 @@
+import {
+  dispatchSectionEvent,
+  formatSectionPath,
+  getActiveSectionPath,
+  getActiveSections,
+  getChildSections,
+  getLevelProgress,
+  getParentSection,
+  getSectionPath,
+  getSectionTransition,
+} from './hierarchy'
+import type { ContrastMode, Section, SectionEvent, SectionListeners } from '@/types/scroll.types'
+
+describe('section hierarchy', () => {
+  const createSection = (id: string, triggerStart: number, triggerEnd: number, parentId?: string): [string, Section] => [
+    id,
+    { id, zIndex: 100, triggerStart, triggerEnd, animations: [], contrast: 'auto' as ContrastMode, isActive: false, parentId },
+  ]
+
+  const sections = new Map([
+    createSection('intro', 0, 0.2),
+    createSection('chapter-1', 0.2, 0.6),
+    createSection('step-1', 0.2, 0.4, 'chapter-1'),
+    createSection('step-2', 0.4, 0.6, 'chapter-1'),
+    createSection('detail', 0.45, 0.5, 'step-2'),
+    createSection('chapter-2', 0.6, 1),
+    createSection('orphan', 0.7, 0.8, 'missing'),
+  ])
+
+  it('relates parents and children', () => {
+    expect(getParentSection(sections, 'step-2')?.id).toBe('chapter-1')
+    expect(getParentSection(sections, 'chapter-1')).toBeNull()
+    expect(getChildSections(sections, 'chapter-1').map(section => section.id)).toEqual(['step-1', 'step-2'])
+    // An unregistered parent leaves the section at the top level
+    expect(getChildSections(sections, null).map(section => section.id)).toEqual(['intro', 'chapter-1', 'chapter-2', 'orphan'])
+    expect(getSectionPath(sections, 'detail').map(section => section.id)).toEqual(['chapter-1', 'step-2', 'detail'])
+  })
+
+  it('finds the deepest active path', () => {
+    expect(formatSectionPath(getActiveSectionPath(sections, 0.47))).toBe('chapter-1 > step-2 > detail')
+    expect(formatSectionPath(getActiveSectionPath(sections, 0.3))).toBe('chapter-1 > step-1')
+    expect(getActiveSectionPath(sections, 1.5)).toEqual([])
+  })
+
+  it('tracks progress per level', () => {
+    const [chapter, step] = getActiveSectionPath(sections, 0.5)
+
+    expect(getLevelProgress(chapter, 0.5)).toBeCloseTo(0.75)
+    expect(getLevelProgress(step, 0.5)).toBeCloseTo(0.5)
+    expect(getLevelProgress(step, 0.9)).toBe(1)
+  })
+
+  it('leaves children before parents and enters parents before children', () => {
+    const before = getActiveSections(sections, 0.5)
+    const after = getActiveSections(sections, 0.75)
+
+    expect(before).toEqual(['chapter-1', 'step-2', 'detail'])
+    expect(after).toEqual(['chapter-2', 'orphan'])
+    expect(getSectionTransition(before, after)).toEqual({
+      left: ['detail', 'step-2', 'chapter-1'],
+      entered: ['chapter-2', 'orphan'],
+    })
+  })
+
+  it('bubbles events to ancestors until propagation stops', () => {
+    const calls: string[] = []
+    const listen = (id: string, listener: SectionListeners) => [id, new Set([listener])] as const
+    const record = (event: SectionEvent) => calls.push(`${event.currentTarget}:${event.type}:${event.target}`)
+
+    const listeners = new Map([
+      listen('detail', { onEnter: record }),
+      listen('step-2', { onEnter: event => { record(event); event.stopPropagation() }, onLeave: record }),
+      listen('chapter-1', { onEnter: record, onLeave: record }),
+    ])
+
+    dispatchSectionEvent('enter', 'detail', sections, listeners)
+    dispatchSectionEvent('leave', 'detail', sections, listeners)
+
+    expect(calls).toEqual([
+      'detail:enter:detail',
+      'step-2:enter:detail',
+      'step-2:leave:detail',
+      'chapter-1:leave:detail',
+    ])
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Section Hierarchy
+ * Parent/child relationships between registered sections - the active path,
+ * progress per level, and the enter/leave events a scroll move produces
+ */
+
+import type { Section, SectionEvent, SectionListeners } from '@/types/scroll.types'
+
+export const SECTION_PATH_SEPARATOR = ' > '
+
+const containsProgress = (section: Section, progress: number) =>
+  progress >= section.triggerStart && progress <= section.triggerEnd
+
+// A parent that isn't registered (yet) leaves the section at the top level
+const getRegisteredParentId = (sections: Map<string, Section>, section: Section): string | null =>
+  section.parentId && section.parentId !== section.id && sections.has(section.parentId) ? section.parentId : null
+
+export function getParentSection(sections: Map<string, Section>, sectionId: string): Section | null {
+  const section = sections.get(sectionId)
+  const parentId = section ? getRegisteredParentId(sections, section) : null
+  return parentId ? sections.get(parentId) ?? null : null
+}
+
+/**
+ * Direct children of a section (null: the top-level sections), in registration order
+ */
+export function getChildSections(sections: Map<string, Section>, parentId: string | null): Section[] {
+  return Array.from(sections.values()).filter(section => getRegisteredParentId(sections, section) === parentId)
+}
+
+/**
+ * A section and its ancestors, outermost first (empty when it isn't registered)
+ */
+export function getSectionPath(sections: Map<string, Section>, sectionId: string | null): Section[] {
+  const path: Section[] = []
+  const seen = new Set<string>()
+  let current = sectionId ? sections.get(sectionId) ?? null : null
+
+  // Guards against parent cycles from misconfigured ids
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id)
+    path.unshift(current)
+    current = getParentSection(sections, current.id)
+  }
+
+  return path
+}
+
+/**
+ * Deepest chain of sections holding the progress - the first match at each level
+ */
+export function getActiveSectionPath(sections: Map<string, Section>, progress: number): Section[] {
+  const path: Section[] = []
+  let match = getChildSections(sections, null).find(section => containsProgress(section, progress))
+
+  while (match && !path.includes(match)) {
+    path.push(match)
+    match = getChildSections(sections, match.id).find(section => containsProgress(section, progress))
+  }
+
+  return path
+}
+
+/**
+ * Every section holding the progress whose ancestors hold it too - overlapping
+ * siblings are all active. Parents come before their children.
+ */
+export function getActiveSections(sections: Map<string, Section>, progress: number): string[] {
+  const active: string[] = []
+
+  const visit = (parentId: string | null) => {
+    getChildSections(sections, parentId).forEach(section => {
+      if (active.includes(section.id) || !containsProgress(section, progress)) return
+      active.push(section.id)
+      visit(section.id)
+    })
+  }
+  visit(null)
+
+  return active
+}
+
+/**
+ * Progress through a section's own range
+ */
+export function getLevelProgress(section: Section, progress: number): number {
+  const range = section.triggerEnd - section.triggerStart
+  if (range <= 0) return progress >= section.triggerEnd ? 1 : 0
+  return Math.max(0, Math.min(1, (progress - section.triggerStart) / range))
+}
+
+export interface SectionTransition {
+  /** Deepest first - children leave before their parents */
+  left: string[]
+  /** Outermost first - parents enter before their children */
+  entered: string[]
+}
+
+/**
+ * What changed between two sets of active sections (both as getActiveSections orders them)
+ */
+export function getSectionTransition(previous: string[], next: string[]): SectionTransition {
+  return {
+    left: previous.filter(id => !next.includes(id)).reverse(),
+    entered: next.filter(id => !previous.includes(id)),
+  }
+}
+
+/**
+ * Runs a section's handlers, then each ancestor's, until one stops propagation
+ */
+export function dispatchSectionEvent(
+  type: SectionEvent['type'],
+  targetId: string,
+  sections: Map<string, Section>,
+  listeners: Map<string, Set<SectionListeners>>
+): void {
+  const path = getSectionPath(sections, targetId).map(section => section.id)
+  // A section that has just unregistered still gets its leave event
+  if (path.length === 0) path.push(targetId)
+
+  let stopped = false
+  for (let index = path.length - 1; index >= 0 && !stopped; index--) {
+    const event: SectionEvent = {
+      type,
+      target: targetId,
+      currentTarget: path[index],
+      path,
+      stopPropagation: () => {
+        stopped = true
+      },
+    }
+    listeners.get(path[index])?.forEach(listener => {
+      if (type === 'enter') listener.onEnter?.(event)
+      else listener.onLeave?.(event)
+    })
+  }
+}
+
+export function formatSectionPath(path: (string | { id: string })[]): string {
+  return path.map(entry => typeof entry === 'string' ? entry : entry.id).join(SECTION_PATH_SEPARATOR)
+}
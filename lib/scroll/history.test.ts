@@ -0,0 +1,46 @@
+import {
+  SCROLL_HISTORY_KEY,
+  getSectionUrl,
+  parseSectionHash,
+  readScrollHistory,
+  resolveScrollHistoryOptions,
+  writeScrollHistory,
+} from './history'
+
+describe('scroll history', () => {
+  it('reads section ids from hashes', () => {
+    expect(parseSectionHash('#features')).toBe('features')
+    expect(parseSectionHash('#case%20study')).toBe('case study')
+    expect(parseSectionHash('#%E0%A4%A')).toBe('%E0%A4%A')
+    expect(parseSectionHash('#')).toBeNull()
+    expect(parseSectionHash('')).toBeNull()
+  })
+
+  it('builds section URLs on the current page', () => {
+    const location = { pathname: '/story', search: '?ref=share' }
+
+    expect(getSectionUrl(location, 'case study')).toBe('/story?ref=share#case%20study')
+    expect(getSectionUrl(location, null)).toBe('/story?ref=share')
+  })
+
+  it('keeps the router state when writing its entry', () => {
+    const routerState = { __NA: true, tree: ['page'] }
+    const state = writeScrollHistory(routerState, { scroll: 1200 })
+
+    expect(state).toEqual({ ...routerState, [SCROLL_HISTORY_KEY]: { scroll: 1200, section: null } })
+    expect(readScrollHistory(writeScrollHistory(state, { section: 'features' }))).toEqual({ scroll: 1200, section: 'features' })
+  })
+
+  it('ignores states without a usable entry', () => {
+    expect(readScrollHistory(null)).toBeNull()
+    expect(readScrollHistory({ __NA: true })).toBeNull()
+    expect(readScrollHistory({ [SCROLL_HISTORY_KEY]: { scroll: 'top' } })).toBeNull()
+    expect(readScrollHistory({ [SCROLL_HISTORY_KEY]: { scroll: -5 } })).toEqual({ scroll: 0, section: null })
+  })
+
+  it('resolves the history prop', () => {
+    expect(resolveScrollHistoryOptions()).toEqual({ hash: true, restore: true, deepLink: true })
+    expect(resolveScrollHistoryOptions(false)).toEqual({ hash: false, restore: false, deepLink: false })
+    expect(resolveScrollHistoryOptions({ hash: false })).toEqual({ hash: false, restore: true, deepLink: true })
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Scroll History
+ * Reads and writes the scroll position and active section kept in
+ * history.state and the URL hash, alongside the router's own state
+ */
+
+import type { ScrollHistoryOptions } from '@/types/scroll.types'
+
+export const DEFAULT_SCROLL_HISTORY_OPTIONS: ScrollHistoryOptions = {
+  hash: true,
+  restore: true,
+  deepLink: true,
+}
+
+/** Key our entry lives under in history.state */
+export const SCROLL_HISTORY_KEY = '__immersiveScroll'
+
+export interface ScrollHistoryEntry {
+  scroll: number
+  section: string | null
+}
+
+/**
+ * Section id from a URL hash ('#features' - 'features'), null for no hash
+ */
+export function parseSectionHash(hash: string): string | null {
+  const id = hash.replace(/^#/, '')
+  if (!id) return null
+
+  try {
+    return decodeURIComponent(id)
+  } catch {
+    return id
+  }
+}
+
+/**
+ * URL for the current page with a section's hash (no hash for null)
+ */
+export function getSectionUrl({ pathname, search }: Pick<Location, 'pathname' | 'search'>, sectionId: string | null): string {
+  return `${pathname}${search}${sectionId ? `#${encodeURIComponent(sectionId)}` : ''}`
+}
+
+/**
+ * Our entry in a history state (null when there isn't a usable one)
+ */
+export function readScrollHistory(state: unknown): ScrollHistoryEntry | null {
+  if (!state || typeof state !== 'object') return null
+
+  const entry = (state as Record<string, unknown>)[SCROLL_HISTORY_KEY]
+  if (!entry || typeof entry !== 'object') return null
+
+  const { scroll, section } = entry as Partial<ScrollHistoryEntry>
+  if (typeof scroll !== 'number' || !Number.isFinite(scroll)) return null
+  return { scroll: Math.max(0, scroll), section: typeof section === 'string' ? section : null }
+}
+
+/**
+ * History state with our entry updated - everything else (the router's state) is kept
+ */
+export function writeScrollHistory(state: unknown, entry: Partial<ScrollHistoryEntry>): Record<string, unknown> {
+  const base = state && typeof state === 'object' ? (state as Record<string, unknown>) : {}
+  const current = readScrollHistory(base) ?? { scroll: 0, section: null }
+  return { ...base, [SCROLL_HISTORY_KEY]: { ...current, ...entry } }
+}
+
+/**
+ * Options from a `history` prop - true/undefined for the defaults, false for none
+ */
+export function resolveScrollHistoryOptions(history: boolean | Partial<ScrollHistoryOptions> = true): ScrollHistoryOptions {
+  if (history === false) return { hash: false, restore: false, deepLink: false }
+  return { ...DEFAULT_SCROLL_HISTORY_OPTIONS, ...(history === true ? {} : history) }
+}
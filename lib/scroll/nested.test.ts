@@ -0,0 +1,30 @@
+import { canScrollFurther, getGestureDelta, getScrollerState } from './nested'
+
+describe('nested scrollers', () => {
+  it('reads progress along the scroller axis', () => {
+    expect(getScrollerState({ scroll: 250, limit: 1000, velocity: 4 })).toEqual({ progress: 0.25, velocity: 4, direction: 'down' })
+    expect(getScrollerState({ scroll: 1200, limit: 1000, velocity: -2 })).toEqual({ progress: 1, velocity: -2, direction: 'up' })
+    expect(getScrollerState({ scroll: 0, limit: 0 }).progress).toBe(0)
+  })
+
+  it('picks the wheel delta for the gesture orientation', () => {
+    const wheel = { deltaX: 12, deltaY: -40 }
+
+    expect(getGestureDelta(wheel, 'vertical')).toBe(-40)
+    expect(getGestureDelta(wheel, 'horizontal')).toBe(12)
+    expect(getGestureDelta(wheel, 'both')).toBe(-40)
+    expect(getGestureDelta({ deltaX: 30, deltaY: 5 }, 'both')).toBe(30)
+  })
+
+  it('keeps gestures while there is room to scroll', () => {
+    expect(canScrollFurther({ scroll: 400, limit: 800 }, 20)).toBe(true)
+    expect(canScrollFurther({ scroll: 400, limit: 800 }, -20)).toBe(true)
+  })
+
+  it('hands gestures to the parent at either end', () => {
+    expect(canScrollFurther({ scroll: 0, limit: 800 }, -20)).toBe(false)
+    expect(canScrollFurther({ scroll: 799.8, limit: 800 }, 20)).toBe(false)
+    expect(canScrollFurther({ scroll: 0, limit: 0 }, 20)).toBe(false)
+    expect(canScrollFurther({ scroll: 400, limit: 800 }, 0)).toBe(false)
+  })
+})
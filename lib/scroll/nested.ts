@@ -0,0 +1,53 @@
+/**
+ * Nested Scrollers
+ * Scroll state for a Lenis instance along its own axis, and the rule for
+ * handing wheel deltas from a nested scroller to the one around it
+ */
+
+import type { GestureOrientation, ScrollState } from '@/types/scroll.types'
+
+interface ScrollerPosition {
+  scroll?: number
+  limit?: number
+  velocity?: number
+}
+
+/** Positions this close (pixels) to either end count as the end */
+const EDGE_TOLERANCE = 0.5
+
+/**
+ * Progress, velocity and direction for a scroller - 'down' is forwards along its axis
+ */
+export function getScrollerState({ scroll = 0, limit = 1, velocity = 0 }: ScrollerPosition): Pick<ScrollState, 'progress' | 'velocity' | 'direction'> {
+  const progress = limit > 0 ? scroll / limit : 0
+
+  return {
+    progress: Math.max(0, Math.min(1, progress)),
+    velocity,
+    direction: velocity > 0 ? 'down' : 'up',
+  }
+}
+
+/**
+ * Wheel delta along the axes a scroller listens to ('both' takes the dominant one)
+ */
+export function getGestureDelta({ deltaX, deltaY }: { deltaX: number; deltaY: number }, gesture: GestureOrientation): number {
+  switch (gesture) {
+    case 'vertical':
+      return deltaY
+    case 'horizontal':
+      return deltaX
+    case 'both':
+      return Math.abs(deltaY) > Math.abs(deltaX) ? deltaY : deltaX
+  }
+}
+
+/**
+ * Whether a scroller can still move in the delta's direction - when it can't,
+ * the gesture belongs to the parent scroller
+ */
+export function canScrollFurther({ scroll = 0, limit = 0 }: ScrollerPosition, delta: number): boolean {
+  if (delta > 0) return scroll < limit - EDGE_TOLERANCE
+  if (delta < 0) return scroll > EDGE_TOLERANCE
+  return false
+}
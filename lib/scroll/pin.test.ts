@@ -0,0 +1,40 @@
+import { getPinState, getScrollerViewport, resolvePinDistance } from './pin'
+
+describe('pinning', () => {
+  const measurements = { viewport: 800, element: 400 }
+
+  it('resolves pixel, viewport and percentage distances', () => {
+    expect(resolvePinDistance(300, measurements)).toBe(300)
+    expect(resolvePinDistance('250px', measurements)).toBe(250)
+    expect(resolvePinDistance('150vh', measurements)).toBe(1200)
+    expect(resolvePinDistance('50%', measurements)).toBe(200)
+  })
+
+  it('never pins for a negative or unreadable distance', () => {
+    expect(resolvePinDistance(-100, measurements)).toBe(0)
+    expect(resolvePinDistance('-2vh', measurements)).toBe(0)
+    expect(resolvePinDistance('2em' as never, measurements)).toBe(0)
+  })
+
+  it('holds the element for its distance, then releases it', () => {
+    const layout = { start: 1000, distance: 500 }
+
+    expect(getPinState(600, layout)).toEqual({ phase: 'before', progress: 0, offset: 0 })
+    expect(getPinState(1250, layout)).toEqual({ phase: 'pinned', progress: 0.5, offset: 250 })
+    expect(getPinState(1500, layout)).toEqual({ phase: 'pinned', progress: 1, offset: 500 })
+    expect(getPinState(2400, layout)).toEqual({ phase: 'after', progress: 1, offset: 500 })
+  })
+
+  it('completes a zero-length pin immediately', () => {
+    expect(getPinState(1000, { start: 1000, distance: 0 }).progress).toBe(1)
+  })
+
+  it('measures the window or a nested scroller along its axis', () => {
+    const scroller = document.createElement('div')
+    Object.defineProperty(scroller, 'clientWidth', { value: 640 })
+    scroller.getBoundingClientRect = () => ({ top: 120, left: 40 } as DOMRect)
+
+    expect(getScrollerViewport(null, 'vertical')).toEqual({ start: 0, size: window.innerHeight })
+    expect(getScrollerViewport(scroller, 'horizontal')).toEqual({ start: 40, size: 640 })
+  })
+})
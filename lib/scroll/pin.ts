@@ -0,0 +1,67 @@
+/**
+ * Pinning
+ * Resolves pin distances and where a pinned element sits for a scroll
+ * position - held in place for its distance, then released
+ */
+
+import type { PinDistance, PinState, ScrollOrientation } from '@/types/scroll.types'
+
+interface PinLayout {
+  /** Scroll position the pin starts at */
+  start: number
+  /** Scroll distance it holds for, in pixels */
+  distance: number
+}
+
+interface PinMeasurements {
+  /** Visible length of the scroller along its axis */
+  viewport: number
+  /** Length of the pinned element along the scroller axis */
+  element: number
+}
+
+const DISTANCE_PATTERN = /^(-?\d*\.?\d+)(px|vh|%)$/
+
+/**
+ * Pin distance in pixels ('vh' is a fraction of the scroller's viewport, '%' of the element)
+ */
+export function resolvePinDistance(distance: PinDistance, { viewport, element }: PinMeasurements): number {
+  if (typeof distance === 'number') return Math.max(0, distance)
+
+  const match = DISTANCE_PATTERN.exec(distance.trim())
+  if (!match) return 0
+
+  const value = parseFloat(match[1])
+  const pixels = match[2] === 'px' ? value : (value / 100) * (match[2] === 'vh' ? viewport : element)
+  return Math.max(0, pixels)
+}
+
+/**
+ * Where a pinned element sits for a scroll position
+ */
+export function getPinState(scroll: number, { start, distance }: PinLayout): PinState {
+  if (scroll < start) return { phase: 'before', progress: 0, offset: 0 }
+  if (scroll > start + distance) return { phase: 'after', progress: 1, offset: distance }
+
+  return {
+    phase: 'pinned',
+    progress: distance > 0 ? (scroll - start) / distance : 1,
+    offset: scroll - start,
+  }
+}
+
+/**
+ * Leading edge and visible length of a scroller (null is the window)
+ */
+export function getScrollerViewport(scroller: HTMLElement | null, orientation: ScrollOrientation): { start: number; size: number } {
+  const horizontal = orientation === 'horizontal'
+
+  if (!scroller) {
+    return { start: 0, size: horizontal ? window.innerWidth : window.innerHeight }
+  }
+
+  const rect = scroller.getBoundingClientRect()
+  return horizontal
+    ? { start: rect.left, size: scroller.clientWidth }
+    : { start: rect.top, size: scroller.clientHeight }
+}
@@ -0,0 +1,83 @@
+import {
+  MAX_RECORDING_SAMPLES,
+  ScrollRecorder,
+  getRecordingFrame,
+  parseScrollRecording,
+  serializeScrollRecording,
+  toScrollInputEvent,
+} from './recording'
+import type { ScrollRecording } from '@/types/scroll.types'
+
+describe('scroll recording', () => {
+  const context = { viewport: { width: 1280, height: 800 }, limit: 4000 }
+  const state = (scroll: number) => ({
+    scroll,
+    progress: scroll / 4000,
+    velocity: 2,
+    direction: 'down' as const,
+    activeSection: scroll < 2000 ? 'hero' : 'features',
+  })
+
+  it('records samples and input relative to the start', () => {
+    const recorder = new ScrollRecorder(1000, context)
+    recorder.sample(state(0), 1000)
+    recorder.input(new WheelEvent('wheel', { deltaY: 120 }), 1010)
+    recorder.input(new KeyboardEvent('keydown', { key: 'PageDown' }), 1020)
+    recorder.input(new Event('resize'), 1030)
+    recorder.sample(state(2400), 1500)
+
+    const recording = recorder.finish(1600)
+    expect(recording.duration).toBe(600)
+    expect(recording.limit).toBe(4000)
+    expect(recording.samples.map(sample => [sample.t, sample.scroll, sample.activeSection]))
+      .toEqual([[0, 0, 'hero'], [500, 2400, 'features']])
+    expect(recording.events).toEqual([
+      { t: 10, type: 'wheel', deltaX: 0, deltaY: 120 },
+      { t: 20, type: 'keydown', key: 'PageDown' },
+    ])
+  })
+
+  it('stops growing at the sample cap', () => {
+    const recorder = new ScrollRecorder(0, context)
+    for (let index = 0; index <= MAX_RECORDING_SAMPLES; index++) recorder.sample(state(0), index)
+
+    expect(recorder.sampleCount).toBe(MAX_RECORDING_SAMPLES)
+  })
+
+  it('round-trips through JSON', () => {
+    const recorder = new ScrollRecorder(0, context)
+    recorder.sample(state(100), 16)
+    const recording = recorder.finish(32)
+
+    expect(parseScrollRecording(serializeScrollRecording(recording))).toEqual(recording)
+  })
+
+  it('rejects anything that is not a recording', () => {
+    expect(() => parseScrollRecording('{')).toThrow('Invalid scroll recording: not JSON')
+    expect(() => parseScrollRecording(null)).toThrow('expected an object')
+    expect(() => parseScrollRecording({ version: 9, samples: [] })).toThrow('unsupported version 9')
+    expect(() => parseScrollRecording({ version: 1, samples: [{ t: 0 }] })).toThrow('samples need a time and a scroll offset')
+  })
+
+  it('interpolates the scroll between samples', () => {
+    const recording: ScrollRecording = {
+      ...new ScrollRecorder(0, context).finish(0),
+      samples: [0, 100, 300].map((t, index) => ({ ...state([0, 1000, 1400][index]), t })),
+      duration: 300,
+    }
+
+    expect(getRecordingFrame(recording, 50).scroll).toBe(500)
+    expect(getRecordingFrame(recording, 200)).toMatchObject({ scroll: 1200, sample: { t: 100 } })
+    expect(getRecordingFrame(recording, 900).scroll).toBe(1400)
+    expect(getRecordingFrame(recording, -10)).toEqual({ scroll: 0, sample: null })
+    // A page that has since grown replays at the same relative position
+    expect(getRecordingFrame(recording, 50, 8000).scroll).toBe(1000)
+  })
+
+  it('keeps touch positions', () => {
+    const touch = new Event('touchstart') as Event & { changedTouches: unknown }
+    touch.changedTouches = [{ clientX: 12.345, clientY: 400 }]
+
+    expect(toScrollInputEvent(touch, 5)).toEqual({ t: 5, type: 'touchstart', x: 12.35, y: 400 })
+  })
+})
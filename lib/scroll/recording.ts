@@ -0,0 +1,181 @@
+/**
+ * Scroll Recording
+ * Captures scroll state samples and the input behind them, serializes them
+ * to JSON and reads a recording back as scroll positions to replay
+ */
+
+import type {
+  ScrollInputEvent,
+  ScrollInputType,
+  ScrollRecording,
+  ScrollSample,
+  ScrollState,
+} from '@/types/scroll.types'
+
+export const SCROLL_RECORDING_VERSION = 1
+
+/** Window property the recorder controls are exposed on (for Playwright) */
+export const SCROLL_RECORDER_GLOBAL = '__immersiveScrollRecorder'
+
+/** Recording stops growing after this many samples - ten minutes at 60fps */
+export const MAX_RECORDING_SAMPLES = 36000
+
+/** Input events recorded alongside the samples */
+export const RECORDED_INPUT_EVENTS: ScrollInputType[] = ['wheel', 'touchstart', 'touchmove', 'touchend', 'keydown', 'pointerdown']
+
+const round = (value: number, precision = 100) => Math.round(value * precision) / precision
+
+export interface RecordingContext {
+  viewport: { width: number; height: number }
+  limit: number
+}
+
+export class ScrollRecorder {
+  private readonly startedAt: number
+  private readonly context: RecordingContext
+  private samples: ScrollSample[] = []
+  private events: ScrollInputEvent[] = []
+
+  constructor(startedAt: number, context: RecordingContext) {
+    this.startedAt = startedAt
+    this.context = context
+  }
+
+  get sampleCount(): number {
+    return this.samples.length
+  }
+
+  /**
+   * Adds a frame's scroll state
+   */
+  sample(state: Omit<ScrollState, 'isScrolling'> & { scroll: number }, now: number): void {
+    if (this.samples.length >= MAX_RECORDING_SAMPLES) return
+
+    this.samples.push({
+      t: round(now - this.startedAt),
+      scroll: round(state.scroll),
+      progress: round(state.progress, 1e5),
+      velocity: round(state.velocity),
+      direction: state.direction,
+      activeSection: state.activeSection,
+    })
+  }
+
+  /**
+   * Adds an input event (ignored when it isn't one we record)
+   */
+  input(event: Event, now: number): void {
+    if (this.samples.length >= MAX_RECORDING_SAMPLES) return
+
+    const input = toScrollInputEvent(event, round(now - this.startedAt))
+    if (input) this.events.push(input)
+  }
+
+  finish(now: number): ScrollRecording {
+    return {
+      version: SCROLL_RECORDING_VERSION,
+      createdAt: new Date().toISOString(),
+      viewport: this.context.viewport,
+      limit: this.context.limit,
+      duration: round(Math.max(now - this.startedAt, this.samples[this.samples.length - 1]?.t ?? 0)),
+      samples: this.samples,
+      events: this.events,
+    }
+  }
+}
+
+/**
+ * The parts of a DOM input event worth keeping, or null for other events
+ */
+export function toScrollInputEvent(event: Event, t: number): ScrollInputEvent | null {
+  const type = event.type as ScrollInputType
+  if (!RECORDED_INPUT_EVENTS.includes(type)) return null
+
+  if (type === 'wheel') {
+    const { deltaX, deltaY } = event as WheelEvent
+    return { t, type, deltaX: round(deltaX), deltaY: round(deltaY) }
+  }
+  if (type === 'keydown') {
+    return { t, type, key: (event as KeyboardEvent).key }
+  }
+  if (type === 'pointerdown') {
+    const { clientX, clientY } = event as PointerEvent
+    return { t, type, x: round(clientX), y: round(clientY) }
+  }
+
+  const touch = (event as TouchEvent).changedTouches?.[0]
+  return touch ? { t, type, x: round(touch.clientX), y: round(touch.clientY) } : { t, type }
+}
+
+export function serializeScrollRecording(recording: ScrollRecording): string {
+  return JSON.stringify(recording)
+}
+
+/**
+ * Reads a recording from JSON (or an already parsed object), checking its shape
+ */
+export function parseScrollRecording(input: string | unknown): ScrollRecording {
+  let data: unknown = input
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input)
+    } catch {
+      throw new Error('Invalid scroll recording: not JSON')
+    }
+  }
+
+  const recording = data as Partial<ScrollRecording> | null
+  if (!recording || typeof recording !== 'object') {
+    throw new Error('Invalid scroll recording: expected an object')
+  }
+  if (recording.version !== SCROLL_RECORDING_VERSION) {
+    throw new Error(`Invalid scroll recording: unsupported version ${String(recording.version)}`)
+  }
+  if (!Array.isArray(recording.samples) || recording.samples.some(sample => typeof sample?.t !== 'number' || typeof sample.scroll !== 'number')) {
+    throw new Error('Invalid scroll recording: samples need a time and a scroll offset')
+  }
+
+  return {
+    version: recording.version,
+    createdAt: recording.createdAt ?? '',
+    viewport: recording.viewport ?? { width: 0, height: 0 },
+    limit: recording.limit ?? 0,
+    duration: recording.duration ?? recording.samples[recording.samples.length - 1]?.t ?? 0,
+    samples: recording.samples,
+    events: Array.isArray(recording.events) ? recording.events : [],
+  }
+}
+
+export interface RecordingFrame {
+  /** Scroll offset, rescaled to `limit` when the page length changed since recording */
+  scroll: number
+  /** Latest sample at or before the time */
+  sample: ScrollSample | null
+}
+
+/**
+ * Where a recording was at a time (ms) - scroll interpolated between samples
+ */
+export function getRecordingFrame(recording: ScrollRecording, t: number, limit?: number): RecordingFrame {
+  const { samples } = recording
+  if (samples.length === 0) return { scroll: 0, sample: null }
+
+  // Last sample at or before t
+  let low = 0
+  let high = samples.length - 1
+  if (t < samples[0].t) high = -1
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (samples[middle].t <= t) low = middle
+    else high = middle - 1
+  }
+
+  const before = high >= 0 ? samples[high] : samples[0]
+  const after = samples[Math.min(high + 1, samples.length - 1)]
+  const span = after.t - before.t
+  const amount = span > 0 ? Math.max(0, Math.min(1, (t - before.t) / span)) : 0
+  const scroll = before.scroll + (after.scroll - before.scroll) * amount
+  const scale = limit !== undefined && recording.limit > 0 ? limit / recording.limit : 1
+
+  return { scroll: scroll * scale, sample: high >= 0 ? before : null }
+}
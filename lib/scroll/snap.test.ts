@@ -0,0 +1,87 @@
+import {
+  DEFAULT_SNAP_OPTIONS,
+  findPageTarget,
+  findSnapTarget,
+  getPagingAction,
+  getSnapCandidates,
+  isInteractiveTarget,
+} from './snap'
+import type { ScrollSnapOptions, SnapPoint } from '@/types/scroll.types'
+
+describe('scroll snapping', () => {
+  const options: ScrollSnapOptions = { ...DEFAULT_SNAP_OPTIONS, enabled: true }
+  const points: SnapPoint[] = [
+    { id: 'features', kind: 'section', offset: 1000 },
+    { id: 'hero', kind: 'section', offset: 0 },
+    { id: 'quote', kind: 'point', offset: 1500 },
+    { id: 'contact', kind: 'section', offset: 2000 },
+  ]
+  const viewport = 1000
+
+  it('filters and orders candidates by target kind', () => {
+    expect(getSnapCandidates(points, 'both').map(point => point.id)).toEqual(['hero', 'features', 'quote', 'contact'])
+    expect(getSnapCandidates(points, 'sections').map(point => point.id)).toEqual(['hero', 'features', 'contact'])
+    expect(getSnapCandidates(points, 'points').map(point => point.id)).toEqual(['quote'])
+  })
+
+  it('settles slow gestures on the nearest point', () => {
+    expect(findSnapTarget(points, options, { scroll: 1200, velocity: 2, viewport })?.id).toBe('features')
+    expect(findSnapTarget(points, options, { scroll: 1400, velocity: -2, viewport })?.id).toBe('quote')
+  })
+
+  it('carries flings on to the next point in their direction', () => {
+    const mandatory: ScrollSnapOptions = { ...options, mode: 'mandatory' }
+
+    expect(findSnapTarget(points, mandatory, { scroll: 1100, velocity: 20, viewport })?.id).toBe('quote')
+    expect(findSnapTarget(points, mandatory, { scroll: 1100, velocity: -20, viewport })?.id).toBe('features')
+    expect(findSnapTarget(points, { ...mandatory, targets: 'sections' }, { scroll: 1100, velocity: 20, viewport })?.id).toBe('contact')
+    // Proximity mode still won't travel further than `proximity` viewports
+    expect(findSnapTarget(points, options, { scroll: 1100, velocity: 20, viewport })).toBeNull()
+  })
+
+  it('only snaps to nearby points in proximity mode', () => {
+    const far = { scroll: 600, velocity: 2, viewport }
+
+    expect(findSnapTarget(points, options, far)).toBeNull()
+    expect(findSnapTarget(points, { ...options, mode: 'mandatory' }, far)?.id).toBe('features')
+  })
+
+  it('stays put when already resting on a point', () => {
+    expect(findSnapTarget(points, options, { scroll: 1000.5, velocity: 2, viewport })).toBeNull()
+    expect(findSnapTarget([], options, { scroll: 100, velocity: 2, viewport })).toBeNull()
+  })
+
+  it('pages section by section', () => {
+    expect(findPageTarget(points, 1000, 'next')?.id).toBe('contact')
+    expect(findPageTarget(points, 1200, 'previous')?.id).toBe('features')
+    expect(findPageTarget(points, 1200, 'first')?.id).toBe('hero')
+    expect(findPageTarget(points, 0, 'last')?.id).toBe('contact')
+    expect(findPageTarget(points, 2000, 'next')).toBeNull()
+  })
+
+  it('maps paging keys to actions', () => {
+    const key = (value: string, modifiers: Partial<KeyboardEvent> = {}) =>
+      getPagingAction({ key: value, shiftKey: false, altKey: false, ctrlKey: false, metaKey: false, ...modifiers })
+
+    expect(key('PageDown')).toBe('next')
+    expect(key('PageUp')).toBe('previous')
+    expect(key(' ')).toBe('next')
+    expect(key(' ', { shiftKey: true })).toBe('previous')
+    expect(key('Home')).toBe('first')
+    expect(key('End')).toBe('last')
+    expect(key('ArrowDown')).toBeNull()
+    expect(key('End', { ctrlKey: true })).toBeNull()
+  })
+
+  it('leaves key presses in form fields alone', () => {
+    const editable = document.createElement('div')
+    editable.contentEditable = 'true'
+    Object.defineProperty(editable, 'isContentEditable', { value: true })
+
+    expect(isInteractiveTarget(document.createElement('input'))).toBe(true)
+    expect(isInteractiveTarget(document.createElement('button'))).toBe(true)
+    expect(isInteractiveTarget(editable)).toBe(true)
+    expect(isInteractiveTarget(document.createElement('section'))).toBe(false)
+    expect(isInteractiveTarget(window)).toBe(false)
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * Scroll Snapping
+ * Decides where a resting scroll settles - the nearest snap point, or the
+ * next one along a fast fling - and which section keyboard paging moves to
+ */
+
+import type { PagingAction, ScrollSnapOptions, SnapPoint } from '@/types/scroll.types'
+
+export const DEFAULT_SNAP_OPTIONS: ScrollSnapOptions = {
+  enabled: false,
+  mode: 'proximity',
+  targets: 'both',
+  proximity: 0.3,
+  velocityThreshold: 8,
+  delay: 0.15,
+  duration: 0.8,
+  keyboard: false,
+}
+
+/** Velocities below this (Lenis pixels per frame) count as resting */
+export const SCROLL_REST_VELOCITY = 0.1
+
+/** Positions this close (pixels) count as already there */
+const SNAP_TOLERANCE = 1
+
+interface SnapContext {
+  scroll: number
+  /** Peak velocity of the gesture that just ended - its sign is the direction */
+  velocity: number
+  /** Viewport height in pixels */
+  viewport: number
+}
+
+/**
+ * Points a snap may settle on, sorted by offset
+ */
+export function getSnapCandidates(points: SnapPoint[], targets: ScrollSnapOptions['targets']): SnapPoint[] {
+  return points
+    .filter(point => targets === 'both' || (targets === 'sections' ? point.kind === 'section' : point.kind === 'point'))
+    .sort((a, b) => a.offset - b.offset)
+}
+
+const nearest = (points: SnapPoint[], scroll: number): SnapPoint | null =>
+  points.reduce<SnapPoint | null>(
+    (best, point) => (!best || Math.abs(point.offset - scroll) < Math.abs(best.offset - scroll) ? point : best),
+    null
+  )
+
+const ahead = (points: SnapPoint[], scroll: number, direction: number): SnapPoint | null =>
+  direction > 0
+    ? points.find(point => point.offset > scroll + SNAP_TOLERANCE) ?? null
+    : [...points].reverse().find(point => point.offset < scroll - SNAP_TOLERANCE) ?? null
+
+/**
+ * Where a scroll that has come to rest should settle (null stays put)
+ * Slow gestures settle on the nearest point; flings faster than `velocityThreshold`
+ * carry on to the next point in their direction. Proximity mode only snaps to
+ * points within `proximity` viewport heights.
+ */
+export function findSnapTarget(points: SnapPoint[], options: ScrollSnapOptions, { scroll, velocity, viewport }: SnapContext): SnapPoint | null {
+  const candidates = getSnapCandidates(points, options.targets)
+  const fling = Math.abs(velocity) >= options.velocityThreshold
+  const target = (fling ? ahead(candidates, scroll, Math.sign(velocity)) : null) ?? nearest(candidates, scroll)
+
+  if (!target) return null
+  const distance = Math.abs(target.offset - scroll)
+  if (distance <= SNAP_TOLERANCE) return null
+  if (options.mode === 'proximity' && distance > options.proximity * viewport) return null
+  return target
+}
+
+/**
+ * Section a paging action moves to from the current scroll position (null when there's nowhere to go)
+ */
+export function findPageTarget(points: SnapPoint[], scroll: number, action: PagingAction): SnapPoint | null {
+  const sections = getSnapCandidates(points, 'sections')
+  if (sections.length === 0) return null
+
+  switch (action) {
+    case 'first':
+      return sections[0]
+    case 'last':
+      return sections[sections.length - 1]
+    case 'next':
+      return ahead(sections, scroll, 1)
+    case 'previous':
+      return ahead(sections, scroll, -1)
+  }
+}
+
+/**
+ * Paging action for a key press (null for keys paging leaves alone)
+ */
+export function getPagingAction(event: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>): PagingAction | null {
+  if (event.altKey || event.ctrlKey || event.metaKey) return null
+
+  switch (event.key) {
+    case 'PageDown':
+      return 'next'
+    case 'PageUp':
+      return 'previous'
+    case ' ':
+      return event.shiftKey ? 'previous' : 'next'
+    case 'Home':
+      return 'first'
+    case 'End':
+      return 'last'
+    default:
+      return null
+  }
+}
+
+/**
+ * Whether a key press belongs to the element it happened in (form fields, buttons, editable content)
+ */
+export function isInteractiveTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable) return true
+  return ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName)
+}
+
+/**
+ * Scroll position at which an element's top edge reaches the top of the viewport
+ */
+export function getElementScrollOffset(element: Element, scroll: number): number {
+  return element.getBoundingClientRect().top + scroll
+}
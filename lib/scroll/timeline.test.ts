@@ -0,0 +1,96 @@
+import {
+  createScrollTimeline,
+  getRangeProgress,
+  getRegisteredTimelines,
+  registerTimeline,
+  subscribeToTimelines,
+} from './timeline'
+import { easeOut } from '@/lib/ethereal/easing'
+
+describe('scroll timeline', () => {
+  it('sequences tweens one after another by default', () => {
+    const timeline = createScrollTimeline('intro')
+      .to('title', { opacity: [0, 1] }, { duration: 1 })
+      .to('subtitle', { y: [40, 0] }, { duration: 1 })
+
+    expect(timeline.duration).toBe(2)
+    expect(timeline.sample(0.25)).toEqual({ title: { opacity: 0.5 }, subtitle: { y: 40 } })
+    expect(timeline.sample(0.75)).toEqual({ title: { opacity: 1 }, subtitle: { y: 20 } })
+  })
+
+  it('resolves relative positions and labels', () => {
+    const timeline = createScrollTimeline()
+      .to('a', { x: [0, 1] }, { duration: 1 })
+      .addLabel('reveal')
+      .to('b', { x: [0, 1] }, { duration: 1, at: '<' })
+      .to('c', { x: [0, 1] }, { duration: 1, at: '+=0.5' })
+      .to('d', { x: [0, 1] }, { duration: 0.5, at: '<+=0.25' })
+      .to('e', { x: [0, 1] }, { duration: 1, at: 'reveal-=0.5' })
+      .to('f', { x: [0, 1] }, { duration: 1, at: '>' })
+
+    const starts = Object.fromEntries(timeline.inspect().tweens.map(tween => [tween.target, tween.start]))
+    expect(starts).toEqual({ a: 0, b: 0, c: 1.5, d: 1.75, e: 0.5, f: 1.5 })
+    expect(timeline.getLabel('reveal')).toBe(1)
+  })
+
+  it('staggers each target in a group', () => {
+    const timeline = createScrollTimeline()
+      .to(['card-1', 'card-2', 'card-3'], { y: [60, 0] }, { duration: 1, stagger: 0.5 })
+      .to('footer', { opacity: [0, 1] }, { duration: 1, at: '>' })
+
+    expect(timeline.inspect().tweens.map(tween => tween.start)).toEqual([0, 0.5, 1, 2])
+    expect(timeline.sample(1 / 3)).toMatchObject({ 'card-1': { y: 0 }, 'card-2': { y: 30 }, 'card-3': { y: 60 } })
+  })
+
+  it('continues plain values from the current value', () => {
+    const timeline = createScrollTimeline()
+      .to('title', { opacity: [0, 1] }, { duration: 1 })
+      .to('title', { opacity: 0.2, scale: 2 }, { duration: 1 })
+
+    expect(timeline.sample(0.75)).toEqual({ title: { opacity: 0.6, scale: 1.5 } })
+  })
+
+  it('lets overlapping tweens take over once they start', () => {
+    const timeline = createScrollTimeline()
+      .to('box', { x: [0, 100] }, { duration: 2 })
+      .to('box', { x: [500, 600] }, { duration: 1, at: 1 })
+
+    expect(timeline.sample(0.25).box.x).toBe(25)
+    expect(timeline.sample(0.75).box.x).toBe(550)
+  })
+
+  it('applies easing and reverses', () => {
+    const timeline = createScrollTimeline().to('title', { opacity: [0, 1] }, { duration: 1, ease: easeOut })
+
+    expect(timeline.sample(0.5).title.opacity).toBeCloseTo(easeOut(0.5))
+    expect(timeline.reverse().sample(0).title.opacity).toBe(1)
+    expect(timeline.reversed).toBe(true)
+  })
+
+  it('rejects positions it cannot resolve', () => {
+    const timeline = createScrollTimeline()
+
+    expect(() => timeline.to('a', { x: 1 }, { at: 'missing' })).toThrow('Unknown timeline label "missing"')
+    expect(() => timeline.to('a', { x: 1 }, { at: '%%' })).toThrow('Invalid timeline position "%%"')
+  })
+
+  it('maps page progress onto a section range', () => {
+    expect(getRangeProgress(0.3, [0.2, 0.4])).toBeCloseTo(0.5)
+    expect(getRangeProgress(0.1, [0.2, 0.4])).toBe(0)
+    expect(getRangeProgress(0.9, [0.2, 0.4])).toBe(1)
+  })
+
+  it('tracks the timelines on the page', () => {
+    const timeline = createScrollTimeline('tracked')
+    const listener = jest.fn()
+    const unsubscribe = subscribeToTimelines(listener)
+
+    const unregister = registerTimeline(timeline)
+    expect(getRegisteredTimelines()).toContain(timeline)
+
+    unregister()
+    unsubscribe()
+    expect(getRegisteredTimelines()).not.toContain(timeline)
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,250 @@
+/**
+ * Scroll Timeline
+ * Sequences tweens on named targets along an abstract time axis - labels,
+ * overlaps, staggers and relative positions - and samples every value at
+ * a 0-1 scroll progress
+ */
+
+import type { EasingFunction } from '@/lib/ethereal/easing'
+
+/**
+ * Where a tween starts:
+ * - number: absolute time
+ * - '+=0.2' / '-=0.2': after (or overlapping) the end of the timeline
+ * - '<' / '>': the start / end of the previous tween ('<0.2', '>-=0.1' offset it)
+ * - 'label' / 'label+=0.5': a label's time
+ */
+export type TimelinePosition = number | string
+
+/** A target value, or an explicit [from, to] pair */
+export type TweenValue = number | [number, number]
+
+export interface TweenOptions {
+  /** Time units (default 0.5) */
+  duration?: number
+  /** Default: the end of the timeline */
+  at?: TimelinePosition
+  /** Offset between consecutive targets */
+  stagger?: number
+  /** Default: linear, which tracks the scroll exactly */
+  ease?: EasingFunction
+}
+
+export interface TimelineTween {
+  target: string
+  start: number
+  end: number
+  from: Record<string, number>
+  to: Record<string, number>
+  ease: EasingFunction
+}
+
+/** Values per target, per property */
+export type TimelineValues = Record<string, Record<string, number>>
+
+export interface TimelineSnapshot {
+  id: string
+  duration: number
+  /** Last progress sampled */
+  progress: number
+  reversed: boolean
+  labels: { name: string; time: number }[]
+  tweens: { target: string; start: number; end: number; properties: string[] }[]
+}
+
+export const DEFAULT_TWEEN_DURATION = 0.5
+
+/** Starting values for properties no tween sets a `from` for */
+const PROPERTY_DEFAULTS: Record<string, number> = { opacity: 1, scale: 1, scaleX: 1, scaleY: 1 }
+
+const POSITION_PATTERN = /^(<|>|[A-Za-z_][\w-]*)?(\+=|-=)?(-?\d*\.?\d+)?$/
+
+const linear: EasingFunction = t => t
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+/**
+ * Progress through a [start, end] slice of another progress (a section's share of the page)
+ */
+export function getRangeProgress(progress: number, [start, end]: [number, number]): number {
+  return end > start ? clamp01((progress - start) / (end - start)) : progress >= end ? 1 : 0
+}
+
+export class ScrollTimeline {
+  readonly id: string
+  /** Last progress sampled - read by the animation debugger */
+  progress = 0
+  private tweens: TimelineTween[] = []
+  private labels = new Map<string, number>()
+  private previous: { start: number; end: number } | null = null
+  private isReversed = false
+
+  constructor(id: string) {
+    this.id = id
+  }
+
+  /** Time the last tween ends */
+  get duration(): number {
+    return this.tweens.reduce((end, tween) => Math.max(end, tween.end), 0)
+  }
+
+  get reversed(): boolean {
+    return this.isReversed
+  }
+
+  /**
+   * Names a time (default: the current end) for later tweens to start from
+   */
+  addLabel(name: string, at?: TimelinePosition): this {
+    this.labels.set(name, this.resolvePosition(at))
+    return this
+  }
+
+  /**
+   * Tweens one or more targets - plain numbers continue from the target's current value
+   */
+  to(targets: string | string[], values: Record<string, TweenValue>, options: TweenOptions = {}): this {
+    const { duration = DEFAULT_TWEEN_DURATION, stagger = 0, ease = linear } = options
+    const start = this.resolvePosition(options.at)
+    const list = Array.isArray(targets) ? targets : [targets]
+
+    list.forEach((target, index) => {
+      const tweenStart = start + index * stagger
+      const from: Record<string, number> = {}
+      const to: Record<string, number> = {}
+
+      Object.entries(values).forEach(([property, value]) => {
+        from[property] = Array.isArray(value) ? value[0] : this.valueAt(target, property, tweenStart)
+        to[property] = Array.isArray(value) ? value[1] : value
+      })
+
+      this.tweens.push({ target, start: tweenStart, end: tweenStart + Math.max(0, duration), from, to, ease })
+    })
+
+    this.previous = { start, end: start + (list.length - 1) * stagger + Math.max(0, duration) }
+    return this
+  }
+
+  /**
+   * Plays the timeline backwards - scrolling down runs from the end to the start
+   */
+  reverse(reversed: boolean = !this.isReversed): this {
+    this.isReversed = reversed
+    return this
+  }
+
+  /** Time of a label (undefined when there's no such label) */
+  getLabel(name: string): number | undefined {
+    return this.labels.get(name)
+  }
+
+  /**
+   * Every target's values at a progress (0 start - 1 end)
+   */
+  sample(progress: number): TimelineValues {
+    this.progress = clamp01(progress)
+    const time = (this.isReversed ? 1 - this.progress : this.progress) * this.duration
+    const values: TimelineValues = {}
+
+    this.tweens.forEach(({ target, to }) => {
+      values[target] ??= {}
+      Object.keys(to).forEach(property => {
+        values[target][property] ??= this.valueAt(target, property, time)
+      })
+    })
+
+    return values
+  }
+
+  inspect(): TimelineSnapshot {
+    return {
+      id: this.id,
+      duration: this.duration,
+      progress: this.progress,
+      reversed: this.isReversed,
+      labels: Array.from(this.labels, ([name, time]) => ({ name, time })),
+      tweens: this.tweens.map(({ target, start, end, to }) => ({ target, start, end, properties: Object.keys(to) })),
+    }
+  }
+
+  // Later-starting tweens take over a property once they've started
+  private valueAt(target: string, property: string, time: number): number {
+    const tweens = this.tweens
+      .filter(tween => tween.target === target && property in tween.to)
+      .sort((a, b) => a.start - b.start)
+
+    let value = tweens.length > 0 ? tweens[0].from[property] : PROPERTY_DEFAULTS[property] ?? 0
+
+    for (const tween of tweens) {
+      if (time < tween.start) break
+      const span = tween.end - tween.start
+      const t = span > 0 ? clamp01((time - tween.start) / span) : 1
+      value = tween.from[property] + (tween.to[property] - tween.from[property]) * tween.ease(t)
+    }
+
+    return value
+  }
+
+  private resolvePosition(position: TimelinePosition | undefined): number {
+    const end = this.duration
+    if (position === undefined) return end
+    if (typeof position === 'number') return Math.max(0, position)
+
+    const match = POSITION_PATTERN.exec(position.replace(/\s+/g, ''))
+    if (!match || position.trim() === '') {
+      throw new Error(`Invalid timeline position "${position}"`)
+    }
+
+    const [, anchor, operator, amount] = match
+    const offset = amount === undefined ? 0 : operator === '-=' ? -parseFloat(amount) : parseFloat(amount)
+
+    let base: number
+    if (anchor === '<') base = this.previous?.start ?? 0
+    else if (anchor === '>') base = this.previous?.end ?? 0
+    else if (anchor) {
+      const label = this.labels.get(anchor)
+      if (label === undefined) throw new Error(`Unknown timeline label "${anchor}"`)
+      base = label
+    } else base = operator ? end : 0
+
+    return Math.max(0, base + offset)
+  }
+}
+
+let timelineCount = 0
+
+/**
+ * Starts an empty timeline - chain `addLabel` and `to` to build it up
+ */
+export function createScrollTimeline(id: string = `timeline-${++timelineCount}`): ScrollTimeline {
+  return new ScrollTimeline(id)
+}
+
+/* Timelines currently scrubbed on the page, for the animation debugger */
+
+type TimelineListener = () => void
+
+let registered: ScrollTimeline[] = []
+const listeners = new Set<TimelineListener>()
+
+const notify = () => listeners.forEach(listener => listener())
+
+export function registerTimeline(timeline: ScrollTimeline): () => void {
+  registered = [...registered, timeline]
+  notify()
+  return () => {
+    registered = registered.filter(entry => entry !== timeline)
+    notify()
+  }
+}
+
+export function getRegisteredTimelines(): ScrollTimeline[] {
+  return registered
+}
+
+export function subscribeToTimelines(listener: TimelineListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,48 @@
+import { getLayoutOffset, isElementRelativePosition, resolveTriggerPosition } from './trigger-position'
+
+describe('trigger positions', () => {
+  // 400px element starting 2000px down a page with an 800px viewport
+  const geometry = { elementStart: 2000, elementSize: 400, viewport: 800, limit: 5000 }
+
+  it('keeps numbers and lone keywords as global progress', () => {
+    expect(resolveTriggerPosition(0.25, geometry)).toEqual({ scroll: 1250, viewportOffset: 0 })
+    expect(resolveTriggerPosition('center', geometry).scroll).toBe(2500)
+    expect(isElementRelativePosition(0.25)).toBe(false)
+    expect(isElementRelativePosition('bottom')).toBe(false)
+    expect(isElementRelativePosition('top 80%')).toBe(true)
+    expect(isElementRelativePosition('+=300px')).toBe(true)
+  })
+
+  it('lines an element point up with a viewport point', () => {
+    expect(resolveTriggerPosition('top 80%', geometry)).toEqual({ scroll: 1360, viewportOffset: 640 })
+    expect(resolveTriggerPosition('bottom center', geometry)).toEqual({ scroll: 2000, viewportOffset: 400 })
+    expect(resolveTriggerPosition('center 100px', geometry)).toEqual({ scroll: 2100, viewportOffset: 100 })
+    expect(resolveTriggerPosition('top', { ...geometry, limit: 0 }).scroll).toBe(0)
+    expect(resolveTriggerPosition('50% top', geometry).scroll).toBe(2200)
+  })
+
+  it('offsets ends from the start', () => {
+    const start = resolveTriggerPosition('top 80%', geometry)
+
+    expect(resolveTriggerPosition('+=300px', geometry, start)).toEqual({ scroll: 1660, viewportOffset: 640 })
+    expect(resolveTriggerPosition('+=50%', geometry, start).scroll).toBe(1760)
+    expect(resolveTriggerPosition('-=60', geometry, start).scroll).toBe(1300)
+  })
+
+  it('falls back to the top of the page for unreadable positions', () => {
+    expect(resolveTriggerPosition('middle somewhere', geometry)).toEqual({ scroll: 0, viewportOffset: 0 })
+  })
+
+  it('measures layout offsets without transforms', () => {
+    const scroller = document.createElement('div')
+    const parent = document.createElement('div')
+    const element = document.createElement('div')
+    Object.defineProperty(element, 'offsetTop', { value: 150 })
+    Object.defineProperty(element, 'offsetParent', { value: parent })
+    Object.defineProperty(parent, 'offsetTop', { value: 900 })
+    Object.defineProperty(parent, 'offsetParent', { value: scroller })
+    element.style.transform = 'translateY(300px)'
+
+    expect(getLayoutOffset(element, 'vertical', scroller)).toBe(1050)
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Trigger Positions
+ * Resolves ScrollTrigger start/end positions to scroll offsets - global
+ * progress (0.25, 'center'), element-relative ('top 80%', 'bottom center')
+ * or relative to the start ('+=300px')
+ */
+
+import type { ScrollOrientation } from '@/types/scroll.types'
+
+export type TriggerPosition = number | string
+
+export interface TriggerGeometry {
+  /** Scroll offset of the element's leading edge */
+  elementStart: number
+  /** Element length along the scroll axis */
+  elementSize: number
+  /** Visible length of the scroller */
+  viewport: number
+  /** Maximum scroll offset */
+  limit: number
+}
+
+export interface ResolvedTriggerPosition {
+  /** Scroll offset the position is reached at */
+  scroll: number
+  /** Point of the viewport the position refers to (pixels from its leading edge) */
+  viewportOffset: number
+}
+
+const LEGACY_KEYWORDS: Record<string, number> = { top: 0, center: 0.5, bottom: 1 }
+
+/** Edge keywords as fractions of a length (left/right for horizontal scrollers) */
+const EDGE_KEYWORDS: Record<string, number> = { top: 0, left: 0, center: 0.5, bottom: 1, right: 1 }
+
+const LENGTH_PATTERN = /^(-?\d*\.?\d+)(px|%)?$/
+
+const RELATIVE_PATTERN = /^([+-])=(\d*\.?\d+)(px|%)?$/
+
+const readLength = (value: string, size: number): number | null => {
+  if (value in EDGE_KEYWORDS) return EDGE_KEYWORDS[value] * size
+
+  const match = LENGTH_PATTERN.exec(value)
+  if (!match) return null
+  const amount = parseFloat(match[1])
+  return match[2] === '%' ? (amount / 100) * size : amount
+}
+
+/**
+ * Whether a position depends on the element rather than the page's overall progress
+ */
+export function isElementRelativePosition(position: TriggerPosition): boolean {
+  if (typeof position === 'number') return false
+  const value = position.trim().toLowerCase()
+  return !(value in LEGACY_KEYWORDS) && value !== ''
+}
+
+/**
+ * Scroll offset for a position. `from` is the resolved start, used by '+=' / '-=' ends.
+ * Unreadable positions fall back to the top of the page.
+ */
+export function resolveTriggerPosition(
+  position: TriggerPosition,
+  { elementStart, elementSize, viewport, limit }: TriggerGeometry,
+  from?: ResolvedTriggerPosition
+): ResolvedTriggerPosition {
+  if (typeof position === 'number') return { scroll: position * limit, viewportOffset: 0 }
+
+  const value = position.trim().toLowerCase()
+  if (value in LEGACY_KEYWORDS) return { scroll: LEGACY_KEYWORDS[value] * limit, viewportOffset: 0 }
+
+  const relative = RELATIVE_PATTERN.exec(value)
+  if (relative) {
+    const amount = parseFloat(relative[2]) * (relative[1] === '-' ? -1 : 1)
+    const pixels = relative[3] === '%' ? (amount / 100) * viewport : amount
+    return { scroll: (from?.scroll ?? 0) + pixels, viewportOffset: from?.viewportOffset ?? 0 }
+  }
+
+  // "<element point> <viewport point>" - when the element point reaches the viewport point
+  const [elementPoint, viewportPoint = 'top'] = value.split(/\s+/)
+  const elementOffset = readLength(elementPoint, elementSize)
+  const viewportOffset = readLength(viewportPoint, viewport)
+  if (elementOffset === null || viewportOffset === null) return { scroll: 0, viewportOffset: 0 }
+
+  return { scroll: elementStart + elementOffset - viewportOffset, viewportOffset }
+}
+
+/**
+ * Layout offset of an element inside a scroller (null is the page) - ignores
+ * transforms, so the element's own animations don't move its trigger
+ */
+export function getLayoutOffset(element: HTMLElement, orientation: ScrollOrientation, scroller: HTMLElement | null): number {
+  let offset = 0
+  let current: HTMLElement | null = element
+
+  while (current && current !== scroller) {
+    offset += orientation === 'horizontal' ? current.offsetLeft : current.offsetTop
+    current = current.offsetParent as HTMLElement | null
+  }
+
+  return offset
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import React, { createContext, useContext, useCallback, useEffect, useMemo, useState } from 'react'
+import { type MotionValue, useMotionValue } from 'framer-motion'
+import { EtherealClock, parseClockQuery } from '@/lib/ethereal/clock'
+import type { AnimationClockOptions } from '@/types/ethereal.types'
+
+interface AnimationClockContextValue {
+  clock: EtherealClock;
+  /** True for paused, fixed-step and seeded clocks */
+  deterministic: boolean;
+  /** Swaps in a new clock (restarts animation time) */
+  setClock: (options: AnimationClockOptions) => void;
+}
+
+/** Test hook exposed on `window.etherealClock` */
+export interface AnimationClockControls {
+  readonly mode: AnimationClockOptions['mode'];
+  readonly time: number;
+  set: (options: AnimationClockOptions) => void;
+  advance: (seconds: number) => void;
+  setTime: (seconds: number) => void;
+}
+
+declare global {
+  interface Window {
+    /** Clock options to start with - set before the app loads (e.g. Playwright's addInitScript) */
+    __ETHEREAL_CLOCK__?: AnimationClockOptions;
+    etherealClock?: AnimationClockControls;
+  }
+}
+
+interface AnimationClockProviderProps {
+  children: React.ReactNode;
+  /** Clock to use unless the URL or the test hook asks for another (defaults to the wall clock) */
+  options?: AnimationClockOptions;
+  /** Reads `?ethereal-clock=...` and `window.__ETHEREAL_CLOCK__` */
+  allowOverrides?: boolean;
+}
+
+const AnimationClockContext = createContext<AnimationClockContextValue | null>(null)
+
+const resolveOverride = (): AnimationClockOptions | null =>
+  parseClockQuery(window.location.search) ?? window.__ETHEREAL_CLOCK__ ?? null
+
+export const AnimationClockProvider: React.FC<AnimationClockProviderProps> = ({
+  children,
+  options,
+  allowOverrides = true,
+}) => {
+  const [clock, setClockInstance] = useState(() => new EtherealClock(options))
+
+  // Overrides are only known on the client - picked up after hydration so the server render matches
+  useEffect(() => {
+    const override = allowOverrides ? resolveOverride() : null
+    if (override) {
+      setClockInstance(new EtherealClock(override))
+    }
+  }, [allowOverrides])
+
+  const setClock = useCallback((next: AnimationClockOptions) => {
+    setClockInstance(new EtherealClock(next))
+  }, [])
+
+  // Fixed-step clocks advance once per animation frame
+  useEffect(() => {
+    if (clock.mode !== 'fixed-step') return
+
+    let rafId = requestAnimationFrame(function step() {
+      clock.tick()
+      rafId = requestAnimationFrame(step)
+    })
+    return () => cancelAnimationFrame(rafId)
+  }, [clock])
+
+  // Test hook
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+
+    window.etherealClock = {
+      get mode() { return clock.mode },
+      get time() { return clock.time },
+      set: setClock,
+      advance: (seconds) => clock.advance(seconds),
+      setTime: (seconds) => clock.setTime(seconds),
+    }
+    return () => {
+      delete window.etherealClock
+    }
+  }, [clock, setClock])
+
+  const contextValue = useMemo<AnimationClockContextValue>(() => ({
+    clock,
+    deterministic: clock.deterministic,
+    setClock,
+  }), [clock, setClock])
+
+  return (
+    <AnimationClockContext.Provider value={contextValue}>
+      {children}
+    </AnimationClockContext.Provider>
+  )
+}
+
+const WALL_CLOCK: AnimationClockContextValue = {
+  clock: new EtherealClock(),
+  deterministic: false,
+  setClock: () => {},
+}
+
+// Current animation clock - the wall clock outside an AnimationClockProvider
+export const useAnimationClock = (): AnimationClockContextValue => {
+  return useContext(AnimationClockContext) ?? WALL_CLOCK
+}
+
+// Clock time as a motion value - follows deterministic clocks (the wall clock never notifies)
+export const useClockTime = (): MotionValue<number> => {
+  const { clock } = useAnimationClock()
+  const time = useMotionValue(clock.time)
+
+  useEffect(() => {
+    time.set(clock.time)
+    return clock.subscribe(latest => time.set(latest))
+  }, [clock, time])
+
+  return time
+}
+
+export default AnimationClockProvider
@@ -0,0 +1,36 @@
+"use client"
+
+import React, { createContext, useContext } from 'react'
+import { AutoplayOptions } from '@/types/scroll.types'
+import { useSection } from './SectionProvider'
+import { resolveAutoplayOptions } from '@/lib/scroll/autoplay'
+import { useAutoplayTour, type AutoplayControls } from '@/hooks/use-autoplay-tour'
+
+interface AutoplayProviderProps {
+  children: React.ReactNode;
+  options?: Partial<AutoplayOptions>;
+}
+
+const AutoplayContext = createContext<AutoplayControls | null>(null)
+
+// Tour through the SectionProvider's sections - for kiosks and demo recordings
+export const AutoplayProvider: React.FC<AutoplayProviderProps> = ({ children, options }) => {
+  const { sections, activeSection } = useSection()
+  const controls = useAutoplayTour({ sections, activeSection, options: resolveAutoplayOptions(options) })
+
+  return (
+    <AutoplayContext.Provider value={controls}>
+      {children}
+    </AutoplayContext.Provider>
+  )
+}
+
+export const useAutoplay = () => {
+  const context = useContext(AutoplayContext)
+  if (!context) {
+    throw new Error('useAutoplay must be used within an AutoplayProvider')
+  }
+  return context
+}
+
+export default AutoplayProvider
@@ -1,7 +1,7 @@
 "use client"
 
 import React, { createContext, useContext, useCallback, useEffect, useState } from 'react'
-import { motion, useMotionValue, useSpring, useTransform } from 'framer-motion'
+import { type MotionValue, useMotionValue, useSpring, useTransform } from 'framer-motion'
 import { useSection } from './SectionProvider'
 import { useLenisScroll } from '@/hooks/use-lenis-scroll'
 import { ContrastMode } from '@/types/scroll.types'
@@ -28,6 +28,8 @@ interface ContrastContextValue {
   interpolateColors: (from: string, to: string, progress: number) => string;
   updateTheme: (updates: Partial<ColorTheme>) => void;
   registerColorTransition: (sectionId: string, fromTheme: ColorTheme, toTheme: ColorTheme) => void;
+  /** Springs from 0 to 1 each time the mode changes */
+  transition: MotionValue<number>;
 }
 
 const ContrastContext = createContext<ContrastContextValue | null>(null)
@@ -71,7 +73,7 @@ export const ContrastProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   })
   
   // Motion values for smooth color transitions
-  const themeProgress = useMotionValue(0)
+  const themeProgress = useMotionValue(1)
   const smoothProgress = useSpring(themeProgress, {
     stiffness: 60,
     damping: 20,
@@ -119,8 +121,9 @@ export const ContrastProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       transitionProgress: 0,
     }))
     
-    // Animate transition
-    themeProgress.set(0)
+    // Restart the spring from 0 so every switch animates, even mid-transition
+    themeProgress.jump(0)
+    smoothProgress.jump(0)
     themeProgress.set(1)
     
     // Mark transition as complete after animation
@@ -131,7 +134,7 @@ export const ContrastProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         transitionProgress: 1,
       }))
     }, 600)
-  }, [themeProgress])
+  }, [themeProgress, smoothProgress])
   
   // Update theme properties
   const updateTheme = useCallback((updates: Partial<ColorTheme>) => {
@@ -237,6 +240,7 @@ export const ContrastProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     interpolateColors,
     updateTheme,
     registerColorTransition,
+    transition: smoothProgress,
   }
   
   return (
@@ -254,6 +258,9 @@ export const useContrast = () => {
   return context
 }
 
+// Same as useContrast, but returns null outside a ContrastProvider
+export const useOptionalContrast = () => useContext(ContrastContext)
+
 // Hook for section-based contrast management
 export const useSectionContrast = (sectionId: string) => {
   const { contrastState, setContrastMode } = useContrast()
@@ -0,0 +1,106 @@
+"use client"
+
+import React, { createContext, useContext, useCallback, useMemo, useState } from 'react'
+import { EtherealConfig } from '@/types/ethereal.types'
+import { ETHEREAL_CONFIG } from '@/config/ethereal.config'
+import { ETHEREAL_PRESETS, DEFAULT_ETHEREAL_PRESET } from '@/config/ethereal.presets'
+
+interface EtherealContextValue {
+  config: EtherealConfig;
+  preset: string | null;
+  presets: Record<string, EtherealConfig>;
+  setPreset: (name: string) => void;
+  /** Applies an ad-hoc configuration - `crossfade: false` restyles the scene in place (live tuning) */
+  setConfig: (config: EtherealConfig, options?: { crossfade?: boolean }) => void;
+  /** Bumped by every change that should cross-fade */
+  generation: number;
+  registerPreset: (name: string, config: EtherealConfig) => void;
+}
+
+interface EtherealProviderProps {
+  children: React.ReactNode;
+  preset?: string;                            // Initial preset name
+  presets?: Record<string, EtherealConfig>;   // Additional brand presets
+}
+
+const EtherealContext = createContext<EtherealContextValue | null>(null)
+
+export const EtherealProvider: React.FC<EtherealProviderProps> = ({
+  children,
+  preset: initialPreset = DEFAULT_ETHEREAL_PRESET,
+  presets: extraPresets,
+}) => {
+  const [presets, setPresets] = useState<Record<string, EtherealConfig>>(() => ({
+    ...ETHEREAL_PRESETS,
+    ...extraPresets,
+  }))
+  const [preset, setPresetState] = useState<string | null>(initialPreset)
+  const [customConfig, setCustomConfig] = useState<EtherealConfig | null>(null)
+  const [generation, setGeneration] = useState(0)
+
+  // Switch to a named preset
+  const setPreset = useCallback((name: string) => {
+    if (!presets[name]) {
+      console.warn(`Unknown ethereal preset "${name}"`)
+      return
+    }
+
+    setPresetState(name)
+    setCustomConfig(null)
+    setGeneration(current => current + 1)
+  }, [presets])
+
+  // Apply an ad-hoc configuration that is not registered as a preset
+  const setConfig = useCallback((config: EtherealConfig, { crossfade = true }: { crossfade?: boolean } = {}) => {
+    setPresetState(null)
+    setCustomConfig(config)
+    if (crossfade) {
+      setGeneration(current => current + 1)
+    }
+  }, [])
+
+  // Register (or replace) a named preset at runtime
+  const registerPreset = useCallback((name: string, config: EtherealConfig) => {
+    setPresets(prev => ({ ...prev, [name]: config }))
+  }, [])
+
+  const config = customConfig ?? (preset ? presets[preset] : undefined) ?? ETHEREAL_CONFIG
+
+  const contextValue = useMemo<EtherealContextValue>(() => ({
+    config,
+    preset,
+    presets,
+    setPreset,
+    setConfig,
+    generation,
+    registerPreset,
+  }), [config, preset, presets, setPreset, setConfig, generation, registerPreset])
+
+  return (
+    <EtherealContext.Provider value={contextValue}>
+      {children}
+    </EtherealContext.Provider>
+  )
+}
+
+export const useEthereal = () => {
+  const context = useContext(EtherealContext)
+  if (!context) {
+    throw new Error('useEthereal must be used within an EtherealProvider')
+  }
+  return context
+}
+
+// Resolves the active configuration, falling back to the default outside a provider
+export const useEtherealConfig = (): EtherealConfig => {
+  const context = useContext(EtherealContext)
+  return context?.config ?? ETHEREAL_CONFIG
+}
+
+// Cross-fade generation of the provider's configuration (null outside a provider)
+export const useEtherealGeneration = (): number | null => {
+  const context = useContext(EtherealContext)
+  return context?.generation ?? null
+}
+
+export default EtherealProvider
@@ -1,19 +1,66 @@
 "use client"
 
-import React, { createContext, useContext, useEffect, useRef, useState, useCallback } from 'react'
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState, useCallback } from 'react'
 import dynamic from 'next/dynamic'
-import { ScrollState, ScrollProviderProps, LenisInstance } from '@/types/scroll.types'
+import {
+  ScrollState,
+  ScrollProviderProps,
+  LenisInstance,
+  PagingAction,
+  ScrollOrientation,
+  ScrollRecorderControls,
+  ScrollRecorderStatus,
+  ScrollRecording,
+  ScrollReplayOptions,
+  SnapPoint,
+  SnapPointSource,
+} from '@/types/scroll.types'
 import { useReducedMotion } from '@/hooks/use-reduced-motion'
+import {
+  DEFAULT_SNAP_OPTIONS,
+  SCROLL_REST_VELOCITY,
+  findPageTarget,
+  findSnapTarget,
+  getPagingAction,
+  isInteractiveTarget,
+} from '@/lib/scroll/snap'
+import { getScrollerState } from '@/lib/scroll/nested'
+import {
+  RECORDED_INPUT_EVENTS,
+  SCROLL_RECORDER_GLOBAL,
+  ScrollRecorder,
+  getRecordingFrame,
+  parseScrollRecording,
+} from '@/lib/scroll/recording'
 
-interface LenisContextValue {
+export interface LenisContextValue {
   lenis: LenisInstance | null;
   scrollState: ScrollState;
   isReady: boolean;
   scrollTo: (target: string | number, options?: any) => void;
   updateScrollState: (state: Partial<ScrollState>) => void;
+  /** Adds a snap point / paging stop - returns its unregister function */
+  registerSnapPoint: (point: SnapPointSource) => () => void;
+  /** Moves section by section (false when there's nowhere to go) */
+  paginate: (action: PagingAction) => boolean;
+  orientation: ScrollOrientation;
+  /** Element that scrolls (null when it's the window) */
+  element: HTMLElement | null;
+  /** Scroller this one is nested in (null for the page) */
+  parent: LenisContextValue | null;
+  /** Scroll recording and replay (null unless the provider's `recorder` is on) */
+  recorder: ScrollRecorderControls | null;
 }
 
-const LenisContext = createContext<LenisContextValue | null>(null)
+interface ActiveReplay {
+  recording: ScrollRecording;
+  startedAt: number;
+  speed: number;
+  resolve: () => void;
+}
+
+// Nested scrollers (ScrollContainer) provide their own value, so consumers bind to the nearest one
+export const LenisContext = createContext<LenisContextValue | null>(null)
 
 // Dynamically import ReactLenis to avoid SSG serialization issues
 const ReactLenis = dynamic(
@@ -27,10 +74,22 @@ const ReactLenis = dynamic(
 // Client-only LenisProvider implementation
 const LenisProviderClient: React.FC<ScrollProviderProps> = ({ 
   children, 
-  options
+  options,
+  snap,
+  recorder: recorderEnabled = false,
 }) => {
   const lenisRef = useRef<any>(null)
+  const snapPoints = useRef<Map<string, SnapPointSource>>(new Map())
+  // Snap and paging animations run until this time (ms) without being snapped again
+  const snapLockUntil = useRef(0)
+  const snapOptions = useRef({ ...DEFAULT_SNAP_OPTIONS, ...snap })
+  snapOptions.current = { ...DEFAULT_SNAP_OPTIONS, ...snap }
   const [isReady, setIsReady] = useState(false)
+  // Recording and replay live in refs - the RAF loop reads them every frame
+  const recorderRef = useRef<ScrollRecorder | null>(null)
+  const replayRef = useRef<ActiveReplay | null>(null)
+  const activeSectionRef = useRef('')
+  const [recorderStatus, setRecorderStatus] = useState<ScrollRecorderStatus>('idle')
   const prefersReducedMotion = useReducedMotion()
   
   const defaultOptions = {
@@ -54,6 +113,7 @@ const LenisProviderClient: React.FC<ScrollProviderProps> = ({
 
   // Enhanced scroll state management
   const updateScrollState = useCallback((newState: Partial<ScrollState>) => {
+    if (newState.activeSection !== undefined) activeSectionRef.current = newState.activeSection
     setScrollState(prev => ({ ...prev, ...newState }))
   }, [])
 
@@ -75,23 +135,100 @@ const LenisProviderClient: React.FC<ScrollProviderProps> = ({
     lenisRef.current.lenis.scrollTo(target, scrollToOptions)
   }, [defaultOptions.duration, prefersReducedMotion])
 
+  const registerSnapPoint = useCallback((point: SnapPointSource) => {
+    snapPoints.current.set(point.id, point)
+    return () => {
+      if (snapPoints.current.get(point.id) === point) {
+        snapPoints.current.delete(point.id)
+      }
+    }
+  }, [])
+
+  // Registered points measured at the current scroll position
+  const measureSnapPoints = useCallback((scroll: number): SnapPoint[] => {
+    const points: SnapPoint[] = []
+    snapPoints.current.forEach(({ id, kind, getOffset }) => {
+      const offset = getOffset(scroll)
+      if (offset !== null) points.push({ id, kind, offset })
+    })
+    return points
+  }, [])
+
+  const scrollToSnapPoint = useCallback((point: SnapPoint) => {
+    const { duration } = snapOptions.current
+    snapLockUntil.current = performance.now() + (prefersReducedMotion ? 0 : duration * 1000) + 100
+    scrollTo(point.offset, { duration })
+  }, [scrollTo, prefersReducedMotion])
+
+  const paginate = useCallback((action: PagingAction): boolean => {
+    const lenis = lenisRef.current?.lenis
+    if (!lenis) return false
+
+    const target = findPageTarget(measureSnapPoints(lenis.scroll || 0), lenis.scroll || 0, action)
+    if (!target) return false
+    scrollToSnapPoint(target)
+    return true
+  }, [measureSnapPoints, scrollToSnapPoint])
+
+  // Ends a replay where it is and hands the scroll back to the user
+  const finishReplay = useCallback(() => {
+    const replay = replayRef.current
+    if (!replay) return
+
+    replayRef.current = null
+    lenisRef.current?.lenis?.start()
+    setRecorderStatus('idle')
+    replay.resolve()
+  }, [])
+
+  // Keyboard paging - replaces the browser's page-sized jumps with section-sized ones
+  useEffect(() => {
+    if (!snapOptions.current.keyboard) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (replayRef.current || event.defaultPrevented || isInteractiveTarget(event.target)) return
+      const action = getPagingAction(event)
+      if (action && paginate(action)) {
+        event.preventDefault()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [snap?.keyboard, paginate])
+
   // Custom RAF integration
   useEffect(() => {
     let isScrolling = false
     let scrollTimeout: NodeJS.Timeout
     let animationId: number
+    // Current gesture: fastest velocity seen, and when it came to rest
+    let gesturePeak = 0
+    let restingSince: number | null = null
     
     function update() {
       const lenis = lenisRef.current?.lenis
       
       if (lenis) {
+        // Replays set the position themselves, ahead of the frame
+        const replay = replayRef.current
+        const replayTime = replay ? (performance.now() - replay.startedAt) * replay.speed : 0
+        const replayFrame = replay
+          ? getRecordingFrame(replay.recording, Math.min(replayTime, replay.recording.duration), lenis.limit)
+          : null
+        if (replayFrame) {
+          lenis.scrollTo(replayFrame.scroll, { immediate: true, force: true })
+        }
+
         lenis.raf(Date.now())
         
         // Enhanced scroll state tracking
         const currentScroll = lenis.scroll || 0
-        const limit = lenis.limit || 1
-        const velocity = lenis.velocity || 0
-        const progress = limit > 0 ? currentScroll / limit : 0
+        const measured = getScrollerState(lenis)
+        const progress = measured.progress
+        // Jumping between positions has no velocity of its own - replay the recorded one
+        const velocity = replayFrame?.sample?.velocity ?? measured.velocity
+        const direction = replayFrame?.sample?.direction ?? measured.direction
         
         // Detect scroll activity
         if (!isScrolling && Math.abs(velocity) > 0.1) {
@@ -107,11 +244,45 @@ const LenisProviderClient: React.FC<ScrollProviderProps> = ({
         }, 150)
         
         // Update scroll state
-        updateScrollState({
-          progress: Math.max(0, Math.min(1, progress)),
+        updateScrollState({ progress, velocity, direction })
+
+        recorderRef.current?.sample({
+          scroll: currentScroll,
+          progress,
           velocity,
-          direction: velocity > 0 ? 'down' : 'up',
-        })
+          direction,
+          activeSection: activeSectionRef.current,
+        }, performance.now())
+
+        if (replay && replayTime >= replay.recording.duration) {
+          finishReplay()
+        }
+
+        // Snap once a gesture has been at rest for `delay` seconds
+        const snapSettings = snapOptions.current
+        const now = performance.now()
+        if (snapSettings.enabled && !replay && now >= snapLockUntil.current) {
+          if (Math.abs(velocity) > SCROLL_REST_VELOCITY) {
+            if (Math.abs(velocity) > Math.abs(gesturePeak)) gesturePeak = velocity
+            restingSince = null
+          } else if (gesturePeak !== 0) {
+            restingSince ??= now
+            if (now - restingSince >= snapSettings.delay * 1000) {
+              const target = findSnapTarget(measureSnapPoints(currentScroll), snapSettings, {
+                scroll: currentScroll,
+                velocity: gesturePeak,
+                viewport: window.innerHeight,
+              })
+              gesturePeak = 0
+              restingSince = null
+              if (target) scrollToSnapPoint(target)
+            }
+          }
+        } else {
+          // Our own snap animation isn't a gesture
+          gesturePeak = 0
+          restingSince = null
+        }
       }
       
       animationId = requestAnimationFrame(update)
@@ -124,12 +295,92 @@ const LenisProviderClient: React.FC<ScrollProviderProps> = ({
       cancelAnimationFrame(animationId)
       clearTimeout(scrollTimeout)
     }
-  }, [updateScrollState])
+  }, [updateScrollState, measureSnapPoints, scrollToSnapPoint, finishReplay])
+
+  const startRecording = useCallback(() => {
+    if (replayRef.current || recorderRef.current) return
+
+    recorderRef.current = new ScrollRecorder(performance.now(), {
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      limit: lenisRef.current?.lenis?.limit ?? 0,
+    })
+    setRecorderStatus('recording')
+  }, [])
+
+  const stopRecording = useCallback((): ScrollRecording | null => {
+    const recorder = recorderRef.current
+    if (!recorder) return null
+
+    recorderRef.current = null
+    setRecorderStatus('idle')
+    return recorder.finish(performance.now())
+  }, [])
+
+  const replay = useCallback((input: ScrollRecording | string, replayOptions?: ScrollReplayOptions) => {
+    const recording = parseScrollRecording(input)
+    stopRecording()
+    finishReplay()
+
+    return new Promise<void>(resolve => {
+      // User input would fight the playback
+      lenisRef.current?.lenis?.stop()
+      replayRef.current = {
+        recording,
+        startedAt: performance.now(),
+        speed: replayOptions?.speed && replayOptions.speed > 0 ? replayOptions.speed : 1,
+        resolve,
+      }
+      setRecorderStatus('replaying')
+    })
+  }, [stopRecording, finishReplay])
+
+  // Input events, kept with the samples they caused
+  useEffect(() => {
+    if (recorderStatus !== 'recording') return
+
+    const handleInput = (event: Event) => {
+      recorderRef.current?.input(event, performance.now())
+    }
+    const listenerOptions = { capture: true, passive: true }
+
+    RECORDED_INPUT_EVENTS.forEach(type => window.addEventListener(type, handleInput, listenerOptions))
+    return () => {
+      RECORDED_INPUT_EVENTS.forEach(type => window.removeEventListener(type, handleInput, listenerOptions))
+    }
+  }, [recorderStatus])
+
+  // Nothing outlives the provider
+  useEffect(() => () => {
+    recorderRef.current = null
+    replayRef.current?.resolve()
+    replayRef.current = null
+  }, [])
+
+  const recorder = useMemo<ScrollRecorderControls | null>(() => recorderEnabled ? {
+    status: recorderStatus,
+    start: startRecording,
+    stop: stopRecording,
+    replay,
+    stopReplay: finishReplay,
+  } : null, [recorderEnabled, recorderStatus, startRecording, stopRecording, replay, finishReplay])
+
+  // Playwright drives the recorder through `window.__immersiveScrollRecorder`
+  useEffect(() => {
+    if (!recorder) return
+
+    const target = window as unknown as Record<string, ScrollRecorderControls | undefined>
+    target[SCROLL_RECORDER_GLOBAL] = recorder
+    return () => {
+      if (target[SCROLL_RECORDER_GLOBAL] === recorder) delete target[SCROLL_RECORDER_GLOBAL]
+    }
+  }, [recorder])
 
   // Enhanced options with reduced motion support
   const lenisOptions = {
     ...defaultOptions,
     autoRaf: false,
+    orientation: defaultOptions.direction,
+    gestureOrientation: defaultOptions.gestureDirection,
     smooth: prefersReducedMotion ? false : defaultOptions.smooth,
     lerp: prefersReducedMotion ? 1 : defaultOptions.lerp,
   }
@@ -140,6 +391,12 @@ const LenisProviderClient: React.FC<ScrollProviderProps> = ({
     isReady,
     scrollTo,
     updateScrollState,
+    registerSnapPoint,
+    paginate,
+    orientation: defaultOptions.direction,
+    element: null,
+    parent: null,
+    recorder,
   }
 
   return (
@@ -156,7 +413,7 @@ const LenisProviderClient: React.FC<ScrollProviderProps> = ({
 }
 
 // Main LenisProvider that renders client-only
-export const LenisProvider: React.FC<ScrollProviderProps> = ({ children, options }) => {
+export const LenisProvider: React.FC<ScrollProviderProps> = ({ children, options, snap, recorder }) => {
   const [isMounted, setIsMounted] = useState(false)
 
   useEffect(() => {
@@ -177,6 +434,12 @@ export const LenisProvider: React.FC<ScrollProviderProps> = ({ children, options
       isReady: false,
       scrollTo: () => {},
       updateScrollState: () => {},
+      registerSnapPoint: () => () => {},
+      paginate: () => false,
+      orientation: options?.direction ?? 'vertical',
+      element: null,
+      parent: null,
+      recorder: null,
     }
 
     return (
@@ -186,7 +449,11 @@ export const LenisProvider: React.FC<ScrollProviderProps> = ({ children, options
     )
   }
 
-  return <LenisProviderClient options={options}>{children}</LenisProviderClient>
+  return (
+    <LenisProviderClient options={options} snap={snap} recorder={recorder}>
+      {children}
+    </LenisProviderClient>
+  )
 }
 
 export const useLenis = () => {
@@ -197,4 +464,13 @@ export const useLenis = () => {
   return context
 }
 
+// The page scroller, skipping any nested scrollers in between
+export const useRootLenis = () => {
+  let context = useLenis()
+  while (context.parent) {
+    context = context.parent
+  }
+  return context
+}
+
 export default LenisProvider
\ No newline at end of file
@@ -0,0 +1,138 @@
+"use client"
+
+import React, { createContext, useContext, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { QUALITY_CONFIG } from '@/config/ethereal.config'
+import { PerformanceEngine } from '@/lib/performance/performance-engine'
+import { findQualityTier, QualityGovernor } from '@/lib/ethereal/quality'
+import { useAnimationClock } from './AnimationClockProvider'
+import type { QualityConfig, QualityTier } from '@/types/ethereal.types'
+
+interface QualityContextValue {
+  tier: QualityTier;
+  tierIndex: number;
+  tiers: QualityTier[];
+  /** True while a tier is forced instead of governed */
+  locked: boolean;
+  /** Forces a tier by name, or hands control back to the governor with null */
+  lockTier: (name: string | null) => void;
+}
+
+interface QualityProviderProps {
+  children: React.ReactNode;
+  config?: QualityConfig;
+  /** Tier to start in (defaults to the best) */
+  initialTier?: string;
+  /** Reads the current frame rate - defaults to PerformanceEngine's FPS */
+  sampleFps?: () => number;
+  /** Milliseconds between samples */
+  sampleInterval?: number;
+  /** Stops governing (the current tier stays) */
+  enabled?: boolean;
+}
+
+const QualityContext = createContext<QualityContextValue | null>(null)
+
+const readEngineFps = () => PerformanceEngine.getInstance().getMetrics().fps
+
+export const QualityProvider: React.FC<QualityProviderProps> = ({
+  children,
+  config = QUALITY_CONFIG,
+  initialTier,
+  sampleFps = readEngineFps,
+  sampleInterval = 1000,
+  enabled = true,
+}) => {
+  const initialIndex = initialTier ? Math.max(0, findQualityTier(config, initialTier)) : 0
+  const governorRef = useRef<QualityGovernor | null>(null)
+  if (!governorRef.current) {
+    governorRef.current = new QualityGovernor(config, initialIndex)
+  }
+
+  const [tierIndex, setTierIndex] = useState(initialIndex)
+  const [locked, setLocked] = useState(false)
+  // Deterministic clocks need the same tier on every run
+  const { deterministic } = useAnimationClock()
+  const sampleFpsRef = useRef(sampleFps)
+  sampleFpsRef.current = sampleFps
+
+  // A new configuration starts a fresh governor at the same tier
+  const configRef = useRef(config)
+  useEffect(() => {
+    if (configRef.current === config) return
+    configRef.current = config
+    governorRef.current = new QualityGovernor(config, governorRef.current!.tierIndex)
+    setTierIndex(governorRef.current.tierIndex)
+  }, [config])
+
+  // Sample the frame rate while governing
+  useEffect(() => {
+    if (!enabled || locked || deterministic || typeof window === 'undefined') return
+
+    const interval = window.setInterval(() => {
+      // Hidden tabs don't render - their frame rate says nothing about the budget
+      if (document.hidden) return
+
+      const governor = governorRef.current!
+      setTierIndex(governor.sample(sampleFpsRef.current()))
+    }, sampleInterval)
+
+    return () => window.clearInterval(interval)
+  }, [enabled, locked, deterministic, sampleInterval])
+
+  const lockTier = useCallback((name: string | null) => {
+    const governor = governorRef.current!
+
+    if (name === null) {
+      governor.reset(governor.tierIndex)
+      setLocked(false)
+      return
+    }
+
+    const index = findQualityTier(config, name)
+    if (index === -1) {
+      console.warn(`Unknown quality tier "${name}"`)
+      return
+    }
+
+    governor.reset(index)
+    setTierIndex(index)
+    setLocked(true)
+  }, [config])
+
+  const tier = config.tiers[tierIndex] ?? config.tiers[0]
+
+  // Lets CSS follow the same budget
+  useEffect(() => {
+    document.documentElement.setAttribute('data-quality', tier.name)
+    return () => document.documentElement.removeAttribute('data-quality')
+  }, [tier.name])
+
+  const contextValue = useMemo<QualityContextValue>(() => ({
+    tier,
+    tierIndex,
+    tiers: config.tiers,
+    locked,
+    lockTier,
+  }), [tier, tierIndex, config.tiers, locked, lockTier])
+
+  return (
+    <QualityContext.Provider value={contextValue}>
+      {children}
+    </QualityContext.Provider>
+  )
+}
+
+const UNGOVERNED: QualityContextValue = {
+  tier: QUALITY_CONFIG.tiers[0],
+  tierIndex: 0,
+  tiers: QUALITY_CONFIG.tiers,
+  locked: false,
+  lockTier: () => {},
+}
+
+// Current quality budget - the best tier outside a QualityProvider
+export const useQuality = (): QualityContextValue => {
+  return useContext(QualityContext) ?? UNGOVERNED
+}
+
+export default QualityProvider
@@ -1,8 +1,28 @@
 "use client"
 
 import React, { createContext, useContext, useCallback, useRef, useState, useEffect } from 'react'
-import { Section, ZLayers, ContrastMode } from '@/types/scroll.types'
+import {
+  Section,
+  ZLayers,
+  ContrastMode,
+  ScrollHistoryOptions,
+  ActiveSectionLevel,
+  SectionListeners,
+} from '@/types/scroll.types'
 import { useLenis } from './LenisProvider'
+import { getElementScrollOffset } from '@/lib/scroll/snap'
+import { resolveScrollHistoryOptions } from '@/lib/scroll/history'
+import { useScrollHistory } from '@/hooks/use-scroll-history'
+import {
+  dispatchSectionEvent,
+  getActiveSectionPath,
+  getActiveSections,
+  getChildSections as findChildSections,
+  getLevelProgress,
+  getParentSection as findParentSection,
+  getSectionPath,
+  getSectionTransition,
+} from '@/lib/scroll/hierarchy'
 
 interface SectionContextValue {
   sections: Map<string, Section>;
@@ -10,19 +30,40 @@ interface SectionContextValue {
   registerSection: (section: Section) => void;
   unregisterSection: (sectionId: string) => void;
   updateSection: (sectionId: string, updates: Partial<Section>) => void;
+  /** Deepest section holding the progress */
   getSectionByProgress: (progress: number) => Section | null;
   setActiveSection: (sectionId: string) => void;
   getNextZIndex: (layer: ZLayers) => number;
+  /** Scrolls to a section (false when it isn't on the page) */
+  scrollToSection: (sectionId: string) => boolean;
+  /** Active section and its ancestors, outermost first, with each level's progress */
+  activePath: ActiveSectionLevel[];
+  getParentSection: (sectionId: string) => Section | null;
+  /** Children of a section, or the top-level sections for null */
+  getChildSections: (sectionId: string | null) => Section[];
+  /** Enter/leave handlers for a section - its descendants' events bubble to it too */
+  addSectionListener: (sectionId: string, listeners: SectionListeners) => () => void;
+}
+
+interface SectionProviderProps {
+  children: React.ReactNode;
+  /** URL hash / history sync - false turns it off */
+  history?: boolean | Partial<ScrollHistoryOptions>;
 }
 
 const SectionContext = createContext<SectionContextValue | null>(null)
 
-export const SectionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { scrollState, updateScrollState } = useLenis()
+// Id of the ScrollSection a section is nested in
+export const SectionParentContext = createContext<string | null>(null)
+
+export const SectionProvider: React.FC<SectionProviderProps> = ({ children, history }) => {
+  const { scrollState, updateScrollState, registerSnapPoint } = useLenis()
   const [sections, setSections] = useState<Map<string, Section>>(new Map())
   const [activeSection, setActiveSectionState] = useState<string | null>(null)
   const zIndexCounters = useRef<Map<ZLayers, number>>(new Map())
   const intersectionObserver = useRef<IntersectionObserver | null>(null)
+  const sectionListeners = useRef<Map<string, Set<SectionListeners>>>(new Map())
+  const activeSectionIds = useRef<string[]>([])
 
   // Initialize z-index counters
   useEffect(() => {
@@ -82,29 +123,43 @@ export const SectionProvider: React.FC<{ children: React.ReactNode }> = ({ child
     })
   }, [])
 
-  // Get section by scroll progress
+  // Get section by scroll progress - nested sections win over their parents
   const getSectionByProgress = useCallback((progress: number): Section | null => {
-    for (const section of sections.values()) {
-      if (progress >= section.triggerStart && progress <= section.triggerEnd) {
-        return section
+    const path = getActiveSectionPath(sections, progress)
+    return path[path.length - 1] ?? null
+  }, [sections])
+
+  const getParentSection = useCallback((sectionId: string) => findParentSection(sections, sectionId), [sections])
+
+  const getChildSections = useCallback((sectionId: string | null) => findChildSections(sections, sectionId), [sections])
+
+  const addSectionListener = useCallback((sectionId: string, listeners: SectionListeners) => {
+    const registered = sectionListeners.current.get(sectionId) ?? new Set<SectionListeners>()
+    registered.add(listeners)
+    sectionListeners.current.set(sectionId, registered)
+
+    return () => {
+      registered.delete(listeners)
+      if (registered.size === 0 && sectionListeners.current.get(sectionId) === registered) {
+        sectionListeners.current.delete(sectionId)
       }
     }
-    return null
-  }, [sections])
+  }, [])
 
   // Set active section and update global state
   const setActiveSection = useCallback((sectionId: string) => {
     setActiveSectionState(sectionId)
     updateScrollState({ activeSection: sectionId })
     
-    // Update section active states
+    // Update section active states - ancestors of the active section are active too
     setSections(prev => {
       const newSections = new Map(prev)
+      const activeIds = getSectionPath(prev, sectionId).map(section => section.id)
       
       newSections.forEach((section, id) => {
         newSections.set(id, { 
           ...section, 
-          isActive: id === sectionId 
+          isActive: activeIds.includes(id)
         })
       })
       
@@ -150,6 +205,16 @@ export const SectionProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   }, [scrollState.progress, getSectionByProgress, activeSection, setActiveSection])
 
+  // Enter/leave events: children leave before their parents, parents enter before their children
+  useEffect(() => {
+    const next = getActiveSections(sections, scrollState.progress)
+    const { left, entered } = getSectionTransition(activeSectionIds.current, next)
+    activeSectionIds.current = next
+
+    left.forEach(id => dispatchSectionEvent('leave', id, sections, sectionListeners.current))
+    entered.forEach(id => dispatchSectionEvent('enter', id, sections, sectionListeners.current))
+  }, [scrollState.progress, sections])
+
   // Observe section elements when they're registered
   useEffect(() => {
     sections.forEach(section => {
@@ -164,6 +229,33 @@ export const SectionProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   }, [sections])
 
+  // Every section is a snap point and a keyboard paging stop
+  useEffect(() => {
+    const unregister = Array.from(sections.keys()).map(id =>
+      registerSnapPoint({
+        id,
+        kind: 'section',
+        getOffset: (scroll) => {
+          const element = sections.get(id)?.element
+            ?? document.querySelector(`[data-section-id="${id.replace(/["\\]/g, '\\$&')}"]`)
+          return element ? getElementScrollOffset(element, scroll) : null
+        },
+      })
+    )
+
+    return () => unregister.forEach(fn => fn())
+  }, [sections, registerSnapPoint])
+
+  // Active section in the URL, scroll position in history
+  const historyOptions = resolveScrollHistoryOptions(history)
+  const { scrollToSection } = useScrollHistory({ sections, activeSection, options: historyOptions })
+
+  const activePath: ActiveSectionLevel[] = getSectionPath(sections, activeSection).map((section, depth) => ({
+    id: section.id,
+    depth,
+    progress: getLevelProgress(section, scrollState.progress),
+  }))
+
   const contextValue: SectionContextValue = {
     sections,
     activeSection,
@@ -173,6 +265,11 @@ export const SectionProvider: React.FC<{ children: React.ReactNode }> = ({ child
     getSectionByProgress,
     setActiveSection,
     getNextZIndex,
+    scrollToSection,
+    activePath,
+    getParentSection,
+    getChildSections,
+    addSectionListener,
   }
 
   return (
@@ -190,4 +287,31 @@ export const useSection = () => {
   return context
 }
 
+// Active section id, or null outside a SectionProvider
+export const useActiveSection = (): string | null => {
+  const context = useContext(SectionContext)
+  return context?.activeSection ?? null
+}
+
+// Registered sections, or null outside a SectionProvider
+export const useRegisteredSections = (): Map<string, Section> | null => {
+  const context = useContext(SectionContext)
+  return context?.sections ?? null
+}
+
+// Active section and its ancestors, or an empty path outside a SectionProvider
+export const useActivePath = (): ActiveSectionLevel[] => {
+  const context = useContext(SectionContext)
+  return context?.activePath ?? []
+}
+
+// Id of the enclosing ScrollSection, or null at the top level
+export const useParentSectionId = (): string | null => useContext(SectionParentContext)
+
+// Registered section by id, or null outside a SectionProvider
+export const useSectionById = (sectionId?: string): Section | null => {
+  const context = useContext(SectionContext)
+  return (sectionId && context?.sections.get(sectionId)) || null
+}
+
 export default SectionProvider
\ No newline at end of file
@@ -1,4 +1,5 @@
 import type { MotionValue } from "framer-motion"
+import type { ContrastMode } from "./scroll.types"
 
 /**
  * Configuration for individual celestial arc layers
@@ -32,6 +33,8 @@ export interface SpringConfiguration {
   damping: number
   /** The weight of the animated element (affects acceleration) */
   mass: number
+  /** Speed below which the spring is considered at rest */
+  restSpeed?: number
 }
 
 /**
@@ -71,6 +74,57 @@ export interface ScrollEffects {
   maskOpacity: MotionValue<number>
 }
 
+/**
+ * Values of the scroll-driven background transforms
+ */
+export interface ScrollEffectValues {
+  /** Scale of the whole background */
+  scale: number
+  /** Vertical offset in pixels */
+  y: number
+  /** Overall opacity (0-1) */
+  opacity: number
+  /** Opacity of the dark mask overlay (0-1) */
+  mask: number
+}
+
+/**
+ * Point on the global scroll timeline
+ * Properties left out are interpolated from the neighbouring keyframes that set them
+ */
+export interface ScrollKeyframe extends Partial<ScrollEffectValues> {
+  /** Global scroll progress (0-1) */
+  at: number
+}
+
+/**
+ * Adjustments applied while a section is active, on top of the progress timeline
+ */
+export interface SectionChoreography {
+  /** Multiplies the timeline scale (e.g. 1.1 zooms in) */
+  scale?: number
+  /** Added to the timeline offset in pixels */
+  y?: number
+  /** Multiplies the timeline opacity */
+  opacity?: number
+  /** Minimum mask opacity */
+  mask?: number
+  /** Color washed over the background (any CSS color) */
+  tint?: string
+  /** Opacity of the tint (defaults to 0.25) */
+  tintOpacity?: number
+}
+
+/**
+ * Declarative scroll choreography for the background
+ */
+export interface EtherealScrollChoreography {
+  /** Timeline keyed by global scroll progress */
+  keyframes: ScrollKeyframe[]
+  /** Adjustments keyed by SectionProvider section id */
+  sections: Record<string, SectionChoreography>
+}
+
 /**
  * Mouse-based animation values
  * Controls how the background responds to cursor movement
@@ -112,6 +166,10 @@ export interface EtherealColors {
   background: string
   /** Overlay mask color */
   maskOverlay: string
+  /** Gradient painted by the cursor-following spotlight */
+  spotlight: string
+  /** Soft glow color that trails the cursor across the whole viewport */
+  glow: string
 }
 
 /**
@@ -125,6 +183,8 @@ export interface EtherealTiming {
   arcDuration: number
   /** Spotlight appearance duration */
   spotlightDuration: number
+  /** Cross-fade duration when switching between configurations */
+  crossfadeDuration: number
   /** Gradient morphing durations (creates organic effect) */
   morphingDurations: {
     /** Outer layer morphing speed */
@@ -136,6 +196,26 @@ export interface EtherealTiming {
   }
 }
 
+/**
+ * Color space used when interpolating gradient colors
+ * - srgb: plain channel mixing (matches CSS defaults)
+ * - linear-rgb: physically linear light, brighter midpoints
+ * - oklab: perceptually uniform, keeps hue and lightness steady
+ */
+export type ColorSpace = "srgb" | "linear-rgb" | "oklab"
+
+/**
+ * Additional morph state a gradient layer passes through
+ */
+export interface GradientMorphState {
+  /** CSS size values for the ellipse (width, height) */
+  size: [string, string]
+  /** CSS position values for the ellipse center */
+  position: [string, string]
+  /** Color overrides for this state (defaults to the layer colors) */
+  colors?: Partial<GradientLayer["colors"]>
+}
+
 /**
  * Gradient layer definition for organic morphing
  * Each layer morphs between these states continuously
@@ -157,10 +237,328 @@ export interface GradientLayer {
     middle: string
     outer: string
   }
+  /**
+   * Color stop positions in percent (inner, middle, outer, fade-out)
+   * Defaults to [0, 25, 50, 70]
+   */
+  stops?: [number, number, number, number]
+  /** Size of the layer box relative to the arc, in percent (defaults to 200) */
+  extent?: number
+  /** Alpha added to every color stop in the morph state (defaults to 0.05) */
+  morphOpacity?: number
+  /** Extra states visited after `morph` before the cycle returns to `base` */
+  states?: GradientMorphState[]
+  /** Color space used when interpolating between states (defaults to srgb) */
+  colorSpace?: ColorSpace
   /** Animation duration for this layer */
   duration: number
 }
 
+/**
+ * Sources that can drive the parallax/spotlight position
+ */
+export type EtherealInputSource = "pointer" | "touch" | "orientation" | "drift"
+
+/**
+ * Coarse device classes used to pick an input profile
+ */
+export type EtherealDeviceClass = "desktop" | "tablet" | "mobile"
+
+/**
+ * Input behaviour for one device class
+ */
+export interface EtherealInputProfile {
+  /** Enabled input sources */
+  sources: EtherealInputSource[]
+  /** Device tilt in degrees that moves the position from the center to the viewport edge */
+  orientationRange: number
+  /** Seconds without input before the idle drift takes over */
+  idleTimeout: number
+  /** Idle drift path */
+  drift: {
+    /** Angular speed of the path in radians per second */
+    speed: number
+    /** Distance from the center as a fraction of the viewport (0-0.5) */
+    amplitude: number
+  }
+}
+
+/**
+ * Input configuration per device class
+ */
+export type EtherealInputConfig = Record<EtherealDeviceClass, EtherealInputProfile>
+
+/**
+ * How a spotlight mixes with the scene below it
+ */
+export type SpotlightBlendMode =
+  | "normal"
+  | "screen"
+  | "overlay"
+  | "soft-light"
+  | "lighten"
+  | "color-dodge"
+  | "multiply"
+
+/**
+ * What a spotlight follows
+ * - cursor: the input position (pointer, touch, tilt or drift)
+ * - wander: its own slow Lissajous path, independent of input
+ * - section: a point inside a `data-section-id` element, scrolling with it
+ */
+export type SpotlightAnchor =
+  | { type: "cursor" }
+  | { type: "wander"; speed: number; amplitude: number; /** Seconds into the path, so wanderers don't overlap */ phase?: number }
+  | { type: "section"; sectionId: string; /** Fractions of the section box (default 0.5) */ x?: number; y?: number }
+
+/**
+ * Fading copies left behind a moving light
+ */
+export interface SpotlightTrail {
+  /** Number of trailing copies */
+  count: number
+  /** Seconds of movement the trail spans */
+  length: number
+}
+
+/**
+ * A single named light - unset values fall back to the spotlight defaults
+ */
+export interface SpotlightLight {
+  id: string
+  anchor: SpotlightAnchor
+  /** Diameter in pixels */
+  size?: number
+  blur?: string
+  blendMode?: SpotlightBlendMode
+  /** Defaults to `colors.spotlight` */
+  gradient?: string
+  opacity?: number
+  trail?: SpotlightTrail
+}
+
+/**
+ * Ripples spawned by clicks and taps
+ */
+export interface SpotlightPulseConfig {
+  enabled: boolean
+  /** Seconds a ripple takes to expand and fade */
+  duration: number
+  /** Final diameter in pixels */
+  size: number
+  /** Ripples alive at once - the oldest is recycled */
+  maxPulses: number
+  /** Defaults to `colors.spotlight` */
+  gradient?: string
+  blendMode?: SpotlightBlendMode
+}
+
+/**
+ * Spotlight subsystem configuration
+ */
+export interface EtherealSpotlightConfig {
+  /** Default diameter in pixels */
+  size: number
+  /** Default blur filter */
+  blur: string
+  /** Default blend mode */
+  blendMode: SpotlightBlendMode
+  lights: SpotlightLight[]
+  pulse: SpotlightPulseConfig
+}
+
+/**
+ * Scroll-velocity reactive effects
+ * Each range runs from its resting value to its value at `maxVelocity` -
+ * faster scrolling clamps to the end of the range
+ */
+export interface EtherealVelocityEffects {
+  enabled: boolean
+  /** Speeds below this (Lenis pixels per frame) count as resting */
+  threshold: number
+  /** Speed at which every effect reaches the end of its range */
+  maxVelocity: number
+  /** Spring the velocity is smoothed through before it is mapped */
+  smoothing: SpringConfiguration
+  /** Arc scaleY - stretches the arcs along the scroll axis */
+  stretch: [number, number]
+  /** Spotlight brightness multiplier */
+  spotlightBoost: [number, number]
+  /** Arc hue rotation in degrees - reversed when scrolling up */
+  hueShift: [number, number]
+}
+
+/**
+ * Settings every background primitive shares
+ * Primitives stack with the arcs inside ZLayers.BACKGROUND and follow the same
+ * mouse and scroll inputs
+ */
+export interface BackgroundPrimitiveConfig {
+  enabled: boolean
+  /** Stacking order within ZLayers.BACKGROUND (arcs sit at 10-40, the tint at 40) */
+  zIndex: number
+  opacity: number
+  /** Mouse parallax in pixels - negative moves against the pointer like the back arcs */
+  parallaxStrength: number
+  /** Pixels the layer rises across the full scroll range */
+  scrollDepth: number
+}
+
+/**
+ * Seeded field of twinkling stars, split into depth bands
+ */
+export interface StarfieldConfig extends BackgroundPrimitiveConfig {
+  count: number
+  /** Same seed, same sky */
+  seed: number
+  /** Star diameter range in pixels */
+  size: [number, number]
+  color: string
+  /** Depth bands - nearer bands take a larger share of the parallax and scroll depth */
+  layers: number
+  twinkle: {
+    /** Seconds per twinkle cycle, picked per star from this range */
+    duration: [number, number]
+    /** How far a star dims at the bottom of its cycle (0 steady - 1 fully out) */
+    amount: number
+  }
+}
+
+/**
+ * Procedural noise clouds - one fractal noise field per color
+ */
+export interface NebulaConfig extends BackgroundPrimitiveConfig {
+  colors: string[]
+  seed: number
+  /** Noise frequency - smaller values make larger clouds */
+  frequency: number
+  octaves: number
+  /** Noise level below which a cloud is transparent (0-1) */
+  threshold: number
+  blendMode: SpotlightBlendMode
+  drift: {
+    /** Seconds per drift loop */
+    duration: number
+    /** Pixels the clouds wander from their rest position */
+    distance: number
+  }
+}
+
+/**
+ * A single thin elliptical ring
+ */
+export interface OrbitRing {
+  /** Center in percent of the scene */
+  center: [number, number]
+  /** Horizontal and vertical radius in percent of the scene */
+  radius: [number, number]
+  /** Rotation in degrees */
+  tilt: number
+  /** Stroke width in pixels */
+  width: number
+  color: string
+  /** Dash and gap as percentages of the ring's length (unset draws a solid ring) */
+  dash?: [number, number]
+  /** Seconds for the dashes to travel once around (negative reverses, 0 holds still) */
+  period: number
+}
+
+export interface OrbitRingsConfig extends BackgroundPrimitiveConfig {
+  rings: OrbitRing[]
+}
+
+/**
+ * EtherealConfig entries that hold a background primitive
+ */
+export type BackgroundPrimitiveName = "starfield" | "nebula" | "orbitRings"
+
+/**
+ * Props shared by the background primitive components
+ */
+export interface BackgroundPrimitiveProps<T extends BackgroundPrimitiveConfig> extends MouseTrackingProps {
+  config: T
+  /** Scroll progress (0-1) driving `scrollDepth` */
+  scrollProgress?: MotionValue<number>
+  spring?: SpringConfiguration
+  /** Holds the layer still - no twinkle, drift or parallax */
+  prefersReducedMotion?: boolean
+  /** Filters and blend modes (off falls back to the cheap version or nothing) */
+  effects?: boolean
+  /** Scroll-linked movement */
+  scrollEffects?: boolean
+  /** Size mouse coordinates are relative to (defaults to the viewport) */
+  bounds?: { width: number; height: number }
+}
+
+/**
+ * What one quality tier can afford
+ */
+export interface QualityTier {
+  name: string
+  /** Gradient morph loops on the arcs */
+  morph: boolean
+  /** Number of arcs drawn, from the start of `arcConfigurations` (unset draws all) */
+  maxArcs?: number
+  /** Blur filters and blend modes */
+  effects: boolean
+  /** Spotlights follow input - off freezes them where they are */
+  spotlight: boolean
+  /** Scroll-linked transforms (ParallaxLayer offsets, ScrollTrigger animations) */
+  scrollEffects: boolean
+}
+
+/**
+ * Quality governor - tiers from best to cheapest, and when to move between them
+ * Separate thresholds and hold times keep it from flapping around one frame rate
+ */
+export interface QualityConfig {
+  tiers: QualityTier[]
+  /** Sustained FPS below this steps down a tier */
+  downgradeFps: number
+  /** Sustained FPS at or above this steps back up */
+  upgradeFps: number
+  /** Consecutive low samples (one per second) before stepping down */
+  downgradeAfter: number
+  /** Consecutive good samples before stepping up */
+  upgradeAfter: number
+  /** Samples ignored after a change while the frame rate settles */
+  cooldown: number
+}
+
+/**
+ * Where animation time comes from
+ * - real: wall-clock time since mount
+ * - paused: stands still at `time`
+ * - fixed-step: starts at `time` and advances exactly `step` seconds per frame
+ * - seeded: stands still at `time`, offset into the morph loops by an epoch derived from `seed`
+ */
+export type AnimationClockMode = "real" | "paused" | "fixed-step" | "seeded"
+
+export interface AnimationClockOptions {
+  mode: AnimationClockMode
+  /** Seconds to start (or stand still) at (default 0) */
+  time?: number
+  /** Seconds per frame in fixed-step mode (default 1/60) */
+  step?: number
+  /** Seed for the seeded mode's epoch (default 1) */
+  seed?: number
+}
+
+/**
+ * Colors the background morphs toward for a contrast mode
+ * Anything left out keeps the configuration's own value
+ */
+export interface EtherealPalette {
+  colors?: Partial<EtherealColors>
+  /** Replacement colors per gradient layer (same order as `gradientLayers`) */
+  layers?: GradientLayer["colors"][]
+}
+
+/**
+ * Palettes per ContrastProvider mode (a missing mode uses the base colors)
+ */
+export type EtherealContrastPalettes = Partial<Record<ContrastMode, EtherealPalette>>
+
 /**
  * Complete ethereal system configuration
  * Allows for easy customization while preserving the organic effect
@@ -179,4 +577,25 @@ export interface EtherealConfig {
   timing: EtherealTiming
   /** Gradient layer definitions */
   gradientLayers: GradientLayer[]
-}
\ No newline at end of file
+  /** Input sources per device class */
+  input: EtherealInputConfig
+  /** Scroll-driven transforms, by progress and by active section */
+  scrollChoreography: EtherealScrollChoreography
+  /** Palettes applied when ContrastProvider switches mode */
+  contrastPalettes: EtherealContrastPalettes
+  /** Lights, trails and click pulses */
+  spotlight: EtherealSpotlightConfig
+  /** Stretch, spotlight boost and hue shift driven by scroll speed */
+  velocityEffects: EtherealVelocityEffects
+  /** Twinkling parallax starfield */
+  starfield: StarfieldConfig
+  /** Procedural noise clouds */
+  nebula: NebulaConfig
+  /** Thin orbit rings */
+  orbitRings: OrbitRingsConfig
+}
+
+/**
+ * Names of the presets shipped with the ethereal system
+ */
+export type EtherealPresetName = "cosmic-blue" | "aurora" | "ember"
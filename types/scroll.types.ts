@@ -16,6 +16,26 @@ export interface Section {
   contrast: ContrastMode;    // Light/dark mode for this section
   isActive: boolean;         // Current section state
   element?: HTMLElement;     // DOM reference
+  parentId?: string;         // Enclosing section (nested ScrollSections)
+}
+
+export interface SectionEvent {
+  type: 'enter' | 'leave';
+  target: string;            // Section entered or left
+  currentTarget: string;     // Section whose handler is running - an ancestor once bubbled
+  path: string[];            // Target's ancestry, outermost first (target last)
+  stopPropagation: () => void;
+}
+
+export interface SectionListeners {
+  onEnter?: (event: SectionEvent) => void;
+  onLeave?: (event: SectionEvent) => void;
+}
+
+export interface ActiveSectionLevel {
+  id: string;
+  depth: number;             // 0 for top-level sections
+  progress: number;          // 0-1 through this section's own range
 }
 
 export interface Animation {
@@ -55,15 +75,153 @@ export interface LenisInstance {
   stop: () => void;
 }
 
+export type SnapMode = 'mandatory' | 'proximity';
+
+// Section boundaries page with the keyboard; named points only snap
+export type SnapPointKind = 'section' | 'point';
+
+export interface SnapPoint {
+  id: string;
+  kind: SnapPointKind;
+  offset: number;            // Scroll position in pixels
+}
+
+export interface SnapPointSource {
+  id: string;
+  kind: SnapPointKind;
+  getOffset: (scroll: number) => number | null; // null while it can't be measured
+}
+
+export interface ScrollSnapOptions {
+  enabled: boolean;
+  mode: SnapMode;            // mandatory always settles on a point, proximity only near one
+  targets: 'sections' | 'points' | 'both';
+  proximity: number;         // Snap distance in viewport heights (proximity mode)
+  velocityThreshold: number; // Flings faster than this carry on to the next point
+  delay: number;             // Seconds at rest before snapping
+  duration: number;          // Snap animation seconds
+  keyboard: boolean;         // PageUp/PageDown/Space/Home/End page between sections
+}
+
+export type PagingAction = 'next' | 'previous' | 'first' | 'last';
+
+export interface ScrollHistoryOptions {
+  hash: boolean;             // Mirror the active section in the URL hash
+  restore: boolean;          // Restore the scroll position on reload and back/forward
+  deepLink: boolean;         // Scroll to an incoming #section-id once it's registered
+}
+
+export type ScrollOrientation = 'vertical' | 'horizontal';
+
+export type GestureOrientation = ScrollOrientation | 'both';
+
+// Scroll distance a pin holds for: pixels, viewport lengths ('150vh') or the pinned element's own length ('50%')
+export type PinDistance = number | `${number}px` | `${number}vh` | `${number}%`;
+
+export type PinPhase = 'before' | 'pinned' | 'after';
+
+export interface PinState {
+  phase: PinPhase;
+  progress: number;          // 0-1 through the pinned distance
+  offset: number;            // Pixels the element is held back by
+}
+
+export interface ScrollContainerProps {
+  children: React.ReactNode;
+  orientation?: ScrollOrientation;        // Axis the container scrolls along
+  gestureOrientation?: GestureOrientation; // Wheel axes it listens to ('both' maps vertical wheels sideways)
+  lerp?: number;
+  duration?: number;
+  handOff?: boolean;                      // Pass wheel deltas to the parent scroller at either end
+  className?: string;
+  contentClassName?: string;
+  style?: React.CSSProperties;
+}
+
+export interface ScrollSample {
+  t: number;                 // ms since recording started
+  scroll: number;            // Scroll offset (px)
+  progress: number;          // 0-1 total scroll progress
+  velocity: number;
+  direction: 'up' | 'down';
+  activeSection: string;
+}
+
+export type ScrollInputType = 'wheel' | 'touchstart' | 'touchmove' | 'touchend' | 'keydown' | 'pointerdown';
+
+export interface ScrollInputEvent {
+  t: number;                 // ms since recording started
+  type: ScrollInputType;
+  deltaX?: number;           // Wheel
+  deltaY?: number;
+  key?: string;              // Keyboard
+  x?: number;                // Touch / pointer position
+  y?: number;
+}
+
+export interface ScrollRecording {
+  version: number;
+  createdAt: string;         // ISO date
+  viewport: { width: number; height: number };
+  limit: number;             // Max scroll when recorded - replays rescale to the current one
+  duration: number;          // ms
+  samples: ScrollSample[];
+  events: ScrollInputEvent[];
+}
+
+export type ScrollRecorderStatus = 'idle' | 'recording' | 'replaying';
+
+export interface ScrollReplayOptions {
+  speed?: number;            // Playback rate (default 1)
+}
+
+export interface ScrollRecorderControls {
+  status: ScrollRecorderStatus;
+  start: () => void;
+  stop: () => ScrollRecording | null;           // Null when nothing was being recorded
+  replay: (recording: ScrollRecording | string, options?: ScrollReplayOptions) => Promise<void>; // Resolves when playback ends
+  stopReplay: () => void;
+}
+
+export type AutoplayStatus = 'stopped' | 'playing' | 'paused' | 'interrupted';
+
+export interface TourStepOptions {
+  dwell?: number;                         // ms to stay on the section
+  duration?: number;                      // Seconds to scroll to it
+  easing?: (t: number) => number;
+  pause?: boolean;                        // Wait here until play() is called again
+  skip?: boolean;                         // Leave the section out of the tour
+}
+
+export interface TourStep {
+  id: string;                             // Section id
+  dwell: number;
+  duration: number;
+  easing: (t: number) => number;
+  pause: boolean;
+}
+
+export interface AutoplayOptions {
+  dwell: number;                          // ms on each section
+  duration: number;                       // Seconds to scroll between sections
+  easing: (t: number) => number;
+  loop: boolean;                          // Back to the first section after the last
+  resumeAfter: number;                    // ms without input before an interrupted tour resumes (0: pause instead)
+  autoStart: boolean;                     // Play as soon as sections have registered
+  steps: Record<string, TourStepOptions>; // Per-section overrides, by section id
+}
+
 export interface ScrollProviderProps {
   children: React.ReactNode;
+  snap?: Partial<ScrollSnapOptions>;
+  recorder?: boolean;                     // Scroll recording / replay, also exposed on window for e2e tests
   options?: {
     smooth: boolean;
     lerp: number;
     duration: number;
     easing: (t: number) => number;
-    direction: 'vertical' | 'horizontal';
-    gestureDirection: 'vertical' | 'horizontal' | 'both';
+    direction: ScrollOrientation;
+    gestureDirection: GestureOrientation;
     smoothTouch: boolean;
     touchMultiplier: number;
   };